@@ -1,5 +1,9 @@
+import { ReactNode } from 'react';
 import { useAuth } from './contexts/AuthContext';
+import { useRouter } from './contexts/RouterContext';
 import Layout from './components/Layout';
+import { Redirect } from './components/Link';
+import { getRedirectTarget, loginRedirectPath, matchPath, paths, RouteParams } from './lib/router';
 import LoginPage from './pages/LoginPage';
 import SignupPage from './pages/SignupPage';
 import FeedPage from './pages/FeedPage';
@@ -8,9 +12,46 @@ import EditProfilePage from './pages/EditProfilePage';
 import ExplorePage from './pages/ExplorePage';
 import NotificationsPage from './pages/NotificationsPage';
 import MessagesPage from './pages/MessagesPage';
+import PostPage from './pages/PostPage';
+import TagPage from './pages/TagPage';
+import BookmarksPage from './pages/BookmarksPage';
+import NotFoundPage from './pages/NotFoundPage';
+
+interface AppRoute {
+  render: (pathname: string) => ReactNode | null;
+}
+
+const route = <Path extends string>(path: Path, render: (params: RouteParams<Path>) => ReactNode): AppRoute => ({
+  render: (pathname) => {
+    const params = matchPath(path, pathname);
+    return params ? render(params) : null;
+  },
+});
+
+// Order matters: static segments must come before the params that would shadow them.
+const protectedRoutes: AppRoute[] = [
+  route(paths.feed, () => <FeedPage />),
+  route(paths.explore, () => <ExplorePage />),
+  route(paths.notifications, () => <NotificationsPage />),
+  route(paths.messages, () => <MessagesPage />),
+  route(paths.bookmarks, () => <BookmarksPage />),
+  route(paths.editProfile, () => <EditProfilePage />),
+  route(paths.profile, ({ username }) => <ProfilePage username={username} />),
+  route(paths.post, ({ id }) => <PostPage id={id} />),
+  route(paths.tag, ({ name }) => <TagPage name={name} />),
+];
+
+const renderRoute = (routes: AppRoute[], pathname: string) => {
+  for (const { render } of routes) {
+    const element = render(pathname);
+    if (element) return element;
+  }
+  return null;
+};
 
 function App() {
   const { user, loading } = useAuth();
+  const { location } = useRouter();
 
   if (loading) {
     return (
@@ -20,25 +61,26 @@ function App() {
     );
   }
 
-  const path = window.location.pathname;
+  const { pathname, search } = location;
+  const isAuthPage = pathname === paths.login || pathname === paths.signup;
 
   if (!user) {
-    if (path === '/signup') {
+    if (pathname === paths.signup) {
       return <SignupPage />;
     }
-    return <LoginPage />;
+    if (pathname === paths.login) {
+      return <LoginPage />;
+    }
+    return <Redirect to={loginRedirectPath(pathname + search)} />;
+  }
+
+  if (isAuthPage) {
+    return <Redirect to={getRedirectTarget(search)} />;
   }
 
   return (
     <Layout>
-      {path === '/' && <FeedPage />}
-      {path === '/explore' && <ExplorePage />}
-      {path === '/notifications' && <NotificationsPage />}
-      {path === '/messages' && <MessagesPage />}
-      {path === '/profile/edit' && <EditProfilePage />}
-      {path.startsWith('/profile/') && path !== '/profile/edit' && (
-        <ProfilePage username={path.split('/profile/')[1]} />
-      )}
+      {renderRoute(protectedRoutes, pathname) ?? <NotFoundPage />}
     </Layout>
   );
 }
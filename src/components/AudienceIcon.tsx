@@ -0,0 +1,18 @@
+import { AtSign, Globe, Users } from 'lucide-react';
+import type { PostVisibility } from '../lib/visibility';
+
+interface AudienceIconProps {
+  visibility: PostVisibility;
+  className?: string;
+}
+
+export default function AudienceIcon({ visibility, className = 'w-4 h-4' }: AudienceIconProps) {
+  switch (visibility) {
+    case 'followers':
+      return <Users className={className} />;
+    case 'mentioned':
+      return <AtSign className={className} />;
+    default:
+      return <Globe className={className} />;
+  }
+}
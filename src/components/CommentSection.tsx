@@ -1,70 +1,72 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { supabase } from '../lib/supabase';
+import { listComments, type CommentWithAuthor } from '../lib/api';
+import { addComment, removeComment, setCommentCount } from '../lib/actions';
+import { onOutboxDelivered, useOutbox } from '../lib/outbox';
 import { Send, MoreHorizontal, Trash2 } from 'lucide-react';
-import type { Database } from '../lib/database.types';
-
-type Profile = Database['public']['Tables']['profiles']['Row'];
-type Comment = Database['public']['Tables']['comments']['Row'] & {
-  profiles: Profile;
-};
+import { profilePath } from '../lib/router';
+import Link from './Link';
+import MentionField from './MentionField';
+import OutboxItemStatus from './OutboxItemStatus';
+import RichText from './RichText';
 
 interface CommentSectionProps {
   postId: string;
-  postOwnerId: string;
-  onUpdate: () => void;
 }
 
-export default function CommentSection({ postId, postOwnerId, onUpdate }: CommentSectionProps) {
+export default function CommentSection({ postId }: CommentSectionProps) {
   const { user, profile } = useAuth();
-  const [comments, setComments] = useState<Comment[]>([]);
+  const [comments, setComments] = useState<CommentWithAuthor[]>([]);
   const [newComment, setNewComment] = useState('');
   const [loading, setLoading] = useState(false);
   const [showMenuId, setShowMenuId] = useState<string | null>(null);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const scrolledToLinked = useRef(false);
+  const pendingEntries = useOutbox('comment').filter((entry) => entry.row.post_id === postId);
 
   useEffect(() => {
     loadComments();
   }, [postId]);
 
+  useEffect(() => onOutboxDelivered((entry) => {
+    if (entry.kind === 'comment' && entry.row.post_id === postId) loadComments();
+  }), [postId]);
+
+  // Notifications link to a comment as `#comment-<id>`; bring it into view once it has loaded.
+  useEffect(() => {
+    const linkedId = window.location.hash.match(/^#comment-(.+)$/)?.[1];
+    if (scrolledToLinked.current || !linkedId || !comments.some((comment) => comment.id === linkedId)) return;
+
+    scrolledToLinked.current = true;
+    setHighlightedId(linkedId);
+    document.getElementById(`comment-${linkedId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [comments]);
+
   const loadComments = async () => {
-    const { data } = await supabase
-      .from('comments')
-      .select(`
-        *,
-        profiles(*)
-      `)
-      .eq('post_id', postId)
-      .is('parent_id', null)
-      .order('created_at', { ascending: true });
-
-    setComments(data || []);
+    const { data, error } = await listComments(postId);
+
+    if (error) {
+      console.error('Error loading comments:', error);
+      return;
+    }
+
+    setComments(data);
+    setCommentCount(postId, data.length);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user || !newComment.trim()) return;
 
-    setLoading(true);
+    const content = newComment.trim();
 
-    const { error } = await supabase.from('comments').insert({
-      user_id: user.id,
-      post_id: postId,
-      content: newComment.trim(),
-    });
+    setLoading(true);
 
-    if (!error) {
+    try {
+      await addComment(postId, user.id, content);
       setNewComment('');
-      await loadComments();
-      onUpdate();
-
-      if (user.id !== postOwnerId) {
-        await supabase.from('notifications').insert({
-          user_id: postOwnerId,
-          actor_id: user.id,
-          type: 'comment',
-          post_id: postId,
-        });
-      }
+    } catch (error) {
+      console.error('Error creating comment:', error);
     }
 
     setLoading(false);
@@ -73,11 +75,34 @@ export default function CommentSection({ postId, postOwnerId, onUpdate }: Commen
   const handleDelete = async (commentId: string) => {
     if (!confirm('Are you sure you want to delete this comment?')) return;
 
-    await supabase.from('comments').delete().eq('id', commentId);
-    await loadComments();
-    onUpdate();
+    const removed = comments.find((comment) => comment.id === commentId);
+    setComments((prev) => prev.filter((comment) => comment.id !== commentId));
+
+    const { error } = await removeComment(postId, commentId);
+
+    if (error && removed) {
+      setComments((prev) =>
+        [...prev, removed].sort((a, b) => a.created_at.localeCompare(b.created_at))
+      );
+    }
   };
 
+  // Queued comments render like delivered ones, authored by the viewer.
+  const pendingComments: CommentWithAuthor[] = profile
+    ? pendingEntries.map((entry) => ({
+        id: entry.id,
+        user_id: entry.row.user_id,
+        post_id: postId,
+        parent_id: null,
+        content: entry.row.content,
+        created_at: entry.queuedAt,
+        updated_at: entry.queuedAt,
+        is_edited: false,
+        profiles: profile,
+      }))
+    : [];
+  const pendingById = new Map(pendingEntries.map((entry) => [entry.id, entry]));
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     const now = new Date();
@@ -96,9 +121,16 @@ export default function CommentSection({ postId, postOwnerId, onUpdate }: Commen
   return (
     <div className="space-y-4">
       <div className="space-y-3">
-        {comments.map((comment) => (
-          <div key={comment.id} className="flex gap-3">
-            <a href={`/profile/${comment.profiles.username}`}>
+        {[...comments, ...pendingComments].map((comment) => {
+          const pending = pendingById.get(comment.id);
+
+          return (
+          <div
+            key={comment.id}
+            id={`comment-${comment.id}`}
+            className={`flex gap-3 ${pending?.status === 'pending' ? 'opacity-60' : ''}`}
+          >
+            <Link to={profilePath(comment.profiles.username)}>
               <div
                 className="w-8 h-8 rounded-full bg-gray-300 flex items-center justify-center text-sm font-bold text-white flex-shrink-0"
                 style={{
@@ -109,9 +141,13 @@ export default function CommentSection({ postId, postOwnerId, onUpdate }: Commen
               >
                 {!comment.profiles.avatar_url && comment.profiles.username.charAt(0).toUpperCase()}
               </div>
-            </a>
-            <div className="flex-1 bg-gray-50 rounded-lg p-3 relative">
-              {user?.id === comment.user_id && (
+            </Link>
+            <div
+              className={`flex-1 rounded-lg p-3 relative ${
+                highlightedId === comment.id ? 'bg-blue-50 ring-2 ring-blue-200' : 'bg-gray-50'
+              }`}
+            >
+              {user?.id === comment.user_id && !pending && (
                 <div className="absolute top-2 right-2">
                   <button
                     onClick={() => setShowMenuId(showMenuId === comment.id ? null : comment.id)}
@@ -137,16 +173,21 @@ export default function CommentSection({ postId, postOwnerId, onUpdate }: Commen
                 </div>
               )}
 
-              <a href={`/profile/${comment.profiles.username}`} className="hover:underline">
+              <Link to={profilePath(comment.profiles.username)} className="hover:underline">
                 <p className="font-semibold text-sm text-gray-900">
                   {comment.profiles.full_name || comment.profiles.username}
                 </p>
-              </a>
-              <p className="text-sm text-gray-800 mt-1 break-words">{comment.content}</p>
-              <p className="text-xs text-gray-500 mt-2">{formatDate(comment.created_at)}</p>
+              </Link>
+              <RichText text={comment.content} className="text-sm text-gray-800 mt-1" />
+              {pending ? (
+                <OutboxItemStatus entry={pending} className="mt-2" />
+              ) : (
+                <p className="text-xs text-gray-500 mt-2">{formatDate(comment.created_at)}</p>
+              )}
             </div>
           </div>
-        ))}
+          );
+        })}
       </div>
 
       {user && (
@@ -162,13 +203,13 @@ export default function CommentSection({ postId, postOwnerId, onUpdate }: Commen
             {(profile?.username || user.email?.split('@')[0] || 'U').charAt(0).toUpperCase()}
           </div>
           <div className="flex-1 flex gap-2">
-            <input
-              type="text"
+            <MentionField
               value={newComment}
-              onChange={(e) => setNewComment(e.target.value)}
+              onChange={setNewComment}
               placeholder="Write a comment..."
               maxLength={2000}
-              className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+              containerClassName="flex-1"
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
             />
             <button
               type="submit"
@@ -1,52 +1,97 @@
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { supabase } from '../lib/supabase';
-import { Image, X } from 'lucide-react';
+import type { PollDraft } from '../lib/api';
+import { earliestPublishAt, formatPublishAt, fromDateTimeLocal, toDateTimeLocal, useComposerDraft } from '../lib/drafts';
+import { useLinkPreview } from '../lib/linkPreview';
+import { extractMentions } from '../lib/mentions';
+import { enqueue } from '../lib/outbox';
+import { DEFAULT_POLL_DURATION_MINUTES, POLL_MIN_OPTIONS } from '../lib/polls';
+import { ACCEPTED_MEDIA_TYPES, formatDuration, useMediaUploads } from '../lib/uploads';
+import { POST_VISIBILITIES, visibilityOption, type PostVisibility } from '../lib/visibility';
+import { AlertCircle, BarChart2, CalendarClock, FileText, Image, Loader2, X } from 'lucide-react';
+import AudienceIcon from './AudienceIcon';
+import DraftsDialog from './DraftsDialog';
+import LinkPreviewCard from './LinkPreviewCard';
+import MentionField from './MentionField';
+import PollComposer from './PollComposer';
 
-interface CreatePostProps {
-  onPostCreated: () => void;
-}
+const emptyPoll = (): PollDraft => ({
+  options: Array(POLL_MIN_OPTIONS).fill(''),
+  duration_minutes: DEFAULT_POLL_DURATION_MINUTES,
+});
 
-export default function CreatePost({ onPostCreated }: CreatePostProps) {
+// Posts go through the outbox, so the form clears immediately and the post
+// shows up as pending until it is delivered. Photos and videos are uploaded as
+// soon as they're picked, so only their media items wait in the outbox. The
+// text is autosaved as a draft until it's posted.
+export default function CreatePost() {
   const { user, profile } = useAuth();
-  const [content, setContent] = useState('');
-  const [mediaUrls, setMediaUrls] = useState<string[]>([]);
-  const [mediaInput, setMediaInput] = useState('');
+  const draft = useComposerDraft(user?.id);
+  const { content, setContent } = draft;
   const [loading, setLoading] = useState(false);
-  const [showMediaInput, setShowMediaInput] = useState(false);
+  const [dragging, setDragging] = useState(false);
+  const [mediaNotice, setMediaNotice] = useState('');
+  const [poll, setPoll] = useState<PollDraft | null>(null);
+  // A `datetime-local` value while scheduling, otherwise null.
+  const [publishAt, setPublishAt] = useState<string | null>(null);
+  const [scheduledNotice, setScheduledNotice] = useState('');
+  const [showDrafts, setShowDrafts] = useState(false);
+  // Not reset after posting: the next post likely has the same audience.
+  const [visibility, setVisibility] = useState<PostVisibility>('public');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const media = useMediaUploads(user?.id);
+  const linkPreview = useLinkPreview(content);
+
+  const pollIncomplete = !!poll && poll.options.some((option) => !option.trim());
+  const publishAtIso = publishAt === null ? null : fromDateTimeLocal(publishAt);
+  const scheduleInvalid = publishAt !== null && (!publishAtIso || Date.parse(publishAtIso) <= Date.now());
+  const nobodyMentioned = visibility === 'mentioned' && !!content.trim() && extractMentions(content).length === 0;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!user || !content.trim()) return;
+    if (!user || !content.trim() || media.busy || pollIncomplete || scheduleInvalid) return;
 
     setLoading(true);
 
-    const { error } = await supabase.from('posts').insert({
-      user_id: user.id,
-      content: content.trim(),
-      media_urls: mediaUrls,
-    });
-
-    if (!error) {
-      setContent('');
-      setMediaUrls([]);
-      setMediaInput('');
-      setShowMediaInput(false);
-      onPostCreated();
+    try {
+      await enqueue('post', {
+        user_id: user.id,
+        content: content.trim(),
+        media: media.items,
+        link_preview_id: linkPreview.preview?.id ?? null,
+        poll: poll ? { ...poll, options: poll.options.map((option) => option.trim()) } : undefined,
+        publish_at: publishAtIso,
+        visibility,
+      });
+
+      draft.discard();
+      setMediaNotice('');
+      setScheduledNotice(publishAtIso ? `Scheduled for ${formatPublishAt(publishAtIso)}.` : '');
+      setPoll(null);
+      setPublishAt(null);
+      media.clear();
+      linkPreview.reset();
+    } catch (error) {
+      console.error('Error creating post:', error);
     }
 
     setLoading(false);
   };
 
-  const addMediaUrl = () => {
-    if (mediaInput.trim() && mediaUrls.length < 4) {
-      setMediaUrls([...mediaUrls, mediaInput.trim()]);
-      setMediaInput('');
-    }
+  const addFiles = (files: File[]) => {
+    setMediaNotice(media.addFiles(files).join(' '));
   };
 
-  const removeMediaUrl = (index: number) => {
-    setMediaUrls(mediaUrls.filter((_, i) => i !== index));
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setDragging(true);
   };
 
   if (!user) return null;
@@ -54,7 +99,14 @@ export default function CreatePost({ onPostCreated }: CreatePostProps) {
   const username = profile?.username || user.email?.split('@')[0] || 'user';
 
   return (
-    <div className="bg-white rounded-lg shadow-sm p-6">
+    <div
+      className={`bg-white rounded-lg shadow-sm p-6 transition ${dragging ? 'ring-2 ring-blue-500 ring-offset-2' : ''}`}
+      onDragOver={handleDragOver}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDragging(false);
+      }}
+      onDrop={handleDrop}
+    >
       <form onSubmit={handleSubmit}>
         <div className="flex gap-3">
           <div
@@ -69,30 +121,70 @@ export default function CreatePost({ onPostCreated }: CreatePostProps) {
           </div>
 
           <div className="flex-1">
-            <textarea
+            <MentionField
+              multiline
               value={content}
-              onChange={(e) => setContent(e.target.value)}
+              onChange={(value) => {
+                setContent(value);
+                setScheduledNotice('');
+              }}
               placeholder="What's on your mind?"
               rows={3}
               maxLength={5000}
               className="w-full px-0 py-2 text-lg border-0 focus:ring-0 outline-none resize-none"
             />
 
-            {mediaUrls.length > 0 && (
+            {media.uploads.length > 0 && (
               <div className="grid grid-cols-2 gap-2 mt-3">
-                {mediaUrls.map((url, index) => (
-                  <div key={index} className="relative group">
-                    <img
-                      src={url}
-                      alt=""
-                      className="w-full h-40 object-cover rounded-lg"
-                      onError={(e) => {
-                        e.currentTarget.style.display = 'none';
-                      }}
-                    />
+                {media.uploads.map((upload) => (
+                  <div key={upload.id} className="relative group">
+                    {upload.type === 'video' ? (
+                      <video
+                        src={upload.previewUrl}
+                        muted
+                        playsInline
+                        preload="metadata"
+                        className={`w-full h-40 object-cover rounded-lg bg-black ${upload.status === 'done' ? '' : 'opacity-60'}`}
+                      />
+                    ) : (
+                      <img
+                        src={upload.previewUrl}
+                        alt=""
+                        className={`w-full h-40 object-cover rounded-lg ${upload.status === 'done' ? '' : 'opacity-60'}`}
+                      />
+                    )}
+
+                    {upload.type !== 'image' && upload.status !== 'failed' && (
+                      <span className="absolute left-2 top-2 px-1.5 py-0.5 rounded bg-gray-900 bg-opacity-75 text-xs font-semibold text-white">
+                        {upload.type === 'gif' ? 'GIF' : formatDuration(upload.item?.duration) || 'Video'}
+                      </span>
+                    )}
+
+                    {(upload.status === 'processing' || upload.status === 'uploading') && (
+                      <div className="absolute inset-x-3 bottom-3">
+                        <div className="h-1.5 bg-white bg-opacity-75 rounded-full overflow-hidden">
+                          <div
+                            className="h-full bg-blue-600 transition-all"
+                            style={{ width: `${Math.round(upload.progress * 100)}%` }}
+                          />
+                        </div>
+                      </div>
+                    )}
+
+                    {upload.status === 'processing' && (
+                      <Loader2 className="absolute inset-0 m-auto w-6 h-6 text-white animate-spin" />
+                    )}
+
+                    {upload.status === 'failed' && (
+                      <div className="absolute inset-0 flex flex-col items-center justify-center gap-1 px-3 rounded-lg bg-red-900 bg-opacity-60 text-center text-sm text-white">
+                        <AlertCircle className="w-4 h-4" />
+                        {upload.error ?? 'Upload failed'}
+                      </div>
+                    )}
+
                     <button
                       type="button"
-                      onClick={() => removeMediaUrl(index)}
+                      onClick={() => media.remove(upload.id)}
                       className="absolute top-2 right-2 p-1 bg-gray-900 bg-opacity-75 rounded-full text-white opacity-0 group-hover:opacity-100 transition"
                     >
                       <X className="w-4 h-4" />
@@ -102,58 +194,147 @@ export default function CreatePost({ onPostCreated }: CreatePostProps) {
               </div>
             )}
 
-            {showMediaInput && (
-              <div className="mt-3 flex gap-2">
+            {linkPreview.preview && (
+              <LinkPreviewCard preview={linkPreview.preview} onRemove={linkPreview.dismiss} className="mt-3" />
+            )}
+
+            {linkPreview.loading && (
+              <p className="mt-3 flex items-center gap-2 text-sm text-gray-500">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Loading link preview...
+              </p>
+            )}
+
+            {dragging && media.uploads.length === 0 && (
+              <div className="mt-3 py-8 border-2 border-dashed border-blue-300 rounded-lg text-center text-sm text-blue-600">
+                Drop photos or videos to add them
+              </div>
+            )}
+
+            {mediaNotice && <p className="mt-2 text-sm text-gray-500">{mediaNotice}</p>}
+
+            {poll && <PollComposer value={poll} onChange={setPoll} onRemove={() => setPoll(null)} />}
+
+            {publishAt !== null && (
+              <div className="flex items-center gap-2 mt-3 text-sm text-gray-600">
+                <CalendarClock className="w-4 h-4" />
+                <label htmlFor="post-publish-at">Publish</label>
                 <input
-                  type="url"
-                  value={mediaInput}
-                  onChange={(e) => setMediaInput(e.target.value)}
-                  placeholder="Paste image URL"
-                  className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
-                  onKeyPress={(e) => {
-                    if (e.key === 'Enter') {
-                      e.preventDefault();
-                      addMediaUrl();
-                    }
-                  }}
+                  id="post-publish-at"
+                  type="datetime-local"
+                  value={publishAt}
+                  min={toDateTimeLocal(new Date())}
+                  onChange={(e) => setPublishAt(e.target.value)}
+                  className="px-2 py-1 border border-gray-300 rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500"
                 />
                 <button
                   type="button"
-                  onClick={addMediaUrl}
-                  className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition"
+                  onClick={() => setPublishAt(null)}
+                  className="p-1 rounded-full text-gray-500 hover:bg-gray-100 transition"
+                  title="Don't schedule"
                 >
-                  Add
+                  <X className="w-4 h-4" />
                 </button>
               </div>
             )}
 
+            {scheduledNotice && <p className="mt-2 text-sm text-gray-500">{scheduledNotice}</p>}
+
+            {nobodyMentioned && (
+              <p className="mt-2 text-sm text-gray-500">Nobody is mentioned yet, so only you would see this post.</p>
+            )}
+
             <div className="flex items-center justify-between mt-4 pt-4 border-t border-gray-100">
-              <button
-                type="button"
-                onClick={() => setShowMediaInput(!showMediaInput)}
-                className="flex items-center gap-2 px-3 py-2 text-blue-600 hover:bg-blue-50 rounded-lg transition"
-                disabled={mediaUrls.length >= 4}
-              >
-                <Image className="w-5 h-5" />
-                <span className="text-sm font-medium">Add Photo</span>
-              </button>
+              <div className="flex items-center gap-1">
+                <button
+                  type="button"
+                  onClick={() => fileInputRef.current?.click()}
+                  className="flex items-center gap-2 px-3 py-2 text-blue-600 hover:bg-blue-50 rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
+                  disabled={media.remaining <= 0}
+                >
+                  <Image className="w-5 h-5" />
+                  <span className="text-sm font-medium">Photo/Video</span>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setPoll(poll ? null : emptyPoll())}
+                  className={`flex items-center gap-2 px-3 py-2 rounded-lg transition ${
+                    poll ? 'text-blue-700 bg-blue-50' : 'text-blue-600 hover:bg-blue-50'
+                  }`}
+                >
+                  <BarChart2 className="w-5 h-5" />
+                  <span className="text-sm font-medium">Poll</span>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setPublishAt(publishAt === null ? toDateTimeLocal(earliestPublishAt()) : null)}
+                  className={`p-2 rounded-lg transition ${
+                    publishAt !== null ? 'text-blue-700 bg-blue-50' : 'text-blue-600 hover:bg-blue-50'
+                  }`}
+                  title="Schedule"
+                >
+                  <CalendarClock className="w-5 h-5" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setShowDrafts(true)}
+                  className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition"
+                  title="Drafts"
+                >
+                  <FileText className="w-5 h-5" />
+                </button>
+                <label
+                  className="flex items-center gap-1 px-2 py-2 text-blue-600 hover:bg-blue-50 rounded-lg transition cursor-pointer"
+                  title={visibilityOption(visibility).description}
+                >
+                  <AudienceIcon visibility={visibility} className="w-5 h-5" />
+                  <select
+                    value={visibility}
+                    onChange={(e) => setVisibility(e.target.value as PostVisibility)}
+                    aria-label="Audience"
+                    className="bg-transparent text-sm font-medium outline-none cursor-pointer"
+                  >
+                    {POST_VISIBILITIES.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={ACCEPTED_MEDIA_TYPES.join(',')}
+                multiple
+                className="hidden"
+                onChange={(e) => {
+                  addFiles(Array.from(e.target.files ?? []));
+                  e.target.value = '';
+                }}
+              />
 
               <div className="flex items-center gap-3">
                 <span className="text-sm text-gray-500">
+                  {draft.saved && 'Draft saved · '}
                   {content.length}/5000
                 </span>
                 <button
                   type="submit"
-                  disabled={loading || !content.trim()}
+                  disabled={loading || !content.trim() || media.busy || pollIncomplete || scheduleInvalid}
                   className="px-6 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                  {loading ? 'Posting...' : 'Post'}
+                  {loading ? 'Posting...' : media.busy ? 'Uploading...' : publishAt !== null ? 'Schedule' : 'Post'}
                 </button>
               </div>
             </div>
           </div>
         </div>
       </form>
+
+      {showDrafts && (
+        <DraftsDialog currentDraftId={draft.id} onOpenDraft={draft.open} onClose={() => setShowDrafts(false)} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,259 @@
+import { useCallback, useEffect, useState } from 'react';
+import { CalendarClock, Edit3, FileText, Trash2, X } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { editScheduledPost, unschedulePost } from '../lib/actions';
+import { deletePostDraft, listPostDrafts, listScheduledPosts, type PostDraft } from '../lib/api';
+import { formatPublishAt, fromDateTimeLocal, isScheduled, toDateTimeLocal } from '../lib/drafts';
+import { ingestPosts, usePost } from '../lib/store';
+import MentionField from './MentionField';
+
+type Tab = 'drafts' | 'scheduled';
+
+interface ScheduledPostItemProps {
+  postId: string;
+}
+
+// Gone from the list once it publishes or is cancelled.
+function ScheduledPostItem({ postId }: ScheduledPostItemProps) {
+  const post = usePost(postId);
+  const [editing, setEditing] = useState(false);
+  const [content, setContent] = useState('');
+  const [publishAt, setPublishAt] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  if (!post || !isScheduled(post)) return null;
+
+  const publishAtIso = fromDateTimeLocal(publishAt);
+  const canSave = !!content.trim() && !!publishAtIso && Date.parse(publishAtIso) > Date.now();
+
+  const handleSave = async () => {
+    if (!publishAtIso || !canSave) return;
+
+    setSaving(true);
+    const result = await editScheduledPost(post.id, content.trim(), publishAtIso);
+    setSaving(false);
+
+    if (result?.error) {
+      setError("Couldn't update the post. Please try again.");
+      return;
+    }
+    setEditing(false);
+  };
+
+  const handleCancelPost = async () => {
+    if (!confirm('Cancel this scheduled post? Its text will be moved to your drafts.')) return;
+    await unschedulePost(post.id);
+  };
+
+  if (editing) {
+    return (
+      <li className="p-4">
+        <MentionField
+          multiline
+          value={content}
+          onChange={setContent}
+          rows={3}
+          maxLength={5000}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none resize-none"
+        />
+        <label className="flex items-center gap-2 mt-2 text-sm text-gray-600">
+          Publish
+          <input
+            type="datetime-local"
+            value={publishAt}
+            min={toDateTimeLocal(new Date())}
+            onChange={(e) => setPublishAt(e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </label>
+        {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+        <div className="flex justify-end gap-2 mt-3">
+          <button
+            onClick={() => setEditing(false)}
+            className="px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 rounded-lg transition"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving || !canSave}
+            className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </li>
+    );
+  }
+
+  return (
+    <li className="flex items-start gap-3 p-4">
+      <div className="flex-1 min-w-0">
+        <p className="flex items-center gap-1 mb-1 text-sm font-medium text-blue-600">
+          <CalendarClock className="w-4 h-4" />
+          {formatPublishAt(post.created_at)}
+        </p>
+        <p className="text-gray-900 whitespace-pre-wrap break-words line-clamp-3">{post.content}</p>
+      </div>
+      <button
+        onClick={() => {
+          setContent(post.content);
+          setPublishAt(toDateTimeLocal(post.created_at));
+          setError('');
+          setEditing(true);
+        }}
+        className="p-2 rounded-full text-gray-500 hover:bg-gray-100 transition"
+        title="Edit"
+      >
+        <Edit3 className="w-4 h-4" />
+      </button>
+      <button
+        onClick={handleCancelPost}
+        className="p-2 rounded-full text-gray-500 hover:bg-red-50 hover:text-red-600 transition"
+        title="Cancel post"
+      >
+        <Trash2 className="w-4 h-4" />
+      </button>
+    </li>
+  );
+}
+
+interface DraftsDialogProps {
+  // The draft open in the composer, left out of the list.
+  currentDraftId: string;
+  onOpenDraft: (draft: PostDraft) => void;
+  onClose: () => void;
+}
+
+// Saved drafts to pick up again, and scheduled posts to edit or cancel
+// before they publish.
+export default function DraftsDialog({ currentDraftId, onOpenDraft, onClose }: DraftsDialogProps) {
+  const { user } = useAuth();
+  const [tab, setTab] = useState<Tab>('drafts');
+  const [drafts, setDrafts] = useState<PostDraft[]>([]);
+  const [scheduledIds, setScheduledIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const userId = user?.id;
+
+  const load = useCallback(async () => {
+    if (!userId) return;
+
+    const [draftsResult, scheduledResult] = await Promise.all([listPostDrafts(userId), listScheduledPosts(userId)]);
+
+    if (draftsResult.error) {
+      console.error('Error loading drafts:', draftsResult.error);
+    } else {
+      setDrafts(draftsResult.data);
+    }
+
+    if (scheduledResult.error) {
+      console.error('Error loading scheduled posts:', scheduledResult.error);
+    } else {
+      ingestPosts(scheduledResult.data);
+      setScheduledIds(scheduledResult.data.map((post) => post.id));
+    }
+
+    setLoading(false);
+  }, [userId]);
+
+  const handleDeleteDraft = async (id: string) => {
+    const { error } = await deletePostDraft(id);
+    if (error) {
+      console.error('Error deleting draft:', error);
+      return;
+    }
+    setDrafts((current) => current.filter((draft) => draft.id !== id));
+  };
+
+  // Reloaded on every switch, as cancelling a scheduled post adds a draft.
+  useEffect(() => {
+    load();
+  }, [tab, load]);
+
+  const savedDrafts = drafts.filter((draft) => draft.id !== currentDraftId);
+
+  const tabClassName = (active: boolean) =>
+    `flex-1 py-3 text-sm font-medium border-b-2 transition ${
+      active ? 'border-blue-600 text-blue-600' : 'border-transparent text-gray-600 hover:text-gray-900'
+    }`;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div role="dialog" aria-label="Drafts" className="bg-white rounded-lg shadow-xl w-full max-w-lg max-h-[80vh] flex flex-col">
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-bold text-gray-900">Drafts</h3>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full transition">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex border-b border-gray-200">
+          <button onClick={() => setTab('drafts')} className={tabClassName(tab === 'drafts')}>
+            Drafts
+          </button>
+          <button onClick={() => setTab('scheduled')} className={tabClassName(tab === 'scheduled')}>
+            Scheduled
+          </button>
+        </div>
+
+        <div className="overflow-y-auto">
+          {loading ? (
+            <div className="p-6 animate-pulse space-y-3">
+              <div className="h-4 bg-gray-200 rounded w-2/3"></div>
+              <div className="h-4 bg-gray-200 rounded"></div>
+            </div>
+          ) : tab === 'drafts' ? (
+            savedDrafts.length === 0 ? (
+              <div className="p-12 text-center">
+                <FileText className="w-10 h-10 text-gray-400 mx-auto mb-3" />
+                <p className="text-gray-600">Text you don't post is saved here</p>
+              </div>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {savedDrafts.map((draft) => (
+                  <li key={draft.id} className="flex items-start gap-3 p-4">
+                    <button
+                      onClick={() => {
+                        onOpenDraft(draft);
+                        onClose();
+                      }}
+                      className="flex-1 min-w-0 text-left"
+                    >
+                      <p className="text-gray-900 whitespace-pre-wrap break-words line-clamp-3">{draft.content}</p>
+                      <p className="mt-1 text-sm text-gray-500">Saved {new Date(draft.updated_at).toLocaleString()}</p>
+                    </button>
+                    <button
+                      onClick={() => handleDeleteDraft(draft.id)}
+                      className="p-2 rounded-full text-gray-500 hover:bg-red-50 hover:text-red-600 transition"
+                      title="Delete draft"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )
+          ) : scheduledIds.length === 0 ? (
+            <div className="p-12 text-center">
+              <CalendarClock className="w-10 h-10 text-gray-400 mx-auto mb-3" />
+              <p className="text-gray-600">Posts you schedule wait here until they publish</p>
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {scheduledIds.map((id) => (
+                <ScheduledPostItem key={id} postId={id} />
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import { useAuth } from '../contexts/AuthContext';
+import { toggleFollow } from '../lib/actions';
+import { useIsFollowing } from '../lib/store';
+
+interface FollowButtonProps {
+  profileId: string;
+}
+
+// Follow/Following toggle for someone other than the viewer. Reads the edge
+// `loadFollowState` put in the store.
+export default function FollowButton({ profileId }: FollowButtonProps) {
+  const { user } = useAuth();
+  const isFollowing = useIsFollowing(user?.id, profileId) ?? false;
+
+  if (!user || user.id === profileId) return null;
+
+  return (
+    <button
+      onClick={() => toggleFollow(user.id, profileId)}
+      className={`px-4 py-2 rounded-lg text-sm font-medium transition ${
+        isFollowing
+          ? 'border border-gray-300 text-gray-700 hover:bg-gray-50'
+          : 'bg-blue-600 text-white hover:bg-blue-700'
+      }`}
+    >
+      {isFollowing ? 'Following' : 'Follow'}
+    </button>
+  );
+}
@@ -0,0 +1,39 @@
+import { useEffect, useRef } from 'react';
+
+interface InfiniteScrollSentinelProps {
+  onVisible: () => void;
+  hasMore: boolean;
+  loading: boolean;
+}
+
+// Calls `onVisible` when scrolled into view (with some lead distance) while more items exist.
+export default function InfiniteScrollSentinel({ onVisible, hasMore, loading }: InfiniteScrollSentinelProps) {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || !hasMore || loading) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onVisible();
+        }
+      },
+      { rootMargin: '400px 0px' }
+    );
+
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [onVisible, hasMore, loading]);
+
+  if (!hasMore && !loading) return null;
+
+  return (
+    <div ref={ref} className="flex justify-center py-6">
+      {loading && (
+        <div className="w-6 h-6 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,12 @@
 import { ReactNode, useEffect, useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
+import { useRouter } from '../contexts/RouterContext';
 import { supabase } from '../lib/supabase';
-import { Home, Search, Bell, MessageCircle, User, LogOut, Menu, X } from 'lucide-react';
+import { countUnreadMessages, countUnreadNotifications, listConversationIds } from '../lib/api';
+import { paths, profilePath } from '../lib/router';
+import { startOutbox } from '../lib/outbox';
+import Link from './Link';
+import { Home, Search, Bell, MessageCircle, User, Bookmark, LogOut, Menu, X } from 'lucide-react';
 
 interface LayoutProps {
   children: ReactNode;
@@ -9,11 +14,20 @@ interface LayoutProps {
 
 export default function Layout({ children }: LayoutProps) {
   const { user, profile, signOut } = useAuth();
+  const { location, navigate } = useRouter();
   const [unreadNotifications, setUnreadNotifications] = useState(0);
   const [unreadMessages, setUnreadMessages] = useState(0);
   const [showMobileMenu, setShowMobileMenu] = useState(false);
   const [showUserMenu, setShowUserMenu] = useState(false);
 
+  // Delivers writes queued while offline, including ones from a previous visit.
+  const userId = user?.id;
+  useEffect(() => {
+    if (userId) {
+      return startOutbox(userId);
+    }
+  }, [userId]);
+
   useEffect(() => {
     if (user) {
       loadUnreadCounts();
@@ -46,29 +60,27 @@ export default function Layout({ children }: LayoutProps) {
   const loadUnreadCounts = async () => {
     if (!user) return;
 
-    const { count: notifCount } = await supabase
-      .from('notifications')
-      .select('*', { count: 'exact', head: true })
-      .eq('user_id', user.id)
-      .eq('is_read', false);
-
-    setUnreadNotifications(notifCount || 0);
-
-    const { data: conversations } = await supabase
-      .from('conversations')
-      .select('id')
-      .or(`user1_id.eq.${user.id},user2_id.eq.${user.id}`);
-
-    if (conversations) {
-      const conversationIds = conversations.map(c => c.id);
-      const { count: msgCount } = await supabase
-        .from('messages')
-        .select('*', { count: 'exact', head: true })
-        .in('conversation_id', conversationIds)
-        .eq('is_read', false)
-        .neq('sender_id', user.id);
-
-      setUnreadMessages(msgCount || 0);
+    const { data: notifCount, error: notifError } = await countUnreadNotifications(user.id);
+
+    if (notifError) {
+      console.error('Error counting notifications:', notifError);
+    } else {
+      setUnreadNotifications(notifCount);
+    }
+
+    const { data: conversationIds, error: conversationsError } = await listConversationIds(user.id);
+
+    if (conversationsError) {
+      console.error('Error loading conversations:', conversationsError);
+      return;
+    }
+
+    const { data: msgCount, error: msgError } = await countUnreadMessages(conversationIds, user.id);
+
+    if (msgError) {
+      console.error('Error counting messages:', msgError);
+    } else {
+      setUnreadMessages(msgCount);
     }
   };
 
@@ -125,32 +137,38 @@ export default function Layout({ children }: LayoutProps) {
   };
 
   const handleSignOut = async () => {
+    setShowUserMenu(false);
+    setShowMobileMenu(false);
     await signOut();
-    window.location.href = '/login';
+    navigate(paths.login, { replace: true });
   };
 
   if (!user) {
     return <>{children}</>;
   }
 
-  const currentPath = window.location.pathname;
+  const currentPath = location.pathname;
   const username = profile?.username || user.email?.split('@')[0] || 'user';
   const displayName = profile?.full_name || username;
 
   const handleNavClick = (href: string) => {
-    if (href === '/notifications') {
+    setShowMobileMenu(false);
+    setShowUserMenu(false);
+
+    if (href === paths.notifications) {
       setUnreadNotifications(0);
-    } else if (href === '/messages') {
+    } else if (href === paths.messages) {
       setUnreadMessages(0);
     }
   };
 
   const navItems = [
-    { href: '/', icon: Home, label: 'Home', active: currentPath === '/' },
-    { href: '/explore', icon: Search, label: 'Explore', active: currentPath === '/explore' },
-    { href: '/notifications', icon: Bell, label: 'Notifications', badge: unreadNotifications, active: currentPath === '/notifications' },
-    { href: '/messages', icon: MessageCircle, label: 'Messages', badge: unreadMessages, active: currentPath === '/messages' },
-    { href: `/profile/${username}`, icon: User, label: 'Profile', active: currentPath === `/profile/${username}` },
+    { href: paths.feed, icon: Home, label: 'Home', active: currentPath === paths.feed },
+    { href: paths.explore, icon: Search, label: 'Explore', active: currentPath === paths.explore },
+    { href: paths.notifications, icon: Bell, label: 'Notifications', badge: unreadNotifications, active: currentPath === paths.notifications },
+    { href: paths.messages, icon: MessageCircle, label: 'Messages', badge: unreadMessages, active: currentPath === paths.messages },
+    { href: profilePath(username), icon: User, label: 'Profile', active: currentPath === profilePath(username) },
+    { href: paths.bookmarks, icon: Bookmark, label: 'Bookmarks', active: currentPath === paths.bookmarks },
   ];
 
   return (
@@ -159,15 +177,15 @@ export default function Layout({ children }: LayoutProps) {
         <div className="max-w-7xl mx-auto px-4">
           <div className="flex items-center justify-between h-16">
             <div className="flex items-center gap-8">
-              <a href="/" className="text-2xl font-bold text-blue-600 hover:text-blue-700 transition">
+              <Link to={paths.feed} className="text-2xl font-bold text-blue-600 hover:text-blue-700 transition">
                 Social
-              </a>
+              </Link>
 
               <div className="hidden md:flex items-center gap-1">
                 {navItems.map((item) => (
-                  <a
+                  <Link
                     key={item.href}
-                    href={item.href}
+                    to={item.href}
                     onClick={() => handleNavClick(item.href)}
                     className={`relative px-4 py-2 rounded-lg font-medium transition flex items-center gap-2 ${
                       item.active
@@ -182,7 +200,7 @@ export default function Layout({ children }: LayoutProps) {
                         {item.badge > 9 ? '9+' : item.badge}
                       </span>
                     )}
-                  </a>
+                  </Link>
                 ))}
               </div>
             </div>
@@ -207,13 +225,14 @@ export default function Layout({ children }: LayoutProps) {
 
                 {showUserMenu && (
                   <div className="absolute right-0 mt-2 w-48 bg-white rounded-lg shadow-lg border border-gray-200 py-2">
-                    <a
-                      href={`/profile/${username}`}
+                    <Link
+                      to={profilePath(username)}
+                      onClick={() => setShowUserMenu(false)}
                       className="block px-4 py-2 hover:bg-gray-50 text-gray-700"
                     >
                       <p className="font-semibold">{displayName}</p>
                       <p className="text-sm text-gray-500">@{username}</p>
-                    </a>
+                    </Link>
                     <hr className="my-2" />
                     <button
                       onClick={handleSignOut}
@@ -240,9 +259,9 @@ export default function Layout({ children }: LayoutProps) {
           <div className="md:hidden border-t border-gray-200 py-2">
             <div className="px-4 space-y-1">
               {navItems.map((item) => (
-                <a
+                <Link
                   key={item.href}
-                  href={item.href}
+                  to={item.href}
                   onClick={() => handleNavClick(item.href)}
                   className={`relative flex items-center gap-3 px-4 py-3 rounded-lg font-medium transition ${
                     item.active
@@ -257,7 +276,7 @@ export default function Layout({ children }: LayoutProps) {
                       {item.badge > 9 ? '9+' : item.badge}
                     </span>
                   )}
-                </a>
+                </Link>
               ))}
               <button
                 onClick={handleSignOut}
@@ -278,9 +297,9 @@ export default function Layout({ children }: LayoutProps) {
       <div className="md:hidden fixed bottom-0 left-0 right-0 bg-white border-t border-gray-200 z-40">
         <div className="flex items-center justify-around py-2">
           {navItems.slice(0, 5).map((item) => (
-            <a
+            <Link
               key={item.href}
-              href={item.href}
+              to={item.href}
               onClick={() => handleNavClick(item.href)}
               className={`relative flex flex-col items-center gap-1 p-2 ${
                 item.active ? 'text-blue-600' : 'text-gray-600'
@@ -292,7 +311,7 @@ export default function Layout({ children }: LayoutProps) {
                   {item.badge > 9 ? '9' : item.badge}
                 </span>
               )}
-            </a>
+            </Link>
           ))}
         </div>
       </div>
@@ -0,0 +1,46 @@
+import { AnchorHTMLAttributes, MouseEvent, useEffect } from 'react';
+import { useRouter } from '../contexts/RouterContext';
+
+interface LinkProps extends Omit<AnchorHTMLAttributes<HTMLAnchorElement>, 'href'> {
+  to: string;
+  replace?: boolean;
+}
+
+export default function Link({ to, replace, onClick, target, children, ...props }: LinkProps) {
+  const { navigate } = useRouter();
+
+  const handleClick = (e: MouseEvent<HTMLAnchorElement>) => {
+    onClick?.(e);
+
+    if (
+      e.defaultPrevented ||
+      e.button !== 0 ||
+      e.metaKey ||
+      e.altKey ||
+      e.ctrlKey ||
+      e.shiftKey ||
+      (target && target !== '_self')
+    ) {
+      return;
+    }
+
+    e.preventDefault();
+    navigate(to, { replace });
+  };
+
+  return (
+    <a href={to} target={target} onClick={handleClick} {...props}>
+      {children}
+    </a>
+  );
+}
+
+export function Redirect({ to }: { to: string }) {
+  const { navigate } = useRouter();
+
+  useEffect(() => {
+    navigate(to, { replace: true });
+  }, [navigate, to]);
+
+  return null;
+}
@@ -0,0 +1,49 @@
+import { X } from 'lucide-react';
+import type { LinkPreview } from '../lib/api';
+
+interface LinkPreviewCardProps {
+  preview: LinkPreview;
+  // Shows a remove button, for the composer.
+  onRemove?: () => void;
+  className?: string;
+}
+
+export default function LinkPreviewCard({ preview, onRemove, className = '' }: LinkPreviewCardProps) {
+  return (
+    <div className={`relative group ${className}`}>
+      <a
+        href={preview.url}
+        target="_blank"
+        rel="noopener noreferrer nofollow ugc"
+        className="block overflow-hidden rounded-lg border border-gray-200 hover:bg-gray-50 transition"
+      >
+        {preview.image_url && (
+          <img
+            src={preview.image_url}
+            alt=""
+            loading="lazy"
+            referrerPolicy="no-referrer"
+            className="w-full max-h-64 object-cover bg-gray-100 border-b border-gray-200"
+          />
+        )}
+        <div className="px-4 py-3">
+          <p className="text-xs uppercase tracking-wide text-gray-500 truncate">{preview.site_name || preview.domain}</p>
+          <p className="font-semibold text-gray-900 line-clamp-2">{preview.title || preview.url}</p>
+          {preview.description && <p className="mt-1 text-sm text-gray-600 line-clamp-2">{preview.description}</p>}
+          {preview.site_name && <p className="mt-1 text-xs text-gray-400 truncate">{preview.domain}</p>}
+        </div>
+      </a>
+
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          aria-label="Remove link preview"
+          className="absolute top-2 right-2 p-1 bg-gray-900 bg-opacity-75 rounded-full text-white"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  );
+}
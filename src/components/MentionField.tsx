@@ -0,0 +1,167 @@
+import { useEffect, useRef, useState } from 'react';
+import { listProfilesByUsernamePrefix, type Profile } from '../lib/api';
+import { completeMention, mentionQueryAt, type MentionQuery } from '../lib/mentions';
+
+interface MentionFieldProps {
+  value: string;
+  onChange: (value: string) => void;
+  // A textarea rather than a single-line input.
+  multiline?: boolean;
+  rows?: number;
+  placeholder?: string;
+  maxLength?: number;
+  className?: string;
+  containerClassName?: string;
+}
+
+const SEARCH_DELAY_MS = 150;
+
+type FieldElement = HTMLInputElement | HTMLTextAreaElement;
+
+// A text field that suggests usernames while an @mention is being typed.
+export default function MentionField({
+  value,
+  onChange,
+  multiline = false,
+  rows,
+  placeholder,
+  maxLength,
+  className = '',
+  containerClassName = '',
+}: MentionFieldProps) {
+  const fieldRef = useRef<FieldElement>(null);
+  const [mention, setMention] = useState<MentionQuery | null>(null);
+  const [suggestions, setSuggestions] = useState<Profile[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const query = mention?.query ?? '';
+
+  useEffect(() => {
+    if (!query) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const { data, error } = await listProfilesByUsernamePrefix(query);
+      if (cancelled) return;
+
+      if (error) {
+        console.error('Error searching mentions:', error);
+        return;
+      }
+      setSuggestions(data);
+      setActiveIndex(0);
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  const open = !!mention && suggestions.length > 0;
+
+  const trackCaret = (field: FieldElement) => {
+    setMention(mentionQueryAt(field.value, field.selectionStart ?? field.value.length));
+  };
+
+  const choose = (profile: Profile) => {
+    if (!mention) return;
+
+    const completed = completeMention(value, mention, profile.username);
+    onChange(completed.text);
+    setMention(null);
+    setSuggestions([]);
+
+    // Restore the caret after React has applied the new value.
+    requestAnimationFrame(() => {
+      fieldRef.current?.focus();
+      fieldRef.current?.setSelectionRange(completed.caret, completed.caret);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<FieldElement>) => {
+    if (!open) return;
+
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex((index) => (index + step + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      choose(suggestions[activeIndex]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setMention(null);
+    }
+  };
+
+  const fieldProps = {
+    value,
+    placeholder,
+    maxLength,
+    className,
+    onChange: (e: React.ChangeEvent<FieldElement>) => {
+      onChange(e.target.value);
+      trackCaret(e.target);
+    },
+    onKeyDown: handleKeyDown,
+    onKeyUp: (e: React.KeyboardEvent<FieldElement>) => {
+      if (e.key === 'ArrowLeft' || e.key === 'ArrowRight' || e.key === 'Home' || e.key === 'End') {
+        trackCaret(e.currentTarget);
+      }
+    },
+    onClick: (e: React.MouseEvent<FieldElement>) => trackCaret(e.currentTarget),
+    onBlur: () => setMention(null),
+    role: 'combobox',
+    'aria-expanded': open,
+    'aria-autocomplete': 'list' as const,
+  };
+
+  return (
+    <div className={`relative ${containerClassName}`}>
+      {multiline ? (
+        <textarea ref={fieldRef as React.RefObject<HTMLTextAreaElement>} rows={rows} {...fieldProps} />
+      ) : (
+        <input ref={fieldRef as React.RefObject<HTMLInputElement>} type="text" {...fieldProps} />
+      )}
+
+      {open && (
+        <ul
+          role="listbox"
+          className="absolute left-0 top-full mt-1 w-64 bg-white rounded-lg shadow-lg border border-gray-200 py-1 z-20"
+        >
+          {suggestions.map((profile, index) => (
+            <li
+              key={profile.id}
+              role="option"
+              aria-selected={index === activeIndex}
+              // Keep focus in the field.
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => choose(profile)}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={`px-3 py-2 flex items-center gap-2 cursor-pointer ${index === activeIndex ? 'bg-blue-50' : ''}`}
+            >
+              <div
+                className="w-8 h-8 rounded-full bg-gray-300 flex items-center justify-center text-sm font-bold text-white flex-shrink-0"
+                style={{
+                  backgroundImage: profile.avatar_url ? `url(${profile.avatar_url})` : undefined,
+                  backgroundSize: 'cover',
+                  backgroundPosition: 'center',
+                }}
+              >
+                {!profile.avatar_url && profile.username.charAt(0).toUpperCase()}
+              </div>
+              <div className="min-w-0">
+                <p className="text-sm font-semibold text-gray-900 truncate">{profile.full_name || profile.username}</p>
+                <p className="text-xs text-gray-500 truncate">@{profile.username}</p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
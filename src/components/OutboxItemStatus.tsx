@@ -0,0 +1,51 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, Clock } from 'lucide-react';
+import { discardOutboxEntry, retryOutboxEntry, type OutboxEntry } from '../lib/outbox';
+
+interface OutboxItemStatusProps {
+  entry: OutboxEntry;
+  className?: string;
+}
+
+function useOnline() {
+  const [online, setOnline] = useState(navigator.onLine);
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  return online;
+}
+
+// Delivery state for an item that only exists in the outbox so far.
+export default function OutboxItemStatus({ entry, className = '' }: OutboxItemStatusProps) {
+  const online = useOnline();
+
+  if (entry.status === 'failed') {
+    return (
+      <div className={`flex items-center gap-2 text-xs text-red-600 ${className}`}>
+        <AlertCircle className="w-3 h-3 flex-shrink-0" />
+        <span title={entry.error ?? undefined}>Failed to send</span>
+        <button onClick={() => retryOutboxEntry(entry.id)} className="font-medium hover:underline">
+          Retry
+        </button>
+        <button onClick={() => discardOutboxEntry(entry.id)} className="text-gray-500 hover:underline">
+          Discard
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`flex items-center gap-1 text-xs text-gray-500 ${className}`}>
+      <Clock className="w-3 h-3 flex-shrink-0" />
+      {online ? 'Sending...' : 'Waiting for connection'}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { CalendarClock } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { formatPublishAt } from '../lib/drafts';
+import type { OutboxEntry } from '../lib/outbox';
+import { usePost } from '../lib/store';
+import { visibilityOption } from '../lib/visibility';
+import AudienceIcon from './AudienceIcon';
+import OutboxItemStatus from './OutboxItemStatus';
+import PostMedia from './PostMedia';
+import QuotedPostCard from './QuotedPostCard';
+import RichText from './RichText';
+
+interface PendingPostCardProps {
+  entry: OutboxEntry<'post'>;
+}
+
+// A post the viewer wrote that hasn't reached the server yet.
+export default function PendingPostCard({ entry }: PendingPostCardProps) {
+  const { profile } = useAuth();
+  const { content, media = [], quoted_post_id, poll, publish_at, visibility = 'public' } = entry.row;
+  const quotedPost = usePost(quoted_post_id ?? '');
+  const username = profile?.username || 'you';
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <div
+          className="w-12 h-12 rounded-full bg-gray-300 flex items-center justify-center text-lg font-bold text-white"
+          style={{
+            backgroundImage: profile?.avatar_url ? `url(${profile.avatar_url})` : undefined,
+            backgroundSize: 'cover',
+            backgroundPosition: 'center',
+          }}
+        >
+          {!profile?.avatar_url && username.charAt(0).toUpperCase()}
+        </div>
+        <div>
+          <p className="font-semibold text-gray-900">{profile?.full_name || username}</p>
+          <OutboxItemStatus entry={entry} />
+        </div>
+      </div>
+
+      <div className={entry.status === 'pending' ? 'opacity-60' : ''}>
+        {publish_at && (
+          <p className="flex items-center gap-1 mb-2 text-sm font-medium text-blue-600">
+            <CalendarClock className="w-4 h-4" />
+            Scheduled for {formatPublishAt(publish_at)}
+          </p>
+        )}
+
+        {visibility !== 'public' && (
+          <p className="flex items-center gap-1 mb-2 text-sm text-gray-600">
+            <AudienceIcon visibility={visibility} />
+            {visibilityOption(visibility).label}
+          </p>
+        )}
+
+        <RichText text={content} className="text-gray-800" />
+
+        {poll && (
+          <div className="mt-4 space-y-2">
+            {poll.options.map((option, index) => (
+              <div key={index} className="px-4 py-2 rounded-lg border border-gray-200 text-sm text-gray-700">
+                {option}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <PostMedia media={media} className="mt-4" />
+
+        {quoted_post_id && <QuotedPostCard post={quotedPost ?? null} className="mt-4" />}
+      </div>
+    </div>
+  );
+}
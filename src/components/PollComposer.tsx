@@ -0,0 +1,86 @@
+import { Plus, X } from 'lucide-react';
+import type { PollDraft } from '../lib/api';
+import { POLL_DURATIONS, POLL_MAX_OPTIONS, POLL_MIN_OPTIONS, POLL_OPTION_MAX_LENGTH } from '../lib/polls';
+
+interface PollComposerProps {
+  value: PollDraft;
+  onChange: (poll: PollDraft) => void;
+  onRemove: () => void;
+}
+
+// The poll part of CreatePost: 2-4 options and how long voting stays open.
+export default function PollComposer({ value, onChange, onRemove }: PollComposerProps) {
+  const setOption = (index: number, label: string) =>
+    onChange({ ...value, options: value.options.map((option, i) => (i === index ? label : option)) });
+
+  return (
+    <div className="mt-3 p-3 border border-gray-200 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-sm font-semibold text-gray-700">Poll</p>
+        <button
+          type="button"
+          onClick={onRemove}
+          className="p-1 rounded-full text-gray-500 hover:bg-gray-100 transition"
+          title="Remove poll"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        {value.options.map((option, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={option}
+              onChange={(e) => setOption(index, e.target.value)}
+              placeholder={`Option ${index + 1}`}
+              maxLength={POLL_OPTION_MAX_LENGTH}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-sm"
+            />
+            {value.options.length > POLL_MIN_OPTIONS && (
+              <button
+                type="button"
+                onClick={() => onChange({ ...value, options: value.options.filter((_, i) => i !== index) })}
+                className="p-1 rounded-full text-gray-500 hover:bg-gray-100 transition"
+                title="Remove option"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between mt-3">
+        {value.options.length < POLL_MAX_OPTIONS ? (
+          <button
+            type="button"
+            onClick={() => onChange({ ...value, options: [...value.options, ''] })}
+            className="flex items-center gap-1 text-sm font-medium text-blue-600 hover:text-blue-700"
+          >
+            <Plus className="w-4 h-4" />
+            Add option
+          </button>
+        ) : (
+          <span />
+        )}
+
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          Ends in
+          <select
+            value={value.duration_minutes}
+            onChange={(e) => onChange({ ...value, duration_minutes: Number(e.target.value) })}
+            className="px-2 py-1 border border-gray-300 rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {POLL_DURATIONS.map((duration) => (
+              <option key={duration.minutes} value={duration.minutes}>
+                {duration.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { act, render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { expect, it, vi } from 'vitest';
+import { AuthProvider } from '../contexts/AuthContext';
+import { RouterProvider } from '../contexts/RouterContext';
+import { listPostsByUser } from '../lib/api';
+import { FIXTURE_PASSWORD, fixtureUserIds } from '../lib/memory';
+import { ingestPosts } from '../lib/store';
+import { supabase } from '../lib/supabase';
+import PostCard from './PostCard';
+
+it('likes a post optimistically and persists the like', async () => {
+  await supabase.auth.signInWithPassword({ email: 'alex@example.com', password: FIXTURE_PASSWORD });
+
+  const { data } = await listPostsByUser(fixtureUserIds.jordan, { limit: 1 });
+  const post = data!.posts[0];
+  expect(post.liked_by_me).toBe(false);
+  ingestPosts([post]);
+
+  render(
+    <RouterProvider>
+      <AuthProvider>
+        <PostCard postId={post.id} />
+      </AuthProvider>
+    </RouterProvider>
+  );
+
+  expect(screen.getByText(post.content)).toBeInTheDocument();
+  const likeButton = screen.getByRole('button', { name: String(post.likes_count) });
+
+  // Let AuthProvider pick up the session before interacting.
+  await act(async () => {});
+  await userEvent.click(likeButton);
+
+  expect(likeButton).toHaveTextContent(String(post.likes_count + 1));
+  await waitFor(async () => {
+    const { data: stored } = await listPostsByUser(fixtureUserIds.jordan, { limit: 1 });
+    expect(stored!.posts[0]).toMatchObject({ liked_by_me: true, likes_count: post.likes_count + 1 });
+  });
+});
+
+it('shows the link to copy by hand when the clipboard write fails', async () => {
+  await supabase.auth.signInWithPassword({ email: 'alex@example.com', password: FIXTURE_PASSWORD });
+
+  const { data } = await listPostsByUser(fixtureUserIds.jordan, { limit: 1 });
+  const post = data!.posts[0];
+  ingestPosts([post]);
+
+  const user = userEvent.setup();
+  const writeText = vi.spyOn(navigator.clipboard, 'writeText').mockRejectedValue(new DOMException('Denied', 'NotAllowedError'));
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+
+  render(
+    <RouterProvider>
+      <AuthProvider>
+        <PostCard postId={post.id} />
+      </AuthProvider>
+    </RouterProvider>
+  );
+
+  await act(async () => {});
+  await user.click(screen.getByTitle('Share post'));
+
+  expect(writeText).toHaveBeenCalled();
+  const field = await screen.findByRole('textbox', { name: 'Post link' });
+  expect(field).toHaveValue(writeText.mock.calls[0][0]);
+  expect(screen.queryByText('Link copied')).not.toBeInTheDocument();
+
+  vi.restoreAllMocks();
+});
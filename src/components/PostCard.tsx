@@ -1,92 +1,123 @@
 import { useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { supabase } from '../lib/supabase';
-import { Heart, MessageCircle, MoreHorizontal, Trash2, Edit3 } from 'lucide-react';
-import type { Database } from '../lib/database.types';
+import { deletePost, editPost, editScheduledPost, toggleBookmark, togglePinnedPost, toggleRepost } from '../lib/actions';
+import type { Profile } from '../lib/api';
+import { usePinnedPostId, usePost } from '../lib/store';
+import { MessageCircle, MoreHorizontal, Trash2, Edit3, Share2, Check, Repeat2, Quote, Bookmark, Pin, PinOff, X } from 'lucide-react';
 import CommentSection from './CommentSection';
-
-type Profile = Database['public']['Tables']['profiles']['Row'];
-type Post = Database['public']['Tables']['posts']['Row'] & {
-  profiles: Profile;
-  likes: { user_id: string }[];
-  comments: { id: string }[];
-};
+import Link from './Link';
+import LinkPreviewCard from './LinkPreviewCard';
+import PostMedia from './PostMedia';
+import PostPoll from './PostPoll';
+import PostRevisionsDialog from './PostRevisionsDialog';
+import QuotedPostCard from './QuotedPostCard';
+import QuotePostDialog from './QuotePostDialog';
+import ReactionButton from './ReactionButton';
+import ReactionsDialog from './ReactionsDialog';
+import RichText from './RichText';
+import { formatPublishAt, isScheduled } from '../lib/drafts';
+import { likedBy, topReactions } from '../lib/reactions';
+import { canEditPost, POST_EDIT_WINDOW_MINUTES } from '../lib/revisions';
+import { postPath, postUrl, profilePath } from '../lib/router';
+import { isShareable, visibilityOption } from '../lib/visibility';
+import AudienceIcon from './AudienceIcon';
 
 interface PostCardProps {
-  post: Post;
-  onUpdate: () => void;
+  postId: string;
+  expanded?: boolean;
+  // Set when the post is in a feed because this user reposted it.
+  repostedBy?: Profile;
+  // Shown at the top of its author's profile.
+  pinned?: boolean;
 }
 
-export default function PostCard({ post, onUpdate }: PostCardProps) {
+export default function PostCard({ postId, expanded = false, repostedBy, pinned = false }: PostCardProps) {
   const { user } = useAuth();
-  const [showComments, setShowComments] = useState(false);
+  const post = usePost(postId);
+  const isPinned = usePinnedPostId(post?.user_id ?? '') === postId;
+  const [showComments, setShowComments] = useState(expanded);
+  const [linkCopied, setLinkCopied] = useState(false);
+  // Shown for copying by hand when the clipboard can't be written.
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
   const [showMenu, setShowMenu] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
-  const [editedContent, setEditedContent] = useState(post.content);
-  const [likeLoading, setLikeLoading] = useState(false);
+  const [editedContent, setEditedContent] = useState('');
+  const [editError, setEditError] = useState('');
+  const [showRevisions, setShowRevisions] = useState(false);
+  const [showReactions, setShowReactions] = useState(false);
+  const [showRepostMenu, setShowRepostMenu] = useState(false);
+  const [repostLoading, setRepostLoading] = useState(false);
+  const [showQuote, setShowQuote] = useState(false);
+
+  if (!post) return null;
 
-  const isLiked = user ? post.likes.some(like => like.user_id === user.id) : false;
   const isOwner = user?.id === post.user_id;
+  const liked = likedBy(post);
 
-  const handleLike = async () => {
-    if (!user || likeLoading) return;
-
-    setLikeLoading(true);
-
-    if (isLiked) {
-      await supabase
-        .from('likes')
-        .delete()
-        .eq('user_id', user.id)
-        .eq('post_id', post.id);
-
-      await supabase.from('notifications').delete()
-        .eq('user_id', post.user_id)
-        .eq('actor_id', user.id)
-        .eq('post_id', post.id)
-        .eq('type', 'like');
-    } else {
-      await supabase
-        .from('likes')
-        .insert({
-          user_id: user.id,
-          post_id: post.id,
-        });
-
-      if (user.id !== post.user_id) {
-        await supabase.from('notifications').insert({
-          user_id: post.user_id,
-          actor_id: user.id,
-          type: 'like',
-          post_id: post.id,
-        });
-      }
-    }
+  const handleRepost = async () => {
+    setShowRepostMenu(false);
+    if (!user || repostLoading) return;
 
-    setLikeLoading(false);
-    onUpdate();
+    setRepostLoading(true);
+    await toggleRepost(post.id, user.id);
+    setRepostLoading(false);
+  };
+
+  const handleBookmark = async () => {
+    if (!user) return;
+    await toggleBookmark(post.id, user.id);
   };
 
   const handleDelete = async () => {
     if (!confirm('Are you sure you want to delete this post?')) return;
 
-    await supabase.from('posts').delete().eq('id', post.id);
-    onUpdate();
+    await deletePost(post.id);
   };
 
   const handleEdit = async () => {
     if (!editedContent.trim()) return;
 
-    await supabase
-      .from('posts')
-      .update({
-        content: editedContent.trim(),
-        is_edited: true,
-      })
-      .eq('id', post.id);
-
     setIsEditing(false);
-    onUpdate();
+    // A scheduled post isn't out yet, so it's edited in place, keeping its
+    // publish time, without a revision or the edited label.
+    const result = isScheduled(post)
+      ? await editScheduledPost(post.id, editedContent.trim(), post.publish_at!)
+      : await editPost(post.id, editedContent.trim());
+
+    if (result?.error) {
+      setEditError(
+        // check_violation from the edit window in `record_post_revision`.
+        result.error.code === '23514'
+          ? `Posts can only be edited within ${POST_EDIT_WINDOW_MINUTES} minutes of posting.`
+          : "Couldn't save your changes. Please try again."
+      );
+      setIsEditing(true);
+    }
+  };
+
+  const handleShare = async () => {
+    const url = postUrl(post.id);
+
+    if (navigator.share) {
+      try {
+        await navigator.share({ url });
+        return;
+      } catch (err) {
+        if ((err as Error).name === 'AbortError') return;
+      }
+    }
+
+    try {
+      await navigator.clipboard.writeText(url);
+    } catch (err) {
+      console.error('Error copying link:', err);
+      setShareUrl(url);
+      return;
+    }
+
+    setShareUrl(null);
+    setLinkCopied(true);
+    setTimeout(() => setLinkCopied(false), 2000);
   };
 
   const formatDate = (dateString: string) => {
@@ -106,28 +137,74 @@ export default function PostCard({ post, onUpdate }: PostCardProps) {
 
   return (
     <div className="bg-white rounded-lg shadow-sm p-6">
+      {pinned && (
+        <p className="flex items-center gap-2 -mt-2 mb-3 text-sm font-medium text-gray-500">
+          <Pin className="w-4 h-4" />
+          Pinned
+        </p>
+      )}
+
+      {repostedBy && (
+        <p className="flex items-center gap-2 -mt-2 mb-3 text-sm font-medium text-gray-500">
+          <Repeat2 className="w-4 h-4" />
+          <Link to={profilePath(repostedBy.username)} className="hover:underline">
+            {repostedBy.id === user?.id ? 'You' : repostedBy.full_name || repostedBy.username} reposted
+          </Link>
+        </p>
+      )}
+
       <div className="flex items-start justify-between mb-4">
-        <a href={`/profile/${post.profiles.username}`} className="flex items-center gap-3 hover:opacity-80 transition">
-          <div
-            className="w-12 h-12 rounded-full bg-gray-300 flex items-center justify-center text-lg font-bold text-white"
-            style={{
-              backgroundImage: post.profiles.avatar_url ? `url(${post.profiles.avatar_url})` : undefined,
-              backgroundSize: 'cover',
-              backgroundPosition: 'center',
-            }}
-          >
-            {!post.profiles.avatar_url && post.profiles.username.charAt(0).toUpperCase()}
-          </div>
+        <div className="flex items-center gap-3">
+          <Link to={profilePath(post.profiles.username)} className="hover:opacity-80 transition">
+            <div
+              className="w-12 h-12 rounded-full bg-gray-300 flex items-center justify-center text-lg font-bold text-white"
+              style={{
+                backgroundImage: post.profiles.avatar_url ? `url(${post.profiles.avatar_url})` : undefined,
+                backgroundSize: 'cover',
+                backgroundPosition: 'center',
+              }}
+            >
+              {!post.profiles.avatar_url && post.profiles.username.charAt(0).toUpperCase()}
+            </div>
+          </Link>
           <div>
-            <p className="font-semibold text-gray-900">
-              {post.profiles.full_name || post.profiles.username}
-            </p>
+            <Link to={profilePath(post.profiles.username)} className="hover:underline">
+              <p className="font-semibold text-gray-900">
+                {post.profiles.full_name || post.profiles.username}
+              </p>
+            </Link>
             <p className="text-sm text-gray-600">
-              @{post.profiles.username} · {formatDate(post.created_at)}
-              {post.is_edited && ' · Edited'}
+              @{post.profiles.username} ·{' '}
+              <Link
+                to={postPath(post.id)}
+                className="hover:underline"
+                title={new Date(post.created_at).toLocaleString()}
+              >
+                {isScheduled(post) ? `Scheduled for ${formatPublishAt(post.created_at)}` : formatDate(post.created_at)}
+              </Link>
+              {post.visibility !== 'public' && (
+                <>
+                  {' · '}
+                  <span
+                    className="inline-flex items-center gap-1 align-bottom"
+                    title={visibilityOption(post.visibility).description}
+                  >
+                    <AudienceIcon visibility={post.visibility} className="w-3.5 h-3.5" />
+                    {visibilityOption(post.visibility).label}
+                  </span>
+                </>
+              )}
+              {post.is_edited && (
+                <>
+                  {' · '}
+                  <button onClick={() => setShowRevisions(true)} className="hover:underline">
+                    Edited
+                  </button>
+                </>
+              )}
             </p>
           </div>
-        </a>
+        </div>
 
         {isOwner && (
           <div className="relative">
@@ -140,16 +217,32 @@ export default function PostCard({ post, onUpdate }: PostCardProps) {
 
             {showMenu && (
               <div className="absolute right-0 mt-2 w-48 bg-white rounded-lg shadow-lg border border-gray-200 py-2 z-10">
-                <button
-                  onClick={() => {
-                    setIsEditing(true);
-                    setShowMenu(false);
-                  }}
-                  className="w-full px-4 py-2 text-left hover:bg-gray-50 flex items-center gap-2 text-gray-700"
-                >
-                  <Edit3 className="w-4 h-4" />
-                  Edit
-                </button>
+                {(isScheduled(post) || canEditPost(post.created_at)) && (
+                  <button
+                    onClick={() => {
+                      setEditedContent(post.content);
+                      setEditError('');
+                      setIsEditing(true);
+                      setShowMenu(false);
+                    }}
+                    className="w-full px-4 py-2 text-left hover:bg-gray-50 flex items-center gap-2 text-gray-700"
+                  >
+                    <Edit3 className="w-4 h-4" />
+                    Edit
+                  </button>
+                )}
+                {!isScheduled(post) && (
+                  <button
+                    onClick={() => {
+                      togglePinnedPost(post.id);
+                      setShowMenu(false);
+                    }}
+                    className="w-full px-4 py-2 text-left hover:bg-gray-50 flex items-center gap-2 text-gray-700"
+                  >
+                    {isPinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+                    {isPinned ? 'Unpin from profile' : 'Pin to profile'}
+                  </button>
+                )}
                 <button
                   onClick={() => {
                     handleDelete();
@@ -175,6 +268,7 @@ export default function PostCard({ post, onUpdate }: PostCardProps) {
             rows={4}
             maxLength={5000}
           />
+          {editError && <p className="mt-1 text-sm text-red-600">{editError}</p>}
           <div className="flex gap-2 mt-2">
             <button
               onClick={handleEdit}
@@ -183,10 +277,7 @@ export default function PostCard({ post, onUpdate }: PostCardProps) {
               Save
             </button>
             <button
-              onClick={() => {
-                setIsEditing(false);
-                setEditedContent(post.content);
-              }}
+              onClick={() => setIsEditing(false)}
               className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition text-sm font-medium"
             >
               Cancel
@@ -195,51 +286,143 @@ export default function PostCard({ post, onUpdate }: PostCardProps) {
         </div>
       ) : (
         <div className="mb-4">
-          <p className="text-gray-800 whitespace-pre-wrap break-words">{post.content}</p>
+          <RichText text={post.content} className="text-gray-800" />
         </div>
       )}
 
-      {post.media_urls && post.media_urls.length > 0 && (
-        <div className={`mb-4 grid gap-2 ${post.media_urls.length === 1 ? 'grid-cols-1' : 'grid-cols-2'}`}>
-          {post.media_urls.map((url, index) => (
-            <img
-              key={index}
-              src={url}
-              alt=""
-              className="w-full rounded-lg object-cover"
-              style={{ maxHeight: post.media_urls.length === 1 ? '500px' : '300px' }}
-              onError={(e) => {
-                e.currentTarget.style.display = 'none';
-              }}
-            />
-          ))}
-        </div>
-      )}
+      {post.poll && <PostPoll postId={post.id} poll={post.poll} className="mb-4" />}
 
-      <div className="flex items-center gap-6 pt-4 border-t border-gray-100">
+      <PostMedia media={post.media ?? []} className="mb-4" />
+
+      {post.link_preview && <LinkPreviewCard preview={post.link_preview} className="mb-4" />}
+
+      {post.is_quote && <QuotedPostCard post={post.quoted_post} className="mb-4" />}
+
+      {liked && (
         <button
-          onClick={handleLike}
-          disabled={likeLoading}
-          className={`flex items-center gap-2 ${
-            isLiked ? 'text-red-600' : 'text-gray-600'
-          } hover:text-red-600 transition group`}
+          onClick={() => setShowReactions(true)}
+          className="flex items-center gap-2 mb-3 text-sm text-gray-600 hover:underline"
         >
-          <Heart className={`w-5 h-5 ${isLiked ? 'fill-current' : ''} group-hover:scale-110 transition`} />
-          <span className="text-sm font-medium">{post.likes.length}</span>
+          <span aria-hidden="true" className="flex -space-x-1">
+            {topReactions(post.reaction_counts, 3).map((option) => (
+              <span key={option.value}>{option.emoji}</span>
+            ))}
+          </span>
+          {liked.name ? (
+            <span>
+              Liked by <span className="font-semibold text-gray-900">{liked.name}</span>
+              {liked.others > 0 && ` and ${liked.others} ${liked.others === 1 ? 'other' : 'others'}`}
+            </span>
+          ) : (
+            `${liked.others} ${liked.others === 1 ? 'reaction' : 'reactions'}`
+          )}
         </button>
+      )}
+
+      <div className="flex items-center gap-6 pt-4 border-t border-gray-100">
+        <ReactionButton post={post} />
 
         <button
           onClick={() => setShowComments(!showComments)}
           className="flex items-center gap-2 text-gray-600 hover:text-blue-600 transition group"
         >
           <MessageCircle className="w-5 h-5 group-hover:scale-110 transition" />
-          <span className="text-sm font-medium">{post.comments.length}</span>
+          <span className="text-sm font-medium">{post.comments_count}</span>
+        </button>
+
+        <div className="relative">
+          <button
+            onClick={() => setShowRepostMenu(!showRepostMenu)}
+            disabled={!user || repostLoading || !isShareable(post)}
+            className={`flex items-center gap-2 ${
+              post.reposted_by_me ? 'text-green-600' : 'text-gray-600'
+            } hover:text-green-600 transition group disabled:opacity-50 disabled:hover:text-gray-600`}
+            title={isShareable(post) ? 'Repost' : 'Only public posts can be reposted'}
+          >
+            <Repeat2 className="w-5 h-5 group-hover:scale-110 transition" />
+            <span className="text-sm font-medium">{post.reposts_count + post.quotes_count}</span>
+          </button>
+
+          {showRepostMenu && (
+            <div className="absolute left-0 mt-2 w-44 bg-white rounded-lg shadow-lg border border-gray-200 py-2 z-10">
+              <button
+                onClick={handleRepost}
+                className="w-full px-4 py-2 text-left hover:bg-gray-50 flex items-center gap-2 text-gray-700"
+              >
+                <Repeat2 className="w-4 h-4" />
+                {post.reposted_by_me ? 'Undo repost' : 'Repost'}
+              </button>
+              <button
+                onClick={() => {
+                  setShowQuote(true);
+                  setShowRepostMenu(false);
+                }}
+                className="w-full px-4 py-2 text-left hover:bg-gray-50 flex items-center gap-2 text-gray-700"
+              >
+                <Quote className="w-4 h-4" />
+                Quote
+              </button>
+            </div>
+          )}
+        </div>
+
+        <button
+          onClick={handleBookmark}
+          disabled={!user}
+          className={`flex items-center gap-2 ${
+            post.bookmarked_by_me ? 'text-blue-600' : 'text-gray-600'
+          } hover:text-blue-600 transition group`}
+          title={post.bookmarked_by_me ? 'Remove bookmark' : 'Bookmark'}
+        >
+          <Bookmark className={`w-5 h-5 ${post.bookmarked_by_me ? 'fill-current' : ''} group-hover:scale-110 transition`} />
+        </button>
+
+        <button
+          onClick={handleShare}
+          className="ml-auto flex items-center gap-2 text-gray-600 hover:text-blue-600 transition group"
+          title="Share post"
+        >
+          {linkCopied ? (
+            <>
+              <Check className="w-5 h-5 text-green-600" />
+              <span className="text-sm font-medium text-green-600">Link copied</span>
+            </>
+          ) : (
+            <Share2 className="w-5 h-5 group-hover:scale-110 transition" />
+          )}
         </button>
       </div>
 
+      {shareUrl && (
+        <div className="mt-3 flex items-center gap-2">
+          <input
+            type="text"
+            readOnly
+            value={shareUrl}
+            aria-label="Post link"
+            autoFocus
+            onFocus={(e) => e.target.select()}
+            className="flex-1 min-w-0 px-3 py-1.5 text-sm border border-gray-300 rounded-lg bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            onClick={() => setShareUrl(null)}
+            className="p-1.5 text-gray-500 hover:bg-gray-100 rounded-full transition"
+            title="Close"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {showRevisions && <PostRevisionsDialog post={post} onClose={() => setShowRevisions(false)} />}
+
+      {showReactions && <ReactionsDialog post={post} onClose={() => setShowReactions(false)} />}
+
+      {showQuote && <QuotePostDialog post={post} onClose={() => setShowQuote(false)} />}
+
       {showComments && (
         <div className="mt-4 pt-4 border-t border-gray-100">
-          <CommentSection postId={post.id} postOwnerId={post.user_id} onUpdate={onUpdate} />
+          <CommentSection postId={post.id} />
         </div>
       )}
     </div>
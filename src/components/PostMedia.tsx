@@ -0,0 +1,95 @@
+import { useEffect, useRef, useState } from 'react';
+import type { PostMediaItem } from '../lib/database.types';
+
+interface PostMediaProps {
+  media: PostMediaItem[];
+  className?: string;
+}
+
+export default function PostMedia({ media, className = '' }: PostMediaProps) {
+  if (media.length === 0) return null;
+
+  const single = media.length === 1;
+
+  return (
+    <div className={`grid gap-2 ${single ? 'grid-cols-1' : 'grid-cols-2'} ${className}`}>
+      {media.map((item, index) => (
+        <MediaItem key={index} item={item} single={single} />
+      ))}
+    </div>
+  );
+}
+
+interface MediaItemProps {
+  item: PostMediaItem;
+  single: boolean;
+}
+
+function MediaItem({ item, single }: MediaItemProps) {
+  // A lone item keeps its own shape; grids crop to even tiles.
+  const style: React.CSSProperties = { maxHeight: single ? '500px' : '300px' };
+  if (single && item.width && item.height) style.aspectRatio = `${item.width} / ${item.height}`;
+  const className = `w-full rounded-lg object-cover bg-gray-100 ${single ? '' : 'h-full'}`;
+
+  if (item.type === 'video') {
+    return (
+      <video
+        src={item.url}
+        poster={item.poster_url ?? undefined}
+        controls
+        playsInline
+        preload="metadata"
+        className={`${className} bg-black`}
+        style={style}
+      />
+    );
+  }
+
+  if (item.type === 'gif') {
+    return <Gif item={item} className={className} style={style} />;
+  }
+
+  return (
+    <img
+      src={item.url}
+      alt=""
+      loading="lazy"
+      className={className}
+      style={style}
+      onError={(e) => {
+        e.currentTarget.style.display = 'none';
+      }}
+    />
+  );
+}
+
+interface GifProps {
+  item: PostMediaItem;
+  className: string;
+  style: React.CSSProperties;
+}
+
+// GIFs play like muted autoplaying video: animated only while mostly on
+// screen, showing the still poster otherwise.
+function Gif({ item, className, style }: GifProps) {
+  const ref = useRef<HTMLDivElement>(null);
+  const [playing, setPlaying] = useState(!item.poster_url);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || !item.poster_url || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver(([entry]) => setPlaying(entry.isIntersecting), { threshold: 0.5 });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [item.poster_url]);
+
+  return (
+    <div ref={ref} className="relative">
+      <img src={playing ? item.url : item.poster_url ?? item.url} alt="" className={className} style={style} />
+      <span className="absolute left-2 bottom-2 px-1.5 py-0.5 rounded bg-gray-900 bg-opacity-75 text-xs font-semibold text-white">
+        GIF
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { useEffect, useState } from 'react';
+import { CheckCircle2 } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { votePoll } from '../lib/actions';
+import { subscribeToPollOptions, type Poll } from '../lib/api';
+import { formatPollTimeLeft, isPollClosed, pollPercentages } from '../lib/polls';
+import { mergePollOption } from '../lib/store';
+
+interface PostPollProps {
+  postId: string;
+  poll: Poll;
+  className?: string;
+}
+
+// Options to vote on, or the results once the viewer has voted or the poll
+// has closed. Tallies follow realtime while the poll is open.
+export default function PostPoll({ postId, poll, className = '' }: PostPollProps) {
+  const { user } = useAuth();
+  const [now, setNow] = useState(Date.now);
+  const [voting, setVoting] = useState(false);
+  const [error, setError] = useState('');
+
+  const closed = isPollClosed(poll.ends_at, now);
+
+  // Refreshes the time left, and flips to the results when the poll ends.
+  useEffect(() => {
+    if (closed) return;
+    const timer = setInterval(() => setNow(Date.now()), 30_000);
+    return () => clearInterval(timer);
+  }, [closed]);
+
+  useEffect(() => {
+    if (closed) return;
+    return subscribeToPollOptions(poll.id, (option) => mergePollOption(postId, option));
+  }, [poll.id, postId, closed]);
+
+  const options = [...poll.options].sort((a, b) => a.position - b.position);
+  const showResults = closed || !!poll.voted_option_id || !user;
+  const percentages = pollPercentages(options.map((option) => option.votes_count));
+  const leading = Math.max(...options.map((option) => option.votes_count));
+
+  const handleVote = async (optionId: string) => {
+    if (!user || voting) return;
+
+    setVoting(true);
+    setError('');
+    const result = await votePoll(postId, optionId, user.id);
+    setVoting(false);
+
+    if (result?.error) {
+      // check_violation from `check_poll_vote`: it closed while we were looking.
+      setError(result.error.code === '23514' ? 'This poll has ended.' : "Couldn't record your vote. Please try again.");
+      setNow(Date.now());
+    }
+  };
+
+  return (
+    <div className={className}>
+      <div className="space-y-2">
+        {options.map((option, index) =>
+          showResults ? (
+            <div key={option.id} className="relative overflow-hidden rounded-lg bg-gray-50">
+              <div
+                className={`absolute inset-y-0 left-0 transition-all ${
+                  closed && option.votes_count === leading && leading > 0 ? 'bg-blue-200' : 'bg-gray-200'
+                }`}
+                style={{ width: `${percentages[index]}%` }}
+              />
+              <div className="relative flex items-center justify-between gap-3 px-4 py-2 text-sm">
+                <span className="flex items-center gap-2 text-gray-900 break-words min-w-0">
+                  {option.label}
+                  {option.id === poll.voted_option_id && (
+                    <CheckCircle2 className="w-4 h-4 text-blue-600 flex-shrink-0" aria-label="Your vote" />
+                  )}
+                </span>
+                <span className="font-semibold text-gray-700">{percentages[index]}%</span>
+              </div>
+            </div>
+          ) : (
+            <button
+              key={option.id}
+              onClick={() => handleVote(option.id)}
+              disabled={voting}
+              className="w-full px-4 py-2 rounded-lg border border-blue-600 text-blue-600 text-sm font-medium hover:bg-blue-50 transition disabled:opacity-50 break-words"
+            >
+              {option.label}
+            </button>
+          )
+        )}
+      </div>
+
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+
+      <p className="mt-2 text-sm text-gray-500">
+        {poll.votes_count} {poll.votes_count === 1 ? 'vote' : 'votes'} · {formatPollTimeLeft(poll.ends_at, now)}
+      </p>
+    </div>
+  );
+}
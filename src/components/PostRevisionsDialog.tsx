@@ -0,0 +1,109 @@
+import { useEffect, useState } from 'react';
+import { Loader2, X } from 'lucide-react';
+import { listPostRevisions, type PostRevision } from '../lib/api';
+import { diffWords } from '../lib/revisions';
+
+interface PostRevisionsDialogProps {
+  post: { id: string; content: string; created_at: string };
+  onClose: () => void;
+}
+
+interface Version {
+  content: string;
+  // When this text was posted or edited in.
+  at: string;
+}
+
+// Each revision holds the text an edit replaced, so a version's time is the
+// previous revision's (or the post's, for the original).
+function toVersions(post: PostRevisionsDialogProps['post'], revisions: PostRevision[]): Version[] {
+  const versions = revisions.map((revision, index) => ({
+    content: revision.content,
+    at: index === 0 ? post.created_at : revisions[index - 1].created_at,
+  }));
+  versions.push({ content: post.content, at: revisions[revisions.length - 1]?.created_at ?? post.created_at });
+  return versions;
+}
+
+export default function PostRevisionsDialog({ post, onClose }: PostRevisionsDialogProps) {
+  const [revisions, setRevisions] = useState<PostRevision[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    listPostRevisions(post.id).then(({ data, error }) => {
+      if (cancelled) return;
+      if (error) {
+        console.error('Error loading post revisions:', error);
+      }
+      setRevisions(data ?? []);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [post.id]);
+
+  const versions = revisions ? toVersions(post, revisions) : [];
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div role="dialog" aria-label="Edit history" className="bg-white rounded-lg shadow-xl w-full max-w-lg">
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-bold text-gray-900">Edit history</h3>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full transition">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 max-h-[70vh] overflow-y-auto">
+          {!revisions ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 text-blue-600 animate-spin" />
+            </div>
+          ) : revisions.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">No earlier versions were kept for this post.</p>
+          ) : (
+            <ol className="space-y-4">
+              {versions
+                .map((version, index) => (
+                  <li key={index} className="border border-gray-200 rounded-lg p-3">
+                    <p className="text-xs text-gray-500 mb-2">
+                      <span className="font-semibold text-gray-700">
+                        {index === versions.length - 1 ? 'Current' : index === 0 ? 'Original' : `Version ${index + 1}`}
+                      </span>
+                      {' · '}
+                      {new Date(version.at).toLocaleString()}
+                    </p>
+                    <p className="whitespace-pre-wrap break-words text-sm text-gray-800">
+                      {index === 0
+                        ? version.content
+                        : diffWords(versions[index - 1].content, version.content).map((part, partIndex) =>
+                            part.type === 'same' ? (
+                              <span key={partIndex}>{part.text}</span>
+                            ) : part.type === 'added' ? (
+                              <ins key={partIndex} className="bg-green-100 text-green-800 no-underline">
+                                {part.text}
+                              </ins>
+                            ) : (
+                              <del key={partIndex} className="bg-red-100 text-red-700">
+                                {part.text}
+                              </del>
+                            )
+                          )}
+                    </p>
+                  </li>
+                ))
+                .reverse()}
+            </ol>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import type { QuotedPost } from '../lib/api';
+import { enqueue } from '../lib/outbox';
+import MentionField from './MentionField';
+import QuotedPostCard from './QuotedPostCard';
+
+interface QuotePostDialogProps {
+  post: QuotedPost;
+  onClose: () => void;
+}
+
+// Writes a new post that quotes `post`. Like CreatePost, it goes through the
+// outbox and shows up as pending in the feed.
+export default function QuotePostDialog({ post, onClose }: QuotePostDialogProps) {
+  const { user } = useAuth();
+  const [content, setContent] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !content.trim()) return;
+
+    setLoading(true);
+
+    try {
+      await enqueue('post', {
+        user_id: user.id,
+        content: content.trim(),
+        quoted_post_id: post.id,
+      });
+      onClose();
+    } catch (error) {
+      console.error('Error creating quote post:', error);
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div role="dialog" aria-label="Quote post" className="bg-white rounded-lg shadow-xl w-full max-w-lg">
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-bold text-gray-900">Quote post</h3>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full transition">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-4">
+          <MentionField
+            multiline
+            value={content}
+            onChange={setContent}
+            placeholder="Add a comment"
+            rows={3}
+            maxLength={5000}
+            className="w-full px-0 py-2 text-lg border-0 focus:ring-0 outline-none resize-none"
+          />
+
+          <QuotedPostCard post={post} className="mt-2" />
+
+          <div className="flex justify-end mt-4">
+            <button
+              type="submit"
+              disabled={loading || !content.trim()}
+              className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+            >
+              {loading ? 'Posting...' : 'Post'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
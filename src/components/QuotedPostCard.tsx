@@ -0,0 +1,56 @@
+import type { MouseEvent } from 'react';
+import { useRouter } from '../contexts/RouterContext';
+import type { QuotedPost } from '../lib/api';
+import { postPath, profilePath } from '../lib/router';
+import Link from './Link';
+import PostMedia from './PostMedia';
+import RichText from './RichText';
+
+interface QuotedPostCardProps {
+  // Null once the original has been deleted, or if the viewer isn't in its
+  // audience.
+  post: QuotedPost | null;
+  className?: string;
+}
+
+// The post a quote post is quoting, embedded under the quote's own text.
+export default function QuotedPostCard({ post, className = '' }: QuotedPostCardProps) {
+  const { navigate } = useRouter();
+
+  if (!post) {
+    return (
+      <div className={`rounded-lg border border-gray-200 bg-gray-50 px-4 py-3 text-sm text-gray-500 ${className}`}>
+        This post is unavailable.
+      </div>
+    );
+  }
+
+  // The whole card opens the post, except for the links inside it.
+  const handleClick = (e: MouseEvent<HTMLDivElement>) => {
+    if ((e.target as Element).closest('a, button')) return;
+    navigate(postPath(post.id));
+  };
+
+  return (
+    <div
+      onClick={handleClick}
+      className={`rounded-lg border border-gray-200 px-4 py-3 cursor-pointer hover:bg-gray-50 transition ${className}`}
+    >
+      <p className="text-sm text-gray-600 mb-1 truncate">
+        <Link to={profilePath(post.profiles.username)} className="font-semibold text-gray-900 hover:underline">
+          {post.profiles.full_name || post.profiles.username}
+        </Link>{' '}
+        @{post.profiles.username} ·{' '}
+        <Link to={postPath(post.id)} className="hover:underline">
+          {new Date(post.created_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+        </Link>
+      </p>
+
+      <div className="line-clamp-4">
+        <RichText text={post.content} className="text-sm text-gray-800" />
+      </div>
+
+      <PostMedia media={post.media ?? []} className="mt-2" />
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { useEffect, useRef, useState } from 'react';
+import { Heart } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { react, toggleLike } from '../lib/actions';
+import { REACTIONS, reactionOption, type PostReaction } from '../lib/reactions';
+
+interface ReactionButtonProps {
+  post: { id: string; likes_count: number; my_reaction: PostReaction | null };
+}
+
+// Hovering this long, or pressing and holding, opens the picker.
+const PICKER_DELAY_MS = 450;
+
+// A tap likes (❤️) or takes back the viewer's reaction; hovering or a long
+// press opens the picker to choose another.
+export default function ReactionButton({ post }: ReactionButtonProps) {
+  const { user } = useAuth();
+  const [loading, setLoading] = useState(false);
+  const [showPicker, setShowPicker] = useState(false);
+  const timer = useRef<ReturnType<typeof setTimeout>>();
+  // Set when a long press opened the picker, so the click that ends it
+  // doesn't also toggle the reaction.
+  const longPressed = useRef(false);
+
+  useEffect(() => () => clearTimeout(timer.current), []);
+
+  const schedule = (open: boolean, byTouch = false) => {
+    clearTimeout(timer.current);
+    timer.current = setTimeout(() => {
+      setShowPicker(open);
+      if (open && byTouch) longPressed.current = true;
+    }, open ? PICKER_DELAY_MS : 200);
+  };
+
+  const cancel = () => clearTimeout(timer.current);
+
+  const run = async (action: () => Promise<void>) => {
+    if (!user || loading) return;
+
+    setLoading(true);
+    await action();
+    setLoading(false);
+  };
+
+  const handleClick = () => {
+    if (longPressed.current) {
+      longPressed.current = false;
+      return;
+    }
+    run(() => toggleLike(post.id, user!.id));
+  };
+
+  const handlePick = (reaction: PostReaction) => {
+    cancel();
+    setShowPicker(false);
+    longPressed.current = false;
+    run(() => react(post.id, user!.id, post.my_reaction === reaction ? null : reaction));
+  };
+
+  const current = post.my_reaction ? reactionOption(post.my_reaction) : null;
+
+  return (
+    <div
+      className="relative"
+      onMouseEnter={() => user && schedule(true)}
+      onMouseLeave={() => (showPicker ? schedule(false) : cancel())}
+    >
+      {showPicker && (
+        <div
+          role="toolbar"
+          aria-label="Reactions"
+          className="absolute bottom-full left-0 mb-2 flex gap-1 bg-white rounded-full shadow-lg border border-gray-200 px-2 py-1 z-10"
+        >
+          {REACTIONS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => handlePick(option.value)}
+              aria-label={option.label}
+              aria-pressed={post.my_reaction === option.value}
+              title={option.label}
+              className={`text-2xl leading-none p-1 rounded-full hover:scale-125 transition ${
+                post.my_reaction === option.value ? 'bg-blue-50' : ''
+              }`}
+            >
+              {option.emoji}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <button
+        onClick={handleClick}
+        onTouchStart={() => {
+          longPressed.current = false;
+          if (user) schedule(true, true);
+        }}
+        onTouchEnd={cancel}
+        onTouchMove={cancel}
+        onContextMenu={(e) => e.preventDefault()}
+        disabled={loading}
+        className={`flex items-center gap-2 select-none ${
+          current ? 'text-red-600' : 'text-gray-600'
+        } hover:text-red-600 transition group`}
+        title={current ? `Reacted ${current.label}` : 'Like'}
+      >
+        {current && current.value !== 'heart' ? (
+          <span aria-hidden="true" className="text-lg leading-5 group-hover:scale-110 transition">
+            {current.emoji}
+          </span>
+        ) : (
+          <Heart className={`w-5 h-5 ${current ? 'fill-current' : ''} group-hover:scale-110 transition`} />
+        )}
+        <span className="text-sm font-medium">{post.likes_count}</span>
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Loader2, X } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { loadFollowState } from '../lib/actions';
+import { listPostReactions, type PostReactionEntry } from '../lib/api';
+import { reactionOption, topReactions, type PostReaction, type ReactionCounts } from '../lib/reactions';
+import { profilePath } from '../lib/router';
+import FollowButton from './FollowButton';
+import InfiniteScrollSentinel from './InfiniteScrollSentinel';
+import Link from './Link';
+
+interface ReactionsDialogProps {
+  post: { id: string; likes_count: number; reaction_counts: ReactionCounts };
+  onClose: () => void;
+}
+
+// Who reacted to a post, with a tab per reaction anyone picked and a follow
+// button for each person. Loads more as it's scrolled.
+export default function ReactionsDialog({ post, onClose }: ReactionsDialogProps) {
+  const { user } = useAuth();
+  const [filter, setFilter] = useState<PostReaction | null>(null);
+  const [entries, setEntries] = useState<PostReactionEntry[] | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // Pages from a previous tab must not append into the new list.
+  const generation = useRef(0);
+
+  const loadPage = useCallback(
+    async (before?: PostReactionEntry) => {
+      const current = generation.current;
+      const { data, error } = await listPostReactions(post.id, filter ?? undefined, {
+        before: before && { created_at: before.created_at, id: before.id },
+      });
+      if (current !== generation.current) return;
+
+      if (error) {
+        console.error('Error loading reactions:', error);
+        setEntries((existing) => existing ?? []);
+        setHasMore(false);
+        return;
+      }
+
+      if (user) await loadFollowState(user.id, data.entries.map((entry) => entry.profiles));
+      if (current !== generation.current) return;
+
+      setEntries((existing) => [...(before ? existing ?? [] : []), ...data.entries]);
+      setHasMore(data.hasMore);
+    },
+    [post.id, filter, user]
+  );
+
+  useEffect(() => {
+    generation.current++;
+    setEntries(null);
+    setHasMore(false);
+    loadPage();
+  }, [loadPage]);
+
+  const loadMore = useCallback(async () => {
+    if (loadingMore || !entries?.length) return;
+
+    setLoadingMore(true);
+    await loadPage(entries[entries.length - 1]);
+    setLoadingMore(false);
+  }, [loadingMore, entries, loadPage]);
+
+  const tabs = [
+    { value: null, label: 'All', count: post.likes_count },
+    ...topReactions(post.reaction_counts).map((option) => ({
+      value: option.value,
+      label: option.emoji,
+      count: post.reaction_counts[option.value] ?? 0,
+    })),
+  ];
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div role="dialog" aria-label="Liked by" className="bg-white rounded-lg shadow-xl w-full max-w-md">
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-bold text-gray-900">Liked by</h3>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full transition">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div role="tablist" className="flex gap-1 px-4 pt-2 border-b border-gray-200">
+          {tabs.map((tab) => (
+            <button
+              key={tab.value ?? 'all'}
+              role="tab"
+              aria-selected={filter === tab.value}
+              aria-label={tab.value ? `${reactionOption(tab.value).label} ${tab.count}` : undefined}
+              onClick={() => setFilter(tab.value)}
+              className={`px-3 py-2 text-sm font-medium border-b-2 -mb-px transition ${
+                filter === tab.value
+                  ? 'border-blue-600 text-blue-600'
+                  : 'border-transparent text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {tab.label} {tab.count}
+            </button>
+          ))}
+        </div>
+
+        <div className="p-2 max-h-[60vh] overflow-y-auto">
+          {!entries ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 text-blue-600 animate-spin" />
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">No reactions yet.</p>
+          ) : (
+            <>
+              <ul>
+                {entries.map((entry) => (
+                  <li key={entry.id} className="flex items-center gap-3 p-2">
+                    <Link
+                      to={profilePath(entry.profiles.username)}
+                      onClick={onClose}
+                      className="flex flex-1 min-w-0 items-center gap-3 rounded-lg hover:opacity-80 transition"
+                    >
+                      <div className="relative shrink-0">
+                        <div
+                          className="w-10 h-10 rounded-full bg-gray-300 flex items-center justify-center font-bold text-white"
+                          style={{
+                            backgroundImage: entry.profiles.avatar_url ? `url(${entry.profiles.avatar_url})` : undefined,
+                            backgroundSize: 'cover',
+                            backgroundPosition: 'center',
+                          }}
+                        >
+                          {!entry.profiles.avatar_url && entry.profiles.username.charAt(0).toUpperCase()}
+                        </div>
+                        <span
+                          className="absolute -bottom-1 -right-1 text-sm leading-none"
+                          title={reactionOption(entry.reaction).label}
+                        >
+                          {reactionOption(entry.reaction).emoji}
+                        </span>
+                      </div>
+                      <div className="min-w-0">
+                        <p className="font-semibold text-gray-900 truncate">
+                          {entry.profiles.full_name || entry.profiles.username}
+                        </p>
+                        <p className="text-sm text-gray-600 truncate">@{entry.profiles.username}</p>
+                      </div>
+                    </Link>
+                    <FollowButton profileId={entry.profiles.id} />
+                  </li>
+                ))}
+              </ul>
+              <InfiniteScrollSentinel onVisible={loadMore} hasMore={hasMore} loading={loadingMore} />
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
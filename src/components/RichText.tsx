@@ -0,0 +1,97 @@
+import { Fragment } from 'react';
+import { parseRichText, type Inline } from '../lib/richText';
+import { profilePath, tagPath } from '../lib/router';
+import Link from './Link';
+
+interface RichTextProps {
+  text: string;
+  className?: string;
+  // Light-on-dark text, e.g. the viewer's own message bubbles.
+  inverted?: boolean;
+}
+
+// User-written text with light formatting: see `lib/richText` for what's
+// supported. Everything is rendered as React elements, never as HTML.
+export default function RichText({ text, className = '', inverted = false }: RichTextProps) {
+  const linkClassName = inverted ? 'underline hover:opacity-80' : 'text-blue-600 hover:underline';
+  const codeClassName = `px-1 py-0.5 rounded font-mono text-[0.9em] ${inverted ? 'bg-white bg-opacity-20' : 'bg-gray-100'}`;
+
+  const renderInline = (nodes: Inline[]) =>
+    nodes.map((node, index) => {
+      switch (node.type) {
+        case 'text':
+          return <Fragment key={index}>{node.text}</Fragment>;
+        case 'code':
+          return (
+            <code key={index} className={codeClassName}>
+              {node.text}
+            </code>
+          );
+        case 'bold':
+          return <strong key={index}>{renderInline(node.children)}</strong>;
+        case 'italic':
+          return <em key={index}>{renderInline(node.children)}</em>;
+        case 'link':
+          return (
+            <a
+              key={index}
+              href={node.href}
+              target="_blank"
+              rel="noopener noreferrer nofollow ugc"
+              className={`${linkClassName} break-all`}
+            >
+              {node.text}
+            </a>
+          );
+        case 'mention':
+          return (
+            <Link key={index} to={profilePath(node.username)} className={linkClassName}>
+              {node.text}
+            </Link>
+          );
+        case 'hashtag':
+          return (
+            <Link key={index} to={tagPath(node.tag)} className={linkClassName}>
+              {node.text}
+            </Link>
+          );
+      }
+    });
+
+  return (
+    <div className={`space-y-2 break-words ${className}`}>
+      {parseRichText(text).map((block, index) => {
+        switch (block.type) {
+          case 'paragraph':
+            return (
+              <p key={index} className="whitespace-pre-wrap">
+                {renderInline(block.children)}
+              </p>
+            );
+          case 'quote':
+            return (
+              <blockquote
+                key={index}
+                className={`whitespace-pre-wrap border-l-4 pl-3 ${
+                  inverted ? 'border-white border-opacity-50' : 'border-gray-300 text-gray-600'
+                }`}
+              >
+                {renderInline(block.children)}
+              </blockquote>
+            );
+          case 'code':
+            return (
+              <pre
+                key={index}
+                className={`overflow-x-auto rounded-lg p-3 font-mono text-sm ${
+                  inverted ? 'bg-black bg-opacity-20' : 'bg-gray-900 text-gray-100'
+                }`}
+              >
+                <code>{block.text}</code>
+              </pre>
+            );
+        }
+      })}
+    </div>
+  );
+}
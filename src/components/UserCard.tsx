@@ -0,0 +1,42 @@
+import type { Profile } from '../lib/api';
+import { profilePath } from '../lib/router';
+import { useFollowerCount } from '../lib/store';
+import FollowButton from './FollowButton';
+import Link from './Link';
+
+interface UserCardProps {
+  user: Profile;
+}
+
+export default function UserCard({ user: profile }: UserCardProps) {
+  const followersCount = useFollowerCount(profile.id);
+
+  return (
+    <div className="flex items-center gap-3 p-4 bg-white rounded-lg shadow-sm hover:shadow-md transition">
+      <Link to={profilePath(profile.username)}>
+        <div
+          className="w-12 h-12 rounded-full bg-gray-300 flex items-center justify-center text-lg font-bold text-white"
+          style={{
+            backgroundImage: profile.avatar_url ? `url(${profile.avatar_url})` : undefined,
+            backgroundSize: 'cover',
+            backgroundPosition: 'center',
+          }}
+        >
+          {!profile.avatar_url && profile.username.charAt(0).toUpperCase()}
+        </div>
+      </Link>
+      <div className="flex-1 min-w-0">
+        <Link to={profilePath(profile.username)} className="hover:underline">
+          <p className="font-semibold text-gray-900 truncate">
+            {profile.full_name || profile.username}
+          </p>
+          <p className="text-sm text-gray-600 truncate">@{profile.username}</p>
+        </Link>
+        {followersCount !== undefined && (
+          <p className="text-xs text-gray-500">{followersCount} followers</p>
+        )}
+      </div>
+      <FollowButton profileId={profile.id} />
+    </div>
+  );
+}
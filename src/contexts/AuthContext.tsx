@@ -1,9 +1,8 @@
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { User, Session, AuthError } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
-import type { Database } from '../lib/database.types';
-
-type Profile = Database['public']['Tables']['profiles']['Row'];
+import { createProfile, getProfileById, type Profile } from '../lib/api';
+import { resetStore } from '../lib/store';
 
 interface AuthContextType {
   user: User | null;
@@ -25,11 +24,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [loading, setLoading] = useState(true);
 
   const fetchProfile = async (userId: string) => {
-    const { data, error } = await supabase
-      .from('profiles')
-      .select('*')
-      .eq('id', userId)
-      .maybeSingle();
+    const { data, error } = await getProfileById(userId);
 
     if (error) {
       console.error('Error fetching profile:', error);
@@ -79,12 +74,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     if (error) return { error };
 
     if (data.user) {
-      const { error: profileError } = await supabase
-        .from('profiles')
-        .insert({
-          id: data.user.id,
-          username,
-        });
+      const { error: profileError } = await createProfile({
+        id: data.user.id,
+        username,
+      });
 
       if (profileError) {
         return { error: profileError as unknown as AuthError };
@@ -106,6 +99,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const signOut = async () => {
     await supabase.auth.signOut();
     setProfile(null);
+    resetStore();
   };
 
   return (
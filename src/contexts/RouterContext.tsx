@@ -0,0 +1,139 @@
+import { createContext, useCallback, useContext, useEffect, useLayoutEffect, useRef, useState, ReactNode } from 'react';
+
+interface RouterLocation {
+  pathname: string;
+  search: string;
+  key: string;
+}
+
+interface NavigateOptions {
+  replace?: boolean;
+}
+
+interface RouterContextType {
+  location: RouterLocation;
+  navigate: (to: string, options?: NavigateOptions) => void;
+}
+
+const RouterContext = createContext<RouterContextType | undefined>(undefined);
+
+const SCROLL_STORAGE_KEY = 'router.scroll';
+const SCROLL_RESTORE_TIMEOUT = 1000;
+
+const createKey = () => Math.random().toString(36).slice(2, 10);
+
+const readLocation = (): RouterLocation => {
+  const state = window.history.state as { key?: string } | null;
+  let key = state?.key;
+
+  if (!key) {
+    key = createKey();
+    window.history.replaceState({ ...state, key }, '');
+  }
+
+  return {
+    pathname: window.location.pathname,
+    search: window.location.search,
+    key,
+  };
+};
+
+const loadScrollPositions = (): Record<string, number> => {
+  try {
+    return JSON.parse(sessionStorage.getItem(SCROLL_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export function RouterProvider({ children }: { children: ReactNode }) {
+  const [location, setLocation] = useState<RouterLocation>(readLocation);
+  const scrollPositions = useRef<Record<string, number>>(loadScrollPositions());
+  const isPop = useRef(false);
+
+  const saveScrollPosition = useCallback((key: string) => {
+    scrollPositions.current[key] = window.scrollY;
+    sessionStorage.setItem(SCROLL_STORAGE_KEY, JSON.stringify(scrollPositions.current));
+  }, []);
+
+  const navigate = useCallback((to: string, options: NavigateOptions = {}) => {
+    const url = new URL(to, window.location.origin);
+    const current = readLocation();
+
+    if (url.pathname === current.pathname && url.search === current.search && !options.replace) {
+      return;
+    }
+
+    saveScrollPosition(current.key);
+
+    const key = createKey();
+    if (options.replace) {
+      window.history.replaceState({ key }, '', url.pathname + url.search + url.hash);
+    } else {
+      window.history.pushState({ key }, '', url.pathname + url.search + url.hash);
+    }
+
+    isPop.current = false;
+    setLocation({ pathname: url.pathname, search: url.search, key });
+  }, [saveScrollPosition]);
+
+  useEffect(() => {
+    if ('scrollRestoration' in window.history) {
+      window.history.scrollRestoration = 'manual';
+    }
+
+    const handlePopState = () => {
+      isPop.current = true;
+      setLocation(readLocation());
+    };
+
+    const handleBeforeUnload = () => {
+      saveScrollPosition(readLocation().key);
+    };
+
+    window.addEventListener('popstate', handlePopState);
+    window.addEventListener('beforeunload', handleBeforeUnload);
+
+    return () => {
+      window.removeEventListener('popstate', handlePopState);
+      window.removeEventListener('beforeunload', handleBeforeUnload);
+    };
+  }, [saveScrollPosition]);
+
+  useLayoutEffect(() => {
+    const target = isPop.current ? scrollPositions.current[location.key] ?? 0 : 0;
+
+    if (target === 0) {
+      window.scrollTo(0, 0);
+      return;
+    }
+
+    // Pages load their data asynchronously, so keep trying until the document is tall enough.
+    const startedAt = Date.now();
+    let frame = 0;
+
+    const restore = () => {
+      window.scrollTo(0, target);
+      if (Math.abs(window.scrollY - target) > 1 && Date.now() - startedAt < SCROLL_RESTORE_TIMEOUT) {
+        frame = requestAnimationFrame(restore);
+      }
+    };
+
+    restore();
+    return () => cancelAnimationFrame(frame);
+  }, [location.key]);
+
+  return (
+    <RouterContext.Provider value={{ location, navigate }}>
+      {children}
+    </RouterContext.Provider>
+  );
+}
+
+export function useRouter() {
+  const context = useContext(RouterContext);
+  if (context === undefined) {
+    throw new Error('useRouter must be used within a RouterProvider');
+  }
+  return context;
+}
@@ -0,0 +1,382 @@
+import {
+  bookmarkPost,
+  changeReaction,
+  createNotification,
+  deleteComment,
+  deleteNotification,
+  deletePost as deletePostRequest,
+  followProfile,
+  likePost,
+  listFollowedAmong,
+  repostPost,
+  savePostDraft,
+  unbookmarkPost,
+  unfollowProfile,
+  unlikePost,
+  unrepostPost,
+  updatePostContent,
+  updateProfile,
+  updateScheduledPost,
+  voteInPoll,
+  type ApiResult,
+  type Profile,
+} from './api';
+import { enqueue } from './outbox';
+import { adjustReactionCounts, type PostReaction } from './reactions';
+import { followKey, getState, ingestFollows, ingestProfiles, setState, type EntityState, type PostRow } from './store';
+
+type Updater = (state: EntityState) => EntityState;
+
+// Applies `apply` immediately and `rollback` if the request fails. Both are
+// expressed as targeted updates so concurrent mutations aren't clobbered.
+async function optimistic<T>(apply: Updater, rollback: Updater, request: () => Promise<ApiResult<T>>) {
+  setState(apply);
+  const result = await request();
+  if (result.error) {
+    setState(rollback);
+  }
+  return result;
+}
+
+const patchPost = (postId: string, changes: Partial<PostRow>): Updater => (current) => {
+  const post = current.posts[postId];
+  if (!post) return current;
+
+  return {
+    ...current,
+    posts: { ...current.posts, [postId]: { ...post, ...changes } },
+  };
+};
+
+const setReaction = (postId: string, reaction: PostReaction | null): Updater => (current) => {
+  const post = current.posts[postId];
+  if (!post || post.my_reaction === reaction) return current;
+
+  return patchPost(postId, {
+    liked_by_me: reaction !== null,
+    my_reaction: reaction,
+    likes_count: post.likes_count + (reaction ? 1 : 0) - (post.my_reaction ? 1 : 0),
+    reaction_counts: adjustReactionCounts(post.reaction_counts, post.my_reaction, reaction),
+  })(current);
+};
+
+const setReposted = (postId: string, reposted: boolean): Updater => (current) => {
+  const post = current.posts[postId];
+  if (!post || post.reposted_by_me === reposted) return current;
+
+  return patchPost(postId, {
+    reposted_by_me: reposted,
+    reposts_count: post.reposts_count + (reposted ? 1 : -1),
+  })(current);
+};
+
+const setBookmarked = (postId: string, bookmarked: boolean): Updater => (current) => {
+  const post = current.posts[postId];
+  if (!post || post.bookmarked_by_me === bookmarked) return current;
+
+  return patchPost(postId, { bookmarked_by_me: bookmarked })(current);
+};
+
+const setPollVote = (postId: string, optionId: string | null): Updater => (current) => {
+  const poll = current.posts[postId]?.poll;
+  if (!poll || poll.voted_option_id === optionId) return current;
+
+  const delta = (id: string) => (id === optionId ? 1 : 0) - (id === poll.voted_option_id ? 1 : 0);
+  return patchPost(postId, {
+    poll: {
+      ...poll,
+      voted_option_id: optionId,
+      votes_count: poll.votes_count + (optionId ? 1 : 0) - (poll.voted_option_id ? 1 : 0),
+      options: poll.options.map((option) => ({ ...option, votes_count: option.votes_count + delta(option.id) })),
+    },
+  })(current);
+};
+
+const adjustCommentCount = (postId: string, delta: number): Updater => (current) => {
+  const post = current.posts[postId];
+  if (!post) return current;
+
+  return patchPost(postId, { comments_count: Math.max(0, post.comments_count + delta) })(current);
+};
+
+const patchProfile = (profileId: string, changes: (profile: Profile) => Partial<Profile>): Updater => (current) => {
+  const profile = current.profiles[profileId];
+  if (!profile) return current;
+
+  return {
+    ...current,
+    profiles: { ...current.profiles, [profileId]: { ...profile, ...changes(profile) } },
+  };
+};
+
+const setFollowing = (followerId: string, followingId: string, following: boolean): Updater => (current) => {
+  const key = followKey(followerId, followingId);
+  if (!!current.follows[key] === following) return current;
+
+  const delta = following ? 1 : -1;
+  const next = { ...current, follows: { ...current.follows, [key]: following } };
+
+  return [
+    patchProfile(followingId, (profile) => ({ followers_count: profile.followers_count + delta })),
+    patchProfile(followerId, (profile) => ({ following_count: profile.following_count + delta })),
+  ].reduce((state, update) => update(state), next);
+};
+
+const adjustPostCount = (profileId: string, delta: number): Updater =>
+  patchProfile(profileId, (profile) => ({ posts_count: Math.max(0, profile.posts_count + delta) }));
+
+const setPinnedPostId = (profileId: string, postId: string | null): Updater =>
+  patchProfile(profileId, () => ({ pinned_post_id: postId }));
+
+// Reacts to a post, changes the reaction, or with null takes it back. The
+// author is notified of the first reaction, as of a like.
+export async function react(postId: string, userId: string, reaction: PostReaction | null) {
+  const post = getState().posts[postId];
+  if (!post || post.my_reaction === reaction) return;
+
+  const previous = post.my_reaction;
+
+  const { error } = await optimistic(setReaction(postId, reaction), setReaction(postId, previous), () =>
+    !reaction
+      ? unlikePost(userId, postId)
+      : previous
+        ? changeReaction(userId, postId, reaction)
+        : likePost(userId, postId, reaction)
+  );
+
+  if (error) {
+    console.error('Error reacting to post:', error);
+  } else if (!reaction) {
+    await deleteNotification({ userId: post.user_id, actorId: userId, type: 'like', postId });
+  } else if (!previous) {
+    await createNotification({ user_id: post.user_id, actor_id: userId, type: 'like', post_id: postId });
+  }
+}
+
+// A quick tap: ❤️, or takes back whatever reaction was there.
+export async function toggleLike(postId: string, userId: string) {
+  const post = getState().posts[postId];
+  if (!post) return;
+
+  await react(postId, userId, post.my_reaction ? null : 'heart');
+}
+
+export async function toggleRepost(postId: string, userId: string) {
+  const post = getState().posts[postId];
+  if (!post) return;
+
+  const isReposted = post.reposted_by_me;
+
+  const { error } = await optimistic(
+    setReposted(postId, !isReposted),
+    setReposted(postId, isReposted),
+    () => (isReposted ? unrepostPost(userId, postId) : repostPost(userId, postId))
+  );
+
+  if (error) {
+    console.error(isReposted ? 'Error undoing repost:' : 'Error reposting post:', error);
+  } else if (isReposted) {
+    await deleteNotification({ userId: post.user_id, actorId: userId, type: 'repost', postId });
+  } else {
+    await createNotification({ user_id: post.user_id, actor_id: userId, type: 'repost', post_id: postId });
+  }
+}
+
+// Bookmarks are private, so there's no notification.
+export async function toggleBookmark(postId: string, userId: string) {
+  const post = getState().posts[postId];
+  if (!post) return;
+
+  const isBookmarked = post.bookmarked_by_me;
+
+  const { error } = await optimistic(
+    setBookmarked(postId, !isBookmarked),
+    setBookmarked(postId, isBookmarked),
+    () => (isBookmarked ? unbookmarkPost(userId, postId) : bookmarkPost(userId, postId))
+  );
+
+  if (error) {
+    console.error(isBookmarked ? 'Error removing bookmark:' : 'Error bookmarking post:', error);
+  }
+}
+
+export async function votePoll(postId: string, optionId: string, userId: string) {
+  const poll = getState().posts[postId]?.poll;
+  if (!poll || poll.voted_option_id) return;
+
+  const result = await optimistic(setPollVote(postId, optionId), setPollVote(postId, null), () =>
+    voteInPoll(userId, optionId)
+  );
+
+  if (result.error) {
+    console.error('Error voting in poll:', result.error);
+  }
+  return result;
+}
+
+export async function toggleFollow(followerId: string, followingId: string) {
+  const isFollowing = !!getState().follows[followKey(followerId, followingId)];
+
+  const { error } = await optimistic(
+    setFollowing(followerId, followingId, !isFollowing),
+    setFollowing(followerId, followingId, isFollowing),
+    () => (isFollowing ? unfollowProfile(followerId, followingId) : followProfile(followerId, followingId))
+  );
+
+  if (error) {
+    console.error(isFollowing ? 'Error unfollowing user:' : 'Error following user:', error);
+  } else if (isFollowing) {
+    await deleteNotification({ userId: followingId, actorId: followerId, type: 'follow' });
+  } else {
+    await createNotification({ user_id: followingId, actor_id: followerId, type: 'follow' });
+  }
+}
+
+// Puts `profiles` (with their counters) and whether the viewer follows each
+// into the shared store, for the follow buttons listing them. Pass the ids
+// the viewer follows when already known to skip the lookup.
+export async function loadFollowState(viewerId: string, profiles: Profile[], knownFollowing?: string[]) {
+  ingestProfiles(profiles);
+
+  let following = knownFollowing;
+  if (!following) {
+    const { data, error } = await listFollowedAmong(viewerId, profiles.map((profile) => profile.id));
+    if (error) {
+      console.error('Error loading follows:', error);
+      return;
+    }
+    following = data;
+  }
+
+  ingestFollows(viewerId, Object.fromEntries(profiles.map((profile) => [profile.id, following.includes(profile.id)])));
+}
+
+// Queues the comment in the outbox; callers resync the count with
+// `setCommentCount` once it is delivered and they refetch the thread.
+export async function addComment(postId: string, userId: string, content: string) {
+  const post = getState().posts[postId];
+
+  return enqueue(
+    'comment',
+    { user_id: userId, post_id: postId, content },
+    post ? { user_id: post.user_id, actor_id: userId, type: 'comment', post_id: postId } : null
+  );
+}
+
+export function setCommentCount(postId: string, count: number) {
+  setState(patchPost(postId, { comments_count: count }));
+}
+
+export async function removeComment(postId: string, commentId: string) {
+  const result = await optimistic(
+    adjustCommentCount(postId, -1),
+    adjustCommentCount(postId, 1),
+    () => deleteComment(commentId)
+  );
+
+  if (result.error) {
+    console.error('Error deleting comment:', result.error);
+  }
+
+  return result;
+}
+
+export async function editPost(postId: string, content: string) {
+  const post = getState().posts[postId];
+  if (!post) return;
+
+  const result = await optimistic(
+    patchPost(postId, { content, is_edited: true }),
+    patchPost(postId, { content: post.content, is_edited: post.is_edited }),
+    () => updatePostContent(postId, content)
+  );
+
+  if (result.error) {
+    console.error('Error updating post:', result.error);
+  }
+
+  return result;
+}
+
+// A scheduled post moves in every list along with its publish time.
+export async function editScheduledPost(postId: string, content: string, publishAt: string) {
+  const post = getState().posts[postId];
+  if (!post) return;
+
+  const result = await optimistic(
+    patchPost(postId, { content, publish_at: publishAt, created_at: publishAt }),
+    patchPost(postId, { content: post.content, publish_at: post.publish_at, created_at: post.created_at }),
+    () => updateScheduledPost(postId, { content, publish_at: publishAt })
+  );
+
+  if (result.error) {
+    console.error('Error updating scheduled post:', result.error);
+  }
+
+  return result;
+}
+
+// Cancels a scheduled post, keeping its text as a draft.
+export async function unschedulePost(postId: string) {
+  const post = getState().posts[postId];
+  if (!post) return;
+
+  const saved = await savePostDraft({ id: crypto.randomUUID(), user_id: post.user_id, content: post.content });
+  if (saved.error) {
+    console.error('Error saving draft:', saved.error);
+    return saved;
+  }
+
+  return deletePost(postId);
+}
+
+export async function deletePost(postId: string) {
+  const post = getState().posts[postId];
+  if (!post) return;
+
+  const wasPinned = getState().profiles[post.user_id]?.pinned_post_id === postId;
+
+  // The database unpins it too.
+  const result = await optimistic(
+    (current) => {
+      const posts = { ...current.posts };
+      delete posts[postId];
+      const unpinned = wasPinned ? setPinnedPostId(post.user_id, null)(current) : current;
+      return adjustPostCount(post.user_id, -1)({ ...unpinned, posts });
+    },
+    (current) => {
+      const repinned = wasPinned ? setPinnedPostId(post.user_id, postId)(current) : current;
+      return adjustPostCount(post.user_id, 1)({ ...repinned, posts: { ...repinned.posts, [postId]: post } });
+    },
+    () => deletePostRequest(postId)
+  );
+
+  if (result.error) {
+    console.error('Error deleting post:', result.error);
+  }
+
+  return result;
+}
+
+// Pins the post to the top of its author's profile, replacing any pinned
+// post, or unpins it.
+export async function togglePinnedPost(postId: string) {
+  const post = getState().posts[postId];
+  const profile = post && getState().profiles[post.user_id];
+  if (!post || !profile) return;
+
+  const previous = profile.pinned_post_id;
+  const next = previous === postId ? null : postId;
+
+  const result = await optimistic(
+    setPinnedPostId(profile.id, next),
+    setPinnedPostId(profile.id, previous),
+    () => updateProfile(profile.id, { pinned_post_id: next })
+  );
+
+  if (result.error) {
+    console.error('Error pinning post:', result.error);
+  }
+
+  return result;
+}
@@ -0,0 +1,64 @@
+import { supabase } from '../supabase';
+import type { Tables } from '../database.types';
+import { fail, ok, toResult, toVoidResult } from './result';
+
+export type BookmarkFolder = Tables<'bookmark_folders'>;
+
+export async function listBookmarkFolders(userId: string) {
+  const response = await supabase
+    .from('bookmark_folders')
+    .select('*')
+    .eq('user_id', userId)
+    .order('name', { ascending: true });
+
+  return toResult<BookmarkFolder[]>(response, []);
+}
+
+export async function createBookmarkFolder(userId: string, name: string) {
+  const response = await supabase
+    .from('bookmark_folders')
+    .insert({
+      user_id: userId,
+      name,
+    })
+    .select()
+    .single();
+
+  if (response.error) return fail<BookmarkFolder>(response.error);
+  return ok(response.data);
+}
+
+// The folder's bookmarks are kept, unfiled.
+export async function deleteBookmarkFolder(id: string) {
+  return toVoidResult(await supabase.from('bookmark_folders').delete().eq('id', id));
+}
+
+export async function bookmarkPost(userId: string, postId: string) {
+  return toVoidResult(
+    await supabase.from('bookmarks').insert({
+      user_id: userId,
+      post_id: postId,
+    })
+  );
+}
+
+export async function unbookmarkPost(userId: string, postId: string) {
+  return toVoidResult(
+    await supabase
+      .from('bookmarks')
+      .delete()
+      .eq('user_id', userId)
+      .eq('post_id', postId)
+  );
+}
+
+// `folderId` null takes the bookmark out of its folder.
+export async function moveBookmark(userId: string, postId: string, folderId: string | null) {
+  return toVoidResult(
+    await supabase
+      .from('bookmarks')
+      .update({ folder_id: folderId })
+      .eq('user_id', userId)
+      .eq('post_id', postId)
+  );
+}
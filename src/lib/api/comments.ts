@@ -0,0 +1,31 @@
+import { supabase } from '../supabase';
+import type { Tables, TablesInsert } from '../database.types';
+import type { Profile } from './profiles';
+import { toResult, toVoidResult } from './result';
+
+export type CommentWithAuthor = Tables<'comments'> & {
+  profiles: Profile;
+};
+
+// Top-level comments on a post, oldest first.
+export async function listComments(postId: string) {
+  const response = await supabase
+    .from('comments')
+    .select(`
+      *,
+      profiles(*)
+    `)
+    .eq('post_id', postId)
+    .is('parent_id', null)
+    .order('created_at', { ascending: true });
+
+  return toResult<CommentWithAuthor[]>(response, []);
+}
+
+export async function createComment(comment: TablesInsert<'comments'>) {
+  return toVoidResult(await supabase.from('comments').insert(comment));
+}
+
+export async function deleteComment(id: string) {
+  return toVoidResult(await supabase.from('comments').delete().eq('id', id));
+}
@@ -0,0 +1,79 @@
+import { supabase } from '../supabase';
+import type { Tables } from '../database.types';
+import type { Profile } from './profiles';
+import { getProfileById } from './profiles';
+import { countUnreadMessages } from './messages';
+import { fail, ok, toResult } from './result';
+
+export type Conversation = Tables<'conversations'>;
+
+export type ConversationWithParticipant = Conversation & {
+  other_user: Profile | null;
+  unread_count: number;
+};
+
+export function getOtherParticipantId(conversation: Conversation, userId: string) {
+  return conversation.user1_id === userId ? conversation.user2_id : conversation.user1_id;
+}
+
+export async function listConversationIds(userId: string) {
+  const response = await supabase
+    .from('conversations')
+    .select('id')
+    .or(`user1_id.eq.${userId},user2_id.eq.${userId}`);
+
+  if (response.error) return fail<string[]>(response.error);
+  return ok(response.data.map((c) => c.id));
+}
+
+// The viewer's conversations, most recently active first, with the other participant and unread count.
+export async function listConversations(userId: string) {
+  const response = await supabase
+    .from('conversations')
+    .select('*')
+    .or(`user1_id.eq.${userId},user2_id.eq.${userId}`)
+    .order('last_message_at', { ascending: false });
+
+  if (response.error) return fail<ConversationWithParticipant[]>(response.error);
+
+  const conversations = await Promise.all(
+    response.data.map(async (conversation): Promise<ConversationWithParticipant> => {
+      const [otherUser, unread] = await Promise.all([
+        getProfileById(getOtherParticipantId(conversation, userId)),
+        countUnreadMessages([conversation.id], userId),
+      ]);
+
+      return {
+        ...conversation,
+        other_user: otherUser.data,
+        unread_count: unread.data ?? 0,
+      };
+    })
+  );
+
+  return ok(conversations);
+}
+
+export async function findConversation(userId: string, otherUserId: string) {
+  const response = await supabase
+    .from('conversations')
+    .select('*')
+    .or(`and(user1_id.eq.${userId},user2_id.eq.${otherUserId}),and(user1_id.eq.${otherUserId},user2_id.eq.${userId})`)
+    .maybeSingle();
+
+  return toResult<Conversation | null>(response, null);
+}
+
+export async function createConversation(userId: string, otherUserId: string) {
+  const response = await supabase
+    .from('conversations')
+    .insert({
+      user1_id: userId,
+      user2_id: otherUserId,
+    })
+    .select()
+    .single();
+
+  if (response.error) return fail<Conversation>(response.error);
+  return ok(response.data);
+}
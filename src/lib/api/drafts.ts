@@ -0,0 +1,25 @@
+import { supabase } from '../supabase';
+import type { Tables, TablesInsert } from '../database.types';
+import { toResult, toVoidResult } from './result';
+
+export type PostDraft = Tables<'post_drafts'>;
+
+// Most recently edited first.
+export async function listPostDrafts(userId: string) {
+  const response = await supabase
+    .from('post_drafts')
+    .select('*')
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false });
+
+  return toResult<PostDraft[]>(response, []);
+}
+
+// Drafts carry a client-generated id, so every autosave is the same upsert.
+export async function savePostDraft(draft: TablesInsert<'post_drafts'> & { id: string }) {
+  return toVoidResult(await supabase.from('post_drafts').upsert(draft));
+}
+
+export async function deletePostDraft(id: string) {
+  return toVoidResult(await supabase.from('post_drafts').delete().eq('id', id));
+}
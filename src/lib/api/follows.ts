@@ -0,0 +1,57 @@
+import { supabase } from '../supabase';
+import { fail, ok, toVoidResult } from './result';
+
+export async function listFollowingIds(userId: string) {
+  const response = await supabase
+    .from('follows')
+    .select('following_id')
+    .eq('follower_id', userId);
+
+  if (response.error) return fail<string[]>(response.error);
+  return ok(response.data.map((f) => f.following_id));
+}
+
+// Which of `profileIds` the follower follows.
+export async function listFollowedAmong(followerId: string, profileIds: string[]) {
+  if (profileIds.length === 0) return ok<string[]>([]);
+
+  const response = await supabase
+    .from('follows')
+    .select('following_id')
+    .eq('follower_id', followerId)
+    .in('following_id', profileIds);
+
+  if (response.error) return fail<string[]>(response.error);
+  return ok(response.data.map((f) => f.following_id));
+}
+
+export async function isFollowing(followerId: string, followingId: string) {
+  const response = await supabase
+    .from('follows')
+    .select('id')
+    .eq('follower_id', followerId)
+    .eq('following_id', followingId)
+    .maybeSingle();
+
+  if (response.error) return fail<boolean>(response.error);
+  return ok(!!response.data);
+}
+
+export async function followProfile(followerId: string, followingId: string) {
+  return toVoidResult(
+    await supabase.from('follows').insert({
+      follower_id: followerId,
+      following_id: followingId,
+    })
+  );
+}
+
+export async function unfollowProfile(followerId: string, followingId: string) {
+  return toVoidResult(
+    await supabase
+      .from('follows')
+      .delete()
+      .eq('follower_id', followerId)
+      .eq('following_id', followingId)
+  );
+}
@@ -0,0 +1,11 @@
+import { supabase } from '../supabase';
+import type { Database } from '../database.types';
+import { toResult } from './result';
+
+export type TrendingHashtag = Database['public']['Functions']['get_trending_hashtags']['Returns'][number];
+
+// The most used tags on posts from the last `windowHours`.
+export async function listTrendingHashtags(windowHours = 24, limit = 10) {
+  const response = await supabase.rpc('get_trending_hashtags', { window_hours: windowHours, max_tags: limit });
+  return toResult<TrendingHashtag[]>(response, []);
+}
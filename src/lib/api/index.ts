@@ -0,0 +1,14 @@
+export * from './result';
+export * from './profiles';
+export * from './follows';
+export * from './posts';
+export * from './hashtags';
+export * from './bookmarks';
+export * from './drafts';
+export * from './polls';
+export * from './media';
+export * from './linkPreviews';
+export * from './comments';
+export * from './conversations';
+export * from './messages';
+export * from './notifications';
@@ -0,0 +1,21 @@
+import { PostgrestError } from '@supabase/supabase-js';
+import type { Tables } from '../database.types';
+import { supabase } from '../supabase';
+import { fail, ok, type ApiResult } from './result';
+
+export type LinkPreview = Tables<'link_previews'>;
+
+// Looks up the preview card for `url` through the `unfurl` edge function,
+// which fetches the page on a cache miss. Null when the page has nothing to
+// show, e.g. it isn't HTML.
+export async function unfurlLink(url: string): Promise<ApiResult<LinkPreview | null>> {
+  const { data, error } = await supabase.functions.invoke<{ preview: LinkPreview | null }>('unfurl', {
+    body: { url },
+  });
+
+  if (error) {
+    // Functions report their own error type; callers only deal with ApiError.
+    return fail(new PostgrestError({ message: error.message, details: '', hint: '', code: '' }));
+  }
+  return ok(data?.preview ?? null);
+}
@@ -0,0 +1,94 @@
+import { PostgrestError } from '@supabase/supabase-js';
+import type { PostMediaItem } from '../database.types';
+import { supabase } from '../supabase';
+import { fail, ok, type ApiResult } from './result';
+
+export const POST_MEDIA_BUCKET = 'post-media';
+
+// Also enforced by the `media_items_valid` check constraint.
+export const MAX_POST_MEDIA = 4;
+
+// Storage reports its own error type; callers only deal with ApiError.
+const storageFailure = <T>(error: { message: string }) =>
+  fail<T>(new PostgrestError({ message: error.message, details: '', hint: '', code: '' }));
+
+// supabase-js can't report upload progress, so bytes go to the signed upload
+// URL over XHR, in the same multipart shape `uploadToSignedUrl` sends.
+function putWithProgress(url: string, file: Blob, onProgress?: (fraction: number) => void) {
+  return new Promise<string | null>((resolve) => {
+    const body = new FormData();
+    body.append('cacheControl', '3600');
+    body.append('', file);
+
+    const request = new XMLHttpRequest();
+    request.open('PUT', url);
+    request.setRequestHeader('apikey', import.meta.env.VITE_SUPABASE_ANON_KEY);
+    request.setRequestHeader('x-upsert', 'false');
+
+    request.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress?.(event.loaded / event.total);
+    };
+    request.onload = () => {
+      if (request.status >= 200 && request.status < 300) {
+        resolve(null);
+        return;
+      }
+      try {
+        resolve(JSON.parse(request.responseText).message ?? request.statusText);
+      } catch {
+        resolve(request.statusText || 'Upload failed');
+      }
+    };
+    request.onerror = () => resolve('Network error during upload');
+
+    request.send(body);
+  });
+}
+
+// Uploads into the user's own folder and returns the file's public URL.
+export async function uploadPostMedia(
+  userId: string,
+  file: Blob,
+  onProgress?: (fraction: number) => void
+): Promise<ApiResult<string>> {
+  const extension = file.type.split('/')[1] || 'bin';
+  const path = `${userId}/${crypto.randomUUID()}.${extension}`;
+  const bucket = supabase.storage.from(POST_MEDIA_BUCKET);
+
+  const signed = await bucket.createSignedUploadUrl(path);
+  if (signed.error) return storageFailure(signed.error);
+
+  if (/^https?:/.test(signed.data.signedUrl)) {
+    const error = await putWithProgress(signed.data.signedUrl, file, onProgress);
+    if (error) return storageFailure({ message: error });
+  } else {
+    // Not an HTTP endpoint (the in-memory client): upload through the client.
+    const { error } = await bucket.uploadToSignedUrl(path, signed.data.token, file, { contentType: file.type });
+    if (error) return storageFailure(error);
+  }
+
+  onProgress?.(1);
+  return ok(bucket.getPublicUrl(path).data.publicUrl);
+}
+
+const PUBLIC_PATH = new RegExp(`/object/public/${POST_MEDIA_BUCKET}/([^?#]+)`);
+
+// The bucket path behind a public URL; null for URLs that aren't ours, like
+// images pasted before uploads existed.
+export function postMediaPath(url: string) {
+  const match = url.match(PUBLIC_PATH);
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+// Every stored file behind a post's media, posters included.
+export const mediaFileUrls = (media: PostMediaItem[]) =>
+  media.flatMap((item) => (item.poster_url ? [item.url, item.poster_url] : [item.url]));
+
+export async function deletePostMedia(urls: string[]): Promise<ApiResult<null>> {
+  const paths = urls.map(postMediaPath).filter((path): path is string => !!path);
+  if (paths.length === 0) return ok(null);
+
+  const { error } = await supabase.storage.from(POST_MEDIA_BUCKET).remove(paths);
+  if (error) return storageFailure(error);
+  return ok(null);
+}
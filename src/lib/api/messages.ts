@@ -0,0 +1,50 @@
+import { supabase } from '../supabase';
+import type { Tables, TablesInsert } from '../database.types';
+import type { Profile } from './profiles';
+import { ok, toCountResult, toResult, toVoidResult } from './result';
+
+export type MessageWithSender = Tables<'messages'> & {
+  profiles: Profile;
+};
+
+export async function listMessages(conversationId: string) {
+  const response = await supabase
+    .from('messages')
+    .select(`
+      *,
+      profiles(*)
+    `)
+    .eq('conversation_id', conversationId)
+    .order('created_at', { ascending: true });
+
+  return toResult<MessageWithSender[]>(response, []);
+}
+
+export async function sendMessage(message: TablesInsert<'messages'>) {
+  return toVoidResult(await supabase.from('messages').insert(message));
+}
+
+// Marks everything the other participant sent in the conversation as read.
+export async function markConversationRead(conversationId: string, userId: string) {
+  return toVoidResult(
+    await supabase
+      .from('messages')
+      .update({ is_read: true })
+      .eq('conversation_id', conversationId)
+      .neq('sender_id', userId)
+  );
+}
+
+// Unread messages addressed to `userId` across the given conversations.
+export async function countUnreadMessages(conversationIds: string[], userId: string) {
+  if (conversationIds.length === 0) return ok(0);
+
+  return toCountResult(
+    await supabase
+      .from('messages')
+      .select('*', { count: 'exact', head: true })
+      .in('conversation_id', conversationIds)
+      .eq('is_read', false)
+      .neq('sender_id', userId)
+  );
+}
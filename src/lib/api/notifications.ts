@@ -0,0 +1,76 @@
+import { supabase } from '../supabase';
+import type { Tables, TablesInsert } from '../database.types';
+import type { Profile } from './profiles';
+import { toCountResult, toResult, toVoidResult } from './result';
+
+export type NotificationType = Tables<'notifications'>['type'];
+
+export type NotificationWithRelations = Tables<'notifications'> & {
+  actor: Profile;
+  post: { content: string } | null;
+  comment: { content: string } | null;
+};
+
+export async function listNotifications(userId: string, limit = 50) {
+  const response = await supabase
+    .from('notifications')
+    .select(`
+      *,
+      actor:profiles!notifications_actor_id_fkey(*),
+      post:posts(content),
+      comment:comments(content)
+    `)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  return toResult<NotificationWithRelations[]>(response, []);
+}
+
+export async function countUnreadNotifications(userId: string) {
+  return toCountResult(
+    await supabase
+      .from('notifications')
+      .select('*', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('is_read', false)
+  );
+}
+
+export async function markAllNotificationsRead(userId: string) {
+  return toVoidResult(
+    await supabase
+      .from('notifications')
+      .update({ is_read: true })
+      .eq('user_id', userId)
+      .eq('is_read', false)
+  );
+}
+
+// Self-notifications are skipped so callers don't have to check.
+export async function createNotification(notification: TablesInsert<'notifications'>) {
+  if (notification.user_id === notification.actor_id) return toVoidResult({ error: null });
+  return toVoidResult(await supabase.from('notifications').insert(notification));
+}
+
+interface NotificationMatch {
+  userId: string;
+  actorId: string;
+  type: NotificationType;
+  postId?: string;
+}
+
+export async function deleteNotification({ userId, actorId, type, postId }: NotificationMatch) {
+  let query = supabase
+    .from('notifications')
+    .delete()
+    .eq('user_id', userId)
+    .eq('actor_id', actorId)
+    .eq('type', type);
+
+  if (postId) {
+    query = query.eq('post_id', postId);
+  }
+
+  return toVoidResult(await query);
+}
@@ -0,0 +1,51 @@
+import { supabase } from '../supabase';
+import type { Tables } from '../database.types';
+import { toVoidResult } from './result';
+
+export type PollOption = Tables<'poll_options'>;
+
+// As embedded in a post: with its options and the viewer's vote.
+export type Poll = Tables<'polls'> & {
+  options: PollOption[];
+};
+
+// A poll as written in the composer, attached by `create_poll` once the post exists.
+export interface PollDraft {
+  options: string[];
+  duration_minutes: number;
+}
+
+export async function createPoll(postId: string, { options, duration_minutes }: PollDraft) {
+  return toVoidResult(
+    await supabase.rpc('create_poll', {
+      target_post_id: postId,
+      option_labels: options,
+      duration_minutes,
+    })
+  );
+}
+
+export async function voteInPoll(userId: string, optionId: string) {
+  return toVoidResult(
+    await supabase.from('poll_votes').insert({
+      user_id: userId,
+      option_id: optionId,
+    })
+  );
+}
+
+// Tallies of one poll's options as votes come in.
+export function subscribeToPollOptions(pollId: string, onUpdate: (option: PollOption) => void) {
+  const channel = supabase
+    .channel(`poll_options:${pollId}`)
+    .on<PollOption>(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'poll_options', filter: `poll_id=eq.${pollId}` },
+      (payload) => onUpdate(payload.new)
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
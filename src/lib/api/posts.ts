@@ -0,0 +1,422 @@
+import { supabase } from '../supabase';
+import type { Database, PostReaction, Tables, TablesInsert } from '../database.types';
+import type { LinkPreview } from './linkPreviews';
+import { deletePostMedia, mediaFileUrls } from './media';
+import { createPoll, type Poll, type PollDraft } from './polls';
+import type { Profile } from './profiles';
+import { fail, ok, toResult, toVoidResult, type ApiError, type ApiResult } from './result';
+
+export const POST_PAGE_SIZE = 20;
+
+// The single query shape every post list and PostCard relies on.
+// `liked_by_me` and the other `*_by_me` fields are computed fields on
+// `posts`, resolved per viewer.
+const POST_SELECT = `
+  *,
+  profiles!posts_user_id_fkey(*),
+  link_preview:link_previews(*),
+  quoted_post:quoted_post_id(*, profiles!posts_user_id_fkey(*)),
+  poll:polls(*, options:poll_options(*), voted_option_id),
+  liked_by_me,
+  my_reaction,
+  featured_liker,
+  reposted_by_me,
+  bookmarked_by_me
+`;
+
+// Computed per viewer, so absent from bare rows and embedded posts.
+export type ViewerPostFields = 'liked_by_me' | 'my_reaction' | 'featured_liker' | 'reposted_by_me' | 'bookmarked_by_me';
+
+// The original under a quote post. Null once the original is deleted, while
+// the quote keeps `is_quote`.
+export type QuotedPost = Omit<Tables<'posts'>, ViewerPostFields> & {
+  profiles: Profile;
+};
+
+export type PostWithRelations = Tables<'posts'> & {
+  profiles: Profile;
+  link_preview: LinkPreview | null;
+  quoted_post: QuotedPost | null;
+  poll: Poll | null;
+};
+
+type HomeFeedRow = Database['public']['Functions']['get_home_feed']['Returns'][number];
+
+// Keyset position in a newest-first list; `id` breaks ties between equal timestamps.
+export interface PostCursor {
+  created_at: string;
+  id: string;
+}
+
+export interface PageOptions {
+  // Posts strictly older than this cursor.
+  before?: PostCursor;
+  // Posts strictly newer than this cursor.
+  after?: PostCursor;
+  limit?: number;
+}
+
+export interface PostPage {
+  // Always newest first, regardless of direction.
+  posts: PostWithRelations[];
+  hasMore: boolean;
+  // Each post's keyset position, where it isn't the post's own
+  // (created_at, id), as in the home feed.
+  cursors?: Record<string, PostCursor>;
+  // Who put a post in this list by reposting it.
+  repostedBy?: Record<string, Profile>;
+}
+
+interface PageableQuery<Q> {
+  or(filters: string): Q;
+  order(column: string, options: { ascending: boolean }): Q;
+  limit(count: number): Q;
+}
+
+function applyPage<Q extends PageableQuery<Q>>(query: Q, { before, after, limit = POST_PAGE_SIZE }: PageOptions) {
+  let paged = query;
+
+  if (before) {
+    paged = paged.or(`created_at.lt."${before.created_at}",and(created_at.eq."${before.created_at}",id.lt.${before.id})`);
+  }
+  if (after) {
+    paged = paged.or(`created_at.gt."${after.created_at}",and(created_at.eq."${after.created_at}",id.gt.${after.id})`);
+  }
+
+  // Newer pages are read oldest-first so the rows closest to the cursor come back.
+  const ascending = !!after && !before;
+
+  // One extra row tells us whether another page exists.
+  return paged
+    .order('created_at', { ascending })
+    .order('id', { ascending })
+    .limit(limit + 1);
+}
+
+// Scheduled posts stay out of lists until they publish, even for their
+// author, who RLS already lets see them.
+function publishedOnly<Q extends PageableQuery<Q>>(query: Q) {
+  return query.or(`publish_at.is.null,publish_at.lte."${new Date().toISOString()}"`);
+}
+
+function toPage(
+  response: { data: PostWithRelations[] | null; error: ApiError | null },
+  page: PageOptions
+): ApiResult<PostPage> {
+  if (response.error) return fail(response.error);
+
+  return ok(pageRows(response.data ?? [], page));
+}
+
+// Drops the extra row `applyPage` asked for and puts the page newest first.
+function pageRows<T>(rows: T[], { before, after, limit = POST_PAGE_SIZE }: PageOptions) {
+  const posts = rows.slice(0, limit);
+  if (after && !before) posts.reverse();
+
+  return { posts, hasMore: rows.length > limit };
+}
+
+export async function getPost(id: string) {
+  const response = await supabase
+    .from('posts')
+    .select(POST_SELECT)
+    .eq('id', id)
+    .maybeSingle();
+
+  return toResult<PostWithRelations | null>(response, null);
+}
+
+// The signed-in viewer's home timeline: their posts, everyone they follow, and
+// what those people reposted. Built server-side by `get_home_feed`, which
+// applies the same keyset cursor.
+export async function listFeedPosts(page: PageOptions = {}) {
+  const { before, after, limit = POST_PAGE_SIZE } = page;
+
+  const response = await supabase.rpc('get_home_feed', {
+    before_created_at: before?.created_at,
+    before_id: before?.id,
+    after_created_at: after?.created_at,
+    after_id: after?.id,
+    page_size: limit + 1,
+  });
+
+  if (response.error) return fail<PostPage>(response.error);
+
+  // Reposts sit in the feed where they were reposted, not where the post was written.
+  const cursors: Record<string, PostCursor> = {};
+  const repostedBy: Record<string, Profile> = {};
+
+  const posts = (response.data ?? []).map(
+    ({ author, link_preview, quoted_post, poll, featured_liker, feed_at, reposted_by, ...post }: HomeFeedRow): PostWithRelations => {
+      cursors[post.id] = { created_at: feed_at, id: post.id };
+      if (reposted_by) repostedBy[post.id] = reposted_by as unknown as Profile;
+
+      return {
+        ...post,
+        profiles: author as unknown as Profile,
+        link_preview: link_preview as unknown as LinkPreview | null,
+        quoted_post: quoted_post as unknown as QuotedPost | null,
+        poll: poll as unknown as Poll | null,
+        featured_liker: featured_liker as unknown as Profile | null,
+      };
+    }
+  );
+
+  const result = toPage({ data: posts, error: null }, page);
+  if (result.error) return result;
+
+  return ok({ ...result.data, cursors, repostedBy });
+}
+
+// `pinnedPostId` is left out, as the profile shows it above the list.
+export async function listPostsByUser(userId: string, page: PageOptions = {}, pinnedPostId?: string | null) {
+  let query = supabase
+    .from('posts')
+    .select(POST_SELECT)
+    .eq('user_id', userId);
+  if (pinnedPostId) query = query.neq('id', pinnedPostId);
+
+  return toPage(await applyPage(publishedOnly(query), page), page);
+}
+
+// Posts tagged `#tag`, through `posts_with_hashtag`, which returns plain post
+// rows so the usual select and keyset apply.
+export async function listPostsByHashtag(tag: string, page: PageOptions = {}) {
+  const query = supabase.rpc('posts_with_hashtag', { tag_name: tag });
+
+  // supabase-js types `select` on an RPC as a transform, which drops the
+  // filter methods, so the filters are chained first.
+  return toPage(await applyPage(publishedOnly(query), page).select(POST_SELECT), page);
+}
+
+export interface BookmarkedPostPage extends PostPage {
+  // Post id -> the folder it's saved in.
+  folderIds: Record<string, string | null>;
+}
+
+// The viewer's saved posts, most recently saved first, optionally from one
+// folder. Paged by when each post was saved, so cursors are the bookmarks'.
+export async function listBookmarkedPosts(userId: string, folderId: string | null, page: PageOptions = {}) {
+  let query = supabase
+    .from('bookmarks')
+    .select(`id, created_at, folder_id, post:posts(${POST_SELECT})` as const)
+    .eq('user_id', userId);
+  if (folderId) query = query.eq('folder_id', folderId);
+
+  const response = await applyPage(query, page);
+  if (response.error) return fail<BookmarkedPostPage>(response.error);
+
+  const { posts: bookmarks, hasMore } = pageRows(response.data, page);
+  const posts: PostWithRelations[] = [];
+  const cursors: Record<string, PostCursor> = {};
+  const folderIds: Record<string, string | null> = {};
+
+  for (const { id, created_at, folder_id, post } of bookmarks) {
+    if (!post) continue;
+    posts.push(post);
+    cursors[post.id] = { created_at, id };
+    folderIds[post.id] = folder_id;
+  }
+
+  return ok<BookmarkedPostPage>({ posts, hasMore, cursors, folderIds });
+}
+
+export async function listRecentPosts(since: string, page: PageOptions = {}) {
+  const query = supabase
+    .from('posts')
+    .select(POST_SELECT)
+    .gte('created_at', since);
+
+  return toPage(await applyPage(publishedOnly(query), page), page);
+}
+
+// The author's posts still waiting for their publish time, soonest first.
+export async function listScheduledPosts(userId: string) {
+  const response = await supabase
+    .from('posts')
+    .select(POST_SELECT)
+    .eq('user_id', userId)
+    .gt('publish_at', new Date().toISOString())
+    .order('publish_at', { ascending: true });
+
+  return toResult<PostWithRelations[]>(response, []);
+}
+
+// A post as queued in the outbox, with the poll to attach once it exists.
+export type NewPost = TablesInsert<'posts'> & { poll?: PollDraft };
+
+export async function createPost({ poll, ...post }: NewPost) {
+  const response = await supabase.from('posts').insert(post);
+
+  // A retry may find the post from an earlier attempt (unique_violation) but
+  // not its poll; `create_poll` reports the same if that landed too.
+  if (!poll || !post.id || (response.error && response.error.code !== '23505')) {
+    return toVoidResult(response);
+  }
+  return createPoll(post.id, poll);
+}
+
+export async function updatePostContent(id: string, content: string) {
+  return toVoidResult(
+    await supabase
+      .from('posts')
+      .update({
+        content,
+        is_edited: true,
+      })
+      .eq('id', id)
+  );
+}
+
+// Edits a post before it publishes: no revision is kept, and it isn't marked
+// as edited. A `publish_at` in the past publishes it right away.
+export async function updateScheduledPost(id: string, changes: { content: string; publish_at: string }) {
+  return toVoidResult(await supabase.from('posts').update(changes).eq('id', id));
+}
+
+export type PostRevision = Tables<'post_revisions'>;
+
+// The texts a post had before each edit, oldest (the original) first. The
+// current text is on the post itself.
+export async function listPostRevisions(postId: string) {
+  const response = await supabase
+    .from('post_revisions')
+    .select('*')
+    .eq('post_id', postId)
+    .order('created_at', { ascending: true });
+
+  return toResult<PostRevision[]>(response, []);
+}
+
+// Also removes the post's uploaded files once the row is gone.
+export async function deletePost(id: string) {
+  const response = await supabase.from('posts').delete().eq('id', id).select('media');
+  if (response.error) return fail<null>(response.error);
+
+  const media = await deletePostMedia(response.data.flatMap((post) => mediaFileUrls(post.media)));
+  if (media.error) {
+    // The post is deleted either way; the files are just left behind.
+    console.error('Error deleting post media:', media.error);
+  }
+
+  return ok(null);
+}
+
+export async function likePost(userId: string, postId: string, reaction: PostReaction = 'heart') {
+  return toVoidResult(
+    await supabase.from('likes').insert({
+      user_id: userId,
+      post_id: postId,
+      reaction,
+    })
+  );
+}
+
+export async function changeReaction(userId: string, postId: string, reaction: PostReaction) {
+  return toVoidResult(
+    await supabase
+      .from('likes')
+      .update({ reaction })
+      .eq('user_id', userId)
+      .eq('post_id', postId)
+  );
+}
+
+export type PostReactionEntry = Pick<Tables<'likes'>, 'id' | 'reaction' | 'created_at'> & {
+  profiles: Profile;
+};
+
+export interface PostReactionPage {
+  // Newest first.
+  entries: PostReactionEntry[];
+  hasMore: boolean;
+}
+
+// Who reacted to a post, newest first; only those who picked `reaction`
+// when it's given. Pages on the reactions' own (created_at, id).
+export async function listPostReactions(
+  postId: string,
+  reaction?: PostReaction,
+  page: PageOptions = {}
+): Promise<ApiResult<PostReactionPage>> {
+  let query = supabase
+    .from('likes')
+    .select('id, reaction, created_at, profiles(*)')
+    .eq('post_id', postId);
+  if (reaction) query = query.eq('reaction', reaction);
+
+  const response = await applyPage(query, page);
+  if (response.error) return fail(response.error);
+
+  const { posts: entries, hasMore } = pageRows<PostReactionEntry>(response.data ?? [], page);
+  return ok({ entries, hasMore });
+}
+
+export async function unlikePost(userId: string, postId: string) {
+  return toVoidResult(
+    await supabase
+      .from('likes')
+      .delete()
+      .eq('user_id', userId)
+      .eq('post_id', postId)
+  );
+}
+
+export async function repostPost(userId: string, postId: string) {
+  return toVoidResult(
+    await supabase.from('reposts').insert({
+      user_id: userId,
+      post_id: postId,
+    })
+  );
+}
+
+export async function unrepostPost(userId: string, postId: string) {
+  return toVoidResult(
+    await supabase
+      .from('reposts')
+      .delete()
+      .eq('user_id', userId)
+      .eq('post_id', postId)
+  );
+}
+
+// A bare `posts` row as delivered by realtime: no joins or computed fields.
+export type PostRowChange = Omit<Tables<'posts'>, ViewerPostFields>;
+
+export interface PostChangeHandlers {
+  onInsert: (post: PostRowChange) => void;
+  onUpdate: (post: PostRowChange) => void;
+  onDelete: (id: string) => void;
+}
+
+// Realtime `in` filters accept at most 100 values.
+const REALTIME_FILTER_CHUNK = 100;
+
+// Streams changes to posts by `authorIds`. Delete events can't be filtered
+// server-side, so handlers should ignore ids they don't hold.
+export function subscribeToPostChanges(name: string, authorIds: string[], handlers: PostChangeHandlers) {
+  const channel = supabase.channel(name);
+
+  for (let i = 0; i < authorIds.length; i += REALTIME_FILTER_CHUNK) {
+    const filter = `user_id=in.(${authorIds.slice(i, i + REALTIME_FILTER_CHUNK).join(',')})`;
+
+    channel
+      .on<PostRowChange>('postgres_changes', { event: 'INSERT', schema: 'public', table: 'posts', filter }, (payload) =>
+        handlers.onInsert(payload.new)
+      )
+      .on<PostRowChange>('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'posts', filter }, (payload) =>
+        handlers.onUpdate(payload.new)
+      );
+  }
+
+  channel
+    .on<PostRowChange>('postgres_changes', { event: 'DELETE', schema: 'public', table: 'posts' }, (payload) => {
+      if (payload.old.id) handlers.onDelete(payload.old.id);
+    })
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
@@ -0,0 +1,81 @@
+import { supabase } from '../supabase';
+import type { Tables, TablesInsert, TablesUpdate } from '../database.types';
+import { toResult, toVoidResult } from './result';
+
+export type Profile = Tables<'profiles'>;
+
+export async function getProfileById(id: string) {
+  const response = await supabase
+    .from('profiles')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  return toResult<Profile | null>(response, null);
+}
+
+export async function getProfileByUsername(username: string) {
+  const response = await supabase
+    .from('profiles')
+    .select('*')
+    .eq('username', username)
+    .maybeSingle();
+
+  return toResult<Profile | null>(response, null);
+}
+
+export async function createProfile(profile: TablesInsert<'profiles'>) {
+  return toVoidResult(await supabase.from('profiles').insert(profile));
+}
+
+export async function updateProfile(id: string, changes: TablesUpdate<'profiles'>) {
+  return toVoidResult(await supabase.from('profiles').update(changes).eq('id', id));
+}
+
+// Matches username or display name, excluding the viewer.
+export async function searchProfiles(query: string, excludeId: string, limit = 10) {
+  const response = await supabase
+    .from('profiles')
+    .select('*')
+    .or(`username.ilike.%${query}%,full_name.ilike.%${query}%`)
+    .neq('id', excludeId)
+    .limit(limit);
+
+  return toResult<Profile[]>(response, []);
+}
+
+export async function searchProfilesByUsername(query: string, excludeId: string, limit = 10) {
+  const response = await supabase
+    .from('profiles')
+    .select('*')
+    .neq('id', excludeId)
+    .ilike('username', `%${query}%`)
+    .limit(limit);
+
+  return toResult<Profile[]>(response, []);
+}
+
+// Usernames starting with `prefix`, most followed first, for @-mention suggestions.
+export async function listProfilesByUsernamePrefix(prefix: string, limit = 5) {
+  const response = await supabase
+    .from('profiles')
+    .select('*')
+    .ilike('username', `${prefix.replace(/[\\%_]/g, '\\$&')}%`)
+    .order('followers_count', { ascending: false })
+    .limit(limit);
+
+  return toResult<Profile[]>(response, []);
+}
+
+// Profiles other than the viewer that are not in `excludeIds`.
+export async function listSuggestedProfiles(viewerId: string, excludeIds: string[], limit = 5) {
+  const response = await supabase
+    .from('profiles')
+    .select('*')
+    .neq('id', viewerId)
+    .not('id', 'in', `(${excludeIds.join(',') || 'null'})`)
+    .order('followers_count', { ascending: false })
+    .limit(limit);
+
+  return toResult<Profile[]>(response, []);
+}
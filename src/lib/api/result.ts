@@ -0,0 +1,30 @@
+import type { PostgrestError } from '@supabase/supabase-js';
+
+export type ApiError = PostgrestError;
+
+export type ApiResult<T> =
+  | { data: T; error: null }
+  | { data: null; error: ApiError };
+
+export const ok = <T>(data: T): ApiResult<T> => ({ data, error: null });
+
+export const fail = <T>(error: ApiError): ApiResult<T> => ({ data: null, error });
+
+// Normalizes a PostgREST response; `fallback` is returned when the query succeeds without rows.
+export function toResult<T>(
+  response: { data: T | null; error: ApiError | null },
+  fallback: T
+): ApiResult<T> {
+  if (response.error) return fail(response.error);
+  return ok(response.data ?? fallback);
+}
+
+export function toCountResult(response: { count: number | null; error: ApiError | null }): ApiResult<number> {
+  if (response.error) return fail(response.error);
+  return ok(response.count ?? 0);
+}
+
+export function toVoidResult(response: { error: ApiError | null }): ApiResult<null> {
+  if (response.error) return fail(response.error);
+  return ok(null);
+}
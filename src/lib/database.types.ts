@@ -6,7 +6,26 @@ export type Json =
   | { [key: string]: Json | undefined }
   | Json[]
 
-export interface Database {
+// One entry of the `posts.media` jsonb column; see `valid_post_media`.
+export type PostMediaItem = {
+  type: 'image' | 'video' | 'gif'
+  url: string
+  mime_type: string
+  width: number | null
+  height: number | null
+  // Seconds; videos only.
+  duration: number | null
+  // Still frame shown before a video or GIF plays.
+  poster_url: string | null
+}
+
+// One of the fixed reactions in `likes.reaction`; see `valid_like_reaction`.
+export type PostReaction = 'heart' | 'laugh' | 'wow' | 'sad' | 'thumbs_up'
+
+// `posts.reaction_counts`: reactions nobody picked are left out.
+export type ReactionCounts = Partial<Record<PostReaction, number>>
+
+export type Database = {
   public: {
     Tables: {
       profiles: {
@@ -19,6 +38,10 @@ export interface Database {
           cover_photo_url: string
           location: string
           website: string
+          followers_count: number
+          following_count: number
+          posts_count: number
+          pinned_post_id: string | null
           created_at: string
           updated_at: string
         }
@@ -31,6 +54,10 @@ export interface Database {
           cover_photo_url?: string
           location?: string
           website?: string
+          followers_count?: number
+          following_count?: number
+          posts_count?: number
+          pinned_post_id?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -43,58 +70,543 @@ export interface Database {
           cover_photo_url?: string
           location?: string
           website?: string
+          followers_count?: number
+          following_count?: number
+          posts_count?: number
+          pinned_post_id?: string | null
           created_at?: string
           updated_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: 'profiles_pinned_post_id_fkey'
+            columns: ['pinned_post_id']
+            isOneToOne: false
+            referencedRelation: 'posts'
+            referencedColumns: ['id']
+          },
+        ]
       }
       posts: {
         Row: {
           id: string
           user_id: string
           content: string
-          media_urls: string[]
+          media: PostMediaItem[]
+          link_preview_id: string | null
+          quoted_post_id: string | null
+          is_quote: boolean
+          publish_at: string | null
+          visibility: 'public' | 'followers' | 'mentioned'
           created_at: string
           updated_at: string
           is_edited: boolean
+          likes_count: number
+          comments_count: number
+          reposts_count: number
+          quotes_count: number
+          reaction_counts: ReactionCounts
+          liked_by_me: boolean
+          my_reaction: PostReaction | null
+          featured_liker: Database['public']['Tables']['profiles']['Row'] | null
+          reposted_by_me: boolean
+          bookmarked_by_me: boolean
         }
         Insert: {
           id?: string
           user_id: string
           content: string
-          media_urls?: string[]
+          media?: PostMediaItem[]
+          link_preview_id?: string | null
+          quoted_post_id?: string | null
+          is_quote?: boolean
+          publish_at?: string | null
+          visibility?: 'public' | 'followers' | 'mentioned'
           created_at?: string
           updated_at?: string
           is_edited?: boolean
+          likes_count?: number
+          comments_count?: number
+          reposts_count?: number
+          quotes_count?: number
+          reaction_counts?: ReactionCounts
         }
         Update: {
           id?: string
           user_id?: string
           content?: string
-          media_urls?: string[]
+          media?: PostMediaItem[]
+          link_preview_id?: string | null
+          quoted_post_id?: string | null
+          is_quote?: boolean
+          publish_at?: string | null
+          visibility?: 'public' | 'followers' | 'mentioned'
           created_at?: string
           updated_at?: string
           is_edited?: boolean
+          likes_count?: number
+          comments_count?: number
+          reposts_count?: number
+          quotes_count?: number
+          reaction_counts?: ReactionCounts
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'posts_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'posts_link_preview_id_fkey'
+            columns: ['link_preview_id']
+            isOneToOne: false
+            referencedRelation: 'link_previews'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'posts_quoted_post_id_fkey'
+            columns: ['quoted_post_id']
+            isOneToOne: false
+            referencedRelation: 'posts'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      link_previews: {
+        Row: {
+          id: string
+          url: string
+          title: string | null
+          description: string | null
+          image_url: string | null
+          site_name: string | null
+          domain: string
+          fetched_at: string
+        }
+        Insert: {
+          id?: string
+          url: string
+          title?: string | null
+          description?: string | null
+          image_url?: string | null
+          site_name?: string | null
+          domain: string
+          fetched_at?: string
+        }
+        Update: {
+          id?: string
+          url?: string
+          title?: string | null
+          description?: string | null
+          image_url?: string | null
+          site_name?: string | null
+          domain?: string
+          fetched_at?: string
         }
+        Relationships: []
       }
       likes: {
         Row: {
           id: string
           user_id: string
           post_id: string
+          reaction: PostReaction
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          post_id: string
+          reaction?: PostReaction
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          post_id?: string
+          reaction?: PostReaction
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'likes_post_id_fkey'
+            columns: ['post_id']
+            isOneToOne: false
+            referencedRelation: 'posts'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'likes_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      reposts: {
+        Row: {
+          id: string
+          user_id: string
+          post_id: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          post_id: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          post_id?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'reposts_post_id_fkey'
+            columns: ['post_id']
+            isOneToOne: false
+            referencedRelation: 'posts'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'reposts_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      bookmark_folders: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'bookmark_folders_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      bookmarks: {
+        Row: {
+          id: string
+          user_id: string
+          post_id: string
+          folder_id: string | null
           created_at: string
         }
         Insert: {
           id?: string
           user_id: string
           post_id: string
+          folder_id?: string | null
           created_at?: string
         }
         Update: {
           id?: string
           user_id?: string
           post_id?: string
+          folder_id?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'bookmarks_folder_id_fkey'
+            columns: ['folder_id']
+            isOneToOne: false
+            referencedRelation: 'bookmark_folders'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'bookmarks_post_id_fkey'
+            columns: ['post_id']
+            isOneToOne: false
+            referencedRelation: 'posts'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'bookmarks_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      polls: {
+        Row: {
+          id: string
+          post_id: string
+          ends_at: string
+          votes_count: number
+          closed_at: string | null
+          created_at: string
+          voted_option_id: string | null
+        }
+        Insert: {
+          id?: string
+          post_id: string
+          ends_at: string
+          votes_count?: number
+          closed_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          post_id?: string
+          ends_at?: string
+          votes_count?: number
+          closed_at?: string | null
           created_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: 'polls_post_id_fkey'
+            columns: ['post_id']
+            isOneToOne: true
+            referencedRelation: 'posts'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      poll_options: {
+        Row: {
+          id: string
+          poll_id: string
+          position: number
+          label: string
+          votes_count: number
+        }
+        Insert: {
+          id?: string
+          poll_id: string
+          position: number
+          label: string
+          votes_count?: number
+        }
+        Update: {
+          id?: string
+          poll_id?: string
+          position?: number
+          label?: string
+          votes_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'poll_options_poll_id_fkey'
+            columns: ['poll_id']
+            isOneToOne: false
+            referencedRelation: 'polls'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      poll_votes: {
+        Row: {
+          id: string
+          poll_id: string
+          option_id: string
+          user_id: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          // Set from option_id by check_poll_vote.
+          poll_id?: string
+          option_id: string
+          user_id: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          poll_id?: string
+          option_id?: string
+          user_id?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'poll_votes_option_id_fkey'
+            columns: ['option_id']
+            isOneToOne: false
+            referencedRelation: 'poll_options'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'poll_votes_poll_id_fkey'
+            columns: ['poll_id']
+            isOneToOne: false
+            referencedRelation: 'polls'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'poll_votes_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      post_drafts: {
+        Row: {
+          id: string
+          user_id: string
+          content: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          content?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          content?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'post_drafts_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      post_hashtags: {
+        Row: {
+          id: string
+          post_id: string
+          tag: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          post_id: string
+          tag: string
+          created_at: string
+        }
+        Update: {
+          id?: string
+          post_id?: string
+          tag?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'post_hashtags_post_id_fkey'
+            columns: ['post_id']
+            isOneToOne: false
+            referencedRelation: 'posts'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      post_revisions: {
+        Row: {
+          id: string
+          post_id: string
+          content: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          post_id: string
+          content: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          post_id?: string
+          content?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'post_revisions_post_id_fkey'
+            columns: ['post_id']
+            isOneToOne: false
+            referencedRelation: 'posts'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      mentions: {
+        Row: {
+          id: string
+          post_id: string
+          comment_id: string | null
+          user_id: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          post_id: string
+          comment_id?: string | null
+          user_id: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          post_id?: string
+          comment_id?: string | null
+          user_id?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'mentions_comment_id_fkey'
+            columns: ['comment_id']
+            isOneToOne: false
+            referencedRelation: 'comments'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'mentions_post_id_fkey'
+            columns: ['post_id']
+            isOneToOne: false
+            referencedRelation: 'posts'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'mentions_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+        ]
       }
       comments: {
         Row: {
@@ -127,6 +639,29 @@ export interface Database {
           updated_at?: string
           is_edited?: boolean
         }
+        Relationships: [
+          {
+            foreignKeyName: 'comments_parent_id_fkey'
+            columns: ['parent_id']
+            isOneToOne: false
+            referencedRelation: 'comments'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'comments_post_id_fkey'
+            columns: ['post_id']
+            isOneToOne: false
+            referencedRelation: 'posts'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'comments_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+        ]
       }
       follows: {
         Row: {
@@ -147,6 +682,22 @@ export interface Database {
           following_id?: string
           created_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: 'follows_follower_id_fkey'
+            columns: ['follower_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'follows_following_id_fkey'
+            columns: ['following_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+        ]
       }
       conversations: {
         Row: {
@@ -170,6 +721,22 @@ export interface Database {
           last_message_at?: string
           created_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: 'conversations_user1_id_fkey'
+            columns: ['user1_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'conversations_user2_id_fkey'
+            columns: ['user2_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+        ]
       }
       messages: {
         Row: {
@@ -196,13 +763,29 @@ export interface Database {
           is_read?: boolean
           created_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: 'messages_conversation_id_fkey'
+            columns: ['conversation_id']
+            isOneToOne: false
+            referencedRelation: 'conversations'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'messages_sender_id_fkey'
+            columns: ['sender_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+        ]
       }
       notifications: {
         Row: {
           id: string
           user_id: string
           actor_id: string
-          type: 'follow' | 'like' | 'comment' | 'mention' | 'message'
+          type: 'follow' | 'like' | 'comment' | 'mention' | 'message' | 'repost' | 'quote' | 'poll'
           post_id: string | null
           comment_id: string | null
           is_read: boolean
@@ -212,7 +795,7 @@ export interface Database {
           id?: string
           user_id: string
           actor_id: string
-          type: 'follow' | 'like' | 'comment' | 'mention' | 'message'
+          type: 'follow' | 'like' | 'comment' | 'mention' | 'message' | 'repost' | 'quote' | 'poll'
           post_id?: string | null
           comment_id?: string | null
           is_read?: boolean
@@ -222,13 +805,144 @@ export interface Database {
           id?: string
           user_id?: string
           actor_id?: string
-          type?: 'follow' | 'like' | 'comment' | 'mention' | 'message'
+          type?: 'follow' | 'like' | 'comment' | 'mention' | 'message' | 'repost' | 'quote' | 'poll'
           post_id?: string | null
           comment_id?: string | null
           is_read?: boolean
           created_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: 'notifications_actor_id_fkey'
+            columns: ['actor_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'notifications_comment_id_fkey'
+            columns: ['comment_id']
+            isOneToOne: false
+            referencedRelation: 'comments'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'notifications_post_id_fkey'
+            columns: ['post_id']
+            isOneToOne: false
+            referencedRelation: 'posts'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'notifications_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+        ]
       }
     }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      get_home_feed: {
+        Args: {
+          before_created_at?: string
+          before_id?: string
+          after_created_at?: string
+          after_id?: string
+          page_size?: number
+        }
+        Returns: {
+          id: string
+          user_id: string
+          content: string
+          media: PostMediaItem[]
+          link_preview_id: string | null
+          quoted_post_id: string | null
+          is_quote: boolean
+          publish_at: string | null
+          visibility: 'public' | 'followers' | 'mentioned'
+          created_at: string
+          updated_at: string
+          is_edited: boolean
+          author: Json
+          link_preview: Json | null
+          quoted_post: Json | null
+          likes_count: number
+          comments_count: number
+          reposts_count: number
+          quotes_count: number
+          reaction_counts: ReactionCounts
+          liked_by_me: boolean
+          my_reaction: PostReaction | null
+          featured_liker: Json | null
+          reposted_by_me: boolean
+          bookmarked_by_me: boolean
+          feed_at: string
+          reposted_by: Json | null
+          poll: Json | null
+        }[]
+      }
+      liked_by_me: {
+        Args: { '': Database['public']['Tables']['posts']['Row'] }
+        Returns: boolean
+      }
+      my_reaction: {
+        Args: { '': Database['public']['Tables']['posts']['Row'] }
+        Returns: PostReaction | null
+      }
+      featured_liker: {
+        Args: { '': Database['public']['Tables']['posts']['Row'] }
+        Returns: Json | null
+      }
+      reposted_by_me: {
+        Args: { '': Database['public']['Tables']['posts']['Row'] }
+        Returns: boolean
+      }
+      bookmarked_by_me: {
+        Args: { '': Database['public']['Tables']['posts']['Row'] }
+        Returns: boolean
+      }
+      can_view_post: {
+        Args: { post: Database['public']['Tables']['posts']['Row'] }
+        Returns: boolean
+      }
+      voted_option_id: {
+        Args: { '': Database['public']['Tables']['polls']['Row'] }
+        Returns: string | null
+      }
+      create_poll: {
+        Args: { target_post_id: string; option_labels: string[]; duration_minutes: number }
+        Returns: string
+      }
+      posts_with_hashtag: {
+        Args: { tag_name: string }
+        Returns: Database['public']['Tables']['posts']['Row'][]
+      }
+      get_trending_hashtags: {
+        Args: { window_hours?: number; max_tags?: number }
+        Returns: {
+          tag: string
+          posts_count: number
+        }[]
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
   }
 }
+
+type PublicSchema = Database['public']
+
+export type Tables<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Row']
+
+export type TablesInsert<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Insert']
+
+export type TablesUpdate<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Update']
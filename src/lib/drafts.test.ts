@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { fromDateTimeLocal, isScheduled, toDateTimeLocal } from './drafts';
+
+describe('toDateTimeLocal', () => {
+  it('round-trips through fromDateTimeLocal to the minute', () => {
+    const at = new Date(2025, 10, 21, 9, 5, 42);
+    const value = toDateTimeLocal(at);
+
+    expect(value).toBe('2025-11-21T09:05');
+    expect(fromDateTimeLocal(value)).toBe(new Date(2025, 10, 21, 9, 5).toISOString());
+  });
+});
+
+describe('fromDateTimeLocal', () => {
+  it('returns null for an incomplete value', () => {
+    expect(fromDateTimeLocal('')).toBeNull();
+    expect(fromDateTimeLocal('2025-11-21T')).toBeNull();
+  });
+});
+
+describe('isScheduled', () => {
+  it('is true only until the publish time', () => {
+    const now = Date.parse('2025-11-21T09:00:00Z');
+
+    expect(isScheduled({ publish_at: null }, now)).toBe(false);
+    expect(isScheduled({ publish_at: '2025-11-21T10:00:00Z' }, now)).toBe(true);
+    expect(isScheduled({ publish_at: '2025-11-21T08:00:00Z' }, now)).toBe(false);
+  });
+});
@@ -0,0 +1,164 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { deletePostDraft, savePostDraft, type PostDraft } from './api';
+
+// Drafts and scheduling: the composer's autosaved draft and the publish time
+// picker's conversions.
+
+const AUTOSAVE_DELAY_MS = 1500;
+
+// How far ahead the publish time picker starts.
+export const MIN_SCHEDULE_LEAD_MINUTES = 5;
+
+interface ComposerDraft {
+  id: string;
+  content: string;
+}
+
+const storageKey = (userId: string) => `post-draft:${userId}`;
+
+const emptyDraft = (): ComposerDraft => ({ id: crypto.randomUUID(), content: '' });
+
+function readLocalDraft(userId: string): ComposerDraft | null {
+  try {
+    const stored = localStorage.getItem(storageKey(userId));
+    return stored ? (JSON.parse(stored) as ComposerDraft) : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeLocalDraft(userId: string, draft: ComposerDraft) {
+  try {
+    if (draft.content) localStorage.setItem(storageKey(userId), JSON.stringify(draft));
+    else localStorage.removeItem(storageKey(userId));
+  } catch {
+    // Storage full or disabled: the server copy still gets saved.
+  }
+}
+
+// The composer's text, kept in localStorage on every keystroke and saved to
+// `post_drafts` once typing pauses, so it survives navigating away and shows
+// up in the drafts manager on other devices. Saves run one at a time, so a
+// draft deleted on posting can't be brought back by a save still in flight.
+export function useComposerDraft(userId: string | undefined) {
+  const [draft, setDraft] = useState<ComposerDraft>(() => (userId && readLocalDraft(userId)) || emptyDraft());
+  const [saved, setSaved] = useState(false);
+  const latest = useRef(draft);
+  const timer = useRef<ReturnType<typeof setTimeout>>();
+  const saving = useRef(Promise.resolve());
+
+  const run = useCallback((task: () => Promise<void>) => {
+    saving.current = saving.current.then(task);
+  }, []);
+
+  const saveNow = useCallback(() => {
+    clearTimeout(timer.current);
+    timer.current = undefined;
+    if (!userId) return;
+
+    const { id, content } = latest.current;
+    run(async () => {
+      // An emptied composer leaves no empty draft behind.
+      const { error } = content.trim()
+        ? await savePostDraft({ id, user_id: userId, content })
+        : await deletePostDraft(id);
+      if (error) {
+        console.error('Error saving draft:', error);
+        return;
+      }
+      if (latest.current.id === id) setSaved(!!content.trim());
+    });
+  }, [userId, run]);
+
+  const replace = useCallback(
+    (next: ComposerDraft) => {
+      latest.current = next;
+      setDraft(next);
+      if (userId) writeLocalDraft(userId, next);
+    },
+    [userId]
+  );
+
+  // Picks up the signed-in user's unsent text.
+  useEffect(() => {
+    if (!userId) return;
+    const stored = readLocalDraft(userId);
+    if (stored) replace(stored);
+  }, [userId, replace]);
+
+  // Leaving the page saves right away instead of waiting out the delay.
+  useEffect(
+    () => () => {
+      if (timer.current) saveNow();
+    },
+    [saveNow]
+  );
+
+  const setContent = useCallback(
+    (content: string) => {
+      replace({ ...latest.current, content });
+      setSaved(false);
+      clearTimeout(timer.current);
+      timer.current = setTimeout(saveNow, AUTOSAVE_DELAY_MS);
+    },
+    [replace, saveNow]
+  );
+
+  // Continues a saved draft; the text being written is saved first.
+  const open = useCallback(
+    (postDraft: PostDraft) => {
+      if (timer.current) saveNow();
+      replace({ id: postDraft.id, content: postDraft.content });
+      setSaved(true);
+    },
+    [replace, saveNow]
+  );
+
+  // Once the text has been posted: the draft is done with.
+  const discard = useCallback(() => {
+    clearTimeout(timer.current);
+    timer.current = undefined;
+
+    const { id } = latest.current;
+    run(async () => {
+      const { error } = await deletePostDraft(id);
+      if (error) console.error('Error deleting draft:', error);
+    });
+    replace(emptyDraft());
+    setSaved(false);
+  }, [replace, run]);
+
+  return { id: draft.id, content: draft.content, saved, setContent, open, discard };
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// An instant as a `datetime-local` input value, in local time.
+export function toDateTimeLocal(at: Date | string) {
+  const date = new Date(at);
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}`
+  );
+}
+
+// A `datetime-local` value back to an ISO timestamp, or null if incomplete.
+export function fromDateTimeLocal(value: string) {
+  const date = new Date(value);
+  return value && !Number.isNaN(date.getTime()) ? date.toISOString() : null;
+}
+
+export const earliestPublishAt = (now = Date.now()) => new Date(now + MIN_SCHEDULE_LEAD_MINUTES * 60_000);
+
+export const isScheduled = (post: { publish_at: string | null }, now = Date.now()) =>
+  post.publish_at != null && Date.parse(post.publish_at) > now;
+
+export function formatPublishAt(at: string) {
+  return new Date(at).toLocaleString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
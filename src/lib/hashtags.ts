@@ -0,0 +1,34 @@
+// Mirrors `extract_hashtags(text)` in `supabase/migrations`: `#` and up to 50
+// word characters, at least one of them a letter or underscore, not glued to
+// a preceding word, `#`, `&` or `/`.
+const HASHTAG = /(^|[^\p{L}\p{N}_#&/])#([\p{L}\p{N}_]{1,50})(?![\p{L}\p{N}_])/gu;
+const HAS_LETTER = /[\p{L}_]/u;
+
+export const normalizeHashtag = (tag: string) => tag.replace(/^#/, '').toLowerCase();
+
+export type HashtagToken = { kind: 'text'; text: string } | { kind: 'hashtag'; text: string; tag: string };
+
+// Splits text into plain runs and hashtags, keeping the hashtags as written.
+export function tokenizeHashtags(text: string): HashtagToken[] {
+  const tokens: HashtagToken[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(HASHTAG)) {
+    const [, prefix, tag] = match;
+    if (!HAS_LETTER.test(tag)) continue;
+
+    const start = match.index + prefix.length;
+    if (start > last) tokens.push({ kind: 'text', text: text.slice(last, start) });
+    tokens.push({ kind: 'hashtag', text: `#${tag}`, tag: normalizeHashtag(tag) });
+    last = start + tag.length + 1;
+  }
+
+  if (last < text.length) tokens.push({ kind: 'text', text: text.slice(last) });
+  return tokens;
+}
+
+// Distinct, lowercased tags in `text`.
+export function extractHashtags(text: string) {
+  const tags = tokenizeHashtags(text).flatMap((token) => (token.kind === 'hashtag' ? [token.tag] : []));
+  return [...new Set(tags)];
+}
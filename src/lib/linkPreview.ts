@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useState } from 'react';
+import { unfurlLink, type LinkPreview } from './api';
+import { firstLink } from './links';
+
+const UNFURL_DELAY_MS = 600;
+
+// The preview card for the first link in a draft, looked up once typing
+// pauses. Removing the preview keeps it off for that link only; a different
+// link gets a fresh one.
+export function useLinkPreview(content: string) {
+  const url = firstLink(content);
+  const [result, setResult] = useState<{ url: string; preview: LinkPreview | null } | null>(null);
+  const [dismissed, setDismissed] = useState<string[]>([]);
+
+  const wanted = !!url && !dismissed.includes(url);
+  const resolved = result?.url === url;
+
+  useEffect(() => {
+    if (!url || !wanted || resolved) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const { data, error } = await unfurlLink(url);
+      if (cancelled) return;
+
+      if (error) {
+        console.error('Error loading link preview:', error);
+      }
+      // Failures just mean no card; don't retry until the link changes.
+      setResult({ url, preview: data });
+    }, UNFURL_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [url, wanted, resolved]);
+
+  const dismiss = useCallback(() => {
+    if (url) setDismissed((current) => [...current, url]);
+  }, [url]);
+
+  const reset = useCallback(() => {
+    setResult(null);
+    setDismissed([]);
+  }, []);
+
+  return {
+    preview: wanted && resolved ? result.preview : null,
+    loading: wanted && !resolved,
+    dismiss,
+    reset,
+  };
+}
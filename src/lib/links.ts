@@ -0,0 +1,40 @@
+import { parseRichText, type Inline } from './richText';
+
+// Canonical form of a URL for link previews, so the same page shared with a
+// different fragment or tracking parameters hits the same cache entry. The
+// `unfurl` edge function normalizes the same way. Null for anything but
+// http(s).
+export function normalizeLinkUrl(raw: string) {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+
+  url.hash = '';
+  const tracking = [...url.searchParams.keys()].filter((key) => key.toLowerCase().startsWith('utm_'));
+  tracking.forEach((key) => url.searchParams.delete(key));
+  return url.toString();
+}
+
+function findLink(nodes: Inline[]): string | null {
+  for (const node of nodes) {
+    if (node.type === 'link') return node.href;
+    if (node.type === 'bold' || node.type === 'italic') {
+      const href = findLink(node.children);
+      if (href) return href;
+    }
+  }
+  return null;
+}
+
+// The first link `RichText` would render in `text`; code blocks don't count.
+export function firstLink(text: string) {
+  for (const block of parseRichText(text)) {
+    const href = block.type === 'code' ? null : findLink(block.children);
+    if (href) return href;
+  }
+  return null;
+}
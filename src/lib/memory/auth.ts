@@ -0,0 +1,122 @@
+import { AuthApiError, type AuthChangeEvent, type Session, type User } from '@supabase/supabase-js';
+import type { MemoryDatabase, MemoryUser } from './database';
+
+// Email/password auth against `db.users`, with no confirmation step. The
+// signed-in user id is kept in storage so a reload stays signed in while the
+// fixtures (and their stable ids) are unchanged.
+
+const STORAGE_KEY = 'supabase.memory.user';
+const SESSION_TTL_SECONDS = 3600;
+
+type AuthListener = (event: AuthChangeEvent, session: Session | null) => void;
+
+function toUser(user: MemoryUser): User {
+  return {
+    id: user.id,
+    aud: 'authenticated',
+    role: 'authenticated',
+    email: user.email,
+    app_metadata: { provider: 'email', providers: ['email'] },
+    user_metadata: {},
+    created_at: user.created_at,
+  };
+}
+
+function toSession(user: MemoryUser): Session {
+  return {
+    access_token: `memory-access-${user.id}`,
+    refresh_token: `memory-refresh-${user.id}`,
+    token_type: 'bearer',
+    expires_in: SESSION_TTL_SECONDS,
+    expires_at: Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS,
+    user: toUser(user),
+  };
+}
+
+export function createMemoryAuth(db: MemoryDatabase, storage: Storage | null) {
+  const listeners = new Set<AuthListener>();
+  let session: Session | null = null;
+
+  const findUser = (id: string | null) => db.users.find((user) => user.id === id) ?? null;
+
+  function setUser(user: MemoryUser | null, event: AuthChangeEvent) {
+    session = user ? toSession(user) : null;
+    db.currentUserId = user?.id ?? null;
+
+    if (user) storage?.setItem(STORAGE_KEY, user.id);
+    else storage?.removeItem(STORAGE_KEY);
+
+    // supabase-js notifies listeners asynchronously too.
+    setTimeout(() => listeners.forEach((listener) => listener(event, session)), 0);
+  }
+
+  const restored = findUser(storage?.getItem(STORAGE_KEY) ?? null);
+  if (restored) {
+    session = toSession(restored);
+    db.currentUserId = restored.id;
+  }
+
+  return {
+    async getSession() {
+      return { data: { session }, error: null };
+    },
+
+    async getUser() {
+      return { data: { user: session?.user ?? null }, error: null };
+    },
+
+    onAuthStateChange(callback: AuthListener) {
+      listeners.add(callback);
+      setTimeout(() => callback('INITIAL_SESSION', session), 0);
+
+      const subscription = {
+        id: crypto.randomUUID(),
+        callback,
+        unsubscribe: () => {
+          listeners.delete(callback);
+        },
+      };
+      return { data: { subscription } };
+    },
+
+    async signUp({ email, password }: { email: string; password: string }) {
+      if (db.users.some((user) => user.email.toLowerCase() === email.toLowerCase())) {
+        return {
+          data: { user: null, session: null },
+          error: new AuthApiError('User already registered', 422, 'user_already_exists'),
+        };
+      }
+      if (password.length < 6) {
+        return {
+          data: { user: null, session: null },
+          error: new AuthApiError('Password should be at least 6 characters.', 422, 'weak_password'),
+        };
+      }
+
+      const user: MemoryUser = { id: crypto.randomUUID(), email, password, created_at: new Date().toISOString() };
+      db.users.push(user);
+      setUser(user, 'SIGNED_IN');
+
+      return { data: { user: toUser(user), session }, error: null };
+    },
+
+    async signInWithPassword({ email, password }: { email: string; password: string }) {
+      const user = db.users.find((candidate) => candidate.email.toLowerCase() === email.toLowerCase());
+
+      if (!user || user.password !== password) {
+        return {
+          data: { user: null, session: null },
+          error: new AuthApiError('Invalid login credentials', 400, 'invalid_credentials'),
+        };
+      }
+
+      setUser(user, 'SIGNED_IN');
+      return { data: { user: toUser(user), session }, error: null };
+    },
+
+    async signOut() {
+      setUser(null, 'SIGNED_OUT');
+      return { error: null };
+    },
+  };
+}
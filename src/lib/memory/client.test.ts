@@ -0,0 +1,462 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createMemoryClient, FIXTURE_PASSWORD, fixtureUserIds } from '.';
+
+let client: ReturnType<typeof createMemoryClient>;
+
+beforeEach(async () => {
+  client = createMemoryClient({ storage: null });
+  await client.auth.signInWithPassword({ email: 'alex@example.com', password: FIXTURE_PASSWORD });
+});
+
+describe('createMemoryClient', () => {
+  it('resolves embeds, computed fields and keyset filters', async () => {
+    const { data: firstPage } = await client
+      .from('posts')
+      .select('*, profiles!posts_user_id_fkey(*), liked_by_me')
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(2);
+
+    expect(firstPage).toHaveLength(2);
+    expect(firstPage![0].profiles.username).toBe('maya');
+    expect(firstPage![0].liked_by_me).toBe(true);
+
+    const cursor = firstPage![1];
+    const { data: nextPage } = await client
+      .from('posts')
+      .select('id, created_at')
+      .or(`created_at.lt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.lt.${cursor.id})`)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .single();
+
+    expect(Date.parse(nextPage!.created_at)).toBeLessThan(Date.parse(cursor.created_at));
+  });
+
+  it('maintains counters and enforces unique constraints like the database', async () => {
+    const { data: post } = await client
+      .from('posts')
+      .select('id, likes_count')
+      .eq('user_id', fixtureUserIds.leo)
+      .order('created_at', { ascending: true })
+      .limit(1)
+      .single();
+
+    const like = { user_id: fixtureUserIds.alex, post_id: post!.id };
+    expect((await client.from('likes').insert(like)).error).toBeNull();
+    expect((await client.from('likes').insert(like)).error?.code).toBe('23505');
+
+    const { data: updated } = await client.from('posts').select('likes_count').eq('id', post!.id).single();
+    expect(updated!.likes_count).toBe(post!.likes_count + 1);
+
+    const { count } = await client
+      .from('likes')
+      .select('*', { count: 'exact', head: true })
+      .eq('post_id', post!.id);
+    expect(count).toBe(updated!.likes_count);
+  });
+
+  it("only accepts media from the author's own folder", async () => {
+    const image = (url: string) => ({
+      type: 'image' as const,
+      url,
+      mime_type: 'image/png',
+      width: null,
+      height: null,
+      duration: null,
+      poster_url: null,
+    });
+    const post = (url: string) => ({ user_id: fixtureUserIds.alex, content: 'Photo', media: [image(url)] });
+
+    const own = `memory:/storage/v1/object/public/post-media/${fixtureUserIds.alex}/photo.png`;
+    expect((await client.from('posts').insert(post(own))).error).toBeNull();
+
+    const others = `memory:/storage/v1/object/public/post-media/${fixtureUserIds.maya}/photo.png`;
+    expect((await client.from('posts').insert(post(others))).error?.code).toBe('23514');
+    expect((await client.from('posts').insert(post('https://tracker.example.com/pixel.png'))).error?.code).toBe('23514');
+  });
+
+  it('indexes hashtags from post content as it is written and edited', async () => {
+    const { data: post } = await client
+      .from('posts')
+      .insert({ user_id: fixtureUserIds.alex, content: 'Trying #Design tokens, not #123 or a#b' })
+      .select('id')
+      .single();
+
+    const tagged = async (tag: string) => {
+      const { data } = await client.rpc('posts_with_hashtag', { tag_name: tag }).select('id');
+      return data!.map((row) => row.id);
+    };
+
+    expect(await tagged('design')).toContain(post!.id);
+    expect(await tagged('123')).not.toContain(post!.id);
+
+    await client.from('posts').update({ content: 'Now about #tokens' }).eq('id', post!.id);
+    expect(await tagged('design')).not.toContain(post!.id);
+    expect(await tagged('tokens')).toEqual([post!.id]);
+
+    const { data: trending } = await client.rpc('get_trending_hashtags', { window_hours: 24 });
+    expect(trending![0]).toEqual({ tag: 'design', posts_count: 4 });
+  });
+
+  it('stores mentions and notifies mentioned users once', async () => {
+    const { data: post } = await client
+      .from('posts')
+      .insert({ user_id: fixtureUserIds.alex, content: 'Thanks @Maya and @alex, email me at alex@example.com' })
+      .select('id')
+      .single();
+
+    const mentionNotifications = async () => {
+      const { data } = await client
+        .from('notifications')
+        .select('user_id')
+        .eq('type', 'mention')
+        .eq('post_id', post!.id);
+      return data!.map((row) => row.user_id);
+    };
+
+    expect(await mentionNotifications()).toEqual([fixtureUserIds.maya]);
+
+    await client.from('posts').update({ content: 'Thanks @maya and @sam' }).eq('id', post!.id);
+    expect((await mentionNotifications()).sort()).toEqual([fixtureUserIds.maya, fixtureUserIds.sam].sort());
+
+    await client.from('posts').update({ content: 'Thanks @sam' }).eq('id', post!.id);
+    expect(await mentionNotifications()).toEqual([fixtureUserIds.sam]);
+  });
+
+  it('keeps the text edits replace and rejects edits after the edit window', async () => {
+    const { data: post } = await client
+      .from('posts')
+      .insert({ user_id: fixtureUserIds.alex, content: 'First draft' })
+      .select('id')
+      .single();
+
+    await client.from('posts').update({ content: 'Second draft', is_edited: true }).eq('id', post!.id);
+    const { data: revisions } = await client.from('post_revisions').select('content').eq('post_id', post!.id);
+    expect(revisions).toEqual([{ content: 'First draft' }]);
+
+    const { data: old } = await client
+      .from('posts')
+      .select('id')
+      .eq('user_id', fixtureUserIds.alex)
+      .lt('created_at', new Date(Date.now() - 60 * 60_000).toISOString())
+      .limit(1)
+      .single();
+    const { error } = await client.from('posts').update({ content: 'Too late' }).eq('id', old!.id);
+    expect(error?.code).toBe('23514');
+
+    // Redating the post doesn't reopen the window.
+    await client.from('posts').update({ created_at: new Date().toISOString() }).eq('id', old!.id);
+    const { error: redated } = await client.from('posts').update({ content: 'Too late' }).eq('id', old!.id);
+    expect(redated?.code).toBe('23514');
+  });
+
+  it('unfurls links into the preview cache posts embed from', async () => {
+    const { data: cached } = await client.functions.invoke('unfurl', {
+      body: { url: 'https://Alex.example.com/?utm_source=feed#work' },
+    });
+    expect(cached.preview).toMatchObject({ url: 'https://alex.example.com/', title: 'Alex Rivera · Portfolio' });
+
+    const { data: post } = await client
+      .from('posts')
+      .select('id, link_preview:link_previews(title)')
+      .eq('link_preview_id', cached.preview.id)
+      .single();
+    expect(post!.link_preview).toEqual({ title: 'Alex Rivera · Portfolio' });
+
+    // Pruning the cache only drops the card.
+    await client.from('link_previews').delete().eq('id', cached.preview.id);
+    const { data: kept } = await client.from('posts').select('link_preview_id').eq('id', post!.id).single();
+    expect(kept).toEqual({ link_preview_id: null });
+  });
+
+  it('puts followed reposts in the feed once and notifies quoted authors', async () => {
+    const feed = async () => (await client.rpc('get_home_feed', { page_size: 50 })).data!;
+
+    // Maya reposted one of Jordan's posts, whom Alex doesn't follow.
+    const reposted = (await feed()).filter((post) => post.reposted_by);
+    expect(reposted).toHaveLength(1);
+    expect(reposted[0]).toMatchObject({ user_id: fixtureUserIds.jordan, reposts_count: 1, reposted_by: { username: 'maya' } });
+
+    // A second repost of a post already in the feed only moves it.
+    const { data: mayas } = await client.from('posts').select('id').eq('user_id', fixtureUserIds.maya).limit(1).single();
+    await client.from('reposts').insert({ user_id: fixtureUserIds.sam, post_id: mayas!.id });
+    const posts = await feed();
+    expect(posts.filter((post) => post.id === mayas!.id)).toHaveLength(1);
+    expect(posts[0]).toMatchObject({ id: mayas!.id, reposted_by: { username: 'sam' } });
+
+    const { data: quote } = await client
+      .from('posts')
+      .insert({ user_id: fixtureUserIds.alex, content: 'So true', quoted_post_id: mayas!.id })
+      .select('id, is_quote, quoted_post:quoted_post_id(content)')
+      .single();
+    expect(quote!.is_quote).toBe(true);
+    expect(quote!.quoted_post).not.toBeNull();
+
+    const { data: notification } = await client
+      .from('notifications')
+      .select('user_id, post_id')
+      .eq('type', 'quote')
+      .single();
+    expect(notification).toEqual({ user_id: fixtureUserIds.maya, post_id: quote!.id });
+
+    // Deleting the original leaves the quote marked as one.
+    await client.from('posts').delete().eq('id', mayas!.id);
+    const { data: orphan } = await client
+      .from('posts')
+      .select('is_quote, quoted_post_id, quoted_post:quoted_post_id(id)')
+      .eq('id', quote!.id)
+      .single();
+    expect(orphan).toEqual({ is_quote: true, quoted_post_id: null, quoted_post: null });
+  });
+
+  it('reports bookmarks on posts and unfiles them with their folder', async () => {
+    const { data: posts } = await client.from('posts').select('id, bookmarked_by_me').eq('user_id', fixtureUserIds.leo);
+    const hiking = posts!.find((post) => post.bookmarked_by_me)!;
+    expect(hiking).toBeDefined();
+
+    const { data: folder } = await client
+      .from('bookmark_folders')
+      .insert({ user_id: fixtureUserIds.alex, name: 'Weekend' })
+      .select()
+      .single();
+    await client.from('bookmarks').update({ folder_id: folder!.id }).eq('user_id', fixtureUserIds.alex).eq('post_id', hiking.id);
+
+    const { data: filed } = await client
+      .from('bookmarks')
+      .select('post:posts(id, bookmarked_by_me)')
+      .eq('folder_id', folder!.id);
+    expect(filed).toEqual([{ post: { id: hiking.id, bookmarked_by_me: true } }]);
+
+    await client.from('bookmark_folders').delete().eq('id', folder!.id);
+    const { data: kept } = await client
+      .from('bookmarks')
+      .select('folder_id')
+      .eq('user_id', fixtureUserIds.alex)
+      .eq('post_id', hiking.id)
+      .single();
+    expect(kept).toEqual({ folder_id: null });
+  });
+
+  it('tallies poll votes and notifies the author once the poll ends', async () => {
+    const { data: post } = await client
+      .from('posts')
+      .insert({ user_id: fixtureUserIds.alex, content: 'Tabs or spaces?' })
+      .select('id')
+      .single();
+    const { error: invalid } = await client.rpc('create_poll', {
+      target_post_id: post!.id,
+      option_labels: ['Tabs'],
+      duration_minutes: 60,
+    });
+    expect(invalid?.code).toBe('23514');
+    await client.rpc('create_poll', {
+      target_post_id: post!.id,
+      option_labels: ['Tabs', 'Spaces'],
+      duration_minutes: 60,
+    });
+
+    const poll = async () =>
+      (await client.from('posts').select('poll:polls(*, options:poll_options(*), voted_option_id)').eq('id', post!.id).single())
+        .data!.poll!;
+    const spaces = (await poll()).options.find((option) => option.label === 'Spaces')!;
+
+    const vote = { user_id: fixtureUserIds.alex, option_id: spaces.id };
+    expect((await client.from('poll_votes').insert(vote)).error).toBeNull();
+    expect((await client.from('poll_votes').insert(vote)).error?.code).toBe('23505');
+    expect(await poll()).toMatchObject({ votes_count: 1, voted_option_id: spaces.id });
+
+    // Past its end, the next query closes it and votes are refused.
+    const { id: pollId } = await poll();
+    await client.from('polls').update({ ends_at: new Date(Date.now() - 1000).toISOString() }).eq('id', pollId);
+    const late = { user_id: fixtureUserIds.sam, option_id: spaces.id };
+    expect((await client.from('poll_votes').insert(late)).error?.code).toBe('23514');
+    expect((await poll()).closed_at).not.toBeNull();
+
+    const { data: notifications } = await client.from('notifications').select('user_id').eq('type', 'poll');
+    expect(notifications).toEqual([{ user_id: fixtureUserIds.alex }]);
+  });
+
+  it('keeps scheduled posts and their notifications hidden until they publish', async () => {
+    // Maya's scheduled post mentions Alex.
+    const { data: mayas } = await client.from('posts').select('content').eq('user_id', fixtureUserIds.maya);
+    expect(mayas!.some((post) => post.content.startsWith('Release notes'))).toBe(false);
+    const { data: mentions } = await client
+      .from('notifications')
+      .select('id')
+      .eq('type', 'mention')
+      .eq('user_id', fixtureUserIds.alex)
+      .eq('actor_id', fixtureUserIds.maya);
+    expect(mentions).toEqual([]);
+
+    const inAnHour = new Date(Date.now() + 60 * 60_000).toISOString();
+    const { data: post } = await client
+      .from('posts')
+      .insert({ user_id: fixtureUserIds.alex, content: 'Coming soon #launch', publish_at: inAnHour })
+      .select('id, created_at')
+      .single();
+    expect(Date.parse(post!.created_at)).toBe(Date.parse(inAnHour));
+
+    const { data: feed } = await client.rpc('get_home_feed', { page_size: 50 });
+    expect(feed!.some((item) => item.id === post!.id)).toBe(false);
+
+    // Rescheduling moves the post; published posts can't be rescheduled.
+    const inTwoHours = new Date(Date.now() + 2 * 60 * 60_000).toISOString();
+    const { data: moved } = await client
+      .from('posts')
+      .update({ publish_at: inTwoHours })
+      .eq('id', post!.id)
+      .select('created_at, post_hashtags(created_at)')
+      .single();
+    expect(moved!.post_hashtags).toEqual([{ created_at: moved!.created_at }]);
+    expect(Date.parse(moved!.created_at)).toBe(Date.parse(inTwoHours));
+
+    const { data: published } = await client.from('posts').select('id').eq('user_id', fixtureUserIds.alex).is('publish_at', null).limit(1).single();
+    const { error } = await client.from('posts').update({ publish_at: inTwoHours }).eq('id', published!.id);
+    expect(error?.code).toBe('23514');
+
+    await client.auth.signInWithPassword({ email: 'sam@example.com', password: FIXTURE_PASSWORD });
+    const { data: hidden } = await client.from('posts').select('id').eq('id', post!.id).maybeSingle();
+    expect(hidden).toBeNull();
+  });
+
+  it('upserts drafts by their client-generated id', async () => {
+    const draft = { id: crypto.randomUUID(), user_id: fixtureUserIds.alex, content: 'First words' };
+    await client.from('post_drafts').upsert(draft);
+    await client.from('post_drafts').upsert({ ...draft, content: 'First words, and more' });
+
+    const { data } = await client.from('post_drafts').select('content').eq('id', draft.id);
+    expect(data).toEqual([{ content: 'First words, and more' }]);
+  });
+
+  it('shows posts only to their audience', async () => {
+    const { data: post } = await client
+      .from('posts')
+      .insert({ user_id: fixtureUserIds.alex, content: 'Soft launch for friends #quietlaunch', visibility: 'followers' })
+      .select('id')
+      .single();
+
+    const { data: trending } = await client.rpc('get_trending_hashtags', {});
+    expect(trending!.some((hashtag) => hashtag.tag === 'quietlaunch')).toBe(false);
+
+    // Priya's mentioned-only post mentions Alex; Leo's followers-only one
+    // and its comments are hidden, as Alex doesn't follow Leo.
+    const { data: alexSees } = await client.from('posts').select('content, comments(content)').neq('user_id', fixtureUserIds.alex);
+    expect(alexSees!.some((seen) => seen.content.startsWith('@alex @jordan'))).toBe(true);
+    expect(alexSees!.some((seen) => seen.content.startsWith('New song demo'))).toBe(false);
+    const { data: comments } = await client.from('comments').select('id').eq('content', 'Send it my way!');
+    expect(comments).toEqual([]);
+
+    // Sam follows Alex.
+    await client.auth.signInWithPassword({ email: 'sam@example.com', password: FIXTURE_PASSWORD });
+    const { data: feed } = await client.rpc('get_home_feed', { page_size: 50 });
+    expect(feed!.find((item) => item.id === post!.id)?.visibility).toBe('followers');
+
+    // Maya isn't mentioned.
+    await client.auth.signInWithPassword({ email: 'maya@example.com', password: FIXTURE_PASSWORD });
+    const { data: mayaSees } = await client.from('posts').select('content').eq('user_id', fixtureUserIds.priya);
+    expect(mayaSees!.some((seen) => seen.content.startsWith('@alex @jordan'))).toBe(false);
+
+    await client.auth.signInWithPassword({ email: 'leo@example.com', password: FIXTURE_PASSWORD });
+    const { data: hidden } = await client.from('posts').select('id').eq('id', post!.id).maybeSingle();
+    expect(hidden).toBeNull();
+  });
+
+  it('only lets users quote public posts they can see', async () => {
+    const quote = async (quotedPostId: string) =>
+      (await client.from('posts').insert({ user_id: fixtureUserIds.alex, content: 'Look', quoted_post_id: quotedPostId })).error;
+
+    // Priya's mentioned-only post mentions Alex, who can see but not quote it.
+    const { data: mentioned } = await client.from('posts').select('id').eq('visibility', 'mentioned').single();
+    expect((await quote(mentioned!.id))?.code).toBe('23514');
+
+    // Alex can't see Leo's followers-only post at all.
+    await client.auth.signInWithPassword({ email: 'leo@example.com', password: FIXTURE_PASSWORD });
+    const { data: hidden } = await client.from('posts').select('id').eq('visibility', 'followers').eq('user_id', fixtureUserIds.leo).single();
+    await client.auth.signInWithPassword({ email: 'alex@example.com', password: FIXTURE_PASSWORD });
+    expect((await quote(hidden!.id))?.code).toBe('23514');
+
+    const { count } = await client.from('notifications').select('id', { count: 'exact', head: true }).eq('type', 'quote');
+    expect(count).toBe(0);
+  });
+
+  it('pins only your own posts and unpins them when deleted', async () => {
+    const pinned = async () =>
+      (await client.from('profiles').select('pinned_post_id').eq('id', fixtureUserIds.alex).single()).data!.pinned_post_id;
+    expect(await pinned()).not.toBeNull();
+
+    const { data: mayas } = await client.from('posts').select('id').eq('user_id', fixtureUserIds.maya).limit(1).single();
+    const { error } = await client.from('profiles').update({ pinned_post_id: mayas!.id }).eq('id', fixtureUserIds.alex);
+    expect(error?.code).toBe('23514');
+
+    const { data: post } = await client
+      .from('posts')
+      .insert({ user_id: fixtureUserIds.alex, content: 'Pin me' })
+      .select('id')
+      .single();
+    await client.from('profiles').update({ pinned_post_id: post!.id }).eq('id', fixtureUserIds.alex);
+    expect(await pinned()).toBe(post!.id);
+
+    await client.from('posts').delete().eq('id', post!.id);
+    expect(await pinned()).toBeNull();
+  });
+
+  it('tallies reactions per post as they are added, changed and removed', async () => {
+    const { data: post } = await client
+      .from('posts')
+      .select('id, likes_count, reaction_counts')
+      .eq('user_id', fixtureUserIds.jordan)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .single();
+    expect(post!.reaction_counts).toEqual({ wow: 2, heart: 1 });
+
+    const reacted = async () =>
+      (await client.from('posts').select('likes_count, reaction_counts, my_reaction').eq('id', post!.id).single()).data;
+
+    await client.from('likes').insert({ user_id: fixtureUserIds.alex, post_id: post!.id, reaction: 'laugh' });
+    expect(await reacted()).toEqual({ likes_count: 4, reaction_counts: { wow: 2, heart: 1, laugh: 1 }, my_reaction: 'laugh' });
+
+    await client.from('likes').update({ reaction: 'wow' }).eq('user_id', fixtureUserIds.alex).eq('post_id', post!.id);
+    expect(await reacted()).toEqual({ likes_count: 4, reaction_counts: { wow: 3, heart: 1 }, my_reaction: 'wow' });
+
+    const { error } = await client
+      .from('likes')
+      .update({ reaction: 'angry' as 'wow' })
+      .eq('user_id', fixtureUserIds.alex)
+      .eq('post_id', post!.id);
+    expect(error?.code).toBe('23514');
+
+    // A like can't be moved onto another post.
+    const { data: other } = await client.from('posts').select('id').eq('user_id', fixtureUserIds.leo).limit(1).single();
+    const { error: moved } = await client
+      .from('likes')
+      .update({ post_id: other!.id })
+      .eq('user_id', fixtureUserIds.alex)
+      .eq('post_id', post!.id);
+    expect(moved?.code).toBe('23514');
+    expect((await reacted())!.likes_count).toBe(4);
+
+    await client.from('likes').delete().eq('user_id', fixtureUserIds.alex).eq('post_id', post!.id);
+    expect(await reacted()).toEqual({ likes_count: 3, reaction_counts: { wow: 2, heart: 1 }, my_reaction: null });
+  });
+
+  it('features a liker the viewer follows, never the viewer', async () => {
+    const featured = async () => {
+      const { data } = await client
+        .from('posts')
+        .select('featured_liker')
+        .eq('user_id', fixtureUserIds.jordan)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .single();
+      return (data!.featured_liker as { username: string } | null)?.username;
+    };
+
+    // leo reacted last, but alex follows priya and maya, and priya came after maya.
+    expect(await featured()).toBe('priya');
+
+    await client.auth.signInWithPassword({ email: 'leo@example.com', password: FIXTURE_PASSWORD });
+    expect(await featured()).toBe('maya');
+  });
+});
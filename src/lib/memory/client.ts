@@ -0,0 +1,52 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../database.types';
+import { createMemoryAuth } from './auth';
+import { createMemoryDatabase, type MemoryDatabase } from './database';
+import { createMemoryFunctions } from './edgeFunctions';
+import { seedMemoryDatabase } from './fixtures';
+import { scheduledJobs } from './functions';
+import { createQuery } from './query';
+import { createMemoryRealtime } from './realtime';
+import { createMemoryStorage } from './storage';
+import type { Row } from './schema';
+
+export interface MemoryClientOptions {
+  // Defaults to a fresh database seeded with the fixtures.
+  database?: MemoryDatabase;
+  // Where the signed-in user is remembered; pass null to keep it in memory only.
+  storage?: Storage | null;
+}
+
+export function createSeededDatabase() {
+  const db = createMemoryDatabase();
+  seedMemoryDatabase(db);
+  return db;
+}
+
+// A stand-in for the Supabase client that covers what `src/lib/api` uses:
+// table queries, RPC, edge functions, email/password auth, Storage uploads
+// and postgres_changes channels.
+export function createMemoryClient({
+  database = createSeededDatabase(),
+  storage = typeof window !== 'undefined' ? window.localStorage : null,
+}: MemoryClientOptions = {}) {
+  const realtime = createMemoryRealtime(database);
+  const runScheduledJobs = () => scheduledJobs.forEach((job) => job(database));
+
+  const client = {
+    from: (table: string) => {
+      runScheduledJobs();
+      return createQuery(database, table);
+    },
+    rpc: (fn: string, args: Row = {}) => {
+      runScheduledJobs();
+      return createQuery(database, fn, args);
+    },
+    auth: createMemoryAuth(database, storage),
+    storage: createMemoryStorage(database),
+    functions: createMemoryFunctions(database),
+    ...realtime,
+  };
+
+  return client as unknown as SupabaseClient<Database>;
+}
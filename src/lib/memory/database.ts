@@ -0,0 +1,240 @@
+import { PostgrestError } from '@supabase/supabase-js';
+import { schema, type Row, type TableName } from './schema';
+import { triggers, type TriggerOperation } from './triggers';
+
+export interface MemoryUser {
+  id: string;
+  email: string;
+  password: string;
+  created_at: string;
+}
+
+export interface ChangeEvent {
+  eventType: TriggerOperation;
+  table: TableName;
+  commit_timestamp: string;
+  new: Row;
+  // Only the primary key, as with the default replica identity.
+  old: Row;
+}
+
+export interface MemoryDatabase {
+  users: MemoryUser[];
+  // What `auth.uid()` returns inside queries, computed fields and functions.
+  currentUserId: string | null;
+  rows(table: TableName): readonly Row[];
+  insert(table: TableName, rows: Row[]): Row[];
+  update(table: TableName, match: (row: Row) => boolean, changes: Row | ((row: Row) => Row)): Row[];
+  delete(table: TableName, match: (row: Row) => boolean): Row[];
+  onChange(listener: (event: ChangeEvent) => void): () => void;
+}
+
+export function dbError(code: string, message: string, details = ''): PostgrestError {
+  return new PostgrestError({ code, message, details, hint: '' });
+}
+
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T/;
+
+// Orders two column values the way Postgres would for the types we store.
+// Timestamps are compared as instants so `Z` and `+00:00` forms agree.
+export function compareValues(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+
+  if (typeof a === 'string' && typeof b === 'string' && ISO_TIMESTAMP.test(a) && ISO_TIMESTAMP.test(b)) {
+    return Math.sign(Date.parse(a) - Date.parse(b));
+  }
+  if (typeof a === 'number' || typeof b === 'number') {
+    return Math.sign(Number(a) - Number(b));
+  }
+  if (typeof a === 'boolean' || typeof b === 'boolean') {
+    return Number(a === true || a === 'true') - Number(b === true || b === 'true');
+  }
+  return String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0;
+}
+
+// Rows are never mutated in place, so a shallow copy of every table is enough
+// to roll a failed statement back.
+type Tables = Record<TableName, Row[]>;
+
+const snapshot = (tables: Tables) =>
+  Object.fromEntries(Object.entries(tables).map(([name, rows]) => [name, rows.slice()])) as Tables;
+
+export function createMemoryDatabase(): MemoryDatabase {
+  let tables = Object.fromEntries(Object.keys(schema).map((name) => [name, []])) as unknown as Tables;
+  const listeners = new Set<(event: ChangeEvent) => void>();
+
+  // Mirrors pg_trigger_depth(): 1 inside a statement issued by a client,
+  // higher inside statements issued by triggers.
+  let depth = 0;
+  let pending: ChangeEvent[] = [];
+
+  function statement<T>(run: () => T): T {
+    const outermost = depth === 0;
+    const before = outermost ? snapshot(tables) : tables;
+    depth++;
+
+    try {
+      const result = run();
+      if (outermost) {
+        const events = pending;
+        pending = [];
+        events.forEach((event) => listeners.forEach((listener) => listener(event)));
+      }
+      return result;
+    } catch (error) {
+      if (outermost) {
+        tables = before;
+        pending = [];
+      }
+      throw error;
+    } finally {
+      depth--;
+    }
+  }
+
+  function emit(eventType: TriggerOperation, table: TableName, next: Row | null, old: Row | null) {
+    pending.push({
+      eventType,
+      table,
+      commit_timestamp: new Date().toISOString(),
+      new: next ?? {},
+      old: old ? { id: old.id } : {},
+    });
+  }
+
+  function validate(table: TableName, row: Row, previous: Row | null) {
+    const { columns, required, unique, checks, foreignKeys } = schema[table];
+
+    for (const column of Object.keys(row)) {
+      if (!(column in columns)) {
+        throw dbError('PGRST204', `Could not find the '${column}' column of '${table}' in the schema cache`);
+      }
+    }
+    for (const column of required) {
+      if (row[column] === null || row[column] === undefined) {
+        throw dbError('23502', `null value in column "${column}" of relation "${table}" violates not-null constraint`);
+      }
+    }
+    for (const { name, check } of checks) {
+      if (!check(row)) {
+        throw dbError('23514', `new row for relation "${table}" violates check constraint "${name}"`);
+      }
+    }
+    for (const { name, columns: key } of unique) {
+      const values = key(row);
+      if (values.some((v) => v === null || v === undefined)) continue;
+
+      const signature = JSON.stringify(values);
+      const clash = tables[table].some((other) => other !== previous && JSON.stringify(key(other)) === signature);
+      if (clash) {
+        throw dbError('23505', `duplicate key value violates unique constraint "${name}"`);
+      }
+    }
+    for (const { name, column, references } of foreignKeys) {
+      const target = row[column];
+      if (target === null || target === undefined) continue;
+      // Like Postgres, an update only checks keys it changes.
+      if (previous && previous[column] === target) continue;
+      if (!tables[references].some((candidate) => candidate.id === target)) {
+        throw dbError(
+          '23503',
+          `insert or update on table "${table}" violates foreign key constraint "${name}"`,
+          `Key (${column})=(${String(target)}) is not present in table "${references}".`
+        );
+      }
+    }
+  }
+
+  const db: MemoryDatabase = {
+    users: [],
+    currentUserId: null,
+
+    rows: (table) => tables[table],
+
+    insert: (table, rows) =>
+      statement(() =>
+        rows.map((input) => {
+          const defaults = Object.fromEntries(
+            Object.entries(schema[table].columns).map(([column, fallback]) => [column, fallback()])
+          );
+          const definedInput = Object.fromEntries(Object.entries(input).filter(([, v]) => v !== undefined));
+          let row: Row = { ...defaults, ...definedInput };
+
+          for (const trigger of triggers[table]?.before ?? []) {
+            row = trigger({ op: 'INSERT', old: null, new: row, depth }, db) ?? row;
+          }
+
+          validate(table, row, null);
+          tables[table] = [...tables[table], row];
+          emit('INSERT', table, row, null);
+
+          for (const trigger of triggers[table]?.after ?? []) {
+            trigger({ op: 'INSERT', old: null, new: row, depth }, db);
+          }
+          return row;
+        })
+      ),
+
+    update: (table, match, changes) =>
+      statement(() =>
+        tables[table].filter(match).map((old) => {
+          const patch = typeof changes === 'function' ? changes(old) : changes;
+          let row: Row = { ...old, ...Object.fromEntries(Object.entries(patch).filter(([, v]) => v !== undefined)) };
+
+          for (const trigger of triggers[table]?.before ?? []) {
+            row = trigger({ op: 'UPDATE', old, new: row, depth }, db) ?? row;
+          }
+
+          validate(table, row, old);
+          tables[table] = tables[table].map((candidate) => (candidate === old ? row : candidate));
+          emit('UPDATE', table, row, old);
+
+          for (const trigger of triggers[table]?.after ?? []) {
+            trigger({ op: 'UPDATE', old, new: row, depth }, db);
+          }
+          return row;
+        })
+      ),
+
+    delete: (table, match) =>
+      statement(() => {
+        const removed = tables[table].filter(match);
+        if (removed.length === 0) return removed;
+
+        const ids = new Set(removed.map((row) => row.id));
+        tables[table] = tables[table].filter((row) => !ids.has(row.id));
+
+        for (const row of removed) {
+          emit('DELETE', table, null, row);
+          for (const trigger of triggers[table]?.after ?? []) {
+            trigger({ op: 'DELETE', old: row, new: null, depth }, db);
+          }
+        }
+
+        for (const [child, { foreignKeys }] of Object.entries(schema) as [TableName, (typeof schema)[TableName]][]) {
+          for (const { column, references, onDelete } of foreignKeys) {
+            if (references !== table) continue;
+
+            if (onDelete === 'set null') {
+              db.update(child, (row) => ids.has(row[column]), { [column]: null });
+            } else {
+              db.delete(child, (row) => ids.has(row[column]));
+            }
+          }
+        }
+
+        return removed;
+      }),
+
+    onChange: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+
+  return db;
+}
@@ -0,0 +1,46 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { normalizeLinkUrl } from '../links';
+import type { MemoryDatabase } from './database';
+import type { Row } from './schema';
+
+// The edge functions in `supabase/functions`, callable through
+// `functions.invoke`. There is no network here, so they only work with what
+// the database already holds.
+
+interface EdgeResponse {
+  status: number;
+  body: unknown;
+}
+
+type EdgeFunction = (body: Row, db: MemoryDatabase) => EdgeResponse;
+
+// Serves cached previews; anything else gets a card with just its domain,
+// since fetching the page would need the real function.
+function unfurl(body: Row, db: MemoryDatabase): EdgeResponse {
+  const url = normalizeLinkUrl(String(body.url ?? ''));
+  if (!url) return { status: 400, body: { error: 'A valid http(s) URL is required' } };
+
+  const cached = db.rows('link_previews').find((preview) => preview.url === url);
+  if (cached) return { status: 200, body: { preview: cached } };
+
+  const [preview] = db.insert('link_previews', [{ url, domain: new URL(url).hostname.replace(/^www\./, '') }]);
+  return { status: 200, body: { preview } };
+}
+
+const edgeFunctions: Record<string, EdgeFunction> = {
+  unfurl,
+};
+
+export function createMemoryFunctions(db: MemoryDatabase) {
+  return {
+    invoke: async (name: string, options: { body?: Row } = {}) => {
+      const fn = edgeFunctions[name];
+      const { status, body } = fn ? fn(options.body ?? {}, db) : { status: 404, body: { error: 'Function not found' } };
+
+      if (status >= 300) {
+        return { data: null, error: new FunctionsHttpError(new Response(JSON.stringify(body), { status })) };
+      }
+      return { data: body, error: null };
+    },
+  };
+}
@@ -0,0 +1,451 @@
+import type { PostReaction, TablesInsert } from '../database.types';
+import type { MemoryDatabase } from './database';
+
+// Seed data for the in-memory client: a handful of people who follow each
+// other, with posts, likes, comments and conversations spread over the last
+// few days. Every account signs in with FIXTURE_PASSWORD.
+
+export const FIXTURE_PASSWORD = 'password';
+
+// Stable ids, so a persisted session survives a reload.
+const fixtureId = (group: number, n: number) =>
+  `00000000-0000-4000-8000-${String(group).padStart(4, '0')}${String(n).padStart(8, '0')}`;
+
+export const fixtureUserIds = {
+  alex: fixtureId(1, 1),
+  maya: fixtureId(1, 2),
+  sam: fixtureId(1, 3),
+  jordan: fixtureId(1, 4),
+  priya: fixtureId(1, 5),
+  leo: fixtureId(1, 6),
+};
+
+type Username = keyof typeof fixtureUserIds;
+
+const people: { username: Username; full_name: string; bio: string; location: string }[] = [
+  { username: 'alex', full_name: 'Alex Rivera', bio: 'Product designer. Coffee, type and long walks.', location: 'Lisbon' },
+  { username: 'maya', full_name: 'Maya Chen', bio: 'Frontend engineer building tools for small teams.', location: 'Toronto' },
+  { username: 'sam', full_name: 'Sam Okafor', bio: 'Runner, reader, occasional baker.', location: 'Lagos' },
+  { username: 'jordan', full_name: 'Jordan Lee', bio: 'Photographer chasing golden hour.', location: 'Seoul' },
+  { username: 'priya', full_name: 'Priya Nair', bio: 'Data scientist. Plants everywhere.', location: 'Bangalore' },
+  { username: 'leo', full_name: 'Leo Martins', bio: 'Musician and weekend hiker.', location: 'São Paulo' },
+];
+
+const follows: [Username, Username][] = [
+  ['alex', 'maya'],
+  ['alex', 'sam'],
+  ['alex', 'priya'],
+  ['maya', 'alex'],
+  ['maya', 'sam'],
+  ['maya', 'jordan'],
+  ['sam', 'alex'],
+  ['sam', 'maya'],
+  ['jordan', 'maya'],
+  ['jordan', 'priya'],
+  ['jordan', 'leo'],
+  ['priya', 'alex'],
+  ['priya', 'jordan'],
+  ['leo', 'jordan'],
+  ['leo', 'maya'],
+];
+
+interface FixturePost {
+  author: Username;
+  // Negative for a post scheduled to publish that far ahead.
+  minutesAgo: number;
+  content: string;
+  // Everyone unless set.
+  visibility?: 'followers' | 'mentioned';
+  likedBy: Username[];
+  // ❤️ unless set.
+  reactions?: Partial<Record<Username, PostReaction>>;
+  comments: [Username, string][];
+  // [reposter, minutesAgo]
+  reposts?: [Username, number][];
+  // Saved without a folder, right after posting.
+  bookmarkedBy?: Username[];
+  // Open for `minutes` from posting; options as [label, voters].
+  poll?: { minutes: number; options: [string, Username[]][] };
+  // Pinned to the author's profile.
+  pinned?: boolean;
+  // Cached as if the unfurl function had fetched it.
+  linkPreview?: TablesInsert<'link_previews'>;
+}
+
+const posts: FixturePost[] = [
+  {
+    author: 'maya',
+    minutesAgo: 12,
+    content: 'Shipped the new onboarding flow today. Three fewer screens, same amount of information. #design #onboarding',
+    likedBy: ['alex', 'sam', 'jordan'],
+    bookmarkedBy: ['alex'],
+    comments: [
+      ['alex', 'The progress indicator is a really nice touch.'],
+      ['sam', 'Congrats! Fewer screens is always a win.'],
+    ],
+  },
+  {
+    author: 'alex',
+    minutesAgo: 45,
+    content: 'Hot take: most settings pages would be better as a single scrolling list. #design',
+    poll: {
+      minutes: 24 * 60,
+      options: [
+        ['Agree', ['maya', 'jordan']],
+        ['Disagree', ['sam']],
+        ['Depends on the app', []],
+      ],
+    },
+    likedBy: ['maya', 'priya'],
+    comments: [['priya', 'Agreed, as long as there is search. @leo this is your settings redesign argument!']],
+  },
+  {
+    author: 'jordan',
+    minutesAgo: 90,
+    content: 'Golden hour over the Han river this evening. Worth the cold hands.',
+    likedBy: ['maya', 'priya', 'leo'],
+    reactions: { maya: 'wow', leo: 'wow' },
+    comments: [['leo', 'Stunning. Which lens?']],
+  },
+  {
+    author: 'sam',
+    minutesAgo: 180,
+    content: 'Ran my first half marathon this morning! 1:52, legs are jelly. #running',
+    likedBy: ['alex', 'maya'],
+    reactions: { alex: 'thumbs_up' },
+    comments: [
+      ['alex', 'Amazing pace for a first one!'],
+      ['maya', 'So proud of you 🎉'],
+    ],
+  },
+  {
+    author: 'priya',
+    minutesAgo: 300,
+    content: 'Repotted the monstera. It is now taller than me and I am slightly afraid of it.',
+    likedBy: ['alex', 'jordan'],
+    comments: [],
+  },
+  {
+    author: 'leo',
+    minutesAgo: 420,
+    content: 'New song demo is finally mixed. Sharing it with a few friends before anyone else hears it.',
+    visibility: 'followers',
+    likedBy: ['jordan'],
+    comments: [['jordan', 'Send it my way!']],
+  },
+  {
+    author: 'alex',
+    minutesAgo: 600,
+    content: 'Spent the afternoon sketching icons with a fountain pen. Highly recommend going analog for a day. #design #sketching',
+    likedBy: ['sam'],
+    comments: [],
+  },
+  {
+    author: 'priya',
+    minutesAgo: 700,
+    content: "@alex @jordan let's plan something for Maya's birthday next week. Ideas?",
+    visibility: 'mentioned',
+    likedBy: ['alex'],
+    comments: [['jordan', 'Board games night at mine?']],
+  },
+  {
+    author: 'maya',
+    minutesAgo: 900,
+    content: 'Reminder that your loading states are part of your #design.',
+    likedBy: ['alex', 'leo', 'priya', 'sam'],
+    reactions: { leo: 'thumbs_up', sam: 'thumbs_up' },
+    comments: [['priya', 'Printing this and putting it on the wall.']],
+  },
+  {
+    author: 'sam',
+    minutesAgo: 1300,
+    content: 'Sourdough attempt number four. This one actually has an ear. #sourdough',
+    likedBy: ['maya'],
+    reactions: { maya: 'laugh' },
+    comments: [],
+  },
+  {
+    author: 'priya',
+    minutesAgo: 1800,
+    content: 'Gave a talk on feature stores today. Slides are up on my site if you are curious.',
+    likedBy: ['jordan', 'alex'],
+    comments: [['alex', 'Great talk, the diagrams were super clear.']],
+  },
+  {
+    author: 'jordan',
+    minutesAgo: 2600,
+    content: 'Film photography is teaching me patience one roll at a time. #photography #film',
+    likedBy: ['leo'],
+    comments: [],
+    reposts: [['maya', 150]],
+  },
+  {
+    author: 'leo',
+    minutesAgo: 3500,
+    content: 'Trail recommendations near the coast? Looking for something with a view and few people. #hiking',
+    likedBy: [],
+    bookmarkedBy: ['alex', 'jordan'],
+    comments: [['jordan', 'The north ridge loop, go early.']],
+  },
+  {
+    author: 'alex',
+    minutesAgo: 4300,
+    content:
+      'Rebuilt my portfolio with nothing but HTML and CSS. It loads instantly and I love it. https://alex.example.com/ #webdev',
+    likedBy: ['maya', 'sam', 'priya'],
+    comments: [['maya', 'It looks great, and the dark mode is perfect.']],
+    pinned: true,
+    linkPreview: {
+      url: 'https://alex.example.com/',
+      title: 'Alex Rivera · Portfolio',
+      description: 'Product designer in Lisbon. Case studies, type experiments and notes on designing for the web.',
+      site_name: 'Alex Rivera',
+      domain: 'alex.example.com',
+    },
+  },
+  {
+    author: 'maya',
+    minutesAgo: 5200,
+    content: 'Pairing with a new teammate this week reminded me how much I learn by explaining things.',
+    likedBy: ['sam'],
+    comments: [],
+  },
+  {
+    author: 'maya',
+    minutesAgo: -18 * 60,
+    content: 'Release notes for the team dashboard are up. @alex thanks for the late-night design review!',
+    likedBy: [],
+    comments: [],
+  },
+];
+
+// [author, minutesAgo, content]
+const drafts: [Username, number, string][] = [
+  ['alex', 300, 'Half-formed thought: the best settings page is the one you never need to open'],
+];
+
+interface FixtureConversation {
+  with: [Username, Username];
+  // [sender, minutesAgo, content, read]
+  messages: [Username, number, string, boolean][];
+}
+
+const conversations: FixtureConversation[] = [
+  {
+    with: ['alex', 'maya'],
+    messages: [
+      ['maya', 95, 'Do you have time to look at the onboarding mocks tomorrow?', true],
+      ['alex', 80, 'Sure, how about 10am?', true],
+      ['maya', 20, 'Perfect, sending an invite now.', false],
+    ],
+  },
+  {
+    with: ['sam', 'alex'],
+    messages: [
+      ['sam', 240, 'Thanks for the running tips last week!', true],
+      ['alex', 230, 'Anytime. Rest those legs.', true],
+    ],
+  },
+];
+
+const minutesAgo = (now: number, minutes: number) => new Date(now - minutes * 60_000).toISOString();
+
+// Inserts the fixtures through the regular write path, so trigger-maintained
+// counters come out consistent with the rows.
+export function seedMemoryDatabase(db: MemoryDatabase, now = Date.now()) {
+  const userId = (username: Username) => fixtureUserIds[username];
+  const notifications: TablesInsert<'notifications'>[] = [];
+
+  db.users.push(
+    ...people.map(({ username }, index) => ({
+      id: userId(username),
+      email: `${username}@example.com`,
+      password: FIXTURE_PASSWORD,
+      created_at: minutesAgo(now, 60 * 24 * 30 - index),
+    }))
+  );
+
+  db.insert(
+    'profiles',
+    people.map((person, index) => ({
+      ...person,
+      id: userId(person.username),
+      created_at: minutesAgo(now, 60 * 24 * 30 - index),
+      updated_at: minutesAgo(now, 60 * 24 * 30 - index),
+    }))
+  );
+
+  db.insert(
+    'follows',
+    follows.map(([follower, following], index) => {
+      const createdAt = minutesAgo(now, 60 * 24 * 20 - index * 60);
+      notifications.push({
+        user_id: userId(following),
+        actor_id: userId(follower),
+        type: 'follow',
+        created_at: createdAt,
+      });
+      return { follower_id: userId(follower), following_id: userId(following), created_at: createdAt };
+    })
+  );
+
+  posts.forEach((post, index) => {
+    const postId = fixtureId(2, index + 1);
+    const createdAt = minutesAgo(now, post.minutesAgo);
+    const [linkPreview] = post.linkPreview ? db.insert('link_previews', [post.linkPreview]) : [];
+
+    db.insert('posts', [
+      {
+        id: postId,
+        user_id: userId(post.author),
+        content: post.content,
+        link_preview_id: linkPreview?.id ?? null,
+        publish_at: post.minutesAgo < 0 ? createdAt : null,
+        visibility: post.visibility ?? 'public',
+        created_at: createdAt,
+        updated_at: createdAt,
+      },
+    ]);
+
+    if (post.pinned) {
+      db.update('profiles', (profile) => profile.id === userId(post.author), { pinned_post_id: postId });
+    }
+
+    db.insert(
+      'likes',
+      post.likedBy.map((liker, likeIndex) => {
+        const likedAt = minutesAgo(now, post.minutesAgo - likeIndex - 1);
+        notifications.push({
+          user_id: userId(post.author),
+          actor_id: userId(liker),
+          type: 'like',
+          post_id: postId,
+          created_at: likedAt,
+        });
+        return { user_id: userId(liker), post_id: postId, reaction: post.reactions?.[liker], created_at: likedAt };
+      })
+    );
+
+    db.insert(
+      'reposts',
+      (post.reposts ?? []).map(([reposter, repostedMinutesAgo]) => {
+        const repostedAt = minutesAgo(now, repostedMinutesAgo);
+        notifications.push({
+          user_id: userId(post.author),
+          actor_id: userId(reposter),
+          type: 'repost',
+          post_id: postId,
+          created_at: repostedAt,
+        });
+        return { user_id: userId(reposter), post_id: postId, created_at: repostedAt };
+      })
+    );
+
+    if (post.poll) {
+      const [poll] = db.insert('polls', [
+        {
+          post_id: postId,
+          ends_at: minutesAgo(now, post.minutesAgo - post.poll.minutes),
+          created_at: createdAt,
+        },
+      ]);
+      post.poll.options.forEach(([label, voters], position) => {
+        const [option] = db.insert('poll_options', [{ poll_id: poll.id, position, label }]);
+        db.insert(
+          'poll_votes',
+          voters.map((voter) => ({ option_id: option.id, user_id: userId(voter), created_at: createdAt }))
+        );
+      });
+    }
+
+    db.insert(
+      'bookmarks',
+      (post.bookmarkedBy ?? []).map((saver, bookmarkIndex) => ({
+        user_id: userId(saver),
+        post_id: postId,
+        created_at: minutesAgo(now, post.minutesAgo - bookmarkIndex - 1),
+      }))
+    );
+
+    db.insert(
+      'comments',
+      post.comments.map(([commenter, content], commentIndex) => {
+        const commentId = fixtureId(3, (index + 1) * 10 + commentIndex);
+        const commentedAt = minutesAgo(now, post.minutesAgo - commentIndex - 2);
+        notifications.push({
+          user_id: userId(post.author),
+          actor_id: userId(commenter),
+          type: 'comment',
+          post_id: postId,
+          comment_id: commentId,
+          created_at: commentedAt,
+        });
+        return {
+          id: commentId,
+          user_id: userId(commenter),
+          post_id: postId,
+          content,
+          created_at: commentedAt,
+          updated_at: commentedAt,
+        };
+      })
+    );
+  });
+
+  db.insert(
+    'post_drafts',
+    drafts.map(([author, ago, content]) => ({
+      user_id: userId(author),
+      content,
+      created_at: minutesAgo(now, ago),
+      updated_at: minutesAgo(now, ago),
+    }))
+  );
+
+  conversations.forEach((conversation, index) => {
+    const conversationId = fixtureId(4, index + 1);
+    const [first, second] = conversation.with;
+
+    db.insert('conversations', [
+      {
+        id: conversationId,
+        user1_id: userId(first),
+        user2_id: userId(second),
+        created_at: minutesAgo(now, conversation.messages[0][1] + 1),
+      },
+    ]);
+
+    db.insert(
+      'messages',
+      conversation.messages.map(([sender, ago, content, read]) => {
+        const recipient = sender === first ? second : first;
+        if (!read) {
+          notifications.push({
+            user_id: userId(recipient),
+            actor_id: userId(sender),
+            type: 'message',
+            created_at: minutesAgo(now, ago),
+          });
+        }
+        return {
+          conversation_id: conversationId,
+          sender_id: userId(sender),
+          content,
+          is_read: read,
+          created_at: minutesAgo(now, ago),
+        };
+      })
+    );
+  });
+
+  // Everything older than a day has been seen.
+  db.insert(
+    'notifications',
+    notifications
+      .filter(({ user_id, actor_id }) => user_id !== actor_id)
+      .map((notification) => ({
+        ...notification,
+        is_read: Date.parse(notification.created_at!) < now - 24 * 60 * 60_000,
+      }))
+  );
+}
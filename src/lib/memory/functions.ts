@@ -0,0 +1,244 @@
+import { compareValues, dbError, type MemoryDatabase } from './database';
+import { visibleRows } from './policies';
+import type { Row, TableName } from './schema';
+
+// Computed fields and RPC functions from `supabase/migrations`. Both run as
+// the signed-in user, so `db.currentUserId` stands in for auth.uid().
+
+type ComputedField = (row: Row, db: MemoryDatabase) => unknown;
+
+type RpcFunction = (args: Row, db: MemoryDatabase) => unknown;
+
+function likedByMe(post: Row, db: MemoryDatabase) {
+  const viewerId = db.currentUserId;
+  return !!viewerId && db.rows('likes').some((like) => like.post_id === post.id && like.user_id === viewerId);
+}
+
+function myReaction(post: Row, db: MemoryDatabase) {
+  const viewerId = db.currentUserId;
+  const like = db.rows('likes').find((like) => like.post_id === post.id && like.user_id === viewerId);
+  return like?.reaction ?? null;
+}
+
+// featured_liker(posts)
+function featuredLiker(post: Row, db: MemoryDatabase) {
+  const viewerId = db.currentUserId;
+  const follows = (userId: unknown) =>
+    db.rows('follows').some((follow) => follow.follower_id === viewerId && follow.following_id === userId);
+
+  const like = db
+    .rows('likes')
+    .filter((like) => like.post_id === post.id && like.user_id !== viewerId)
+    .sort((a, b) => Number(follows(b.user_id)) - Number(follows(a.user_id)) || compareValues(b.created_at, a.created_at))[0];
+  return (like && db.rows('profiles').find((profile) => profile.id === like.user_id)) ?? null;
+}
+
+function repostedByMe(post: Row, db: MemoryDatabase) {
+  const viewerId = db.currentUserId;
+  return !!viewerId && db.rows('reposts').some((repost) => repost.post_id === post.id && repost.user_id === viewerId);
+}
+
+function bookmarkedByMe(post: Row, db: MemoryDatabase) {
+  const viewerId = db.currentUserId;
+  return !!viewerId && db.rows('bookmarks').some((bookmark) => bookmark.post_id === post.id && bookmark.user_id === viewerId);
+}
+
+function votedOptionId(poll: Row, db: MemoryDatabase) {
+  const viewerId = db.currentUserId;
+  const vote = db.rows('poll_votes').find((vote) => vote.poll_id === poll.id && vote.user_id === viewerId);
+  return vote?.option_id ?? null;
+}
+
+// poll_payload(polls)
+function pollPayload(post: Row, db: MemoryDatabase) {
+  const poll = db.rows('polls').find((poll) => poll.post_id === post.id);
+  if (!poll) return null;
+
+  const options = db
+    .rows('poll_options')
+    .filter((option) => option.poll_id === poll.id)
+    .sort((a, b) => compareValues(a.position, b.position));
+  return { ...poll, voted_option_id: votedOptionId(poll, db), options };
+}
+
+export const computedFields: Partial<Record<TableName, Record<string, ComputedField>>> = {
+  posts: {
+    liked_by_me: likedByMe,
+    my_reaction: myReaction,
+    featured_liker: featuredLiker,
+    reposted_by_me: repostedByMe,
+    bookmarked_by_me: bookmarkedByMe,
+  },
+  polls: {
+    voted_option_id: votedOptionId,
+  },
+};
+
+// (feed_at, id) row comparison for the home feed's keyset cursor.
+const compareCursor = (item: { at: unknown; post: Row }, at: unknown, id: unknown) =>
+  compareValues(item.at, at) || compareValues(item.post.id, id);
+
+function getHomeFeed(args: Row, db: MemoryDatabase) {
+  const viewerId = db.currentUserId;
+  if (!viewerId) return [];
+
+  const { before_created_at, before_id, after_created_at, after_id } = args;
+  const pageSize = Math.min(Math.max(Number(args.page_size ?? 20), 1), 100);
+  const ascending = after_created_at != null && before_created_at == null;
+  const now = new Date().toISOString();
+
+  const followed = new Set([
+    viewerId,
+    ...db
+      .rows('follows')
+      .filter((follow) => follow.follower_id === viewerId)
+      .map((follow) => follow.following_id),
+  ]);
+  const profiles = new Map(db.rows('profiles').map((profile) => [profile.id, profile]));
+  // SECURITY INVOKER: only the posts the viewer can see.
+  const posts = new Map(visibleRows(db, 'posts').map((post) => [post.id, post]));
+  const linkPreviews = new Map(db.rows('link_previews').map((preview) => [preview.id, preview]));
+
+  // The latest repost of each post by anyone followed.
+  const boosts = new Map<unknown, Row>();
+  for (const repost of db.rows('reposts')) {
+    if (!followed.has(repost.user_id) || !posts.has(repost.post_id)) continue;
+    const latest = boosts.get(repost.post_id);
+    if (!latest || compareValues(repost.created_at, latest.created_at) > 0) boosts.set(repost.post_id, repost);
+  }
+
+  const items = [
+    ...[...boosts.values()].map((repost) => ({ post: posts.get(repost.post_id)!, at: repost.created_at, by: repost.user_id })),
+    ...[...posts.values()]
+      // The viewer's own scheduled posts are left out too.
+      .filter(
+        (post) =>
+          followed.has(post.user_id) &&
+          !boosts.has(post.id) &&
+          (post.publish_at == null || compareValues(post.publish_at, now) <= 0)
+      )
+      .map((post) => ({ post, at: post.created_at, by: null })),
+  ];
+
+  return items
+    .filter(
+      (item) =>
+        profiles.has(item.post.user_id) &&
+        (before_created_at == null || compareCursor(item, before_created_at, before_id) < 0) &&
+        (after_created_at == null || compareCursor(item, after_created_at, after_id) > 0)
+    )
+    .sort((a, b) => (ascending ? 1 : -1) * (compareValues(a.at, b.at) || compareValues(a.post.id, b.post.id)))
+    .slice(0, pageSize)
+    .map(({ post, at, by }) => {
+      const quoted = posts.get(post.quoted_post_id);
+      return {
+        ...post,
+        author: profiles.get(post.user_id),
+        link_preview: linkPreviews.get(post.link_preview_id) ?? null,
+        quoted_post: quoted ? { ...quoted, profiles: profiles.get(quoted.user_id) } : null,
+        liked_by_me: likedByMe(post, db),
+        my_reaction: myReaction(post, db),
+        featured_liker: featuredLiker(post, db),
+        reposted_by_me: repostedByMe(post, db),
+        bookmarked_by_me: bookmarkedByMe(post, db),
+        feed_at: at,
+        reposted_by: by ? profiles.get(by) : null,
+        poll: pollPayload(post, db),
+      };
+    });
+}
+
+function postsWithHashtag(args: Row, db: MemoryDatabase) {
+  const tag = String(args.tag_name ?? '').toLowerCase();
+  const postIds = new Set(db.rows('post_hashtags').filter((hashtag) => hashtag.tag === tag).map((hashtag) => hashtag.post_id));
+  return db.rows('posts').filter((post) => postIds.has(post.id));
+}
+
+function getTrendingHashtags(args: Row, db: MemoryDatabase) {
+  const windowHours = Math.min(Math.max(Number(args.window_hours ?? 24), 1), 24 * 30);
+  const maxTags = Math.min(Math.max(Number(args.max_tags ?? 10), 1), 50);
+  const now = new Date().toISOString();
+  const since = new Date(Date.now() - windowHours * 60 * 60 * 1000).toISOString();
+
+  const publicPostIds = new Set(db.rows('posts').filter((post) => post.visibility === 'public').map((post) => post.id));
+
+  const counts = new Map<string, number>();
+  db.rows('post_hashtags')
+    .filter(
+      (hashtag) =>
+        publicPostIds.has(hashtag.post_id) &&
+        compareValues(hashtag.created_at, since) >= 0 &&
+        compareValues(hashtag.created_at, now) <= 0
+    )
+    .forEach((hashtag) => counts.set(String(hashtag.tag), (counts.get(String(hashtag.tag)) ?? 0) + 1));
+
+  return [...counts]
+    .map(([tag, posts_count]) => ({ tag, posts_count }))
+    .sort((a, b) => b.posts_count - a.posts_count || compareValues(a.tag, b.tag))
+    .slice(0, maxTags);
+}
+
+function createPoll(args: Row, db: MemoryDatabase) {
+  const post = db.rows('posts').find((post) => post.id === args.target_post_id);
+  if (!post || post.user_id !== db.currentUserId) {
+    throw dbError('42501', 'Polls can only be added to your own posts');
+  }
+
+  const labels = Array.isArray(args.option_labels) ? args.option_labels.map(String) : [];
+  if (labels.length < 2 || labels.length > 4) throw dbError('23514', 'A poll needs 2 to 4 options');
+
+  const minutes = Number(args.duration_minutes);
+  if (!(minutes >= 5 && minutes <= 7 * 24 * 60)) throw dbError('23514', 'A poll runs for 5 minutes to 7 days');
+
+  // A scheduled post's poll runs from its publish time.
+  const opensAt = Math.max(Date.now(), post.publish_at == null ? 0 : Date.parse(String(post.publish_at)));
+  const [poll] = db.insert('polls', [
+    { post_id: post.id, ends_at: new Date(opensAt + minutes * 60_000).toISOString() },
+  ]);
+
+  // The function runs as one statement in Postgres.
+  try {
+    db.insert('poll_options', labels.map((label, position) => ({ poll_id: poll.id, position, label: label.trim() })));
+  } catch (error) {
+    db.delete('polls', (row) => row.id === poll.id);
+    throw error;
+  }
+  return poll.id;
+}
+
+export const rpcFunctions: Record<string, RpcFunction> = {
+  get_home_feed: getHomeFeed,
+  posts_with_hashtag: postsWithHashtag,
+  get_trending_hashtags: getTrendingHashtags,
+  create_poll: createPoll,
+};
+
+// Functions returning SETOF a table, whose results can be selected and
+// embedded from like the table itself.
+export const setofFunctions: Record<string, TableName> = {
+  posts_with_hashtag: 'posts',
+};
+
+// close_ended_polls: closes polls past ends_at and notifies their authors.
+function closeEndedPolls(db: MemoryDatabase) {
+  const now = new Date().toISOString();
+  const closed = db.update(
+    'polls',
+    (poll) => poll.closed_at == null && compareValues(poll.ends_at, now) <= 0,
+    { closed_at: now }
+  );
+  if (closed.length === 0) return;
+
+  const posts = new Map(db.rows('posts').map((post) => [post.id, post]));
+  db.insert(
+    'notifications',
+    closed.map((poll) => {
+      const authorId = posts.get(poll.post_id)?.user_id;
+      return { user_id: authorId, actor_id: authorId, type: 'poll', post_id: poll.post_id };
+    })
+  );
+}
+
+// The pg_cron jobs. Rather than on a timer, they run before every query, as
+// if the job had just fired.
+export const scheduledJobs: ((db: MemoryDatabase) => void)[] = [closeEndedPolls];
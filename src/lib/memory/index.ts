@@ -0,0 +1,3 @@
+export { createMemoryClient, createSeededDatabase, type MemoryClientOptions } from './client';
+export { createMemoryDatabase, type MemoryDatabase } from './database';
+export { FIXTURE_PASSWORD, fixtureUserIds, seedMemoryDatabase } from './fixtures';
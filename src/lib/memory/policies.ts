@@ -0,0 +1,64 @@
+import { compareValues, type MemoryDatabase } from './database';
+import type { Row, TableName } from './schema';
+
+// The row level security SELECT policies from `supabase/migrations` that
+// depend on time or on the viewer, applied to reads, embeds and realtime.
+// Other tables read as if every row were visible, and writes aren't checked.
+
+type SelectPolicy = (row: Row, db: MemoryDatabase) => boolean;
+
+const isPast = (at: unknown) => compareValues(at, new Date().toISOString()) <= 0;
+
+// can_view_post(posts)
+export function canViewPost(post: Row, db: MemoryDatabase) {
+  const viewerId = db.currentUserId;
+  if (post.user_id === viewerId) return true;
+  if (post.publish_at != null && !isPast(post.publish_at)) return false;
+
+  switch (post.visibility) {
+    case 'public':
+      return true;
+    case 'followers':
+      return db.rows('follows').some((follow) => follow.follower_id === viewerId && follow.following_id === post.user_id);
+    case 'mentioned':
+      return db
+        .rows('mentions')
+        .some((mention) => mention.post_id === post.id && mention.comment_id == null && mention.user_id === viewerId);
+    default:
+      return false;
+  }
+}
+
+const isPostVisible = (postId: unknown, db: MemoryDatabase) => {
+  const post = db.rows('posts').find((post) => post.id === postId);
+  return !!post && canViewPost(post, db);
+};
+
+// Readable only along with the post they belong to.
+const withPost: SelectPolicy = (row, db) => isPostVisible(row.post_id, db);
+
+const selectPolicies: Partial<Record<TableName, SelectPolicy>> = {
+  posts: canViewPost,
+  likes: withPost,
+  comments: withPost,
+  reposts: withPost,
+  mentions: withPost,
+  post_hashtags: withPost,
+  post_revisions: withPost,
+  polls: withPost,
+  poll_options: (option, db) => db.rows('polls').some((poll) => poll.id === option.poll_id && withPost(poll, db)),
+  // Notifications about a scheduled post are dated when it publishes, and
+  // ones about a post the recipient can't see stay hidden.
+  notifications: (notification, db) =>
+    isPast(notification.created_at) && (notification.post_id == null || isPostVisible(notification.post_id, db)),
+};
+
+export function canSee(db: MemoryDatabase, table: TableName, row: Row) {
+  return selectPolicies[table]?.(row, db) ?? true;
+}
+
+export function visibleRows(db: MemoryDatabase, table: TableName) {
+  const policy = selectPolicies[table];
+  const rows = db.rows(table);
+  return policy ? rows.filter((row) => policy(row, db)) : rows;
+}
@@ -0,0 +1,468 @@
+import type { PostgrestError } from '@supabase/supabase-js';
+import { compareValues, dbError, type MemoryDatabase } from './database';
+import { computedFields, rpcFunctions, setofFunctions } from './functions';
+import { canSee, visibleRows } from './policies';
+import { isTableName, schema, type Row, type TableName } from './schema';
+
+// The subset of the PostgREST query builder the API layer uses, evaluated
+// against a MemoryDatabase. Like the real builder it is lazy: nothing runs
+// until the query is awaited.
+
+export interface MemoryResponse {
+  data: unknown;
+  error: PostgrestError | null;
+  count: number | null;
+  status: number;
+  statusText: string;
+}
+
+type Predicate = (row: Row) => boolean;
+
+interface OrderBy {
+  column: string;
+  ascending: boolean;
+  nullsFirst: boolean;
+}
+
+type SelectField =
+  | { kind: 'all' }
+  | { kind: 'column'; name: string; alias: string }
+  | { kind: 'embed'; relation: string; alias: string; hint?: string; fields: SelectField[] };
+
+type Operation =
+  | { kind: 'select' }
+  | { kind: 'insert'; rows: Row[] }
+  | { kind: 'upsert'; rows: Row[] }
+  | { kind: 'update'; changes: Row }
+  | { kind: 'delete' }
+  | { kind: 'rpc'; name: string; args: Row };
+
+interface SelectOptions {
+  count?: 'exact' | 'planned' | 'estimated';
+  head?: boolean;
+}
+
+interface OrderOptions {
+  ascending?: boolean;
+  nullsFirst?: boolean;
+}
+
+export interface MemoryQuery extends PromiseLike<MemoryResponse> {
+  select(columns?: string, options?: SelectOptions): MemoryQuery;
+  insert(values: Row | Row[]): MemoryQuery;
+  // On conflict with an existing primary key only.
+  upsert(values: Row | Row[]): MemoryQuery;
+  update(values: Row): MemoryQuery;
+  delete(): MemoryQuery;
+  eq(column: string, value: unknown): MemoryQuery;
+  neq(column: string, value: unknown): MemoryQuery;
+  gt(column: string, value: unknown): MemoryQuery;
+  gte(column: string, value: unknown): MemoryQuery;
+  lt(column: string, value: unknown): MemoryQuery;
+  lte(column: string, value: unknown): MemoryQuery;
+  like(column: string, pattern: string): MemoryQuery;
+  ilike(column: string, pattern: string): MemoryQuery;
+  is(column: string, value: unknown): MemoryQuery;
+  in(column: string, values: readonly unknown[]): MemoryQuery;
+  not(column: string, operator: string, value: unknown): MemoryQuery;
+  or(filters: string): MemoryQuery;
+  filter(column: string, operator: string, value: unknown): MemoryQuery;
+  match(query: Row): MemoryQuery;
+  order(column: string, options?: OrderOptions): MemoryQuery;
+  limit(count: number): MemoryQuery;
+  range(from: number, to: number): MemoryQuery;
+  single(): MemoryQuery;
+  maybeSingle(): MemoryQuery;
+}
+
+// Splits on commas that aren't inside parentheses or double quotes.
+function splitTopLevel(input: string) {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let current = '';
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (char === '\\' && quoted) {
+      current += char + (input[++i] ?? '');
+      continue;
+    }
+    if (char === '"') quoted = !quoted;
+    if (!quoted && char === '(') depth++;
+    if (!quoted && char === ')') depth--;
+
+    if (char === ',' && depth === 0 && !quoted) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  if (current) parts.push(current);
+  return parts.map((part) => part.trim()).filter(Boolean);
+}
+
+const unquote = (value: string) =>
+  value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1).replace(/\\(.)/g, '$1') : value;
+
+const parseList = (value: unknown): unknown[] =>
+  Array.isArray(value) ? value : splitTopLevel(String(value).replace(/^\(|\)$/g, '')).map(unquote);
+
+// `\` escapes the next character, as LIKE's default escape does.
+function likePattern(pattern: string, flags: string) {
+  const source = (pattern.match(/\\.|./gs) ?? [])
+    .map((token) => {
+      if (token === '%' || token === '*') return '.*';
+      if (token === '_') return '.';
+      return token.slice(-1).replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`, flags);
+}
+
+function test(operator: string, actual: unknown, expected: unknown): boolean {
+  const present = actual !== null && actual !== undefined;
+
+  switch (operator) {
+    case 'eq':
+      return present && compareValues(actual, expected) === 0;
+    case 'neq':
+      return present && compareValues(actual, expected) !== 0;
+    case 'gt':
+      return present && compareValues(actual, expected) > 0;
+    case 'gte':
+      return present && compareValues(actual, expected) >= 0;
+    case 'lt':
+      return present && compareValues(actual, expected) < 0;
+    case 'lte':
+      return present && compareValues(actual, expected) <= 0;
+    case 'like':
+      return present && likePattern(String(expected), '').test(String(actual));
+    case 'ilike':
+      return present && likePattern(String(expected), 'i').test(String(actual));
+    case 'is':
+      if (expected === null || expected === 'null') return !present;
+      return present && compareValues(actual, expected) === 0;
+    case 'in':
+      return present && parseList(expected).some((candidate) => compareValues(actual, candidate) === 0);
+    default:
+      throw dbError('PGRST100', `"failed to parse filter (${operator})" (line 1, column 1)`);
+  }
+}
+
+function condition(column: string, operator: string, value: unknown, negate = false): Predicate {
+  return (row) => test(operator, row[column], value) !== negate;
+}
+
+// Parses a PostgREST logic tree such as
+// `a.eq.1,and(b.lt."2024-01-01",c.not.is.null)`.
+function parseLogic(filters: string, mode: 'or' | 'and'): Predicate {
+  const predicates = splitTopLevel(filters).map((part): Predicate => {
+    const group = part.match(/^(not\.)?(and|or)\((.*)\)$/s);
+    if (group) {
+      const inner = parseLogic(group[3], group[2] as 'and' | 'or');
+      return group[1] ? (row) => !inner(row) : inner;
+    }
+
+    const filter = part.match(/^([\w-]+)\.(not\.)?(\w+)\.(.*)$/s);
+    if (!filter) {
+      throw dbError('PGRST100', `"failed to parse logic tree ((${filters}))" (line 1, column 1)`);
+    }
+    const [, column, not, operator, value] = filter;
+    return condition(column, operator, operator === 'in' ? value : unquote(value), !!not);
+  });
+
+  return mode === 'or' ? (row) => predicates.some((p) => p(row)) : (row) => predicates.every((p) => p(row));
+}
+
+function parseSelect(columns: string): SelectField[] {
+  return splitTopLevel(columns.replace(/\s+/g, '')).map((part): SelectField => {
+    if (part === '*') return { kind: 'all' };
+
+    const field = part.match(/^(?:(\w+):)?(\w+)(?:!(\w+))?(?:\((.*)\))?$/s);
+    if (!field) {
+      throw dbError('PGRST100', `"failed to parse select parameter (${columns})" (line 1, column 1)`);
+    }
+
+    const [, alias, name, hint, inner] = field;
+    if (inner === undefined) return { kind: 'column', name, alias: alias ?? name };
+    return { kind: 'embed', relation: name, alias: alias ?? name, hint, fields: parseSelect(inner || '*') };
+  });
+}
+
+// Finds the foreign key an embed follows: ours to them (one row) or theirs
+// to us (many rows, or one if their key is one-to-one). `hint` is a constraint or column name, as in `!fkey`.
+// Embedding one of our foreign key columns, as in `parent:parent_id(*)`,
+// follows that key, which is how self-references are embedded.
+function resolveEmbed(table: TableName, relation: string, hint?: string) {
+  const byColumn = schema[table].foreignKeys.find((fk) => fk.column === relation);
+  if (byColumn) return { relation: byColumn.references, fk: byColumn, ours: true, many: false };
+
+  if (!isTableName(relation)) {
+    throw dbError('PGRST200', `Could not find a relationship between '${table}' and '${relation}' in the schema cache`);
+  }
+
+  const candidates = [
+    ...schema[table].foreignKeys.filter((fk) => fk.references === relation).map((fk) => ({ fk, ours: true, many: false })),
+    ...schema[relation].foreignKeys
+      .filter((fk) => fk.references === table)
+      .map((fk) => ({ fk, ours: false, many: !fk.oneToOne })),
+  ].filter(({ fk }) => !hint || fk.name === hint || fk.column === hint);
+
+  if (candidates.length === 0) {
+    throw dbError('PGRST200', `Could not find a relationship between '${table}' and '${relation}' in the schema cache`);
+  }
+  if (candidates.length > 1) {
+    throw dbError(
+      'PGRST201',
+      `Could not embed because more than one relationship was found for '${table}' and '${relation}'`
+    );
+  }
+  return { relation, ...candidates[0] };
+}
+
+function project(db: MemoryDatabase, table: TableName, row: Row, fields: SelectField[]): Row {
+  const result: Row = {};
+  const computed = computedFields[table] ?? {};
+
+  for (const field of fields) {
+    if (field.kind === 'all') {
+      Object.assign(result, row);
+    } else if (field.kind === 'column') {
+      if (field.name in computed) {
+        result[field.alias] = computed[field.name](row, db);
+      } else if (field.name in schema[table].columns) {
+        result[field.alias] = row[field.name];
+      } else {
+        throw dbError('42703', `column ${table}.${field.name} does not exist`);
+      }
+    } else {
+      const { relation, fk, ours, many } = resolveEmbed(table, field.relation, field.hint);
+      const matches = (other: Row) => (ours ? other.id === row[fk.column] : other[fk.column] === row.id);
+      if (many) {
+        result[field.alias] = db
+          .rows(relation)
+          .filter((other) => matches(other) && canSee(db, relation, other))
+          .map((child) => project(db, relation, child, field.fields));
+      } else {
+        const match = db.rows(relation).find((other) => matches(other) && canSee(db, relation, other));
+        result[field.alias] = match ? project(db, relation, match, field.fields) : null;
+      }
+    }
+  }
+
+  return result;
+}
+
+function sortRows(rows: Row[], orders: OrderBy[]) {
+  return rows.slice().sort((a, b) => {
+    for (const { column, ascending, nullsFirst } of orders) {
+      const aNull = a[column] === null || a[column] === undefined;
+      const bNull = b[column] === null || b[column] === undefined;
+      if (aNull !== bNull) return aNull === nullsFirst ? -1 : 1;
+
+      const order = compareValues(a[column], b[column]);
+      if (order !== 0) return ascending ? order : -order;
+    }
+    return 0;
+  });
+}
+
+const response = (data: unknown, count: number | null, status: number): MemoryResponse => ({
+  // Round-trip through JSON like the wire would, so callers never hold live rows.
+  data: data === undefined || data === null ? null : JSON.parse(JSON.stringify(data)),
+  error: null,
+  count,
+  status,
+  statusText: status === 201 ? 'Created' : status === 204 ? 'No Content' : 'OK',
+});
+
+export function createQuery(db: MemoryDatabase, source: string, rpc?: Row): MemoryQuery {
+  let operation: Operation = rpc ? { kind: 'rpc', name: source, args: rpc } : { kind: 'select' };
+  let fields: SelectField[] | null = null;
+  let parseError: PostgrestError | null = null;
+  let options: SelectOptions = {};
+  const filters: Predicate[] = [];
+  const orders: OrderBy[] = [];
+  let offset = 0;
+  let limit = Infinity;
+  let single: 'single' | 'maybeSingle' | null = null;
+
+  function tableName() {
+    if (!isTableName(source)) throw dbError('42P01', `relation "public.${source}" does not exist`);
+    return source;
+  }
+
+  // Applies the select list; results of functions not returning a table are
+  // returned as-is.
+  function shape(table: TableName | null, rows: Row[]) {
+    const selected = fields;
+    if (!selected || !table) return rows;
+    return rows.map((row) => project(db, table, row, selected));
+  }
+
+  function finish(rows: Row[] | null, count: number | null, status: number): MemoryResponse {
+    if (single && rows) {
+      if (rows.length > 1 || (single === 'single' && rows.length === 0)) {
+        throw dbError(
+          'PGRST116',
+          'JSON object requested, multiple (or no) rows returned',
+          `The result contains ${rows.length} rows`
+        );
+      }
+      return response(rows[0] ?? null, count, status);
+    }
+    return response(rows, count, status);
+  }
+
+  function readRows(rows: readonly Row[], table: TableName | null) {
+    const matched = sortRows(
+      rows.filter((row) => filters.every((predicate) => predicate(row))),
+      orders
+    );
+    const count = options.count ? matched.length : null;
+    if (options.head) return finish(null, count, 200);
+    return finish(shape(table, matched.slice(offset, offset + limit)), count, 200);
+  }
+
+  function execute(): MemoryResponse {
+    if (parseError) throw parseError;
+    const match: Predicate = (row) => filters.every((predicate) => predicate(row));
+
+    switch (operation.kind) {
+      case 'select':
+        return readRows(visibleRows(db, tableName()), tableName());
+      case 'rpc': {
+        const fn = rpcFunctions[operation.name];
+        if (!fn) {
+          throw dbError('PGRST202', `Could not find the function public.${operation.name} in the schema cache`);
+        }
+        const result = fn(operation.args, db);
+        if (!Array.isArray(result)) return response(result, null, 200);
+
+        // SECURITY INVOKER: the table's policies still apply to what it returns.
+        const table = setofFunctions[operation.name] ?? null;
+        return readRows(table ? result.filter((row) => canSee(db, table, row)) : result, table);
+      }
+      case 'insert': {
+        const inserted = db.insert(tableName(), operation.rows);
+        return fields ? finish(shape(tableName(), inserted), null, 201) : response(null, null, 201);
+      }
+      case 'upsert': {
+        const table = tableName();
+        const upserted = operation.rows.flatMap((row) => {
+          const exists = row.id != null && db.rows(table).some((other) => other.id === row.id);
+          return exists ? db.update(table, (other) => other.id === row.id, row) : db.insert(table, [row]);
+        });
+        return fields ? finish(shape(table, upserted), null, 201) : response(null, null, 201);
+      }
+      case 'update': {
+        const updated = db.update(tableName(), match, operation.changes);
+        return fields ? finish(shape(tableName(), updated), null, 200) : response(null, null, 204);
+      }
+      case 'delete': {
+        const deleted = db.delete(tableName(), match);
+        return fields ? finish(shape(tableName(), deleted), null, 200) : response(null, null, 204);
+      }
+    }
+  }
+
+  async function run(): Promise<MemoryResponse> {
+    // Resolve on a later tick, as a network round trip would.
+    await Promise.resolve();
+
+    try {
+      return execute();
+    } catch (error) {
+      if (error instanceof Error && 'code' in error && 'details' in error) {
+        return { data: null, error: error as PostgrestError, count: null, status: 400, statusText: 'Bad Request' };
+      }
+      throw error;
+    }
+  }
+
+  const add = (predicate: Predicate) => {
+    filters.push(predicate);
+    return query;
+  };
+
+  const query: MemoryQuery = {
+    select(columns = '*', selectOptions = {}) {
+      try {
+        fields = parseSelect(columns);
+      } catch (error) {
+        parseError = error as PostgrestError;
+      }
+      options = selectOptions;
+      return query;
+    },
+    insert(values) {
+      operation = { kind: 'insert', rows: Array.isArray(values) ? values : [values] };
+      return query;
+    },
+    upsert(values) {
+      operation = { kind: 'upsert', rows: Array.isArray(values) ? values : [values] };
+      return query;
+    },
+    update(values) {
+      operation = { kind: 'update', changes: values };
+      return query;
+    },
+    delete() {
+      operation = { kind: 'delete' };
+      return query;
+    },
+    eq: (column, value) => add(condition(column, 'eq', value)),
+    neq: (column, value) => add(condition(column, 'neq', value)),
+    gt: (column, value) => add(condition(column, 'gt', value)),
+    gte: (column, value) => add(condition(column, 'gte', value)),
+    lt: (column, value) => add(condition(column, 'lt', value)),
+    lte: (column, value) => add(condition(column, 'lte', value)),
+    like: (column, pattern) => add(condition(column, 'like', pattern)),
+    ilike: (column, pattern) => add(condition(column, 'ilike', pattern)),
+    is: (column, value) => add(condition(column, 'is', value)),
+    in: (column, values) => add(condition(column, 'in', values)),
+    not: (column, operator, value) => add(condition(column, operator, value, true)),
+    or: (logic) => {
+      try {
+        return add(parseLogic(logic, 'or'));
+      } catch (error) {
+        parseError = error as PostgrestError;
+        return query;
+      }
+    },
+    filter: (column, operator, value) => add(condition(column, operator, value)),
+    match: (values) => {
+      Object.entries(values).forEach(([column, value]) => add(condition(column, 'eq', value)));
+      return query;
+    },
+    order(column, { ascending = true, nullsFirst = !ascending } = {}) {
+      orders.push({ column, ascending, nullsFirst });
+      return query;
+    },
+    limit(count) {
+      limit = count;
+      return query;
+    },
+    range(from, to) {
+      offset = from;
+      limit = to - from + 1;
+      return query;
+    },
+    single() {
+      single = 'single';
+      return query;
+    },
+    maybeSingle() {
+      single = 'maybeSingle';
+      return query;
+    },
+    then(onFulfilled, onRejected) {
+      return run().then(onFulfilled, onRejected);
+    },
+  };
+
+  return query;
+}
@@ -0,0 +1,106 @@
+import type { ChangeEvent, MemoryDatabase } from './database';
+import { canSee } from './policies';
+import type { Row } from './schema';
+
+// `postgres_changes` channels fed by the database's change events. Filters
+// follow the Realtime syntax (`column=eq.value`, `column=in.(a,b)`).
+
+interface ChangeFilter {
+  event: '*' | 'INSERT' | 'UPDATE' | 'DELETE';
+  schema: string;
+  table?: string;
+  filter?: string;
+}
+
+interface Binding extends ChangeFilter {
+  callback: (payload: ChangeEvent & { schema: string; errors: null }) => void;
+}
+
+type SubscribeStatus = 'SUBSCRIBED' | 'CLOSED';
+
+function matchesFilter(filter: string | undefined, row: Row) {
+  if (!filter) return true;
+
+  const parsed = filter.match(/^(\w+)=(eq|neq|lt|lte|gt|gte|in)\.(.*)$/);
+  if (!parsed) return false;
+
+  const [, column, operator, value] = parsed;
+  const actual = String(row[column]);
+
+  switch (operator) {
+    case 'eq':
+      return actual === value;
+    case 'neq':
+      return actual !== value;
+    case 'in':
+      return value.replace(/^\(|\)$/g, '').split(',').includes(actual);
+    case 'lt':
+      return actual < value;
+    case 'lte':
+      return actual <= value;
+    case 'gt':
+      return actual > value;
+    default:
+      return actual >= value;
+  }
+}
+
+export function createMemoryRealtime(db: MemoryDatabase) {
+  const channels = new Set<ReturnType<typeof createChannel>>();
+
+  function createChannel(topic: string) {
+    const bindings: Binding[] = [];
+    let stop: (() => void) | null = null;
+
+    function dispatch(event: ChangeEvent) {
+      for (const binding of bindings) {
+        if (binding.table && binding.table !== event.table) continue;
+        if (binding.event !== '*' && binding.event !== event.eventType) continue;
+        // As with Realtime, delete events only carry the old primary key and can't be filtered.
+        if (event.eventType !== 'DELETE' && !matchesFilter(binding.filter, event.new)) continue;
+        // Realtime only sends rows the subscriber may select.
+        if (event.eventType !== 'DELETE' && !canSee(db, event.table, event.new)) continue;
+
+        binding.callback({ ...event, schema: 'public', errors: null });
+      }
+    }
+
+    const channel = {
+      topic: `realtime:${topic}`,
+
+      on(type: string, filter: ChangeFilter, callback: Binding['callback']) {
+        if (type === 'postgres_changes') bindings.push({ ...filter, callback });
+        return channel;
+      },
+
+      subscribe(callback?: (status: SubscribeStatus) => void) {
+        if (!stop) {
+          // Deliver after the writing statement settles, like a network push.
+          stop = db.onChange((event) => setTimeout(() => dispatch(event), 0));
+          setTimeout(() => callback?.('SUBSCRIBED'), 0);
+        }
+        return channel;
+      },
+
+      async unsubscribe() {
+        stop?.();
+        stop = null;
+        channels.delete(channel);
+        return 'ok' as const;
+      },
+    };
+
+    channels.add(channel);
+    return channel;
+  }
+
+  return {
+    channel: createChannel,
+
+    removeChannel: async (channel: ReturnType<typeof createChannel>) => channel.unsubscribe(),
+
+    removeAllChannels: async () => Promise.all([...channels].map((channel) => channel.unsubscribe())),
+
+    getChannels: () => [...channels],
+  };
+}
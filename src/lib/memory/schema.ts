@@ -0,0 +1,424 @@
+import type { Database } from '../database.types';
+
+// Runtime description of the tables in `supabase/migrations`: columns and
+// their defaults, constraints, and the foreign keys embeds are resolved through.
+
+export type TableName = keyof Database['public']['Tables'];
+
+export type Row = Record<string, unknown>;
+
+export interface ForeignKey {
+  name: string;
+  column: string;
+  references: TableName;
+  // ON DELETE; foreign keys cascade unless they say otherwise.
+  onDelete?: 'cascade' | 'set null';
+  // The column is also unique, so embedding from the referenced table gives
+  // one row rather than a list.
+  oneToOne?: boolean;
+}
+
+export interface UniqueKey {
+  name: string;
+  columns: (row: Row) => unknown[];
+}
+
+export interface CheckConstraint {
+  name: string;
+  check: (row: Row) => boolean;
+}
+
+export interface TableSchema {
+  // Every column, mapped to its default. `required` columns have no default.
+  columns: Record<string, () => unknown>;
+  required: string[];
+  unique: UniqueKey[];
+  checks: CheckConstraint[];
+  foreignKeys: ForeignKey[];
+}
+
+const now = () => new Date().toISOString();
+const uuid = () => crypto.randomUUID();
+const value = (v: unknown) => () => v;
+const none = value(null);
+
+const primaryKey = (table: TableName): UniqueKey => ({ name: `${table}_pkey`, columns: (row) => [row.id] });
+
+const unique = (name: string, ...columns: string[]): UniqueKey => ({
+  name,
+  columns: (row) => columns.map((column) => row[column]),
+});
+
+const length = (column: string, min: number, max: number) => (row: Row) => {
+  const text = String(row[column] ?? '');
+  return text.length >= min && text.length <= max;
+};
+
+// valid_post_media(jsonb)
+const validPostMedia = (media: unknown) =>
+  Array.isArray(media) &&
+  media.length <= 4 &&
+  media.every(
+    (item) =>
+      typeof item === 'object' &&
+      item !== null &&
+      ['image', 'video', 'gif'].includes(item.type) &&
+      typeof item.url === 'string' &&
+      item.url !== ''
+  );
+
+const fk = (
+  name: string,
+  column: string,
+  references: TableName,
+  onDelete: ForeignKey['onDelete'] = 'cascade'
+): ForeignKey => ({ name, column, references, onDelete });
+
+export const schema: Record<TableName, TableSchema> = {
+  profiles: {
+    columns: {
+      id: none,
+      username: none,
+      full_name: value(''),
+      bio: value(''),
+      avatar_url: value(''),
+      cover_photo_url: value(''),
+      location: value(''),
+      website: value(''),
+      followers_count: value(0),
+      following_count: value(0),
+      posts_count: value(0),
+      pinned_post_id: none,
+      created_at: now,
+      updated_at: now,
+    },
+    required: ['id', 'username'],
+    unique: [primaryKey('profiles'), unique('profiles_username_key', 'username')],
+    checks: [
+      { name: 'username_length', check: length('username', 3, 30) },
+      { name: 'username_format', check: (row) => /^[a-zA-Z0-9_]+$/.test(String(row.username)) },
+    ],
+    foreignKeys: [fk('profiles_pinned_post_id_fkey', 'pinned_post_id', 'posts', 'set null')],
+  },
+  posts: {
+    columns: {
+      id: uuid,
+      user_id: none,
+      content: none,
+      media: () => [],
+      link_preview_id: none,
+      quoted_post_id: none,
+      is_quote: value(false),
+      publish_at: none,
+      visibility: value('public'),
+      created_at: now,
+      updated_at: now,
+      is_edited: value(false),
+      likes_count: value(0),
+      comments_count: value(0),
+      reposts_count: value(0),
+      quotes_count: value(0),
+      reaction_counts: () => ({}),
+    },
+    required: ['user_id', 'content'],
+    unique: [primaryKey('posts')],
+    checks: [
+      { name: 'content_length', check: length('content', 1, 5000) },
+      { name: 'media_items_valid', check: (row) => validPostMedia(row.media) },
+      { name: 'valid_post_visibility', check: (row) => ['public', 'followers', 'mentioned'].includes(String(row.visibility)) },
+    ],
+    foreignKeys: [
+      fk('posts_link_preview_id_fkey', 'link_preview_id', 'link_previews', 'set null'),
+      fk('posts_quoted_post_id_fkey', 'quoted_post_id', 'posts', 'set null'),
+      fk('posts_user_id_fkey', 'user_id', 'profiles'),
+    ],
+  },
+  link_previews: {
+    columns: {
+      id: uuid,
+      url: none,
+      title: none,
+      description: none,
+      image_url: none,
+      site_name: none,
+      domain: none,
+      fetched_at: now,
+    },
+    required: ['url', 'domain'],
+    unique: [primaryKey('link_previews'), unique('link_previews_url_key', 'url')],
+    checks: [],
+    foreignKeys: [],
+  },
+  likes: {
+    columns: {
+      id: uuid,
+      user_id: none,
+      post_id: none,
+      reaction: value('heart'),
+      created_at: now,
+    },
+    required: ['user_id', 'post_id'],
+    unique: [primaryKey('likes'), unique('likes_user_id_post_id_key', 'user_id', 'post_id')],
+    checks: [
+      {
+        name: 'valid_like_reaction',
+        check: (row) => ['heart', 'laugh', 'wow', 'sad', 'thumbs_up'].includes(String(row.reaction)),
+      },
+    ],
+    foreignKeys: [fk('likes_post_id_fkey', 'post_id', 'posts'), fk('likes_user_id_fkey', 'user_id', 'profiles')],
+  },
+  reposts: {
+    columns: {
+      id: uuid,
+      user_id: none,
+      post_id: none,
+      created_at: now,
+    },
+    required: ['user_id', 'post_id'],
+    unique: [primaryKey('reposts'), unique('reposts_user_id_post_id_key', 'user_id', 'post_id')],
+    checks: [],
+    foreignKeys: [fk('reposts_post_id_fkey', 'post_id', 'posts'), fk('reposts_user_id_fkey', 'user_id', 'profiles')],
+  },
+  polls: {
+    columns: {
+      id: uuid,
+      post_id: none,
+      ends_at: none,
+      votes_count: value(0),
+      closed_at: none,
+      created_at: now,
+    },
+    required: ['post_id', 'ends_at'],
+    unique: [primaryKey('polls'), unique('polls_post_id_key', 'post_id')],
+    checks: [],
+    foreignKeys: [{ ...fk('polls_post_id_fkey', 'post_id', 'posts'), oneToOne: true }],
+  },
+  poll_options: {
+    columns: {
+      id: uuid,
+      poll_id: none,
+      position: none,
+      label: none,
+      votes_count: value(0),
+    },
+    required: ['poll_id', 'position', 'label'],
+    unique: [primaryKey('poll_options'), unique('poll_options_poll_id_position_key', 'poll_id', 'position')],
+    checks: [
+      { name: 'poll_option_position', check: (row) => Number(row.position) >= 0 && Number(row.position) <= 3 },
+      { name: 'poll_option_label_length', check: length('label', 1, 80) },
+    ],
+    foreignKeys: [fk('poll_options_poll_id_fkey', 'poll_id', 'polls')],
+  },
+  poll_votes: {
+    columns: {
+      id: uuid,
+      poll_id: none,
+      option_id: none,
+      user_id: none,
+      created_at: now,
+    },
+    required: ['poll_id', 'option_id', 'user_id'],
+    unique: [primaryKey('poll_votes'), unique('poll_votes_poll_id_user_id_key', 'poll_id', 'user_id')],
+    checks: [],
+    foreignKeys: [
+      fk('poll_votes_option_id_fkey', 'option_id', 'poll_options'),
+      fk('poll_votes_poll_id_fkey', 'poll_id', 'polls'),
+      fk('poll_votes_user_id_fkey', 'user_id', 'profiles'),
+    ],
+  },
+  bookmark_folders: {
+    columns: {
+      id: uuid,
+      user_id: none,
+      name: none,
+      created_at: now,
+    },
+    required: ['user_id', 'name'],
+    unique: [primaryKey('bookmark_folders'), unique('bookmark_folders_user_id_name_key', 'user_id', 'name')],
+    checks: [{ name: 'bookmark_folder_name_length', check: length('name', 1, 50) }],
+    foreignKeys: [fk('bookmark_folders_user_id_fkey', 'user_id', 'profiles')],
+  },
+  bookmarks: {
+    columns: {
+      id: uuid,
+      user_id: none,
+      post_id: none,
+      folder_id: none,
+      created_at: now,
+    },
+    required: ['user_id', 'post_id'],
+    unique: [primaryKey('bookmarks'), unique('bookmarks_user_id_post_id_key', 'user_id', 'post_id')],
+    checks: [],
+    foreignKeys: [
+      fk('bookmarks_folder_id_fkey', 'folder_id', 'bookmark_folders', 'set null'),
+      fk('bookmarks_post_id_fkey', 'post_id', 'posts'),
+      fk('bookmarks_user_id_fkey', 'user_id', 'profiles'),
+    ],
+  },
+  post_drafts: {
+    columns: {
+      id: uuid,
+      user_id: none,
+      content: value(''),
+      created_at: now,
+      updated_at: now,
+    },
+    required: ['user_id', 'content'],
+    unique: [primaryKey('post_drafts')],
+    checks: [{ name: 'post_draft_content_length', check: length('content', 0, 5000) }],
+    foreignKeys: [fk('post_drafts_user_id_fkey', 'user_id', 'profiles')],
+  },
+  post_hashtags: {
+    columns: {
+      id: uuid,
+      post_id: none,
+      tag: none,
+      created_at: none,
+    },
+    required: ['post_id', 'tag', 'created_at'],
+    unique: [primaryKey('post_hashtags'), unique('post_hashtags_post_id_tag_key', 'post_id', 'tag')],
+    checks: [
+      {
+        name: 'tag_format',
+        check: (row) => row.tag === String(row.tag).toLowerCase() && length('tag', 1, 50)(row),
+      },
+    ],
+    foreignKeys: [fk('post_hashtags_post_id_fkey', 'post_id', 'posts')],
+  },
+  comments: {
+    columns: {
+      id: uuid,
+      user_id: none,
+      post_id: none,
+      parent_id: none,
+      content: none,
+      created_at: now,
+      updated_at: now,
+      is_edited: value(false),
+    },
+    required: ['user_id', 'post_id', 'content'],
+    unique: [primaryKey('comments')],
+    checks: [{ name: 'comment_length', check: length('content', 1, 2000) }],
+    foreignKeys: [
+      fk('comments_parent_id_fkey', 'parent_id', 'comments'),
+      fk('comments_post_id_fkey', 'post_id', 'posts'),
+      fk('comments_user_id_fkey', 'user_id', 'profiles'),
+    ],
+  },
+  post_revisions: {
+    columns: {
+      id: uuid,
+      post_id: none,
+      content: none,
+      created_at: now,
+    },
+    required: ['post_id', 'content'],
+    unique: [primaryKey('post_revisions')],
+    checks: [],
+    foreignKeys: [fk('post_revisions_post_id_fkey', 'post_id', 'posts')],
+  },
+  mentions: {
+    columns: {
+      id: uuid,
+      post_id: none,
+      comment_id: none,
+      user_id: none,
+      created_at: now,
+    },
+    required: ['post_id', 'user_id'],
+    unique: [
+      primaryKey('mentions'),
+      // NULLS NOT DISTINCT: a post's own mentions (no comment) are unique too.
+      {
+        name: 'mentions_source_user_key',
+        columns: (row) => [row.post_id, row.comment_id ?? '', row.user_id],
+      },
+    ],
+    checks: [],
+    foreignKeys: [
+      fk('mentions_comment_id_fkey', 'comment_id', 'comments'),
+      fk('mentions_post_id_fkey', 'post_id', 'posts'),
+      fk('mentions_user_id_fkey', 'user_id', 'profiles'),
+    ],
+  },
+  follows: {
+    columns: {
+      id: uuid,
+      follower_id: none,
+      following_id: none,
+      created_at: now,
+    },
+    required: ['follower_id', 'following_id'],
+    unique: [primaryKey('follows'), unique('follows_follower_id_following_id_key', 'follower_id', 'following_id')],
+    checks: [{ name: 'no_self_follow', check: (row) => row.follower_id !== row.following_id }],
+    foreignKeys: [
+      fk('follows_follower_id_fkey', 'follower_id', 'profiles'),
+      fk('follows_following_id_fkey', 'following_id', 'profiles'),
+    ],
+  },
+  conversations: {
+    columns: {
+      id: uuid,
+      user1_id: none,
+      user2_id: none,
+      last_message_at: now,
+      created_at: now,
+    },
+    required: ['user1_id', 'user2_id'],
+    unique: [
+      primaryKey('conversations'),
+      // Order-independent, like the LEAST/GREATEST index.
+      { name: 'conversations_users_idx', columns: (row) => [row.user1_id, row.user2_id].map(String).sort() },
+    ],
+    checks: [{ name: 'different_users', check: (row) => row.user1_id !== row.user2_id }],
+    foreignKeys: [
+      fk('conversations_user1_id_fkey', 'user1_id', 'profiles'),
+      fk('conversations_user2_id_fkey', 'user2_id', 'profiles'),
+    ],
+  },
+  messages: {
+    columns: {
+      id: uuid,
+      conversation_id: none,
+      sender_id: none,
+      content: none,
+      is_read: value(false),
+      created_at: now,
+    },
+    required: ['conversation_id', 'sender_id', 'content'],
+    unique: [primaryKey('messages')],
+    checks: [{ name: 'message_length', check: length('content', 1, 2000) }],
+    foreignKeys: [
+      fk('messages_conversation_id_fkey', 'conversation_id', 'conversations'),
+      fk('messages_sender_id_fkey', 'sender_id', 'profiles'),
+    ],
+  },
+  notifications: {
+    columns: {
+      id: uuid,
+      user_id: none,
+      actor_id: none,
+      type: none,
+      post_id: none,
+      comment_id: none,
+      is_read: value(false),
+      created_at: now,
+    },
+    required: ['user_id', 'actor_id', 'type'],
+    unique: [primaryKey('notifications')],
+    checks: [
+      {
+        name: 'valid_notification_type',
+        check: (row) => ['follow', 'like', 'comment', 'mention', 'message', 'repost', 'quote', 'poll'].includes(String(row.type)),
+      },
+    ],
+    foreignKeys: [
+      fk('notifications_actor_id_fkey', 'actor_id', 'profiles'),
+      fk('notifications_comment_id_fkey', 'comment_id', 'comments'),
+      fk('notifications_post_id_fkey', 'post_id', 'posts'),
+      fk('notifications_user_id_fkey', 'user_id', 'profiles'),
+    ],
+  },
+};
+
+export const isTableName = (name: string): name is TableName => Object.prototype.hasOwnProperty.call(schema, name);
@@ -0,0 +1,111 @@
+import type { MemoryDatabase } from './database';
+
+// Storage buckets from `supabase/migrations`, holding uploads as object URLs.
+// Per-user folder policies are enforced against the signed-in user.
+
+interface BucketConfig {
+  fileSizeLimit: number;
+  allowedMimeTypes: string[];
+}
+
+const buckets: Record<string, BucketConfig> = {
+  'post-media': {
+    fileSizeLimit: 50 * 1024 * 1024,
+    allowedMimeTypes: [
+      'image/jpeg',
+      'image/png',
+      'image/webp',
+      'image/gif',
+      'video/mp4',
+      'video/webm',
+      'video/quicktime',
+    ],
+  },
+};
+
+interface StoredFile {
+  url: string;
+  size: number;
+  contentType: string;
+}
+
+const storageError = (message: string, status: number) =>
+  Object.assign(new Error(message), { name: 'StorageApiError', status, statusCode: String(status) });
+
+const toObjectUrl = (file: Blob) =>
+  // jsdom has no object URLs.
+  typeof URL.createObjectURL === 'function' ? URL.createObjectURL(file) : `blob:memory/${crypto.randomUUID()}`;
+
+export function createMemoryStorage(db: MemoryDatabase) {
+  const files = new Map<string, StoredFile>();
+  const uploadTokens = new Map<string, string>();
+
+  // The first folder of every path must be the signed-in user's id.
+  const ownsPath = (path: string) => !!db.currentUserId && path.split('/')[0] === db.currentUserId;
+
+  function from(bucketId: string) {
+    const bucket = buckets[bucketId];
+    const key = (path: string) => `${bucketId}/${path}`;
+
+    function store(path: string, file: Blob, contentType = file.type) {
+      if (!bucket) return storageError('Bucket not found', 404);
+      if (!ownsPath(path)) return storageError('new row violates row-level security policy', 403);
+      if (files.has(key(path))) return storageError('The resource already exists', 409);
+      if (file.size > bucket.fileSizeLimit) return storageError('The object exceeded the maximum allowed size', 413);
+      if (!bucket.allowedMimeTypes.includes(contentType)) {
+        return storageError(`mime type ${contentType} is not supported`, 415);
+      }
+
+      files.set(key(path), { url: toObjectUrl(file), size: file.size, contentType });
+      return null;
+    }
+
+    return {
+      async createSignedUploadUrl(path: string) {
+        if (!bucket) return { data: null, error: storageError('Bucket not found', 404) };
+        if (!ownsPath(path)) {
+          return { data: null, error: storageError('new row violates row-level security policy', 403) };
+        }
+
+        const token = crypto.randomUUID();
+        uploadTokens.set(token, key(path));
+        return { data: { signedUrl: `memory://storage/${key(path)}?token=${token}`, token, path }, error: null };
+      },
+
+      async uploadToSignedUrl(path: string, token: string, file: Blob, options: { contentType?: string } = {}) {
+        if (uploadTokens.get(token) !== key(path)) {
+          return { data: null, error: storageError('Invalid signature', 400) };
+        }
+        uploadTokens.delete(token);
+
+        const error = store(path, file, options.contentType);
+        return error ? { data: null, error } : { data: { path, fullPath: key(path) }, error: null };
+      },
+
+      async upload(path: string, file: Blob, options: { contentType?: string } = {}) {
+        const error = store(path, file, options.contentType);
+        return error ? { data: null, error } : { data: { id: key(path), path, fullPath: key(path) }, error: null };
+      },
+
+      async remove(paths: string[]) {
+        const removable = paths.filter((path) => files.has(key(path)) && ownsPath(path));
+        removable.forEach((path) => {
+          const stored = files.get(key(path));
+          if (stored && typeof URL.revokeObjectURL === 'function') URL.revokeObjectURL(stored.url);
+          files.delete(key(path));
+        });
+        return { data: removable.map((path) => ({ name: path, bucket_id: bucketId })), error: null };
+      },
+
+      // Object URLs can't carry a path, so the public URL layout rides in the
+      // fragment, where the browser ignores it.
+      getPublicUrl(path: string) {
+        const stored = files.get(key(path));
+        const publicPath = `/storage/v1/object/public/${key(path)}`;
+        return { data: { publicUrl: stored ? `${stored.url}#${publicPath}` : `memory:${publicPath}` } };
+      },
+    };
+  }
+
+  return { from };
+}
@@ -0,0 +1,359 @@
+import type { PostMediaItem } from '../database.types';
+import { extractHashtags } from '../hashtags';
+import { extractMentions } from '../mentions';
+import { canEditPost } from '../revisions';
+import { compareValues, dbError, type MemoryDatabase } from './database';
+import { canViewPost } from './policies';
+import { schema, type Row, type TableName } from './schema';
+
+// The triggers from `supabase/migrations`, re-expressed over the in-memory
+// tables so counters and timestamps behave the same as against Postgres.
+
+export type TriggerOperation = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface TriggerEvent {
+  op: TriggerOperation;
+  old: Row | null;
+  new: Row | null;
+  // pg_trigger_depth() as seen by the trigger.
+  depth: number;
+}
+
+// BEFORE triggers may return a replacement row.
+type BeforeTrigger = (event: TriggerEvent, db: MemoryDatabase) => Row | void;
+type AfterTrigger = (event: TriggerEvent, db: MemoryDatabase) => void;
+
+interface TableTriggers {
+  before?: BeforeTrigger[];
+  after?: AfterTrigger[];
+}
+
+const now = () => new Date().toISOString();
+
+function adjust(db: MemoryDatabase, table: TableName, id: unknown, column: string, delta: number) {
+  db.update(
+    table,
+    (row) => row.id === id,
+    (row) => ({ [column]: Math.max(Number(row[column]) + delta, 0) })
+  );
+}
+
+// Counter columns are only writable by other triggers (depth > 1), and
+// start out at their defaults.
+const protectCounters =
+  (table: TableName, ...columns: string[]): BeforeTrigger =>
+  ({ op, old, new: row, depth }) => {
+    if (!row || depth !== 1) return;
+    const protectedValues = Object.fromEntries(
+      columns.map((column) => [column, op === 'INSERT' ? schema[table].columns[column]() : old?.[column]])
+    );
+    return { ...row, ...protectedValues };
+  };
+
+// Bumps updated_at on every update, or only when one of `columns` changes
+// (BEFORE UPDATE OF ...).
+const touchUpdatedAt =
+  (...columns: string[]): BeforeTrigger =>
+  ({ op, old, new: row }) => {
+    if (op !== 'UPDATE' || !old || !row) return;
+    const changed =
+      columns.length === 0 || columns.some((column) => JSON.stringify(old[column]) !== JSON.stringify(row[column]));
+    if (changed) return { ...row, updated_at: now() };
+  };
+
+const countInto =
+  (table: TableName, column: string, foreignKey: string): AfterTrigger =>
+  ({ op, old, new: row }, db) => {
+    if (op === 'INSERT' && row) adjust(db, table, row[foreignKey], column, 1);
+    if (op === 'DELETE' && old) adjust(db, table, old[foreignKey], column, -1);
+  };
+
+// bump_reaction_count(jsonb, text, integer)
+function bumpReactionCount(counts: Record<string, number>, reaction: unknown, delta: number) {
+  const { [String(reaction)]: count = 0, ...rest } = counts;
+  return count + delta > 0 ? { ...rest, [String(reaction)]: count + delta } : rest;
+}
+
+// update_post_likes_count: reaction_counts follows every like, including
+// a change of reaction; likes_count stays the total.
+const countReactions: AfterTrigger = ({ op, old, new: row }, db) => {
+  const bump = (like: Row, delta: number, changes: (counts: Record<string, number>) => Record<string, number>) =>
+    db.update(
+      'posts',
+      (post) => post.id === like.post_id,
+      (post) => ({
+        likes_count: Math.max(Number(post.likes_count) + delta, 0),
+        reaction_counts: changes(post.reaction_counts as Record<string, number>),
+      })
+    );
+
+  if (op === 'INSERT' && row) bump(row, 1, (counts) => bumpReactionCount(counts, row.reaction, 1));
+  if (op === 'DELETE' && old) bump(old, -1, (counts) => bumpReactionCount(counts, old.reaction, -1));
+  if (op === 'UPDATE' && old && row && old.reaction !== row.reaction) {
+    bump(row, 0, (counts) => bumpReactionCount(bumpReactionCount(counts, old.reaction, -1), row.reaction, 1));
+  }
+};
+
+// check_like_update: only a like's reaction can change.
+const checkLikeUpdate: BeforeTrigger = ({ op, old, new: row }) => {
+  if (op !== 'UPDATE' || !old || !row) return;
+  if (old.post_id !== row.post_id || old.user_id !== row.user_id) {
+    throw dbError('23514', 'Only the reaction of a like can be changed');
+  }
+};
+
+const isScheduled = (post: Row) => post.publish_at != null && Date.parse(String(post.publish_at)) > Date.now();
+
+// lock_post_created_at: updates can't redate a post, except schedule_post
+// below, which runs after it.
+const lockPostCreatedAt: BeforeTrigger = ({ op, old, new: row }) => {
+  if (op === 'UPDATE' && old && row) return { ...row, created_at: old.created_at };
+};
+
+// record_post_revision: content edits are only accepted within the edit
+// window, and keep the text they replace. Scheduled posts are exempt.
+const recordPostRevision: BeforeTrigger = ({ op, old, new: row }, db) => {
+  if (op !== 'UPDATE' || !old || !row || old.content === row.content || isScheduled(old)) return;
+  if (!canEditPost(String(old.created_at))) throw dbError('23514', 'This post can no longer be edited');
+
+  db.insert('post_revisions', [{ post_id: old.id, content: old.content }]);
+};
+
+// schedule_post: a scheduled post is dated at its publish time, and can
+// only be rescheduled until then. Clearing publish_at publishes it now.
+const schedulePost: BeforeTrigger = ({ op, old, new: row }) => {
+  if (!row) return;
+
+  let publishAt = row.publish_at;
+  if (op === 'UPDATE' && old) {
+    if (old.publish_at === row.publish_at) return;
+    if (!isScheduled(old)) throw dbError('23514', 'Only scheduled posts can be rescheduled');
+    publishAt = publishAt ?? now();
+  }
+  if (publishAt == null) return;
+
+  const at = new Date(Math.max(Date.parse(String(publishAt)), Date.now())).toISOString();
+  return { ...row, publish_at: at, created_at: at };
+};
+
+// reschedule_post: hashtags, pending notifications and the poll move with
+// the post.
+const reschedulePost: AfterTrigger = ({ op, old, new: row }, db) => {
+  if (op !== 'UPDATE' || !old || !row || old.created_at === row.created_at) return;
+
+  const shift = Date.parse(String(row.created_at)) - Date.parse(String(old.created_at));
+  db.update('post_hashtags', (hashtag) => hashtag.post_id === row.id, { created_at: row.created_at });
+  db.update(
+    'notifications',
+    (notification) => notification.post_id === row.id && compareValues(notification.created_at, old.created_at) === 0,
+    { created_at: row.created_at }
+  );
+  db.update(
+    'polls',
+    (poll) => poll.post_id === row.id,
+    (poll) => ({ ends_at: new Date(Date.parse(String(poll.ends_at)) + shift).toISOString() })
+  );
+};
+
+// date_post_notification: notifications about a scheduled post arrive when
+// it publishes.
+const datePostNotification: BeforeTrigger = ({ op, new: row }, db) => {
+  if (op !== 'INSERT' || row?.post_id == null) return;
+
+  const post = db.rows('posts').find((post) => post.id === row.post_id);
+  if (post?.publish_at != null && compareValues(post.publish_at, row.created_at) > 0) {
+    return { ...row, created_at: post.publish_at };
+  }
+};
+
+// check_post_media: every file is in the author's own post-media folder. The
+// in-memory URLs aren't on the project's host, so only the path is checked.
+const checkPostMedia: BeforeTrigger = ({ op, old, new: row }) => {
+  if (!row || (op === 'UPDATE' && JSON.stringify(old?.media) === JSON.stringify(row.media))) return;
+
+  const ownFile = new RegExp(`/storage/v1/object/public/post-media/${row.user_id}/[A-Za-z0-9_-]+\\.[A-Za-z0-9]+$`);
+  const urls = (row.media as PostMediaItem[]).flatMap((item) => [item.url, ...(item.poster_url == null ? [] : [item.poster_url])]);
+  if (!urls.every((url) => ownFile.test(String(url)))) {
+    throw dbError('23514', 'Post media must be uploaded to your own folder');
+  }
+};
+
+// check_pinned_post: only the profile's own, published posts can be pinned.
+const checkPinnedPost: BeforeTrigger = ({ op, old, new: row }, db) => {
+  if (op !== 'UPDATE' || !row || row.pinned_post_id == null || row.pinned_post_id === old?.pinned_post_id) return;
+
+  const post = db.rows('posts').find((post) => post.id === row.pinned_post_id);
+  if (!post || post.user_id !== row.id || isScheduled(post)) {
+    throw dbError('23514', 'Only your own published posts can be pinned');
+  }
+};
+
+// check_poll_vote: a vote belongs to its option's poll, and only counts
+// while that poll is open.
+const checkPollVote: BeforeTrigger = ({ op, new: row }, db) => {
+  if (op !== 'INSERT' || !row) return;
+
+  const option = db.rows('poll_options').find((option) => option.id === row.option_id);
+  const poll = option && db.rows('polls').find((poll) => poll.id === option.poll_id);
+  if (!option || !poll) return;
+
+  if (Date.now() >= Date.parse(String(poll.ends_at))) throw dbError('23514', 'This poll has ended');
+  return { ...row, poll_id: option.poll_id };
+};
+
+// set_post_quote: is_quote is fixed on insert, and a quote can only lose its
+// original, not be pointed at another.
+const setPostQuote: BeforeTrigger = ({ op, old, new: row }) => {
+  if (!row) return;
+  if (op === 'INSERT') return { ...row, is_quote: row.quoted_post_id != null };
+  if (op === 'UPDATE' && old) {
+    return { ...row, is_quote: old.is_quote, quoted_post_id: row.quoted_post_id == null ? null : old.quoted_post_id };
+  }
+};
+
+// check_quoted_post: only public posts the author can see can be quoted.
+const checkQuotedPost: BeforeTrigger = ({ op, new: row }, db) => {
+  if (op !== 'INSERT' || row?.quoted_post_id == null) return;
+
+  const quoted = db.rows('posts').find((post) => post.id === row.quoted_post_id);
+  if (!quoted || !canViewPost(quoted, db) || quoted.visibility !== 'public') {
+    throw dbError('23514', 'Only public posts can be quoted');
+  }
+};
+
+// update_post_quotes_count and notify_quoted_author.
+const countQuotes: AfterTrigger = ({ op, old, new: row }, db) => {
+  if (op === 'INSERT' && row?.quoted_post_id != null) {
+    adjust(db, 'posts', row.quoted_post_id, 'quotes_count', 1);
+
+    const quoted = db.rows('posts').find((post) => post.id === row.quoted_post_id);
+    if (quoted && quoted.user_id !== row.user_id) {
+      db.insert('notifications', [{ user_id: quoted.user_id, actor_id: row.user_id, type: 'quote', post_id: row.id }]);
+    }
+  }
+  if (op === 'DELETE' && old?.quoted_post_id != null) adjust(db, 'posts', old.quoted_post_id, 'quotes_count', -1);
+};
+
+// sync_post_hashtags: the post's tags follow its content.
+const syncPostHashtags: AfterTrigger = ({ op, old, new: row }, db) => {
+  if (!row || op === 'DELETE' || (op === 'UPDATE' && old?.content === row.content)) return;
+
+  const tags = extractHashtags(String(row.content));
+  db.delete('post_hashtags', (hashtag) => hashtag.post_id === row.id && !tags.includes(String(hashtag.tag)));
+
+  const existing = new Set(db.rows('post_hashtags').filter((hashtag) => hashtag.post_id === row.id).map((hashtag) => hashtag.tag));
+  const added = tags.filter((tag) => !existing.has(tag));
+  if (added.length > 0) {
+    db.insert('post_hashtags', added.map((tag) => ({ post_id: row.id, tag, created_at: row.created_at })));
+  }
+};
+
+// sync_mentions: mentions follow the post's or comment's content, notifying
+// users as they're added and withdrawing the notification when removed.
+const syncMentions =
+  (source: 'post' | 'comment'): AfterTrigger =>
+  ({ op, old, new: row }, db) => {
+    if (!row || op === 'DELETE' || (op === 'UPDATE' && old?.content === row.content)) return;
+
+    const postId = source === 'post' ? row.id : row.post_id;
+    const commentId = source === 'comment' ? row.id : null;
+    const fromSource = (other: Row) => other.post_id === postId && (other.comment_id ?? null) === commentId;
+
+    const usernames = extractMentions(String(row.content));
+    const mentioned = db
+      .rows('profiles')
+      .filter((profile) => usernames.includes(String(profile.username).toLowerCase()))
+      .map((profile) => profile.id);
+
+    const removed = db
+      .delete('mentions', (mention) => fromSource(mention) && !mentioned.includes(mention.user_id))
+      .map((mention) => mention.user_id);
+    db.delete(
+      'notifications',
+      (notification) =>
+        notification.type === 'mention' &&
+        notification.actor_id === row.user_id &&
+        removed.includes(notification.user_id) &&
+        fromSource(notification)
+    );
+
+    const existing = new Set(db.rows('mentions').filter(fromSource).map((mention) => mention.user_id));
+    const added = mentioned.filter((userId) => !existing.has(userId));
+    if (added.length === 0) return;
+
+    db.insert('mentions', added.map((userId) => ({ post_id: postId, comment_id: commentId, user_id: userId })));
+    db.insert(
+      'notifications',
+      added
+        .filter((userId) => userId !== row.user_id)
+        .map((userId) => ({ user_id: userId, actor_id: row.user_id, type: 'mention', post_id: postId, comment_id: commentId }))
+    );
+  };
+
+export const triggers: Partial<Record<TableName, TableTriggers>> = {
+  profiles: {
+    before: [
+      protectCounters('profiles', 'followers_count', 'following_count', 'posts_count'),
+      touchUpdatedAt('username', 'full_name', 'bio', 'avatar_url', 'cover_photo_url', 'location', 'website'),
+      checkPinnedPost,
+    ],
+  },
+  posts: {
+    before: [
+      protectCounters('posts', 'likes_count', 'comments_count', 'reposts_count', 'quotes_count', 'reaction_counts'),
+      setPostQuote,
+      checkQuotedPost,
+      checkPostMedia,
+      lockPostCreatedAt,
+      schedulePost,
+      recordPostRevision,
+      touchUpdatedAt('content', 'media', 'is_edited'),
+    ],
+    after: [
+      countInto('profiles', 'posts_count', 'user_id'),
+      countQuotes,
+      syncPostHashtags,
+      syncMentions('post'),
+      reschedulePost,
+    ],
+  },
+  post_drafts: {
+    before: [touchUpdatedAt('content')],
+  },
+  likes: {
+    before: [checkLikeUpdate],
+    after: [countReactions],
+  },
+  reposts: {
+    after: [countInto('posts', 'reposts_count', 'post_id')],
+  },
+  poll_votes: {
+    before: [checkPollVote],
+    after: [countInto('poll_options', 'votes_count', 'option_id'), countInto('polls', 'votes_count', 'poll_id')],
+  },
+  comments: {
+    before: [touchUpdatedAt()],
+    after: [countInto('posts', 'comments_count', 'post_id'), syncMentions('comment')],
+  },
+  follows: {
+    after: [
+      countInto('profiles', 'followers_count', 'following_id'),
+      countInto('profiles', 'following_count', 'follower_id'),
+    ],
+  },
+  notifications: {
+    before: [datePostNotification],
+  },
+  messages: {
+    after: [
+      ({ op, new: row }, db) => {
+        if (op !== 'INSERT' || !row) return;
+        db.update(
+          'conversations',
+          (conversation) => conversation.id === row.conversation_id,
+          { last_message_at: row.created_at }
+        );
+      },
+    ],
+  },
+};
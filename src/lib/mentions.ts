@@ -0,0 +1,52 @@
+// Mirrors `extract_mentions(text)` in `supabase/migrations`: `@` and a
+// username, not glued to a preceding word or `@` (so emails aren't mentions).
+const MENTION = /(^|[^\p{L}\p{N}_@])@([A-Za-z0-9_]{3,30})(?![\p{L}\p{N}_])/gu;
+
+export type MentionToken = { kind: 'text'; text: string } | { kind: 'mention'; text: string; username: string };
+
+// Splits text into plain runs and mentions, keeping the mentions as written.
+export function tokenizeMentions(text: string): MentionToken[] {
+  const tokens: MentionToken[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(MENTION)) {
+    const [, prefix, username] = match;
+    const start = match.index + prefix.length;
+    if (start > last) tokens.push({ kind: 'text', text: text.slice(last, start) });
+    tokens.push({ kind: 'mention', text: `@${username}`, username });
+    last = start + username.length + 1;
+  }
+
+  if (last < text.length) tokens.push({ kind: 'text', text: text.slice(last) });
+  return tokens;
+}
+
+// Distinct, lowercased usernames mentioned in `text`.
+export function extractMentions(text: string) {
+  const usernames = tokenizeMentions(text).flatMap((token) =>
+    token.kind === 'mention' ? [token.username.toLowerCase()] : []
+  );
+  return [...new Set(usernames)];
+}
+
+export interface MentionQuery {
+  // Index of the `@`.
+  start: number;
+  // What's been typed after it, up to the caret.
+  query: string;
+}
+
+// The partial mention being typed at `caret`, if any.
+export function mentionQueryAt(text: string, caret: number): MentionQuery | null {
+  const match = text.slice(0, caret).match(/(^|[^\p{L}\p{N}_@])@([A-Za-z0-9_]{0,30})$/u);
+  if (!match) return null;
+  return { start: caret - match[2].length - 1, query: match[2] };
+}
+
+// Replaces the partial mention with the chosen username and a trailing space.
+export function completeMention(text: string, { start, query }: MentionQuery, username: string) {
+  const before = text.slice(0, start);
+  const after = text.slice(start + 1 + query.length).replace(/^[A-Za-z0-9_]*/, '');
+  const inserted = `@${username}${after.startsWith(' ') ? '' : ' '}`;
+  return { text: before + inserted + after, caret: before.length + inserted.length + (after.startsWith(' ') ? 1 : 0) };
+}
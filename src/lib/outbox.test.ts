@@ -0,0 +1,88 @@
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, expect, it, vi } from 'vitest';
+import { createComment, createNotification, type ApiError } from './api';
+import { discardOutboxEntry, enqueue, onOutboxDelivered, startOutbox, useOutbox } from './outbox';
+
+vi.mock('./api', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./api')>()),
+  createComment: vi.fn(),
+  createNotification: vi.fn(),
+}));
+
+const sendComment = vi.mocked(createComment);
+const apiError = (code: string, message: string) => ({ code, message, details: '', hint: '' }) as ApiError;
+const comment = { post_id: 'post-1', user_id: 'user-1', content: 'Nice' };
+
+let stopOutbox: () => void;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  // No jitter: each retry waits exactly the base backoff.
+  vi.spyOn(Math, 'random').mockReturnValue(0.5);
+  // jsdom has no IndexedDB, so entries only live in memory.
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.mocked(createNotification).mockResolvedValue({ data: null, error: null });
+  stopOutbox = startOutbox('user-1');
+});
+
+afterEach(() => {
+  stopOutbox();
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  sendComment.mockReset();
+});
+
+it('counts a duplicate key as delivered, as an earlier attempt already landed', async () => {
+  sendComment.mockResolvedValue({ data: null, error: apiError('23505', 'duplicate key value') });
+  const delivered = vi.fn();
+  const stopListening = onOutboxDelivered(delivered);
+  const { result } = renderHook(() => useOutbox('comment'));
+
+  const notification = { user_id: 'user-2', actor_id: 'user-1', type: 'comment' as const, post_id: 'post-1' };
+  const entry = await act(() => enqueue('comment', comment, notification));
+  await act(() => vi.advanceTimersByTimeAsync(0));
+
+  expect(sendComment).toHaveBeenCalledWith({ ...comment, id: entry.id });
+  expect(result.current).toEqual([]);
+  expect(createNotification).toHaveBeenCalledWith(notification);
+  expect(delivered).toHaveBeenCalledWith(expect.objectContaining({ id: entry.id }));
+  stopListening();
+});
+
+it('retries network failures with exponential backoff, then gives up', async () => {
+  sendComment.mockResolvedValue({ data: null, error: apiError('', 'Failed to fetch') });
+  const { result } = renderHook(() => useOutbox('comment'));
+
+  const entry = await act(() => enqueue('comment', comment));
+  await act(() => vi.advanceTimersByTimeAsync(0));
+  expect(result.current[0]).toMatchObject({ status: 'pending', attempts: 1, error: 'Failed to fetch' });
+
+  // 1s, 2s, 4s, 8s, 16s between attempts.
+  for (const [delay, attempts] of [[1000, 2], [2000, 3], [4000, 4], [8000, 5]]) {
+    await act(() => vi.advanceTimersByTimeAsync(delay - 1));
+    expect(sendComment).toHaveBeenCalledTimes(attempts - 1);
+    await act(() => vi.advanceTimersByTimeAsync(1));
+    expect(result.current[0].attempts).toBe(attempts);
+  }
+
+  await act(() => vi.advanceTimersByTimeAsync(16_000));
+  expect(result.current[0]).toMatchObject({ status: 'failed', attempts: 6 });
+
+  await act(() => vi.advanceTimersByTimeAsync(60_000));
+  expect(sendComment).toHaveBeenCalledTimes(6);
+
+  await act(() => discardOutboxEntry(entry.id));
+});
+
+it('fails at once on errors that would repeat on every retry', async () => {
+  sendComment.mockResolvedValue({ data: null, error: apiError('42501', 'new row violates row-level security policy') });
+  const { result } = renderHook(() => useOutbox('comment'));
+
+  const entry = await act(() => enqueue('comment', comment));
+  await act(() => vi.advanceTimersByTimeAsync(60_000));
+
+  expect(sendComment).toHaveBeenCalledTimes(1);
+  expect(result.current[0]).toMatchObject({ status: 'failed', attempts: 1 });
+
+  await act(() => discardOutboxEntry(entry.id));
+});
@@ -0,0 +1,296 @@
+import { useSyncExternalStore } from 'react';
+import {
+  createComment,
+  createNotification,
+  createPost,
+  deletePostMedia,
+  mediaFileUrls,
+  sendMessage,
+  type ApiError,
+  type ApiResult,
+  type NewPost,
+} from './api';
+import type { TablesInsert } from './database.types';
+
+// Writes that must survive a dropped connection or a closed tab. Each entry
+// carries a client-generated row id, so a retry of a write that actually
+// landed is recognised as a duplicate instead of creating a second row.
+
+interface OutboxRows {
+  post: NewPost;
+  comment: TablesInsert<'comments'>;
+  message: TablesInsert<'messages'>;
+}
+
+export type OutboxKind = keyof OutboxRows;
+
+export type OutboxStatus = 'pending' | 'failed';
+
+export interface OutboxEntry<K extends OutboxKind = OutboxKind> {
+  id: string;
+  kind: K;
+  // The signed-in user who queued the write; only their session flushes it.
+  ownerId: string;
+  row: OutboxRows[K] & { id: string };
+  // Sent once the row is delivered.
+  notification: TablesInsert<'notifications'> | null;
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  error: string | null;
+  queuedAt: string;
+}
+
+// Discriminated by `kind`, so narrowing the kind narrows the row too.
+export type AnyOutboxEntry = { [K in OutboxKind]: OutboxEntry<K> }[OutboxKind];
+
+const DB_NAME = 'social-outbox';
+const STORE_NAME = 'entries';
+
+const MAX_ATTEMPTS = 6;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 60_000;
+
+// Postgres unique_violation: the row from an earlier attempt already exists.
+const DUPLICATE_KEY = '23505';
+
+const senders: { [K in OutboxKind]: (row: OutboxRows[K]) => Promise<ApiResult<null>> } = {
+  post: createPost,
+  comment: createComment,
+  message: sendMessage,
+};
+
+let entries: AnyOutboxEntry[] = [];
+const listeners = new Set<() => void>();
+const deliveredListeners = new Set<(entry: AnyOutboxEntry) => void>();
+
+let activeOwnerId: string | null = null;
+let flushing = false;
+let retryTimer: ReturnType<typeof setTimeout> | undefined;
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function setEntries(next: AnyOutboxEntry[]) {
+  entries = next;
+  listeners.forEach((listener) => listener());
+}
+
+function openDb() {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+}
+
+async function run<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>) {
+  const db = await openDb();
+
+  return new Promise<T>((resolve, reject) => {
+    const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// The in-memory list stays authoritative if IndexedDB is unavailable (e.g.
+// private browsing); the entry just won't survive a reload.
+async function persist(entry: AnyOutboxEntry) {
+  try {
+    await run('readwrite', (store) => store.put(entry));
+  } catch (error) {
+    console.error('Error saving outbox entry:', error);
+  }
+}
+
+async function forget(id: string) {
+  try {
+    await run('readwrite', (store) => store.delete(id));
+  } catch (error) {
+    console.error('Error removing outbox entry:', error);
+  }
+}
+
+type EntryState = Pick<OutboxEntry, 'status' | 'attempts' | 'nextAttemptAt' | 'error'>;
+
+async function update(id: string, changes: Partial<EntryState>) {
+  const entry = entries.find((item) => item.id === id);
+  if (!entry) return;
+
+  const next = { ...entry, ...changes } as AnyOutboxEntry;
+  setEntries(entries.map((item) => (item.id === id ? next : item)));
+  await persist(next);
+}
+
+async function remove(id: string) {
+  setEntries(entries.filter((item) => item.id !== id));
+  await forget(id);
+}
+
+// Network failures come back without a Postgres error code; anything with a
+// code (RLS, constraint violations) will fail the same way on every retry.
+const isTransient = (error: ApiError) => !error.code;
+
+const backoff = (attempts: number) =>
+  Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempts - 1)) * (0.75 + Math.random() * 0.5);
+
+async function deliver(entry: AnyOutboxEntry) {
+  const send = senders[entry.kind] as (row: OutboxEntry['row']) => Promise<ApiResult<null>>;
+  const { error } = await send(entry.row);
+
+  if (!error || error.code === DUPLICATE_KEY) {
+    await remove(entry.id);
+    if (entry.notification) {
+      await createNotification(entry.notification);
+    }
+    deliveredListeners.forEach((listener) => listener(entry));
+    return;
+  }
+
+  console.error(`Error sending queued ${entry.kind}:`, error);
+
+  const attempts = entry.attempts + 1;
+  const failed = !isTransient(error) || attempts >= MAX_ATTEMPTS;
+
+  await update(entry.id, {
+    attempts,
+    status: failed ? 'failed' : 'pending',
+    nextAttemptAt: Date.now() + backoff(attempts),
+    error: error.message,
+  });
+}
+
+function scheduleRetry() {
+  clearTimeout(retryTimer);
+  if (!activeOwnerId) return;
+
+  const due = entries
+    .filter((entry) => entry.ownerId === activeOwnerId && entry.status === 'pending')
+    .map((entry) => entry.nextAttemptAt);
+  if (due.length === 0) return;
+
+  retryTimer = setTimeout(flushOutbox, Math.max(0, Math.min(...due) - Date.now()));
+}
+
+// Sends every due entry for the active user, oldest first. Safe to call at any time.
+export async function flushOutbox() {
+  if (flushing || !activeOwnerId) return;
+  flushing = true;
+  clearTimeout(retryTimer);
+
+  try {
+    const due = entries.filter(
+      (entry) => entry.ownerId === activeOwnerId && entry.status === 'pending' && entry.nextAttemptAt <= Date.now()
+    );
+
+    for (const entry of due) {
+      // Offline: leave everything queued until the `online` event.
+      if (!navigator.onLine) return;
+      await deliver(entry);
+    }
+  } finally {
+    flushing = false;
+    if (navigator.onLine) scheduleRetry();
+  }
+}
+
+// Loads the persisted outbox and starts flushing it for `ownerId`. Returns a
+// function that stops flushing (e.g. on sign-out).
+export function startOutbox(ownerId: string) {
+  activeOwnerId = ownerId;
+
+  const handleOnline = () => {
+    // Connectivity is back: retry right away instead of waiting out the backoff.
+    const now = Date.now();
+    setEntries(entries.map((entry) => (entry.status === 'pending' ? { ...entry, nextAttemptAt: now } : entry)));
+    flushOutbox();
+  };
+
+  window.addEventListener('online', handleOnline);
+
+  run<AnyOutboxEntry[]>('readonly', (store) => store.getAll())
+    .then((stored) => {
+      const known = new Set(entries.map((entry) => entry.id));
+      setEntries([...entries, ...stored.filter((entry) => !known.has(entry.id))]);
+    })
+    .catch((error) => console.error('Error loading outbox:', error))
+    .finally(() => flushOutbox());
+
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    clearTimeout(retryTimer);
+    if (activeOwnerId === ownerId) activeOwnerId = null;
+  };
+}
+
+export async function enqueue<K extends OutboxKind>(
+  kind: K,
+  row: OutboxRows[K],
+  notification: TablesInsert<'notifications'> | null = null
+) {
+  const ownerId = activeOwnerId;
+  if (!ownerId) throw new Error('Outbox is not running');
+
+  const id = crypto.randomUUID();
+  const entry: OutboxEntry<K> = {
+    id,
+    kind,
+    ownerId,
+    row: { ...row, id },
+    notification,
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+    error: null,
+    queuedAt: new Date().toISOString(),
+  };
+
+  setEntries([...entries, entry as AnyOutboxEntry]);
+  await persist(entry as AnyOutboxEntry);
+  flushOutbox();
+
+  return entry;
+}
+
+export async function retryOutboxEntry(id: string) {
+  await update(id, { status: 'pending', attempts: 0, nextAttemptAt: Date.now(), error: null });
+  flushOutbox();
+}
+
+export async function discardOutboxEntry(id: string) {
+  const entry = entries.find((item) => item.id === id);
+  await remove(id);
+
+  // A discarded post's photos were already uploaded and would otherwise be orphaned.
+  if (entry?.kind === 'post' && entry.row.media?.length) {
+    await deletePostMedia(mediaFileUrls(entry.row.media));
+  }
+}
+
+// Fires after a queued write lands, so views can swap the pending item for the real row.
+export function onOutboxDelivered(listener: (entry: AnyOutboxEntry) => void) {
+  deliveredListeners.add(listener);
+  return () => {
+    deliveredListeners.delete(listener);
+  };
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// The active user's queued entries of one kind, oldest first.
+export function useOutbox<K extends OutboxKind>(kind: K) {
+  const all = useSyncExternalStore(subscribe, () => entries);
+  return all.filter(
+    (entry): entry is Extract<AnyOutboxEntry, { kind: K }> => entry.kind === kind && entry.ownerId === activeOwnerId
+  );
+}
@@ -0,0 +1,70 @@
+import { act, renderHook } from '@testing-library/react';
+import { beforeAll, expect, it } from 'vitest';
+import { listPostsByUser, type PageOptions } from './api';
+import { FIXTURE_PASSWORD, fixtureUserIds } from './memory';
+import { usePaginatedPosts } from './pagination';
+import { supabase } from './supabase';
+
+// Posts sharing a timestamp, so pages have to fall back to the id to split them.
+const tiedAt = new Date(Date.now() - 60_000).toISOString();
+let tiedIds: string[];
+
+beforeAll(async () => {
+  await supabase.auth.signInWithPassword({ email: 'alex@example.com', password: FIXTURE_PASSWORD });
+
+  const { data } = await supabase
+    .from('posts')
+    .insert(['One', 'Two', 'Three'].map((content) => ({ user_id: fixtureUserIds.alex, content, created_at: tiedAt })))
+    .select('id');
+  tiedIds = data!.map((post) => post.id);
+});
+
+const allIds = async () => (await listPostsByUser(fixtureUserIds.alex, { limit: 100 })).data!.posts.map((post) => post.id);
+
+it('walks the list a page at a time in either direction, splitting ties by id', async () => {
+  const expected = await allIds();
+  expect(expected).toEqual(expect.arrayContaining(tiedIds));
+
+  const older: string[] = [];
+  let page: PageOptions = { limit: 1 };
+  for (;;) {
+    const { data } = await listPostsByUser(fixtureUserIds.alex, page);
+    older.push(...data!.posts.map((post) => post.id));
+    if (!data!.hasMore) break;
+    const last = data!.posts[data!.posts.length - 1];
+    page = { limit: 1, before: { created_at: last.created_at, id: last.id } };
+  }
+  expect(older).toEqual(expected);
+
+  // Newer pages come back newest first too, starting right after the cursor.
+  const { data: all } = await listPostsByUser(fixtureUserIds.alex, { limit: 100 });
+  const oldest = all!.posts[all!.posts.length - 1];
+  const { data: newer } = await listPostsByUser(fixtureUserIds.alex, {
+    limit: 2,
+    after: { created_at: oldest.created_at, id: oldest.id },
+  });
+  expect(newer!.posts.map((post) => post.id)).toEqual(expected.slice(-3, -1));
+  expect(newer!.hasMore).toBe(expected.length > 3);
+});
+
+it('loads older pages and then newer posts into one list', async () => {
+  const fetchPage = (page: PageOptions) => listPostsByUser(fixtureUserIds.alex, { ...page, limit: 2 });
+  const { result } = renderHook(() => usePaginatedPosts(fetchPage));
+
+  await act(() => result.current.reload());
+  expect(result.current.postIds).toHaveLength(2);
+
+  while (result.current.hasMore) {
+    await act(() => result.current.loadMore());
+  }
+  expect(result.current.postIds).toEqual(await allIds());
+
+  const { data: latest } = await supabase
+    .from('posts')
+    .insert({ user_id: fixtureUserIds.alex, content: 'Fresh' })
+    .select('id')
+    .single();
+  await act(() => result.current.loadNewer());
+  expect(result.current.postIds[0]).toBe(latest!.id);
+  expect(result.current.postIds).toEqual(await allIds());
+});
@@ -0,0 +1,131 @@
+import { useCallback, useRef, useState } from 'react';
+import type { ApiResult, PageOptions, PostCursor, PostPage, Profile } from './api';
+import { ingestPosts, useExistingPostIds } from './store';
+
+export type PostPageFetcher = (page: PageOptions) => Promise<ApiResult<PostPage>>;
+
+const byCreatedAt = (a: PostCursor, b: PostCursor) =>
+  a.created_at === b.created_at ? a.id.localeCompare(b.id) : a.created_at.localeCompare(b.created_at);
+
+const oldestOf = (posts: PostCursor[]) =>
+  posts.reduce<PostCursor | undefined>((oldest, post) => (!oldest || byCreatedAt(post, oldest) < 0 ? post : oldest), undefined);
+
+const newestOf = (posts: PostCursor[]) =>
+  posts.reduce<PostCursor | undefined>((newest, post) => (!newest || byCreatedAt(post, newest) > 0 ? post : newest), undefined);
+
+const toCursor = (post: PostCursor | undefined): PostCursor | undefined =>
+  post && { created_at: post.created_at, id: post.id };
+
+// Where each post of a page sits in the list.
+const positionsOf = (page: PostPage) => page.posts.map((post) => page.cursors?.[post.id] ?? post);
+
+// Keyset-paginated list of post ids backed by the shared entity store. Cursors
+// come from the fetched pages rather than the rendered order, so fetchers may
+// reorder posts within a page (e.g. by score) without breaking pagination.
+export function usePaginatedPosts(fetchPage: PostPageFetcher) {
+  const [postIds, setPostIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loadingNewer, setLoadingNewer] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [repostedBy, setRepostedBy] = useState<Record<string, Profile>>({});
+  const visiblePostIds = useExistingPostIds(postIds);
+
+  // Requests from a previous `reload` must not append into the new list.
+  const generation = useRef(0);
+  const oldest = useRef<PostCursor>();
+  const newest = useRef<PostCursor>();
+
+  const reload = useCallback(async () => {
+    const current = ++generation.current;
+    setLoading(true);
+    setLoadingMore(false);
+    setLoadingNewer(false);
+
+    const { data, error } = await fetchPage({});
+    if (current !== generation.current) return;
+
+    if (error) {
+      console.error('Error loading posts:', error);
+    } else {
+      ingestPosts(data.posts);
+      setPostIds(data.posts.map((post) => post.id));
+      setRepostedBy(data.repostedBy ?? {});
+      setHasMore(data.hasMore);
+      oldest.current = toCursor(oldestOf(positionsOf(data)));
+      newest.current = toCursor(newestOf(positionsOf(data)));
+    }
+
+    setLoading(false);
+  }, [fetchPage]);
+
+  const loadMore = useCallback(async () => {
+    if (loadingMore || !hasMore) return;
+
+    const current = generation.current;
+    const before = oldest.current;
+    if (!before) return;
+
+    setLoadingMore(true);
+
+    const { data, error } = await fetchPage({ before });
+    if (current !== generation.current) return;
+
+    if (error) {
+      console.error('Error loading more posts:', error);
+    } else {
+      ingestPosts(data.posts);
+      setPostIds((ids) => [...ids, ...data.posts.map((post) => post.id).filter((id) => !ids.includes(id))]);
+      setRepostedBy((current) => ({ ...current, ...data.repostedBy }));
+      setHasMore(data.hasMore);
+      oldest.current = toCursor(oldestOf(positionsOf(data))) ?? before;
+    }
+
+    setLoadingMore(false);
+  }, [fetchPage, hasMore, loadingMore]);
+
+  // Prepends everything newer than the top of the list, a page at a time.
+  const loadNewer = useCallback(async () => {
+    if (loadingNewer) return;
+
+    const current = generation.current;
+    let after = newest.current;
+    if (!after) return reload();
+
+    setLoadingNewer(true);
+
+    let more = true;
+    while (more && after) {
+      const { data, error } = await fetchPage({ after });
+      if (current !== generation.current) return;
+
+      if (error) {
+        console.error('Error loading newer posts:', error);
+        break;
+      }
+
+      ingestPosts(data.posts);
+      setPostIds((ids) => [...data.posts.map((post) => post.id).filter((id) => !ids.includes(id)), ...ids]);
+      setRepostedBy((current) => ({ ...current, ...data.repostedBy }));
+
+      more = data.hasMore;
+      after = toCursor(newestOf(positionsOf(data))) ?? after;
+      newest.current = after;
+    }
+
+    setLoadingNewer(false);
+  }, [fetchPage, loadingNewer, reload]);
+
+  return {
+    postIds: visiblePostIds,
+    // Post id -> who reposted it into the list, for lists that include reposts.
+    repostedBy,
+    loading,
+    loadingMore,
+    loadingNewer,
+    hasMore,
+    reload,
+    loadMore,
+    loadNewer,
+  };
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { formatPollTimeLeft, pollPercentages } from './polls';
+
+describe('pollPercentages', () => {
+  it('rounds to whole percentages that add up to 100', () => {
+    expect(pollPercentages([1, 1, 1])).toEqual([34, 33, 33]);
+    expect(pollPercentages([2, 1, 0, 0])).toEqual([67, 33, 0, 0]);
+  });
+
+  it('shows nothing before the first vote', () => {
+    expect(pollPercentages([0, 0])).toEqual([0, 0]);
+  });
+});
+
+describe('formatPollTimeLeft', () => {
+  it('counts down in the largest whole unit', () => {
+    const now = Date.parse('2025-11-20T12:00:00Z');
+    expect(formatPollTimeLeft('2025-11-20T12:04:30Z', now)).toBe('5m left');
+    expect(formatPollTimeLeft('2025-11-20T15:00:00Z', now)).toBe('3h left');
+    expect(formatPollTimeLeft('2025-11-23T11:00:00Z', now)).toBe('2d left');
+    expect(formatPollTimeLeft('2025-11-20T12:00:00Z', now)).toBe('Final results');
+  });
+});
@@ -0,0 +1,45 @@
+// Polls: the limits `create_poll` enforces and how results are shown.
+
+export const POLL_MIN_OPTIONS = 2;
+export const POLL_MAX_OPTIONS = 4;
+export const POLL_OPTION_MAX_LENGTH = 80;
+
+export const POLL_DURATIONS = [
+  { label: '1 hour', minutes: 60 },
+  { label: '1 day', minutes: 24 * 60 },
+  { label: '3 days', minutes: 3 * 24 * 60 },
+  { label: '7 days', minutes: 7 * 24 * 60 },
+];
+
+export const DEFAULT_POLL_DURATION_MINUTES = 24 * 60;
+
+export const isPollClosed = (endsAt: string, now = Date.now()) => now >= Date.parse(endsAt);
+
+// Whole percentages that add up to 100 (largest remainder), so the bars
+// never read 33/33/33.
+export function pollPercentages(votes: number[]): number[] {
+  const total = votes.reduce((sum, count) => sum + count, 0);
+  if (total === 0) return votes.map(() => 0);
+
+  const exact = votes.map((count) => (count * 100) / total);
+  const percentages = exact.map(Math.floor);
+  let remaining = 100 - percentages.reduce((sum, value) => sum + value, 0);
+
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (const { index } of byRemainder) {
+    if (remaining-- <= 0) break;
+    percentages[index]++;
+  }
+  return percentages;
+}
+
+export function formatPollTimeLeft(endsAt: string, now = Date.now()) {
+  const minutes = Math.ceil((Date.parse(endsAt) - now) / 60_000);
+
+  if (minutes <= 0) return 'Final results';
+  if (minutes < 60) return `${minutes}m left`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h left`;
+  return `${Math.floor(minutes / (24 * 60))}d left`;
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { adjustReactionCounts, likedBy, topReactions } from './reactions';
+
+describe('topReactions', () => {
+  it('orders picked reactions by count, keeping picker order for ties', () => {
+    const top = topReactions({ sad: 1, wow: 3, heart: 1 });
+
+    expect(top.map((option) => option.value)).toEqual(['wow', 'heart', 'sad']);
+    expect(topReactions({ sad: 1, wow: 3, heart: 1 }, 2).map((option) => option.value)).toEqual(['wow', 'heart']);
+  });
+});
+
+describe('adjustReactionCounts', () => {
+  it('moves one reaction and drops counts that reach zero', () => {
+    expect(adjustReactionCounts({ heart: 1, wow: 2 }, 'heart', 'wow')).toEqual({ wow: 3 });
+    expect(adjustReactionCounts({}, null, 'laugh')).toEqual({ laugh: 1 });
+    expect(adjustReactionCounts({ laugh: 2 }, 'laugh', null)).toEqual({ laugh: 1 });
+  });
+});
+
+describe('likedBy', () => {
+  const maya = { username: 'maya' };
+
+  it('names the featured liker, or the viewer when they are the only one', () => {
+    expect(likedBy({ likes_count: 13, my_reaction: null, featured_liker: maya })).toEqual({ name: '@maya', others: 12 });
+    expect(likedBy({ likes_count: 1, my_reaction: 'wow', featured_liker: null })).toEqual({ name: 'you', others: 0 });
+    expect(likedBy({ likes_count: 0, my_reaction: null, featured_liker: null })).toBeNull();
+  });
+
+  it('falls back to a count when nobody can be named', () => {
+    expect(likedBy({ likes_count: 3, my_reaction: 'heart', featured_liker: null })).toEqual({ name: null, others: 3 });
+  });
+});
@@ -0,0 +1,59 @@
+import type { PostReaction, ReactionCounts } from './database.types';
+
+// The fixed set of reactions `valid_like_reaction` accepts, in picker order.
+// A like is a ❤️ reaction.
+
+export type { PostReaction, ReactionCounts };
+
+export const REACTIONS: { value: PostReaction; emoji: string; label: string }[] = [
+  { value: 'heart', emoji: '❤️', label: 'Love' },
+  { value: 'laugh', emoji: '😂', label: 'Haha' },
+  { value: 'wow', emoji: '😮', label: 'Wow' },
+  { value: 'sad', emoji: '😢', label: 'Sad' },
+  { value: 'thumbs_up', emoji: '👍', label: 'Like' },
+];
+
+export const reactionOption = (reaction: PostReaction) =>
+  REACTIONS.find((option) => option.value === reaction) ?? REACTIONS[0];
+
+// The reactions anyone picked, most popular first; ties keep picker order.
+export function topReactions(counts: ReactionCounts, limit = REACTIONS.length) {
+  return REACTIONS.filter((option) => (counts[option.value] ?? 0) > 0)
+    .sort((a, b) => (counts[b.value] ?? 0) - (counts[a.value] ?? 0))
+    .slice(0, limit);
+}
+
+// `counts` after one user's reaction goes from `from` to `to` (null for none),
+// mirroring `bump_reaction_count`.
+export function adjustReactionCounts(counts: ReactionCounts, from: PostReaction | null, to: PostReaction | null) {
+  const next = { ...counts };
+  const bump = (reaction: PostReaction, delta: number) => {
+    const count = (next[reaction] ?? 0) + delta;
+    if (count > 0) next[reaction] = count;
+    else delete next[reaction];
+  };
+
+  if (from) bump(from, -1);
+  if (to) bump(to, 1);
+  return next;
+}
+
+export interface LikedBy {
+  // Who to name: '@username', 'you', or null to just count.
+  name: string | null;
+  // Everyone else who reacted.
+  others: number;
+}
+
+// The "Liked by @maya and 12 others" line. `featured_liker` is never the
+// viewer, so the viewer is only named when they're the only one.
+export function likedBy(post: {
+  likes_count: number;
+  my_reaction: PostReaction | null;
+  featured_liker: { username: string } | null;
+}): LikedBy | null {
+  if (post.likes_count <= 0) return null;
+  if (post.featured_liker) return { name: `@${post.featured_liker.username}`, others: post.likes_count - 1 };
+  if (post.my_reaction && post.likes_count === 1) return { name: 'you', others: 0 };
+  return { name: null, others: post.likes_count };
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { canEditPost, diffWords } from './revisions';
+
+describe('diffWords', () => {
+  it('marks replaced, added and removed words and keeps whitespace', () => {
+    expect(diffWords('Shipped the new flow today', 'Shipped the onboarding flow today!\nMore soon')).toEqual([
+      { type: 'same', text: 'Shipped the ' },
+      { type: 'removed', text: 'new' },
+      { type: 'added', text: 'onboarding' },
+      { type: 'same', text: ' flow ' },
+      { type: 'removed', text: 'today' },
+      { type: 'added', text: 'today!\nMore soon' },
+    ]);
+  });
+
+  it('joins back into either version', () => {
+    const before = 'a b  c d';
+    const after = 'a c  d e';
+    const parts = diffWords(before, after);
+
+    expect(parts.filter((part) => part.type !== 'added').map((part) => part.text).join('')).toBe(before);
+    expect(parts.filter((part) => part.type !== 'removed').map((part) => part.text).join('')).toBe(after);
+  });
+
+  it('replaces a long changed middle outright instead of diffing it', () => {
+    const words = (prefix: string) => Array.from({ length: 1200 }, (_, i) => `${prefix}${i}`).join(' ');
+    const before = `Intro ${words('a')} outro`;
+    const after = `Intro ${words('b')} outro`;
+
+    expect(diffWords(before, after)).toEqual([
+      { type: 'same', text: 'Intro ' },
+      { type: 'removed', text: words('a') },
+      { type: 'added', text: words('b') },
+      { type: 'same', text: ' outro' },
+    ]);
+  });
+});
+
+it('allows edits for 30 minutes after posting', () => {
+  const postedAt = '2025-01-01T12:00:00Z';
+  expect(canEditPost(postedAt, Date.parse('2025-01-01T12:30:00Z'))).toBe(true);
+  expect(canEditPost(postedAt, Date.parse('2025-01-01T12:30:01Z'))).toBe(false);
+});
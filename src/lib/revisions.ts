@@ -0,0 +1,85 @@
+// Post edit history: the edit window and word diffs between versions.
+
+// Mirrors `post_edit_window()`; the database rejects edits made later.
+export const POST_EDIT_WINDOW_MINUTES = 30;
+
+export const canEditPost = (createdAt: string, now = Date.now()) =>
+  now - Date.parse(createdAt) <= POST_EDIT_WINDOW_MINUTES * 60_000;
+
+export interface DiffPart {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Words and the whitespace between them, so joining the tokens gives the
+// original text back.
+const tokenize = (text: string) => text.split(/(\s+)/).filter(Boolean);
+
+// Above this many LCS table cells, the changed middle is shown as replaced
+// outright rather than diffed; ~2 MB of counts at most.
+const MAX_DIFF_CELLS = 1_000_000;
+
+// Word-level diff from `before` to `after`: the unchanged start and end are
+// trimmed, and the rest is diffed through the longest common subsequence of
+// tokens. The LCS table is quadratic in the changed tokens, which a 5000
+// character post can have thousands of, hence the cap.
+export function diffWords(before: string, after: string): DiffPart[] {
+  const allA = tokenize(before);
+  const allB = tokenize(after);
+
+  let start = 0;
+  while (start < allA.length && start < allB.length && allA[start] === allB[start]) start++;
+  let end = 0;
+  while (
+    end < allA.length - start &&
+    end < allB.length - start &&
+    allA[allA.length - 1 - end] === allB[allB.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  const a = allA.slice(start, allA.length - end);
+  const b = allB.slice(start, allB.length - end);
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart['type'], text: string) => {
+    if (!text) return;
+    const last = parts[parts.length - 1];
+    if (last?.type === type) last.text += text;
+    else parts.push({ type, text });
+  };
+
+  push('same', allA.slice(0, start).join(''));
+
+  if ((a.length + 1) * (b.length + 1) > MAX_DIFF_CELLS) {
+    push('removed', a.join(''));
+    push('added', b.join(''));
+  } else {
+    // lcs[i][j]: length of the LCS of a[i..] and b[j..]. Under the cap, the
+    // shorter side has at most 1000 tokens, so the counts fit in 16 bits.
+    const lcs = Array.from({ length: a.length + 1 }, () => new Uint16Array(b.length + 1));
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        push('same', a[i]);
+        i++;
+        j++;
+      } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+        // Removals first, so a replaced word reads as old then new.
+        push('removed', a[i++]);
+      } else {
+        push('added', b[j++]);
+      }
+    }
+  }
+
+  push('same', allA.slice(allA.length - end).join(''));
+  return parts;
+}
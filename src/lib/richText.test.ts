@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { parseInline, parseRichText } from './richText';
+
+describe('parseInline', () => {
+  it('links http(s) URLs without trailing punctuation and nothing else', () => {
+    expect(parseInline('See https://example.com/a_(b)_c. or javascript:alert(1)')).toEqual([
+      { type: 'text', text: 'See ' },
+      { type: 'link', href: 'https://example.com/a_(b)_c', text: 'https://example.com/a_(b)_c' },
+      { type: 'text', text: '. or javascript:alert(1)' },
+    ]);
+    expect(parseInline('(www.example.com)')).toEqual([
+      { type: 'text', text: '(' },
+      { type: 'link', href: 'https://www.example.com', text: 'www.example.com' },
+      { type: 'text', text: ')' },
+    ]);
+  });
+
+  it('nests emphasis but leaves code spans and snake_case alone', () => {
+    expect(parseInline('**bold _and italic_** `**not bold**` snake_case_name')).toEqual([
+      {
+        type: 'bold',
+        children: [
+          { type: 'text', text: 'bold ' },
+          { type: 'italic', children: [{ type: 'text', text: 'and italic' }] },
+        ],
+      },
+      { type: 'text', text: ' ' },
+      { type: 'code', text: '**not bold**' },
+      { type: 'text', text: ' snake_case_name' },
+    ]);
+  });
+
+  it('links mentions and hashtags outside code', () => {
+    expect(parseInline('hi @maya #Design `#nope`')).toEqual([
+      { type: 'text', text: 'hi ' },
+      { type: 'mention', username: 'maya', text: '@maya' },
+      { type: 'text', text: ' ' },
+      { type: 'hashtag', tag: 'design', text: '#Design' },
+      { type: 'text', text: ' ' },
+      { type: 'code', text: '#nope' },
+    ]);
+  });
+});
+
+describe('parseRichText', () => {
+  it('splits quotes and fenced code from paragraphs', () => {
+    expect(parseRichText('> quoted\n> twice\nplain\n```\n<b>raw</b>\n```')).toEqual([
+      { type: 'quote', children: [{ type: 'text', text: 'quoted\ntwice' }] },
+      { type: 'paragraph', children: [{ type: 'text', text: 'plain' }] },
+      { type: 'code', text: '<b>raw</b>' },
+    ]);
+  });
+});
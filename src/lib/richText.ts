@@ -0,0 +1,129 @@
+import { tokenizeHashtags } from './hashtags';
+import { tokenizeMentions } from './mentions';
+
+// Parses user-written text into a small document tree for `RichText` to
+// render as React elements. There is no HTML anywhere in the pipeline, so
+// nothing a user writes can become markup; links are only ever http(s).
+//
+// Supported: ```fenced code blocks```, `> quotes`, **bold**, *italic* or
+// _italic_, `inline code`, URLs, @mentions and #hashtags.
+
+export type Inline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'bold'; children: Inline[] }
+  | { type: 'italic'; children: Inline[] }
+  | { type: 'link'; href: string; text: string }
+  | { type: 'mention'; username: string; text: string }
+  | { type: 'hashtag'; tag: string; text: string };
+
+export type Block =
+  | { type: 'paragraph'; children: Inline[] }
+  | { type: 'quote'; children: Inline[] }
+  | { type: 'code'; text: string };
+
+// Earlier alternatives win at the same position, so code spans and URLs are
+// never reinterpreted as emphasis.
+const INLINE =
+  /`([^`\n]+)`|((?:https?:\/\/|www\.)[^\s<>]+)|\*\*(?=\S)([\s\S]*?\S)\*\*|(?<![\p{L}\p{N}*])\*(?=[^\s*])([^*\n]*?[^\s*])\*(?![\p{L}\p{N}*])|(?<![\p{L}\p{N}_])_(?=[^\s_])([^_\n]*?[^\s_])_(?![\p{L}\p{N}_])/gu;
+
+// Punctuation that ends a sentence rather than a URL.
+const URL_TRAILING = /[.,:;!?'"*_]+$/;
+
+function trimUrl(url: string) {
+  let trimmed = url.replace(URL_TRAILING, '');
+  // Keep a closing paren only if the URL opened one, as in Wikipedia links.
+  while (trimmed.endsWith(')') && (trimmed.match(/\(/g)?.length ?? 0) < (trimmed.match(/\)/g)?.length ?? 0)) {
+    trimmed = trimmed.slice(0, -1).replace(URL_TRAILING, '');
+  }
+  return trimmed;
+}
+
+function linkifyWords(text: string): Inline[] {
+  return tokenizeHashtags(text).flatMap((token): Inline[] =>
+    token.kind === 'hashtag'
+      ? [{ type: 'hashtag', tag: token.tag, text: token.text }]
+      : tokenizeMentions(token.text).map(
+          (part): Inline =>
+            part.kind === 'mention'
+              ? { type: 'mention', username: part.username, text: part.text }
+              : { type: 'text', text: part.text }
+        )
+  );
+}
+
+export function parseInline(text: string): Inline[] {
+  const nodes: Inline[] = [];
+  const pattern = new RegExp(INLINE);
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text))) {
+    const [whole, code, url, bold, starItalic, underscoreItalic] = match;
+    let end = match.index + whole.length;
+
+    if (url !== undefined) {
+      const trimmed = trimUrl(url);
+      // Nothing but punctuation after `www.`: not a link after all.
+      if (trimmed.length <= 'www.'.length) continue;
+      end = match.index + trimmed.length;
+      pattern.lastIndex = end;
+    }
+
+    if (match.index > last) nodes.push(...linkifyWords(text.slice(last, match.index)));
+
+    if (code !== undefined) {
+      nodes.push({ type: 'code', text: code });
+    } else if (url !== undefined) {
+      const linkText = text.slice(match.index, end);
+      nodes.push({ type: 'link', href: linkText.startsWith('www.') ? `https://${linkText}` : linkText, text: linkText });
+    } else if (bold !== undefined) {
+      nodes.push({ type: 'bold', children: parseInline(bold) });
+    } else {
+      nodes.push({ type: 'italic', children: parseInline(starItalic ?? underscoreItalic) });
+    }
+
+    last = end;
+  }
+
+  if (last < text.length) nodes.push(...linkifyWords(text.slice(last)));
+  return nodes;
+}
+
+const FENCE = /^```/;
+const QUOTE = /^> ?/;
+
+export function parseRichText(text: string): Block[] {
+  const blocks: Block[] = [];
+  const lines = text.split('\n');
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    // Blank lines between blocks are spacing, not content.
+    const content = paragraph.join('\n').replace(/^\n+|\n+$/g, '');
+    if (content) blocks.push({ type: 'paragraph', children: parseInline(content) });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (FENCE.test(line)) {
+      flushParagraph();
+      const code: string[] = [];
+      // An unclosed fence runs to the end, as it does in most editors.
+      while (++i < lines.length && !FENCE.test(lines[i])) code.push(lines[i]);
+      blocks.push({ type: 'code', text: code.join('\n') });
+    } else if (QUOTE.test(line)) {
+      flushParagraph();
+      const quote = [line.replace(QUOTE, '')];
+      while (i + 1 < lines.length && QUOTE.test(lines[i + 1])) quote.push(lines[++i].replace(QUOTE, ''));
+      blocks.push({ type: 'quote', children: parseInline(quote.join('\n')) });
+    } else {
+      paragraph.push(line);
+    }
+  }
+
+  flushParagraph();
+  return blocks;
+}
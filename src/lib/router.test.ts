@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { buildPath, getRedirectTarget, loginRedirectPath, matchPath, paths } from './router';
+
+describe('matchPath', () => {
+  it('extracts and decodes params, ignoring a trailing slash', () => {
+    expect(matchPath(paths.profile, '/profile/ana%20b/')).toEqual({ username: 'ana b' });
+    expect(matchPath(paths.feed, '/')).toEqual({});
+  });
+
+  it('rejects other paths and malformed encodings', () => {
+    expect(matchPath(paths.profile, '/profile')).toBeNull();
+    expect(matchPath(paths.profile, '/profile/ana/posts')).toBeNull();
+    expect(matchPath(paths.post, '/posts/1')).toBeNull();
+    expect(matchPath(paths.tag, '/tag/%E0%A4%A')).toBeNull();
+  });
+
+  it('round-trips params through buildPath', () => {
+    const path = buildPath(paths.tag, { name: 'c#/rust' });
+
+    expect(path).toBe('/tag/c%23%2Frust');
+    expect(matchPath(paths.tag, path)).toEqual({ name: 'c#/rust' });
+  });
+});
+
+describe('getRedirectTarget', () => {
+  it('returns app paths from a login redirect', () => {
+    const destination = '/post/1?comment=2#reply';
+
+    expect(getRedirectTarget(new URL(loginRedirectPath(destination), 'http://app.test').search)).toBe(destination);
+    expect(loginRedirectPath(paths.feed)).toBe(paths.login);
+  });
+
+  it('falls back to the feed for anything that could leave the app', () => {
+    for (const redirect of ['', 'https://evil.com', 'evil.com', '//evil.com', '/\\evil.com', '/\t/evil.com']) {
+      expect(getRedirectTarget(`?redirect=${encodeURIComponent(redirect)}`)).toBe(paths.feed);
+    }
+    expect(getRedirectTarget('')).toBe(paths.feed);
+  });
+});
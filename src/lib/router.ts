@@ -0,0 +1,94 @@
+// Extracts `:param` segments from a path pattern, e.g.
+// RouteParams<'/profile/:username'> -> { username: string }
+export type RouteParams<Path extends string> =
+  Path extends `${string}:${infer Param}/${infer Rest}`
+    ? { [K in Param | keyof RouteParams<`/${Rest}`>]: string }
+    : Path extends `${string}:${infer Param}`
+      ? { [K in Param]: string }
+      : Record<string, never>;
+
+export const paths = {
+  feed: '/',
+  login: '/login',
+  signup: '/signup',
+  explore: '/explore',
+  notifications: '/notifications',
+  messages: '/messages',
+  bookmarks: '/bookmarks',
+  editProfile: '/profile/edit',
+  profile: '/profile/:username',
+  post: '/post/:id',
+  tag: '/tag/:name',
+} as const;
+
+export type AppPath = (typeof paths)[keyof typeof paths];
+
+export function matchPath<Path extends string>(pattern: Path, pathname: string): RouteParams<Path> | null {
+  const patternSegments = pattern.split('/').filter(Boolean);
+  const pathSegments = pathname.replace(/\/+$/, '').split('/').filter(Boolean);
+
+  if (patternSegments.length !== pathSegments.length) return null;
+
+  const params: Record<string, string> = {};
+
+  for (let i = 0; i < patternSegments.length; i++) {
+    const patternSegment = patternSegments[i];
+    const pathSegment = pathSegments[i];
+
+    if (patternSegment.startsWith(':')) {
+      try {
+        params[patternSegment.slice(1)] = decodeURIComponent(pathSegment);
+      } catch {
+        return null;
+      }
+    } else if (patternSegment !== pathSegment) {
+      return null;
+    }
+  }
+
+  return params as RouteParams<Path>;
+}
+
+export function buildPath<Path extends string>(pattern: Path, ...[params]: keyof RouteParams<Path> extends never ? [] : [RouteParams<Path>]): string {
+  if (!params) return pattern;
+
+  return pattern.replace(/:([A-Za-z0-9_]+)/g, (_, name: string) =>
+    encodeURIComponent((params as Record<string, string>)[name])
+  );
+}
+
+export function profilePath(username: string) {
+  return buildPath(paths.profile, { username });
+}
+
+export function postPath(id: string) {
+  return buildPath(paths.post, { id });
+}
+
+export function tagPath(name: string) {
+  return buildPath(paths.tag, { name });
+}
+
+export function postUrl(id: string) {
+  return new URL(postPath(id), window.location.origin).toString();
+}
+
+// Where to send a logged-out visitor so they land back on `destination` after signing in.
+export function loginRedirectPath(destination: string) {
+  if (!destination || destination === paths.feed || destination.startsWith(paths.login)) {
+    return paths.login;
+  }
+  return `${paths.login}?redirect=${encodeURIComponent(destination)}`;
+}
+
+// Only same-origin, absolute app paths are honoured to avoid open redirects.
+// The target is resolved the way the browser would, which reads `\` as `/`
+// and drops tabs and newlines, so `/\evil.com` can't slip through.
+export function getRedirectTarget(search: string) {
+  const redirect = new URLSearchParams(search).get('redirect');
+  if (!redirect || !redirect.startsWith('/')) return paths.feed;
+
+  const target = new URL(redirect, window.location.origin);
+  if (target.origin !== window.location.origin) return paths.feed;
+  return target.pathname + target.search + target.hash;
+}
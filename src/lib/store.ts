@@ -0,0 +1,208 @@
+import { useRef, useSyncExternalStore } from 'react';
+import type { PollOption, PostWithRelations, Profile, ViewerPostFields } from './api';
+
+// Link previews, quoted posts and polls belong to their post, so they're kept
+// on it rather than normalized out like profiles.
+export type PostRow = Omit<PostWithRelations, 'profiles'>;
+
+export interface EntityState {
+  posts: Record<string, PostRow>;
+  profiles: Record<string, Profile>;
+  // `${followerId}:${followingId}` -> whether the edge exists
+  follows: Record<string, boolean>;
+}
+
+const initialState: EntityState = {
+  posts: {},
+  profiles: {},
+  follows: {},
+};
+
+let state = initialState;
+const listeners = new Set<() => void>();
+
+export function getState() {
+  return state;
+}
+
+export function setState(updater: (state: EntityState) => EntityState) {
+  const next = updater(state);
+  if (next === state) return;
+
+  state = next;
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function resetStore() {
+  setState(() => initialState);
+}
+
+export const followKey = (followerId: string, followingId: string) => `${followerId}:${followingId}`;
+
+// Splits joined post payloads into their entities; later payloads win.
+export function ingestPosts(posts: PostWithRelations[]) {
+  if (posts.length === 0) return;
+
+  setState((current) => {
+    const next = {
+      ...current,
+      posts: { ...current.posts },
+      profiles: { ...current.profiles },
+    };
+
+    for (const { profiles, ...post } of posts) {
+      next.posts[post.id] = post;
+      next.profiles[profiles.id] = profiles;
+    }
+
+    return next;
+  });
+}
+
+// Applies a bare `posts` row (e.g. from realtime) to a post we already hold,
+// keeping the viewer-relative fields the row doesn't carry.
+export function mergePostRow(row: Omit<PostRow, ViewerPostFields | 'link_preview' | 'quoted_post' | 'poll'>) {
+  setState((current) => {
+    const post = current.posts[row.id];
+    if (!post) return current;
+
+    return { ...current, posts: { ...current.posts, [row.id]: { ...post, ...row } } };
+  });
+}
+
+// Applies an option's tally (e.g. from realtime) to the poll on a post we hold.
+export function mergePollOption(postId: string, option: PollOption) {
+  setState((current) => {
+    const post = current.posts[postId];
+    const previous = post?.poll?.options.find((other) => other.id === option.id);
+    if (!post?.poll || !previous || previous.votes_count === option.votes_count) return current;
+
+    const poll = {
+      ...post.poll,
+      votes_count: post.poll.votes_count + option.votes_count - previous.votes_count,
+      options: post.poll.options.map((other) => (other.id === option.id ? { ...other, votes_count: option.votes_count } : other)),
+    };
+    return { ...current, posts: { ...current.posts, [postId]: { ...post, poll } } };
+  });
+}
+
+export function evictPost(id: string) {
+  setState((current) => {
+    if (!(id in current.posts)) return current;
+
+    const posts = { ...current.posts };
+    delete posts[id];
+    return { ...current, posts };
+  });
+}
+
+export function ingestProfiles(profiles: Profile[]) {
+  if (profiles.length === 0) return;
+
+  setState((current) => {
+    const next = { ...current.profiles };
+    for (const profile of profiles) {
+      next[profile.id] = profile;
+    }
+    return { ...current, profiles: next };
+  });
+}
+
+export function ingestFollows(followerId: string, edges: Record<string, boolean>) {
+  setState((current) => {
+    const next = { ...current.follows };
+    for (const [followingId, isFollowing] of Object.entries(edges)) {
+      next[followKey(followerId, followingId)] = isFollowing;
+    }
+    return { ...current, follows: next };
+  });
+}
+
+const shallowEqual = <T extends object>(a: T | null, b: T | null) => {
+  if (a === b) return true;
+  if (!a || !b) return false;
+
+  const keysA = Object.keys(a) as (keyof T)[];
+  if (keysA.length !== Object.keys(b).length) return false;
+  return keysA.every((key) => a[key] === b[key]);
+};
+
+const selectPost = (current: EntityState, id: string): PostWithRelations | null => {
+  const post = current.posts[id];
+  const profile = post && current.profiles[post.user_id];
+  if (!post || !profile) return null;
+
+  return { ...post, profiles: profile };
+};
+
+const samePost = (a: PostWithRelations | null, b: PostWithRelations | null) => shallowEqual(a, b);
+
+// Subscribes to a derived slice of the store, re-rendering only when `isEqual` says it changed.
+export function useStore<T>(selector: (state: EntityState) => T, isEqual: (a: T, b: T) => boolean = Object.is) {
+  const cache = useRef<{ state: EntityState; selector: typeof selector; value: T } | null>(null);
+
+  const getSnapshot = () => {
+    const current = getState();
+    if (cache.current?.state === current && cache.current.selector === selector) return cache.current.value;
+
+    const value = selector(current);
+    const stable = cache.current && isEqual(cache.current.value, value) ? cache.current.value : value;
+    cache.current = { state: current, selector, value: stable };
+    return stable;
+  };
+
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
+
+export function usePost(id: string) {
+  return useStore((current) => selectPost(current, id), samePost);
+}
+
+// Keeps list order but drops posts that have since been deleted.
+export function useExistingPostIds(ids: string[]) {
+  return useStore(
+    (current) => ids.filter((id) => id in current.posts),
+    (a, b) => a.length === b.length && a.every((id, i) => id === b[i])
+  );
+}
+
+export function useIsFollowing(followerId: string | undefined, followingId: string): boolean | undefined {
+  return useStore((current) => (followerId ? current.follows[followKey(followerId, followingId)] : undefined));
+}
+
+// `followerId`'s known follow edges, as followingId -> whether the edge exists.
+export function useFollowEdges(followerId: string | undefined): Record<string, boolean> {
+  return useStore((current) => {
+    const edges: Record<string, boolean> = {};
+    if (!followerId) return edges;
+
+    const prefix = followKey(followerId, '');
+    for (const [key, isFollowing] of Object.entries(current.follows)) {
+      if (key.startsWith(prefix)) edges[key.slice(prefix.length)] = isFollowing;
+    }
+    return edges;
+  }, shallowEqual);
+}
+
+export function useFollowerCount(profileId: string): number | undefined {
+  return useStore((current) => current.profiles[profileId]?.followers_count);
+}
+
+export function useFollowingCount(profileId: string): number | undefined {
+  return useStore((current) => current.profiles[profileId]?.following_count);
+}
+
+export function usePostCount(profileId: string): number | undefined {
+  return useStore((current) => current.profiles[profileId]?.posts_count);
+}
+
+export function usePinnedPostId(profileId: string): string | null | undefined {
+  return useStore((current) => current.profiles[profileId]?.pinned_post_id);
+}
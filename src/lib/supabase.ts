@@ -1,19 +1,39 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
 import type { Database } from './database.types';
+import { createMemoryClient } from './memory';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
-if (!supabaseUrl || !supabaseAnonKey) {
-  throw new Error('Missing Supabase environment variables');
-}
+// Outside production builds, `VITE_SUPABASE_CLIENT=memory` runs against an
+// in-memory database seeded with fixtures, and is the fallback when no project
+// is configured. Production always talks to Supabase, so the stand-in is
+// compiled out there.
+const useMemoryClient =
+  !import.meta.env.PROD &&
+  (import.meta.env.VITE_SUPABASE_CLIENT === 'memory' || !supabaseUrl || !supabaseAnonKey);
+
+function createSupabaseClient(): SupabaseClient<Database> {
+  if (useMemoryClient) {
+    if (import.meta.env.DEV) {
+      console.info('Using the in-memory Supabase client. Sign in as alex@example.com / password.');
+    }
+    return createMemoryClient();
+  }
 
-export const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey, {
-  auth: {
-    autoRefreshToken: true,
-    persistSession: true,
-    detectSessionInUrl: true,
-    storage: typeof window !== 'undefined' ? window.localStorage : undefined,
-    storageKey: 'supabase.auth.token'
+  if (!supabaseUrl || !supabaseAnonKey) {
+    throw new Error('Missing Supabase environment variables');
   }
-});
+
+  return createClient<Database>(supabaseUrl, supabaseAnonKey, {
+    auth: {
+      autoRefreshToken: true,
+      persistSession: true,
+      detectSessionInUrl: true,
+      storage: typeof window !== 'undefined' ? window.localStorage : undefined,
+      storageKey: 'supabase.auth.token'
+    }
+  });
+}
+
+export const supabase = createSupabaseClient();
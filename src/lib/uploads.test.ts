@@ -0,0 +1,88 @@
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MAX_POST_MEDIA } from './api';
+import { formatDuration, MAX_GIF_SIZE, MAX_VIDEO_SIZE, mediaTypeOf, useMediaUploads } from './uploads';
+
+const file = (name: string, type: string, size = 1024) => {
+  const created = new File(['x'], name, { type });
+  Object.defineProperty(created, 'size', { value: size });
+  return created;
+};
+
+describe('mediaTypeOf', () => {
+  it('sorts accepted types into images, GIFs and videos', () => {
+    expect(mediaTypeOf('image/png')).toBe('image');
+    expect(mediaTypeOf('image/gif')).toBe('gif');
+    expect(mediaTypeOf('video/quicktime')).toBe('video');
+    expect(mediaTypeOf('image/svg+xml')).toBeNull();
+    expect(mediaTypeOf('')).toBeNull();
+  });
+});
+
+it('formats durations as m:ss', () => {
+  expect(formatDuration(59.6)).toBe('1:00');
+  expect(formatDuration(7)).toBe('0:07');
+  expect(formatDuration(null)).toBe('');
+});
+
+describe('useMediaUploads', () => {
+  beforeEach(() => {
+    // jsdom has neither object URLs nor image decoding, so accepted files
+    // fail while being prepared, before anything is uploaded.
+    URL.createObjectURL = vi.fn(() => 'blob:preview');
+    URL.revokeObjectURL = vi.fn();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('turns away unsupported and oversized files with one reason each', () => {
+    const { result } = renderHook(() => useMediaUploads('user-1'));
+
+    let reasons: string[] = [];
+    act(() => {
+      reasons = result.current.addFiles([
+        file('doc.pdf', 'application/pdf'),
+        file('icon.svg', 'image/svg+xml'),
+        file('big.gif', 'image/gif', MAX_GIF_SIZE + 1),
+        file('long.mp4', 'video/mp4', MAX_VIDEO_SIZE + 1),
+        file('ok.gif', 'image/gif', MAX_GIF_SIZE),
+      ]);
+    });
+
+    expect(reasons).toEqual([
+      'Only JPEG, PNG, WebP and GIF images and MP4, WebM or MOV videos can be added.',
+      'GIFs can be up to 15 MB.',
+      'Videos can be up to 50 MB.',
+    ]);
+    expect(result.current.uploads.map((upload) => upload.type)).toEqual(['gif']);
+  });
+
+  it(`keeps at most ${MAX_POST_MEDIA} files per post`, () => {
+    const { result } = renderHook(() => useMediaUploads('user-1'));
+
+    act(() => {
+      result.current.addFiles([file('a.png', 'image/png'), file('b.png', 'image/png'), file('c.webp', 'image/webp')]);
+    });
+
+    let reasons: string[] = [];
+    act(() => {
+      reasons = result.current.addFiles([file('d.jpg', 'image/jpeg'), file('e.mp4', 'video/mp4')]);
+    });
+
+    expect(reasons).toEqual([`You can add up to ${MAX_POST_MEDIA} photos or videos per post.`]);
+    expect(result.current.uploads).toHaveLength(MAX_POST_MEDIA);
+    expect(result.current.remaining).toBe(0);
+  });
+
+  it('adds nothing while signed out', () => {
+    const { result } = renderHook(() => useMediaUploads(undefined));
+
+    act(() => {
+      expect(result.current.addFiles([file('a.png', 'image/png')])).toEqual([]);
+    });
+    expect(result.current.uploads).toEqual([]);
+  });
+});
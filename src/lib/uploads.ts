@@ -0,0 +1,275 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { deletePostMedia, mediaFileUrls, MAX_POST_MEDIA, uploadPostMedia } from './api';
+import type { PostMediaItem } from './database.types';
+
+export const ACCEPTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+export const ACCEPTED_VIDEO_TYPES = ['video/mp4', 'video/webm', 'video/quicktime'];
+export const ACCEPTED_MEDIA_TYPES = [...ACCEPTED_IMAGE_TYPES, 'image/gif', ...ACCEPTED_VIDEO_TYPES];
+
+const MAX_IMAGE_DIMENSION = 2048;
+const IMAGE_QUALITY = 0.85;
+
+// GIFs and videos are uploaded untouched, so they get their own limits. The
+// bucket allows 50 MB for anything.
+export const MAX_GIF_SIZE = 15 * 1024 * 1024;
+export const MAX_VIDEO_SIZE = 50 * 1024 * 1024;
+export const MAX_VIDEO_DURATION = 60;
+
+export function mediaTypeOf(mimeType: string): PostMediaItem['type'] | null {
+  if (mimeType === 'image/gif') return 'gif';
+  if (ACCEPTED_IMAGE_TYPES.includes(mimeType)) return 'image';
+  if (ACCEPTED_VIDEO_TYPES.includes(mimeType)) return 'video';
+  return null;
+}
+
+// `m:ss`, or '' when unknown.
+export function formatDuration(seconds: number | null | undefined) {
+  if (seconds == null) return '';
+  const whole = Math.round(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+}
+
+// Why a file can't be added before it's even read, or null if it can.
+function rejectionReason(file: File) {
+  const type = mediaTypeOf(file.type);
+  if (!type) return 'Only JPEG, PNG, WebP and GIF images and MP4, WebM or MOV videos can be added.';
+  if (type === 'gif' && file.size > MAX_GIF_SIZE) return 'GIFs can be up to 15 MB.';
+  if (type === 'video' && file.size > MAX_VIDEO_SIZE) return 'Videos can be up to 50 MB.';
+  return null;
+}
+
+// Draws a frame scaled down to fit MAX_IMAGE_DIMENSION.
+function drawFrame(source: CanvasImageSource, width: number, height: number) {
+  const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(width, height));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  canvas.getContext('2d')?.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+function encode(canvas: HTMLCanvasElement, type: string) {
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode image'))), type, IMAGE_QUALITY);
+  });
+}
+
+// Downsizes and re-encodes an image before upload. Drawing it onto a canvas
+// applies the EXIF orientation, and the re-encoded file carries no metadata,
+// so location and camera details never leave the device.
+export async function prepareImage(file: File): Promise<Blob> {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  const canvas = drawFrame(bitmap, bitmap.width, bitmap.height);
+  bitmap.close();
+
+  // WebP keeps PNG transparency; browsers without a WebP encoder fall back to PNG.
+  return encode(canvas, file.type === 'image/jpeg' ? 'image/jpeg' : 'image/webp');
+}
+
+function loadVideo(url: string) {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+
+  return new Promise<HTMLVideoElement>((resolve, reject) => {
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => reject(new Error("This video can't be played in your browser"));
+    video.src = url;
+  });
+}
+
+function seek(video: HTMLVideoElement, time: number) {
+  return new Promise<void>((resolve) => {
+    video.onseeked = () => resolve();
+    video.currentTime = time;
+  });
+}
+
+interface PreparedMedia {
+  file: Blob;
+  poster: Blob | null;
+  item: Omit<PostMediaItem, 'url' | 'poster_url'>;
+}
+
+// Everything a media item needs before upload: the file to store, a poster
+// frame for GIFs and videos, and the metadata the feed lays them out with.
+// Throws with a message fit to show when a video is too long.
+export async function prepareMedia(file: File): Promise<PreparedMedia> {
+  const type = mediaTypeOf(file.type);
+
+  if (type === 'image') {
+    const prepared = await prepareImage(file);
+    const bitmap = await createImageBitmap(prepared);
+    const { width, height } = bitmap;
+    bitmap.close();
+    return {
+      file: prepared,
+      poster: null,
+      item: { type, mime_type: prepared.type, width, height, duration: null },
+    };
+  }
+
+  if (type === 'gif') {
+    // A bitmap of a GIF is its first frame.
+    const bitmap = await createImageBitmap(file);
+    const { width, height } = bitmap;
+    const poster = await encode(drawFrame(bitmap, width, height), 'image/webp');
+    bitmap.close();
+    return { file, poster, item: { type, mime_type: file.type, width, height, duration: null } };
+  }
+
+  if (type === 'video') {
+    const url = URL.createObjectURL(file);
+    try {
+      const video = await loadVideo(url);
+      if (video.duration > MAX_VIDEO_DURATION) throw new Error('Videos can be up to 60 seconds.');
+
+      // The very first frame is often black.
+      await seek(video, Math.min(1, video.duration / 2));
+      const { videoWidth: width, videoHeight: height } = video;
+      const poster = await encode(drawFrame(video, width, height), 'image/jpeg');
+      return {
+        file,
+        poster,
+        item: { type, mime_type: file.type, width, height, duration: Math.round(video.duration * 10) / 10 },
+      };
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+
+  throw new Error(`Unsupported file type: ${file.type || 'unknown'}`);
+}
+
+export type UploadStatus = 'processing' | 'uploading' | 'done' | 'failed';
+
+export interface MediaUpload {
+  id: string;
+  type: PostMediaItem['type'];
+  // Local object URL of the original file, shown until the upload is removed.
+  previewUrl: string;
+  status: UploadStatus;
+  progress: number;
+  item: PostMediaItem | null;
+  error: string | null;
+}
+
+// Uploads for the post composer. Files are uploaded as soon as they're
+// added; anything removed, or left behind when the composer unmounts without
+// posting, is deleted from Storage again.
+export function useMediaUploads(userId: string | undefined) {
+  const [uploads, setUploads] = useState<MediaUpload[]>([]);
+  const uploadsRef = useRef(uploads);
+  uploadsRef.current = uploads;
+
+  const update = useCallback((id: string, changes: Partial<MediaUpload>) => {
+    setUploads((current) => current.map((upload) => (upload.id === id ? { ...upload, ...changes } : upload)));
+  }, []);
+
+  const isActive = (id: string) => uploadsRef.current.some((upload) => upload.id === id);
+
+  const start = async (id: string, file: File, ownerId: string) => {
+    const uploaded: string[] = [];
+
+    try {
+      const prepared = await prepareMedia(file);
+      if (!isActive(id)) return;
+      update(id, { status: 'uploading' });
+
+      const { data: url, error } = await uploadPostMedia(ownerId, prepared.file, (progress) => update(id, { progress }));
+      if (error) throw error;
+      uploaded.push(url);
+
+      let posterUrl: string | null = null;
+      if (prepared.poster) {
+        const poster = await uploadPostMedia(ownerId, prepared.poster);
+        if (poster.error) throw poster.error;
+        posterUrl = poster.data;
+        uploaded.push(posterUrl);
+      }
+
+      if (isActive(id)) {
+        update(id, { status: 'done', progress: 1, item: { ...prepared.item, url, poster_url: posterUrl } });
+      } else {
+        // Removed while uploading.
+        await deletePostMedia(uploaded);
+      }
+    } catch (error) {
+      console.error('Error uploading media:', error);
+      if (uploaded.length > 0) deletePostMedia(uploaded);
+      update(id, { status: 'failed', error: (error as Error).message || 'Upload failed' });
+    }
+  };
+
+  // Returns why files were skipped, once per reason; empty if all were added.
+  const addFiles = (files: File[]) => {
+    if (!userId) return [];
+
+    const reasons = new Set<string>();
+    const valid = files.filter((file) => {
+      const reason = rejectionReason(file);
+      if (reason) reasons.add(reason);
+      return !reason;
+    });
+
+    const accepted = valid.slice(0, Math.max(0, MAX_POST_MEDIA - uploadsRef.current.length));
+    if (accepted.length < valid.length) reasons.add(`You can add up to ${MAX_POST_MEDIA} photos or videos per post.`);
+
+    const added = accepted.map(
+      (file): MediaUpload => ({
+        id: crypto.randomUUID(),
+        type: mediaTypeOf(file.type) ?? 'image',
+        previewUrl: URL.createObjectURL(file),
+        status: 'processing',
+        progress: 0,
+        item: null,
+        error: null,
+      })
+    );
+
+    uploadsRef.current = [...uploadsRef.current, ...added];
+    setUploads(uploadsRef.current);
+    added.forEach((upload, index) => start(upload.id, accepted[index], userId));
+
+    return [...reasons];
+  };
+
+  const remove = (id: string) => {
+    const upload = uploadsRef.current.find((item) => item.id === id);
+    if (!upload) return;
+
+    URL.revokeObjectURL(upload.previewUrl);
+    uploadsRef.current = uploadsRef.current.filter((item) => item.id !== id);
+    setUploads(uploadsRef.current);
+    if (upload.item) deletePostMedia(mediaFileUrls([upload.item]));
+  };
+
+  // Call once the uploaded files belong to a post, so they're kept.
+  const clear = () => {
+    uploadsRef.current.forEach((upload) => URL.revokeObjectURL(upload.previewUrl));
+    uploadsRef.current = [];
+    setUploads([]);
+  };
+
+  useEffect(
+    () => () => {
+      const orphaned = mediaFileUrls(uploadsRef.current.flatMap((upload) => (upload.item ? [upload.item] : [])));
+      uploadsRef.current.forEach((upload) => URL.revokeObjectURL(upload.previewUrl));
+      uploadsRef.current = [];
+      if (orphaned.length > 0) deletePostMedia(orphaned);
+    },
+    []
+  );
+
+  return {
+    uploads,
+    items: uploads.flatMap((upload) => (upload.status === 'done' && upload.item ? [upload.item] : [])),
+    busy: uploads.some((upload) => upload.status === 'processing' || upload.status === 'uploading'),
+    remaining: MAX_POST_MEDIA - uploads.length,
+    addFiles,
+    remove,
+    clear,
+  };
+}
@@ -0,0 +1,18 @@
+import type { Tables } from './database.types';
+
+// Post audiences: who besides the author `can_view_post` lets see a post.
+
+export type PostVisibility = Tables<'posts'>['visibility'];
+
+export const POST_VISIBILITIES: { value: PostVisibility; label: string; description: string }[] = [
+  { value: 'public', label: 'Everyone', description: 'Anyone on the site can see this post' },
+  { value: 'followers', label: 'Followers', description: 'Only people who follow you can see this post' },
+  { value: 'mentioned', label: 'Mentioned only', description: 'Only people you @mention can see this post' },
+];
+
+export const visibilityOption = (visibility: PostVisibility) =>
+  POST_VISIBILITIES.find((option) => option.value === visibility) ?? POST_VISIBILITIES[0];
+
+// Only public posts can be reposted or quoted: anyone else the repost
+// reached couldn't see the post anyway.
+export const isShareable = (post: { visibility: PostVisibility }) => post.visibility === 'public';
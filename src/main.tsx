@@ -1,13 +1,16 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import { AuthProvider } from './contexts/AuthContext';
+import { RouterProvider } from './contexts/RouterContext';
 import App from './App.tsx';
 import './index.css';
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <AuthProvider>
-      <App />
-    </AuthProvider>
+    <RouterProvider>
+      <AuthProvider>
+        <App />
+      </AuthProvider>
+    </RouterProvider>
   </StrictMode>
 );
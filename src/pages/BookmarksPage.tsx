@@ -0,0 +1,251 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  createBookmarkFolder,
+  deleteBookmarkFolder,
+  listBookmarkedPosts,
+  listBookmarkFolders,
+  moveBookmark,
+  type BookmarkFolder,
+  type PageOptions,
+} from '../lib/api';
+import { usePaginatedPosts } from '../lib/pagination';
+import { usePost } from '../lib/store';
+import { Bookmark, FolderPlus, Trash2 } from 'lucide-react';
+import PostCard from '../components/PostCard';
+import InfiniteScrollSentinel from '../components/InfiniteScrollSentinel';
+
+interface BookmarkItemProps {
+  postId: string;
+  folders: BookmarkFolder[];
+  folderId: string | null;
+  onMove: (folderId: string | null) => void;
+}
+
+// Hidden as soon as the post is unbookmarked, from here or anywhere else.
+function BookmarkItem({ postId, folders, folderId, onMove }: BookmarkItemProps) {
+  const post = usePost(postId);
+  if (!post?.bookmarked_by_me) return null;
+
+  return (
+    <div>
+      {folders.length > 0 && (
+        <div className="flex justify-end mb-1">
+          <select
+            value={folderId ?? ''}
+            onChange={(e) => onMove(e.target.value || null)}
+            aria-label="Folder"
+            className="text-sm text-gray-600 bg-transparent border-0 focus:ring-0 outline-none cursor-pointer"
+          >
+            <option value="">No folder</option>
+            {folders.map((folder) => (
+              <option key={folder.id} value={folder.id}>
+                {folder.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+      <PostCard postId={postId} />
+    </div>
+  );
+}
+
+export default function BookmarksPage() {
+  const { user } = useAuth();
+  const [folders, setFolders] = useState<BookmarkFolder[]>([]);
+  const [selectedFolderId, setSelectedFolderId] = useState<string | null>(null);
+  const [folderIds, setFolderIds] = useState<Record<string, string | null>>({});
+  const [newFolderName, setNewFolderName] = useState('');
+  const [showNewFolder, setShowNewFolder] = useState(false);
+  const [folderError, setFolderError] = useState('');
+
+  const userId = user?.id;
+
+  const fetchPage = useCallback(
+    async (page: PageOptions) => {
+      const result = await listBookmarkedPosts(userId ?? '', selectedFolderId, page);
+      if (result.data) {
+        const { folderIds: pageFolderIds } = result.data;
+        setFolderIds((current) => ({ ...current, ...pageFolderIds }));
+      }
+      return result;
+    },
+    [userId, selectedFolderId]
+  );
+  const { postIds, loading, loadingMore, hasMore, reload, loadMore } = usePaginatedPosts(fetchPage);
+
+  useEffect(() => {
+    if (userId) reload();
+  }, [userId, reload]);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    listBookmarkFolders(userId).then(({ data, error }) => {
+      if (error) {
+        console.error('Error loading bookmark folders:', error);
+        return;
+      }
+      setFolders(data);
+    });
+  }, [userId]);
+
+  const handleCreateFolder = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newFolderName.trim();
+    if (!userId || !name) return;
+
+    const { data, error } = await createBookmarkFolder(userId, name);
+    if (error) {
+      console.error('Error creating bookmark folder:', error);
+      // unique_violation on (user_id, name).
+      setFolderError(error.code === '23505' ? 'You already have a folder with that name.' : "Couldn't create the folder.");
+      return;
+    }
+
+    setFolders((current) => [...current, data].sort((a, b) => a.name.localeCompare(b.name)));
+    setNewFolderName('');
+    setFolderError('');
+    setShowNewFolder(false);
+  };
+
+  const handleDeleteFolder = async (folder: BookmarkFolder) => {
+    if (!confirm(`Delete the folder "${folder.name}"? Its bookmarks will be kept.`)) return;
+
+    const { error } = await deleteBookmarkFolder(folder.id);
+    if (error) {
+      console.error('Error deleting bookmark folder:', error);
+      return;
+    }
+
+    setFolders((current) => current.filter((other) => other.id !== folder.id));
+    setFolderIds((current) =>
+      Object.fromEntries(Object.entries(current).map(([postId, id]) => [postId, id === folder.id ? null : id]))
+    );
+    if (selectedFolderId === folder.id) setSelectedFolderId(null);
+  };
+
+  const handleMove = async (postId: string, folderId: string | null) => {
+    if (!userId) return;
+
+    const previous = folderIds[postId] ?? null;
+    setFolderIds((current) => ({ ...current, [postId]: folderId }));
+
+    const { error } = await moveBookmark(userId, postId, folderId);
+    if (error) {
+      console.error('Error moving bookmark:', error);
+      setFolderIds((current) => ({ ...current, [postId]: previous }));
+    }
+  };
+
+  // Posts moved out of the folder being viewed drop out of the list.
+  const visiblePostIds = selectedFolderId
+    ? postIds.filter((id) => (folderIds[id] ?? null) === selectedFolderId)
+    : postIds;
+  const selectedFolder = folders.find((folder) => folder.id === selectedFolderId);
+
+  const chipClassName = (active: boolean) =>
+    `px-3 py-1.5 rounded-full text-sm font-medium transition ${
+      active ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+    }`;
+
+  return (
+    <div className="max-w-2xl mx-auto p-4 pb-20">
+      <div className="bg-white rounded-lg shadow-sm p-6 mb-6">
+        <div className="flex items-center gap-4">
+          <div className="w-12 h-12 rounded-full bg-blue-50 flex items-center justify-center flex-shrink-0">
+            <Bookmark className="w-6 h-6 text-blue-600" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Bookmarks</h1>
+            <p className="text-sm text-gray-600">Only you can see the posts you've saved</p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 mt-4">
+          <button onClick={() => setSelectedFolderId(null)} className={chipClassName(!selectedFolderId)}>
+            All
+          </button>
+          {folders.map((folder) => (
+            <button
+              key={folder.id}
+              onClick={() => setSelectedFolderId(folder.id)}
+              className={chipClassName(folder.id === selectedFolderId)}
+            >
+              {folder.name}
+            </button>
+          ))}
+          <button
+            onClick={() => setShowNewFolder(!showNewFolder)}
+            className="p-1.5 rounded-full text-gray-600 hover:bg-gray-100 transition"
+            title="New folder"
+          >
+            <FolderPlus className="w-5 h-5" />
+          </button>
+          {selectedFolder && (
+            <button
+              onClick={() => handleDeleteFolder(selectedFolder)}
+              className="ml-auto p-1.5 rounded-full text-gray-600 hover:bg-red-50 hover:text-red-600 transition"
+              title="Delete folder"
+            >
+              <Trash2 className="w-5 h-5" />
+            </button>
+          )}
+        </div>
+
+        {showNewFolder && (
+          <form onSubmit={handleCreateFolder} className="mt-3">
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={newFolderName}
+                onChange={(e) => setNewFolderName(e.target.value)}
+                placeholder="Folder name"
+                maxLength={50}
+                autoFocus
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-sm"
+              />
+              <button
+                type="submit"
+                disabled={!newFolderName.trim()}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Create
+              </button>
+            </div>
+            {folderError && <p className="mt-1 text-sm text-red-600">{folderError}</p>}
+          </form>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        {loading ? (
+          <div className="bg-white rounded-lg shadow-sm p-6 animate-pulse">
+            <div className="h-4 bg-gray-200 rounded w-1/3 mb-4"></div>
+            <div className="h-4 bg-gray-200 rounded"></div>
+          </div>
+        ) : visiblePostIds.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-sm p-12 text-center">
+            <Bookmark className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600">
+              {selectedFolder ? `Nothing in ${selectedFolder.name} yet` : 'Save posts to find them here later'}
+            </p>
+          </div>
+        ) : (
+          visiblePostIds.map((id) => (
+            <BookmarkItem
+              key={id}
+              postId={id}
+              folders={folders}
+              folderId={folderIds[id] ?? null}
+              onMove={(folderId) => handleMove(id, folderId)}
+            />
+          ))
+        )}
+      </div>
+
+      <InfiniteScrollSentinel onVisible={loadMore} hasMore={hasMore} loading={loadingMore} />
+    </div>
+  );
+}
@@ -1,7 +1,9 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { supabase } from '../lib/supabase';
+import { updateProfile } from '../lib/api';
 import { ArrowLeft, Camera } from 'lucide-react';
+import Link from '../components/Link';
+import { profilePath } from '../lib/router';
 
 export default function EditProfilePage() {
   const { profile, refreshProfile } = useAuth();
@@ -32,19 +34,18 @@ export default function EditProfilePage() {
     setLoading(true);
     setSuccess(false);
 
-    const { error } = await supabase
-      .from('profiles')
-      .update({
-        full_name: fullName,
-        bio,
-        location,
-        website,
-        avatar_url: avatarUrl,
-        cover_photo_url: coverPhotoUrl,
-      })
-      .eq('id', profile.id);
-
-    if (!error) {
+    const { error } = await updateProfile(profile.id, {
+      full_name: fullName,
+      bio,
+      location,
+      website,
+      avatar_url: avatarUrl,
+      cover_photo_url: coverPhotoUrl,
+    });
+
+    if (error) {
+      console.error('Error updating profile:', error);
+    } else {
       await refreshProfile();
       setSuccess(true);
       setTimeout(() => setSuccess(false), 3000);
@@ -58,13 +59,13 @@ export default function EditProfilePage() {
   return (
     <div className="max-w-2xl mx-auto p-4 pb-20">
       <div className="mb-6">
-        <a
-          href={`/profile/${profile.username}`}
+        <Link
+          to={profilePath(profile.username)}
           className="inline-flex items-center gap-2 text-gray-600 hover:text-gray-900 transition"
         >
           <ArrowLeft className="w-5 h-5" />
           Back to Profile
-        </a>
+        </Link>
       </div>
 
       <div className="bg-white rounded-lg shadow-sm p-6">
@@ -195,12 +196,12 @@ export default function EditProfilePage() {
             >
               {loading ? 'Saving...' : 'Save Changes'}
             </button>
-            <a
-              href={`/profile/${profile.username}`}
+            <Link
+              to={profilePath(profile.username)}
               className="px-6 py-3 border border-gray-300 rounded-lg text-gray-700 font-medium hover:bg-gray-50 transition"
             >
               Cancel
-            </a>
+            </Link>
           </div>
         </form>
       </div>
@@ -1,35 +1,65 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { supabase } from '../lib/supabase';
-import { Search as SearchIcon, Users, TrendingUp } from 'lucide-react';
-import type { Database } from '../lib/database.types';
+import {
+  listFollowingIds,
+  listRecentPosts,
+  listSuggestedProfiles,
+  listTrendingHashtags,
+  searchProfiles,
+  type PageOptions,
+  type PostWithRelations,
+  type Profile,
+  type TrendingHashtag,
+} from '../lib/api';
+import { loadFollowState } from '../lib/actions';
+import { usePaginatedPosts } from '../lib/pagination';
+import { Hash, Search as SearchIcon, Users, TrendingUp } from 'lucide-react';
 import PostCard from '../components/PostCard';
+import UserCard from '../components/UserCard';
+import InfiniteScrollSentinel from '../components/InfiniteScrollSentinel';
+import Link from '../components/Link';
+import { tagPath } from '../lib/router';
 
-type Profile = Database['public']['Tables']['profiles']['Row'] & {
-  followers_count?: number;
-  is_following?: boolean;
-};
-type Post = Database['public']['Tables']['posts']['Row'] & {
-  profiles: Profile;
-  likes: { user_id: string }[];
-  comments: { id: string }[];
-};
+const trendingScore = (post: PostWithRelations) => post.likes_count * 2 + post.comments_count;
+
+// Trending tags are counted over posts from this many hours back.
+const TRENDING_TAGS_WINDOW_HOURS = 24;
 
 export default function ExplorePage() {
   const { user } = useAuth();
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<Profile[]>([]);
   const [suggestedUsers, setSuggestedUsers] = useState<Profile[]>([]);
-  const [trendingPosts, setTrendingPosts] = useState<Post[]>([]);
+  const [trendingTags, setTrendingTags] = useState<TrendingHashtag[]>([]);
   const [loading, setLoading] = useState(true);
   const [searching, setSearching] = useState(false);
 
+  // Ranks each page of the last day's posts by score; pages themselves stay in
+  // recency order so the keyset cursor keeps working.
+  const fetchTrendingPage = useCallback(async (page: PageOptions) => {
+    const oneDayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+    const result = await listRecentPosts(oneDayAgo, page);
+
+    if (result.error) return result;
+
+    const posts = [...result.data.posts].sort((a, b) => trendingScore(b) - trendingScore(a));
+    return { ...result, data: { ...result.data, posts } };
+  }, []);
+  const {
+    postIds: trendingPostIds,
+    loadingMore: loadingMoreTrending,
+    hasMore: hasMoreTrending,
+    reload: loadTrendingPosts,
+    loadMore: loadMoreTrending,
+  } = usePaginatedPosts(fetchTrendingPage);
+
   useEffect(() => {
     if (user) {
       loadSuggestedUsers();
+      loadTrendingTags();
       loadTrendingPosts();
     }
-  }, [user]);
+  }, [user, loadTrendingPosts]);
 
   useEffect(() => {
     if (searchQuery.trim()) {
@@ -45,61 +75,33 @@ export default function ExplorePage() {
   const loadSuggestedUsers = async () => {
     if (!user) return;
 
-    const { data: following } = await supabase
-      .from('follows')
-      .select('following_id')
-      .eq('follower_id', user.id);
-
-    const followingIds = following?.map(f => f.following_id) || [];
+    const { data: followingIds, error: followingError } = await listFollowingIds(user.id);
 
-    const { data: users } = await supabase
-      .from('profiles')
-      .select('*')
-      .neq('id', user.id)
-      .not('id', 'in', `(${followingIds.join(',') || 'null'})`)
-      .limit(5);
-
-    if (users) {
-      const usersWithCounts = await Promise.all(
-        users.map(async (u) => {
-          const { count } = await supabase
-            .from('follows')
-            .select('*', { count: 'exact', head: true })
-            .eq('following_id', u.id);
+    if (followingError) {
+      console.error('Error loading follows:', followingError);
+      setLoading(false);
+      return;
+    }
 
-          return { ...u, followers_count: count || 0, is_following: false };
-        })
-      );
+    const { data: users, error } = await listSuggestedProfiles(user.id, followingIds);
 
-      setSuggestedUsers(usersWithCounts.sort((a, b) => (b.followers_count || 0) - (a.followers_count || 0)));
+    if (error) {
+      console.error('Error loading suggested users:', error);
+    } else {
+      await loadFollowState(user.id, users, followingIds);
+      setSuggestedUsers(users);
     }
 
     setLoading(false);
   };
 
-  const loadTrendingPosts = async () => {
-    const oneDayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
-
-    const { data } = await supabase
-      .from('posts')
-      .select(`
-        *,
-        profiles(*),
-        likes(user_id),
-        comments(id)
-      `)
-      .gte('created_at', oneDayAgo)
-      .order('created_at', { ascending: false })
-      .limit(10);
+  const loadTrendingTags = async () => {
+    const { data: tags, error } = await listTrendingHashtags(TRENDING_TAGS_WINDOW_HOURS);
 
-    if (data) {
-      const sorted = data.sort((a, b) => {
-        const scoreA = (a.likes?.length || 0) * 2 + (a.comments?.length || 0);
-        const scoreB = (b.likes?.length || 0) * 2 + (b.comments?.length || 0);
-        return scoreB - scoreA;
-      });
-
-      setTrendingPosts(sorted);
+    if (error) {
+      console.error('Error loading trending tags:', error);
+    } else {
+      setTrendingTags(tags);
     }
   };
 
@@ -111,117 +113,18 @@ export default function ExplorePage() {
 
     setSearching(true);
 
-    const { data: users } = await supabase
-      .from('profiles')
-      .select('*')
-      .or(`username.ilike.%${searchQuery}%,full_name.ilike.%${searchQuery}%`)
-      .neq('id', user?.id || '')
-      .limit(10);
-
-    if (users) {
-      const usersWithFollowStatus = await Promise.all(
-        users.map(async (u) => {
-          const { count } = await supabase
-            .from('follows')
-            .select('*', { count: 'exact', head: true })
-            .eq('following_id', u.id);
-
-          let isFollowing = false;
-          if (user) {
-            const { data } = await supabase
-              .from('follows')
-              .select('*')
-              .eq('follower_id', user.id)
-              .eq('following_id', u.id)
-              .maybeSingle();
-
-            isFollowing = !!data;
-          }
-
-          return { ...u, followers_count: count || 0, is_following: isFollowing };
-        })
-      );
-
-      setSearchResults(usersWithFollowStatus);
-    }
-
-    setSearching(false);
-  };
-
-  const handleFollow = async (profileId: string, isFollowing: boolean) => {
-    if (!user) return;
-
-    if (isFollowing) {
-      await supabase
-        .from('follows')
-        .delete()
-        .eq('follower_id', user.id)
-        .eq('following_id', profileId);
+    const { data: users, error } = await searchProfiles(searchQuery, user?.id || '');
 
-      await supabase.from('notifications').delete()
-        .eq('user_id', profileId)
-        .eq('actor_id', user.id)
-        .eq('type', 'follow');
+    if (error) {
+      console.error('Error searching users:', error);
     } else {
-      await supabase
-        .from('follows')
-        .insert({
-          follower_id: user.id,
-          following_id: profileId,
-        });
-
-      await supabase.from('notifications').insert({
-        user_id: profileId,
-        actor_id: user.id,
-        type: 'follow',
-      });
+      if (user) await loadFollowState(user.id, users);
+      setSearchResults(users);
     }
 
-    if (searchQuery.trim()) {
-      handleSearch();
-    } else {
-      loadSuggestedUsers();
-    }
+    setSearching(false);
   };
 
-  const UserCard = ({ user: profile }: { user: Profile }) => (
-    <div className="flex items-center gap-3 p-4 bg-white rounded-lg shadow-sm hover:shadow-md transition">
-      <a href={`/profile/${profile.username}`}>
-        <div
-          className="w-12 h-12 rounded-full bg-gray-300 flex items-center justify-center text-lg font-bold text-white"
-          style={{
-            backgroundImage: profile.avatar_url ? `url(${profile.avatar_url})` : undefined,
-            backgroundSize: 'cover',
-            backgroundPosition: 'center',
-          }}
-        >
-          {!profile.avatar_url && profile.username.charAt(0).toUpperCase()}
-        </div>
-      </a>
-      <div className="flex-1 min-w-0">
-        <a href={`/profile/${profile.username}`} className="hover:underline">
-          <p className="font-semibold text-gray-900 truncate">
-            {profile.full_name || profile.username}
-          </p>
-          <p className="text-sm text-gray-600 truncate">@{profile.username}</p>
-        </a>
-        {profile.followers_count !== undefined && (
-          <p className="text-xs text-gray-500">{profile.followers_count} followers</p>
-        )}
-      </div>
-      <button
-        onClick={() => handleFollow(profile.id, profile.is_following || false)}
-        className={`px-4 py-2 rounded-lg text-sm font-medium transition ${
-          profile.is_following
-            ? 'border border-gray-300 text-gray-700 hover:bg-gray-50'
-            : 'bg-blue-600 text-white hover:bg-blue-700'
-        }`}
-      >
-        {profile.is_following ? 'Following' : 'Follow'}
-      </button>
-    </div>
-  );
-
   if (loading) {
     return (
       <div className="max-w-4xl mx-auto p-4">
@@ -272,6 +175,29 @@ export default function ExplorePage() {
         </div>
       ) : null}
 
+      {!searchQuery.trim() && trendingTags.length > 0 && (
+        <div className="mb-8">
+          <h2 className="text-xl font-bold text-gray-900 mb-4 flex items-center gap-2">
+            <Hash className="w-5 h-5" />
+            Trending Tags
+          </h2>
+          <div className="flex flex-wrap gap-2">
+            {trendingTags.map(({ tag, posts_count }) => (
+              <Link
+                key={tag}
+                to={tagPath(tag)}
+                className="px-4 py-2 bg-white rounded-full shadow-sm hover:bg-blue-50 transition"
+              >
+                <span className="font-medium text-blue-600">#{tag}</span>
+                <span className="ml-2 text-sm text-gray-500">
+                  {posts_count} {posts_count === 1 ? 'post' : 'posts'}
+                </span>
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+
       {!searchQuery.trim() && suggestedUsers.length > 0 && (
         <div className="mb-8">
           <h2 className="text-xl font-bold text-gray-900 mb-4 flex items-center gap-2">
@@ -286,17 +212,22 @@ export default function ExplorePage() {
         </div>
       )}
 
-      {!searchQuery.trim() && trendingPosts.length > 0 && (
+      {!searchQuery.trim() && trendingPostIds.length > 0 && (
         <div>
           <h2 className="text-xl font-bold text-gray-900 mb-4 flex items-center gap-2">
             <TrendingUp className="w-5 h-5" />
             Trending Posts
           </h2>
           <div className="space-y-4">
-            {trendingPosts.map((post) => (
-              <PostCard key={post.id} post={post} onUpdate={loadTrendingPosts} />
+            {trendingPostIds.map((id) => (
+              <PostCard key={id} postId={id} />
             ))}
           </div>
+          <InfiniteScrollSentinel
+            onVisible={loadMoreTrending}
+            hasMore={hasMoreTrending}
+            loading={loadingMoreTrending}
+          />
         </div>
       )}
     </div>
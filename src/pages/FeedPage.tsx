@@ -1,71 +1,101 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { supabase } from '../lib/supabase';
-import type { Database } from '../lib/database.types';
+import { listFeedPosts, listFollowingIds, subscribeToPostChanges } from '../lib/api';
+import { usePaginatedPosts } from '../lib/pagination';
+import { evictPost, mergePostRow, useFollowEdges } from '../lib/store';
+import { onOutboxDelivered, useOutbox } from '../lib/outbox';
 import PostCard from '../components/PostCard';
 import CreatePost from '../components/CreatePost';
-import { Users } from 'lucide-react';
-
-type Profile = Database['public']['Tables']['profiles']['Row'];
-type Post = Database['public']['Tables']['posts']['Row'] & {
-  profiles: Profile;
-  likes: { user_id: string }[];
-  comments: { id: string }[];
-};
+import PendingPostCard from '../components/PendingPostCard';
+import InfiniteScrollSentinel from '../components/InfiniteScrollSentinel';
+import Link from '../components/Link';
+import { paths } from '../lib/router';
+import { ArrowUp, Users } from 'lucide-react';
 
 export default function FeedPage() {
   const { user } = useAuth();
-  const [posts, setPosts] = useState<Post[]>([]);
-  const [loading, setLoading] = useState(true);
+  // Ids of followed users' posts that arrived since the list was last brought up to date.
+  const [newPostIds, setNewPostIds] = useState<string[]>([]);
+
+  const pendingPosts = useOutbox('post');
+
+  const { postIds, repostedBy, loading, loadingMore, loadingNewer, hasMore, reload, loadMore, loadNewer } =
+    usePaginatedPosts(listFeedPosts);
+
+  // The viewer's own posts arrive through the outbox rather than the pill.
+  useEffect(() => onOutboxDelivered((entry) => {
+    if (entry.kind === 'post') loadNewer();
+  }), [loadNewer]);
 
   useEffect(() => {
     if (user) {
-      loadFeed();
-      subscribeToNewPosts();
+      setNewPostIds([]);
+      reload();
     }
-  }, [user]);
+  }, [user, reload]);
+
+  // Who the viewer followed when the page opened; follows and unfollows since
+  // then come from the store, so the subscription tracks them.
+  const [initialFollowingIds, setInitialFollowingIds] = useState<string[] | null>(null);
+  const followEdges = useFollowEdges(user?.id);
 
-  const loadFeed = async () => {
+  useEffect(() => {
     if (!user) return;
 
-    const { data: followingData } = await supabase
-      .from('follows')
-      .select('following_id')
-      .eq('follower_id', user.id);
-
-    const followingIds = followingData?.map(f => f.following_id) || [];
-    const userIds = [user.id, ...followingIds];
-
-    const { data: postsData } = await supabase
-      .from('posts')
-      .select(`
-        *,
-        profiles(*),
-        likes(user_id),
-        comments(id)
-      `)
-      .in('user_id', userIds)
-      .order('created_at', { ascending: false });
-
-    setPosts(postsData || []);
-    setLoading(false);
-  };
+    let cancelled = false;
+    setInitialFollowingIds(null);
 
-  const subscribeToNewPosts = () => {
-    const subscription = supabase
-      .channel('posts_changes')
-      .on(
-        'postgres_changes',
-        { event: '*', schema: 'public', table: 'posts' },
-        () => {
-          loadFeed();
-        }
-      )
-      .subscribe();
+    listFollowingIds(user.id).then(({ data, error }) => {
+      if (cancelled) return;
+      if (error) {
+        console.error('Error loading follows:', error);
+        return;
+      }
+      setInitialFollowingIds(data);
+    });
 
     return () => {
-      subscription.unsubscribe();
+      cancelled = true;
     };
+  }, [user]);
+
+  // A stable key for the set of authors to listen to.
+  const audienceKey = useMemo(() => {
+    if (!user || !initialFollowingIds) return null;
+
+    const ids = new Set([user.id, ...initialFollowingIds]);
+    for (const [followingId, isFollowing] of Object.entries(followEdges)) {
+      if (isFollowing) ids.add(followingId);
+      else if (followingId !== user.id) ids.delete(followingId);
+    }
+    return [...ids].sort().join(',');
+  }, [user, initialFollowingIds, followEdges]);
+
+  useEffect(() => {
+    if (!user || !audienceKey) return;
+
+    return subscribeToPostChanges('feed_posts', audienceKey.split(','), {
+      onInsert: (post) => {
+        // The viewer's own posts are pulled in when the outbox delivers them.
+        if (post.user_id === user.id) return;
+        setNewPostIds((ids) => (ids.includes(post.id) ? ids : [...ids, post.id]));
+      },
+      onUpdate: mergePostRow,
+      onDelete: (id) => {
+        evictPost(id);
+        setNewPostIds((ids) => ids.filter((newId) => newId !== id));
+      },
+    });
+  }, [user, audienceKey]);
+
+  const handleLoadNewer = async () => {
+    setNewPostIds([]);
+    await loadNewer();
+  };
+
+  const handleShowNewPosts = async () => {
+    await handleLoadNewer();
+    window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
   if (loading) {
@@ -94,25 +124,49 @@ export default function FeedPage() {
 
   return (
     <div className="max-w-2xl mx-auto p-4 pb-20">
-      <CreatePost onPostCreated={loadFeed} />
+      <CreatePost />
+
+      {(newPostIds.length > 0 || loadingNewer) && (
+        <div className="sticky top-20 z-40 flex justify-center h-0">
+          <button
+            onClick={handleShowNewPosts}
+            disabled={loadingNewer}
+            className="inline-flex items-center gap-2 px-4 py-2 mt-2 bg-blue-600 text-white rounded-full shadow-lg text-sm font-medium hover:bg-blue-700 transition disabled:opacity-50"
+          >
+            <ArrowUp className="w-4 h-4" />
+            {loadingNewer
+              ? 'Loading...'
+              : `${newPostIds.length} new ${newPostIds.length === 1 ? 'post' : 'posts'}`}
+          </button>
+        </div>
+      )}
 
       <div className="space-y-4 mt-6">
-        {posts.length === 0 ? (
+        {pendingPosts
+          .slice()
+          .reverse()
+          .map((entry) => (
+            <PendingPostCard key={entry.id} entry={entry} />
+          ))}
+
+        {postIds.length === 0 && pendingPosts.length === 0 ? (
           <div className="bg-white rounded-lg shadow-sm p-12 text-center">
             <Users className="w-12 h-12 text-gray-400 mx-auto mb-4" />
             <h3 className="text-lg font-semibold text-gray-900 mb-2">Your feed is empty</h3>
             <p className="text-gray-600 mb-4">Follow other users to see their posts here</p>
-            <a
-              href="/explore"
+            <Link
+              to={paths.explore}
               className="inline-block px-6 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition"
             >
               Explore Users
-            </a>
+            </Link>
           </div>
         ) : (
-          posts.map((post) => <PostCard key={post.id} post={post} onUpdate={loadFeed} />)
+          postIds.map((id) => <PostCard key={id} postId={id} repostedBy={repostedBy[id]} />)
         )}
       </div>
+
+      <InfiniteScrollSentinel onVisible={loadMore} hasMore={hasMore} loading={loadingMore} />
     </div>
   );
 }
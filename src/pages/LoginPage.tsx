@@ -1,5 +1,8 @@
 import { useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
+import { useRouter } from '../contexts/RouterContext';
+import Link from '../components/Link';
+import { paths } from '../lib/router';
 import { LogIn } from 'lucide-react';
 
 export default function LoginPage() {
@@ -8,6 +11,7 @@ export default function LoginPage() {
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
   const { signIn } = useAuth();
+  const { location } = useRouter();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -24,7 +28,7 @@ export default function LoginPage() {
         // Successfully signed in - the AuthContext will handle the state update
         // No need to manually redirect, the App component will handle it
       }
-    } catch (err) {
+    } catch {
       setError('An unexpected error occurred');
       setLoading(false);
     }
@@ -90,9 +94,9 @@ export default function LoginPage() {
           </form>
 
           <div className="mt-6 text-center">
-            <a href="/signup" className="text-sm text-blue-600 hover:text-blue-700 font-medium">
+            <Link to={`${paths.signup}${location.search}`} className="text-sm text-blue-600 hover:text-blue-700 font-medium">
               Don't have an account? Sign up
-            </a>
+            </Link>
           </div>
         </div>
       </div>
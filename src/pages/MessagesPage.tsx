@@ -1,20 +1,25 @@
 import { useEffect, useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
+import {
+  createConversation,
+  findConversation,
+  getOtherParticipantId,
+  listConversations,
+  listMessages,
+  markConversationRead,
+  searchProfilesByUsername,
+  type ConversationWithParticipant as Conversation,
+  type MessageWithSender as Message,
+  type Profile,
+} from '../lib/api';
+import { enqueue, onOutboxDelivered, useOutbox } from '../lib/outbox';
 import { Send, ArrowLeft, Plus, X } from 'lucide-react';
-import type { Database } from '../lib/database.types';
-
-type Profile = Database['public']['Tables']['profiles']['Row'];
-type Conversation = Database['public']['Tables']['conversations']['Row'] & {
-  other_user?: Profile;
-  unread_count?: number;
-};
-type Message = Database['public']['Tables']['messages']['Row'] & {
-  profiles: Profile;
-};
+import OutboxItemStatus from '../components/OutboxItemStatus';
+import RichText from '../components/RichText';
 
 export default function MessagesPage() {
-  const { user, profile } = useAuth();
+  const { user } = useAuth();
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [selectedConversation, setSelectedConversation] = useState<Conversation | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
@@ -23,6 +28,9 @@ export default function MessagesPage() {
   const [showNewConversation, setShowNewConversation] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<Profile[]>([]);
+  const pendingMessages = useOutbox('message').filter(
+    (entry) => entry.row.conversation_id === selectedConversation?.id
+  );
 
   useEffect(() => {
     if (user) {
@@ -38,68 +46,47 @@ export default function MessagesPage() {
     }
   }, [selectedConversation]);
 
+  useEffect(() => onOutboxDelivered((entry) => {
+    if (entry.kind !== 'message') return;
+
+    if (entry.row.conversation_id === selectedConversation?.id) {
+      loadMessages(entry.row.conversation_id);
+    }
+    loadConversations();
+  }), [selectedConversation]);
+
   const loadConversations = async () => {
     if (!user) return;
 
-    const { data } = await supabase
-      .from('conversations')
-      .select('*')
-      .or(`user1_id.eq.${user.id},user2_id.eq.${user.id}`)
-      .order('last_message_at', { ascending: false });
-
-    if (data) {
-      const conversationsWithUsers = await Promise.all(
-        data.map(async (conv) => {
-          const otherUserId = conv.user1_id === user.id ? conv.user2_id : conv.user1_id;
-
-          const { data: otherUser } = await supabase
-            .from('profiles')
-            .select('*')
-            .eq('id', otherUserId)
-            .maybeSingle();
-
-          const { count } = await supabase
-            .from('messages')
-            .select('*', { count: 'exact', head: true })
-            .eq('conversation_id', conv.id)
-            .eq('is_read', false)
-            .neq('sender_id', user.id);
-
-          return {
-            ...conv,
-            other_user: otherUser,
-            unread_count: count || 0,
-          };
-        })
-      );
+    const { data, error } = await listConversations(user.id);
 
-      setConversations(conversationsWithUsers);
+    if (error) {
+      console.error('Error loading conversations:', error);
+      return;
     }
+
+    setConversations(data);
   };
 
   const loadMessages = async (conversationId: string) => {
-    const { data } = await supabase
-      .from('messages')
-      .select(`
-        *,
-        profiles(*)
-      `)
-      .eq('conversation_id', conversationId)
-      .order('created_at', { ascending: true });
-
-    setMessages(data || []);
+    const { data, error } = await listMessages(conversationId);
+
+    if (error) {
+      console.error('Error loading messages:', error);
+      return;
+    }
+
+    setMessages(data);
   };
 
   const markMessagesAsRead = async (conversationId: string) => {
     if (!user) return;
 
-    const { error } = await supabase
-      .from('messages')
-      .update({ is_read: true })
-      .eq('conversation_id', conversationId)
-      .neq('sender_id', user.id);
+    const { error } = await markConversationRead(conversationId, user.id);
 
-    if (!error) {
+    if (error) {
+      console.error('Error marking messages as read:', error);
+    } else {
       loadConversations();
       window.dispatchEvent(new Event('refreshCounters'));
     }
@@ -129,26 +116,23 @@ export default function MessagesPage() {
 
     setLoading(true);
 
-    const { error } = await supabase.from('messages').insert({
-      conversation_id: selectedConversation.id,
-      sender_id: user.id,
-      content: newMessage.trim(),
-    });
-
-    if (!error) {
+    try {
+      await enqueue(
+        'message',
+        {
+          conversation_id: selectedConversation.id,
+          sender_id: user.id,
+          content: newMessage.trim(),
+        },
+        {
+          user_id: getOtherParticipantId(selectedConversation, user.id),
+          actor_id: user.id,
+          type: 'message',
+        }
+      );
       setNewMessage('');
-      loadMessages(selectedConversation.id);
-      loadConversations();
-
-      const recipientId = selectedConversation.user1_id === user.id
-        ? selectedConversation.user2_id
-        : selectedConversation.user1_id;
-
-      await supabase.from('notifications').insert({
-        user_id: recipientId,
-        actor_id: user.id,
-        type: 'message',
-      });
+    } catch (error) {
+      console.error('Error sending message:', error);
     }
 
     setLoading(false);
@@ -160,24 +144,20 @@ export default function MessagesPage() {
       return;
     }
 
-    const { data } = await supabase
-      .from('profiles')
-      .select('*')
-      .neq('id', user?.id || '')
-      .ilike('username', `%${query}%`)
-      .limit(10);
+    const { data, error } = await searchProfilesByUsername(query, user?.id || '');
+
+    if (error) {
+      console.error('Error searching users:', error);
+      return;
+    }
 
-    setSearchResults(data || []);
+    setSearchResults(data);
   };
 
   const startConversation = async (otherUser: Profile) => {
     if (!user) return;
 
-    const { data: existingConv } = await supabase
-      .from('conversations')
-      .select('*')
-      .or(`and(user1_id.eq.${user.id},user2_id.eq.${otherUser.id}),and(user1_id.eq.${otherUser.id},user2_id.eq.${user.id})`)
-      .maybeSingle();
+    const { data: existingConv } = await findConversation(user.id, otherUser.id);
 
     if (existingConv) {
       const conversationWithUser = {
@@ -190,16 +170,11 @@ export default function MessagesPage() {
       setSearchQuery('');
       setSearchResults([]);
     } else {
-      const { data: newConv } = await supabase
-        .from('conversations')
-        .insert({
-          user1_id: user.id,
-          user2_id: otherUser.id,
-        })
-        .select()
-        .single();
-
-      if (newConv) {
+      const { data: newConv, error } = await createConversation(user.id, otherUser.id);
+
+      if (error) {
+        console.error('Error starting conversation:', error);
+      } else {
         const conversationWithUser = {
           ...newConv,
           other_user: otherUser,
@@ -330,7 +305,7 @@ export default function MessagesPage() {
                           isMine ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-900'
                         }`}
                       >
-                        <p className="break-words">{message.content}</p>
+                        <RichText text={message.content} inverted={isMine} />
                       </div>
                       <p className={`text-xs text-gray-500 mt-1 ${isMine ? 'text-right' : 'text-left'}`}>
                         {formatDate(message.created_at)}
@@ -339,6 +314,20 @@ export default function MessagesPage() {
                   </div>
                 );
               })}
+              {pendingMessages.map((entry) => (
+                <div key={entry.id} className="flex justify-end">
+                  <div className="max-w-xs lg:max-w-md">
+                    <div
+                      className={`px-4 py-2 rounded-2xl bg-blue-600 text-white ${
+                        entry.status === 'pending' ? 'opacity-60' : ''
+                      }`}
+                    >
+                      <RichText text={entry.row.content} inverted />
+                    </div>
+                    <OutboxItemStatus entry={entry} className="justify-end mt-1" />
+                  </div>
+                </div>
+              ))}
             </div>
 
             <form onSubmit={handleSendMessage} className="p-4 border-t border-gray-200 flex gap-3">
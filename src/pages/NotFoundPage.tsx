@@ -0,0 +1,21 @@
+import { Compass } from 'lucide-react';
+import Link from '../components/Link';
+import { paths } from '../lib/router';
+
+export default function NotFoundPage() {
+  return (
+    <div className="max-w-2xl mx-auto p-4 pb-20">
+      <div className="bg-white rounded-lg shadow-sm p-12 text-center">
+        <Compass className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+        <h1 className="text-lg font-semibold text-gray-900 mb-2">Page not found</h1>
+        <p className="text-gray-600 mb-4">The page you're looking for doesn't exist or has been moved.</p>
+        <Link
+          to={paths.feed}
+          className="inline-block px-6 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition"
+        >
+          Back to Home
+        </Link>
+      </div>
+    </div>
+  );
+}
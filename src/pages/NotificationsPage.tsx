@@ -1,14 +1,12 @@
 import { useEffect, useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
-import { Heart, MessageCircle, UserPlus, Bell } from 'lucide-react';
-import type { Database } from '../lib/database.types';
+import { listNotifications, markAllNotificationsRead, type NotificationWithRelations } from '../lib/api';
+import { AtSign, BarChart2, Heart, MessageCircle, Quote, Repeat2, UserPlus, Bell } from 'lucide-react';
+import Link from '../components/Link';
+import { paths, postPath, profilePath } from '../lib/router';
 
-type Profile = Database['public']['Tables']['profiles']['Row'];
-type Notification = Database['public']['Tables']['notifications']['Row'] & {
-  actor: Profile;
-  post?: { content: string };
-};
+type Notification = NotificationWithRelations;
 
 export default function NotificationsPage() {
   const { user } = useAuth();
@@ -26,31 +24,25 @@ export default function NotificationsPage() {
   const loadNotifications = async () => {
     if (!user) return;
 
-    const { data } = await supabase
-      .from('notifications')
-      .select(`
-        *,
-        actor:profiles!notifications_actor_id_fkey(*),
-        post:posts(content)
-      `)
-      .eq('user_id', user.id)
-      .order('created_at', { ascending: false })
-      .limit(50);
-
-    setNotifications(data || []);
+    const { data, error } = await listNotifications(user.id);
+
+    if (error) {
+      console.error('Error loading notifications:', error);
+    } else {
+      setNotifications(data);
+    }
+
     setLoading(false);
   };
 
   const markAllAsRead = async () => {
     if (!user) return;
 
-    const { error } = await supabase
-      .from('notifications')
-      .update({ is_read: true })
-      .eq('user_id', user.id)
-      .eq('is_read', false);
+    const { error } = await markAllNotificationsRead(user.id);
 
-    if (!error) {
+    if (error) {
+      console.error('Error marking notifications as read:', error);
+    } else {
       window.dispatchEvent(new Event('refreshCounters'));
     }
   };
@@ -84,6 +76,14 @@ export default function NotificationsPage() {
         return <UserPlus className="w-5 h-5 text-green-600" />;
       case 'message':
         return <MessageCircle className="w-5 h-5 text-purple-600" />;
+      case 'mention':
+        return <AtSign className="w-5 h-5 text-blue-600" />;
+      case 'repost':
+        return <Repeat2 className="w-5 h-5 text-green-600" />;
+      case 'quote':
+        return <Quote className="w-5 h-5 text-green-600" />;
+      case 'poll':
+        return <BarChart2 className="w-5 h-5 text-blue-600" />;
       default:
         return <Bell className="w-5 h-5 text-gray-600" />;
     }
@@ -96,7 +96,7 @@ export default function NotificationsPage() {
       case 'like':
         return (
           <>
-            <span className="font-semibold">{actorName}</span> liked your post
+            <span className="font-semibold">{actorName}</span> reacted to your post
             {notification.post && (
               <p className="text-sm text-gray-600 mt-1 line-clamp-1">
                 "{notification.post.content}"
@@ -115,10 +115,55 @@ export default function NotificationsPage() {
             )}
           </>
         );
+      case 'repost':
+        return (
+          <>
+            <span className="font-semibold">{actorName}</span> reposted your post
+            {notification.post && (
+              <p className="text-sm text-gray-600 mt-1 line-clamp-1">
+                "{notification.post.content}"
+              </p>
+            )}
+          </>
+        );
+      case 'quote':
+        // post_id is the quote itself, so the excerpt is their commentary.
+        return (
+          <>
+            <span className="font-semibold">{actorName}</span> quoted your post
+            {notification.post && (
+              <p className="text-sm text-gray-600 mt-1 line-clamp-1">
+                "{notification.post.content}"
+              </p>
+            )}
+          </>
+        );
+      case 'poll':
+        // Sent by `close_ended_polls` with the author as the actor.
+        return (
+          <>
+            Your poll has ended
+            {notification.post && (
+              <p className="text-sm text-gray-600 mt-1 line-clamp-1">
+                "{notification.post.content}"
+              </p>
+            )}
+          </>
+        );
       case 'follow':
         return <><span className="font-semibold">{actorName}</span> started following you</>;
       case 'message':
         return <><span className="font-semibold">{actorName}</span> sent you a message</>;
+      case 'mention': {
+        const excerpt = notification.comment?.content ?? notification.post?.content;
+        return (
+          <>
+            <span className="font-semibold">{actorName}</span> mentioned you in a{' '}
+            {notification.comment_id ? 'comment' : 'post'}
+            {excerpt && <p className="text-sm text-gray-600 mt-1 line-clamp-1">"{excerpt}"</p>}
+          </>
+        );
+      }
       default:
         return <><span className="font-semibold">{actorName}</span> interacted with you</>;
     }
@@ -127,11 +172,22 @@ export default function NotificationsPage() {
   const getNotificationLink = (notification: Notification) => {
     switch (notification.type) {
       case 'follow':
-        return `/profile/${notification.actor.username}`;
+        return profilePath(notification.actor.username);
       case 'message':
-        return '/messages';
+        return paths.messages;
+      case 'like':
+      case 'comment':
+      case 'repost':
+      case 'quote':
+      case 'poll':
+        return notification.post_id ? postPath(notification.post_id) : profilePath(notification.actor.username);
+      case 'mention':
+        if (!notification.post_id) return profilePath(notification.actor.username);
+        return notification.comment_id
+          ? `${postPath(notification.post_id)}#comment-${notification.comment_id}`
+          : postPath(notification.post_id);
       default:
-        return `/profile/${notification.actor.username}`;
+        return profilePath(notification.actor.username);
     }
   };
 
@@ -180,9 +236,9 @@ export default function NotificationsPage() {
       ) : (
         <div className="space-y-2">
           {notifications.map((notification) => (
-            <a
+            <Link
               key={notification.id}
-              href={getNotificationLink(notification)}
+              to={getNotificationLink(notification)}
               className={`block bg-white rounded-lg shadow-sm p-4 hover:bg-gray-50 transition ${
                 !notification.is_read ? 'border-l-4 border-blue-600' : ''
               }`}
@@ -211,7 +267,7 @@ export default function NotificationsPage() {
                   </div>
                 </div>
               </div>
-            </a>
+            </Link>
           ))}
         </div>
       )}
@@ -0,0 +1,115 @@
+import { useEffect, useState } from 'react';
+import { useRouter } from '../contexts/RouterContext';
+import { getPost } from '../lib/api';
+import { evictPost, ingestPosts, usePost } from '../lib/store';
+import { AlertCircle, ArrowLeft, FileX } from 'lucide-react';
+import PostCard from '../components/PostCard';
+import Link from '../components/Link';
+import { paths } from '../lib/router';
+
+interface PostPageProps {
+  id: string;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export default function PostPage({ id }: PostPageProps) {
+  const { navigate } = useRouter();
+  const post = usePost(id);
+  const [loading, setLoading] = useState(true);
+  // Set when the post couldn't be fetched, as opposed to not existing.
+  const [loadError, setLoadError] = useState(false);
+
+  useEffect(() => {
+    setLoading(true);
+    loadPost();
+  }, [id]);
+
+  const loadPost = async () => {
+    // Malformed ids would make Postgres reject the uuid cast; treat them as missing instead.
+    if (!UUID_PATTERN.test(id)) {
+      setLoadError(false);
+      setLoading(false);
+      return;
+    }
+
+    const { data, error } = await getPost(id);
+
+    setLoadError(!!error);
+    if (error) {
+      console.error('Error fetching post:', error);
+    } else if (data) {
+      ingestPosts([data]);
+    } else {
+      evictPost(id);
+    }
+
+    setLoading(false);
+  };
+
+  if (loading && !post) {
+    return (
+      <div className="max-w-2xl mx-auto p-4">
+        <div className="bg-white rounded-lg shadow-sm p-6 animate-pulse">
+          <div className="flex items-center gap-3 mb-4">
+            <div className="w-12 h-12 bg-gray-200 rounded-full"></div>
+            <div className="flex-1">
+              <div className="h-4 bg-gray-200 rounded w-32 mb-2"></div>
+              <div className="h-3 bg-gray-200 rounded w-24"></div>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <div className="h-4 bg-gray-200 rounded"></div>
+            <div className="h-4 bg-gray-200 rounded w-5/6"></div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto p-4 pb-20">
+      <div className="mb-4">
+        <button
+          onClick={() => (window.history.length > 1 ? window.history.back() : navigate(paths.feed))}
+          className="inline-flex items-center gap-2 text-gray-600 hover:text-gray-900 transition"
+        >
+          <ArrowLeft className="w-5 h-5" />
+          Back
+        </button>
+      </div>
+
+      {post ? (
+        <PostCard postId={post.id} expanded />
+      ) : loadError ? (
+        <div className="bg-white rounded-lg shadow-sm p-12 text-center">
+          <AlertCircle className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <h1 className="text-lg font-semibold text-gray-900 mb-2">Couldn't load this post</h1>
+          <p className="text-gray-600 mb-4">Check your connection and try again.</p>
+          <button
+            onClick={() => {
+              setLoading(true);
+              loadPost();
+            }}
+            disabled={loading}
+            className="px-6 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition disabled:opacity-50"
+          >
+            Try again
+          </button>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow-sm p-12 text-center">
+          <FileX className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <h1 className="text-lg font-semibold text-gray-900 mb-2">This post isn't available</h1>
+          <p className="text-gray-600 mb-4">It may have been deleted, or the link may be incorrect.</p>
+          <Link
+            to={paths.feed}
+            className="inline-block px-6 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition"
+          >
+            Back to Home
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,16 +1,31 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { supabase } from '../lib/supabase';
+import {
+  getPost,
+  getProfileByUsername,
+  isFollowing as checkIsFollowing,
+  listPostsByUser,
+  type PageOptions,
+  type Profile,
+} from '../lib/api';
+import { toggleFollow } from '../lib/actions';
+import {
+  ingestFollows,
+  ingestPosts,
+  ingestProfiles,
+  useFollowerCount,
+  useFollowingCount,
+  useIsFollowing,
+  usePinnedPostId,
+  usePost,
+  usePostCount,
+} from '../lib/store';
 import { Calendar, MapPin, Link as LinkIcon, Edit3, Users } from 'lucide-react';
-import type { Database } from '../lib/database.types';
 import PostCard from '../components/PostCard';
-
-type Profile = Database['public']['Tables']['profiles']['Row'];
-type Post = Database['public']['Tables']['posts']['Row'] & {
-  profiles: Profile;
-  likes: { user_id: string }[];
-  comments: { id: string }[];
-};
+import InfiniteScrollSentinel from '../components/InfiniteScrollSentinel';
+import Link from '../components/Link';
+import { paths } from '../lib/router';
+import { usePaginatedPosts } from '../lib/pagination';
 
 interface ProfilePageProps {
   username?: string;
@@ -19,16 +34,54 @@ interface ProfilePageProps {
 export default function ProfilePage({ username }: ProfilePageProps) {
   const { user, profile: currentUserProfile } = useAuth();
   const [profile, setProfile] = useState<Profile | null>(null);
-  const [posts, setPosts] = useState<Post[]>([]);
   const [loading, setLoading] = useState(true);
-  const [followersCount, setFollowersCount] = useState(0);
-  const [followingCount, setFollowingCount] = useState(0);
-  const [isFollowing, setIsFollowing] = useState(false);
   const [followLoading, setFollowLoading] = useState(false);
+  const followersCount = useFollowerCount(profile?.id ?? '') ?? 0;
+  const followingCount = useFollowingCount(profile?.id ?? '') ?? 0;
+  const postsCount = usePostCount(profile?.id ?? '') ?? 0;
+  const isFollowing = useIsFollowing(user?.id, profile?.id ?? '') ?? false;
+  const pinnedPostId = usePinnedPostId(profile?.id ?? '') ?? null;
+  const pinnedPost = usePost(pinnedPostId ?? '');
 
   const isOwnProfile = !username || username === currentUserProfile?.username;
   const targetUsername = username || currentUserProfile?.username;
 
+  const profileId = profile?.id;
+  // Pinning or unpinning reloads the list, which leaves the pinned post out.
+  const fetchPage = useCallback(
+    (page: PageOptions) => listPostsByUser(profileId ?? '', page, pinnedPostId),
+    [profileId, pinnedPostId]
+  );
+  const {
+    postIds,
+    loading: postsLoading,
+    loadingMore,
+    hasMore,
+    reload: reloadPosts,
+    loadMore,
+  } = usePaginatedPosts(fetchPage);
+
+  // Until the reload after pinning comes back.
+  const listedPostIds = postIds.filter((id) => id !== pinnedPostId);
+
+  useEffect(() => {
+    if (profileId) {
+      reloadPosts();
+    }
+  }, [profileId, reloadPosts]);
+
+  useEffect(() => {
+    if (!pinnedPostId) return;
+
+    getPost(pinnedPostId).then(({ data, error }) => {
+      if (error) {
+        console.error('Error loading pinned post:', error);
+      } else if (data) {
+        ingestPosts([data]);
+      }
+    });
+  }, [pinnedPostId]);
+
   useEffect(() => {
     if (targetUsername) {
       loadProfile();
@@ -36,113 +89,35 @@ export default function ProfilePage({ username }: ProfilePageProps) {
   }, [targetUsername]);
 
   const loadProfile = async () => {
-    setLoading(true);
+    if (!targetUsername) return;
 
-    const { data: profileData } = await supabase
-      .from('profiles')
-      .select('*')
-      .eq('username', targetUsername)
-      .maybeSingle();
-
-    if (profileData) {
-      setProfile(profileData);
-
-      const { data: postsData } = await supabase
-        .from('posts')
-        .select(`
-          *,
-          profiles(*),
-          likes(user_id),
-          comments(id)
-        `)
-        .eq('user_id', profileData.id)
-        .order('created_at', { ascending: false });
-
-      setPosts(postsData || []);
+    setLoading(true);
 
-      const { count: followersCount } = await supabase
-        .from('follows')
-        .select('*', { count: 'exact', head: true })
-        .eq('following_id', profileData.id);
+    const { data: profileData, error } = await getProfileByUsername(targetUsername);
 
-      setFollowersCount(followersCount || 0);
+    if (error) {
+      console.error('Error loading profile:', error);
+    }
 
-      const { count: followingCount } = await supabase
-        .from('follows')
-        .select('*', { count: 'exact', head: true })
-        .eq('follower_id', profileData.id);
+    setProfile(profileData);
 
-      setFollowingCount(followingCount || 0);
+    if (profileData) {
+      ingestProfiles([profileData]);
 
       if (user && !isOwnProfile) {
-        const { data: followData } = await supabase
-          .from('follows')
-          .select('*')
-          .eq('follower_id', user.id)
-          .eq('following_id', profileData.id)
-          .maybeSingle();
-
-        setIsFollowing(!!followData);
+        const { data: following } = await checkIsFollowing(user.id, profileData.id);
+        ingestFollows(user.id, { [profileData.id]: !!following });
       }
     }
 
     setLoading(false);
   };
 
-  const loadPosts = async () => {
-    if (!profile) return;
-
-    const { data: postsData } = await supabase
-      .from('posts')
-      .select(`
-        *,
-        profiles(*),
-        likes(user_id),
-        comments(id)
-      `)
-      .eq('user_id', profile.id)
-      .order('created_at', { ascending: false });
-
-    setPosts(postsData || []);
-  };
-
   const handleFollow = async () => {
     if (!user || !profile) return;
 
     setFollowLoading(true);
-
-    if (isFollowing) {
-      await supabase
-        .from('follows')
-        .delete()
-        .eq('follower_id', user.id)
-        .eq('following_id', profile.id);
-
-      setIsFollowing(false);
-      setFollowersCount(prev => prev - 1);
-
-      await supabase.from('notifications').delete()
-        .eq('user_id', profile.id)
-        .eq('actor_id', user.id)
-        .eq('type', 'follow');
-    } else {
-      await supabase
-        .from('follows')
-        .insert({
-          follower_id: user.id,
-          following_id: profile.id,
-        });
-
-      setIsFollowing(true);
-      setFollowersCount(prev => prev + 1);
-
-      await supabase.from('notifications').insert({
-        user_id: profile.id,
-        actor_id: user.id,
-        type: 'follow',
-      });
-    }
-
+    await toggleFollow(user.id, profile.id);
     setFollowLoading(false);
   };
 
@@ -200,13 +175,13 @@ export default function ProfilePage({ username }: ProfilePageProps) {
             </div>
 
             {isOwnProfile ? (
-              <a
-                href="/profile/edit"
+              <Link
+                to={paths.editProfile}
                 className="mt-4 px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 transition flex items-center gap-2"
               >
                 <Edit3 className="w-4 h-4" />
                 Edit Profile
-              </a>
+              </Link>
             ) : (
               <button
                 onClick={handleFollow}
@@ -265,7 +240,7 @@ export default function ProfilePage({ username }: ProfilePageProps) {
               <span className="text-gray-600 ml-1">Followers</span>
             </div>
             <div>
-              <span className="font-bold text-gray-900">{posts.length}</span>
+              <span className="font-bold text-gray-900">{postsCount}</span>
               <span className="text-gray-600 ml-1">Posts</span>
             </div>
           </div>
@@ -273,15 +248,27 @@ export default function ProfilePage({ username }: ProfilePageProps) {
       </div>
 
       <div className="space-y-4">
-        {posts.length === 0 ? (
+        {postsLoading ? (
+          <div className="bg-white rounded-lg shadow-sm p-6 animate-pulse">
+            <div className="h-4 bg-gray-200 rounded w-1/3 mb-4"></div>
+            <div className="h-4 bg-gray-200 rounded"></div>
+          </div>
+        ) : listedPostIds.length === 0 && !pinnedPost ? (
           <div className="bg-white rounded-lg shadow-sm p-12 text-center">
             <Users className="w-12 h-12 text-gray-400 mx-auto mb-4" />
             <p className="text-gray-600">No posts yet</p>
           </div>
         ) : (
-          posts.map((post) => <PostCard key={post.id} post={post} onUpdate={loadPosts} />)
+          <>
+            {pinnedPost && <PostCard key={pinnedPost.id} postId={pinnedPost.id} pinned />}
+            {listedPostIds.map((id) => (
+              <PostCard key={id} postId={id} />
+            ))}
+          </>
         )}
       </div>
+
+      <InfiniteScrollSentinel onVisible={loadMore} hasMore={hasMore} loading={loadingMore} />
     </div>
   );
 }
@@ -1,5 +1,8 @@
 import { useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
+import { useRouter } from '../contexts/RouterContext';
+import Link from '../components/Link';
+import { paths } from '../lib/router';
 import { UserPlus } from 'lucide-react';
 
 export default function SignupPage() {
@@ -9,6 +12,7 @@ export default function SignupPage() {
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
   const { signUp } = useAuth();
+  const { location } = useRouter();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -41,7 +45,7 @@ export default function SignupPage() {
         // Successfully signed up - the AuthContext will handle the state update
         // No need to manually redirect, the App component will handle it
       }
-    } catch (err) {
+    } catch {
       setError('An unexpected error occurred');
       setLoading(false);
     }
@@ -123,9 +127,9 @@ export default function SignupPage() {
           </form>
 
           <div className="mt-6 text-center">
-            <a href="/login" className="text-sm text-teal-600 hover:text-teal-700 font-medium">
+            <Link to={`${paths.login}${location.search}`} className="text-sm text-teal-600 hover:text-teal-700 font-medium">
               Already have an account? Sign in
-            </a>
+            </Link>
           </div>
         </div>
       </div>
@@ -0,0 +1,54 @@
+import { useCallback, useEffect } from 'react';
+import { listPostsByHashtag, type PageOptions } from '../lib/api';
+import { normalizeHashtag } from '../lib/hashtags';
+import { usePaginatedPosts } from '../lib/pagination';
+import { Hash } from 'lucide-react';
+import PostCard from '../components/PostCard';
+import InfiniteScrollSentinel from '../components/InfiniteScrollSentinel';
+
+interface TagPageProps {
+  name: string;
+}
+
+export default function TagPage({ name }: TagPageProps) {
+  const tag = normalizeHashtag(name);
+
+  const fetchPage = useCallback((page: PageOptions) => listPostsByHashtag(tag, page), [tag]);
+  const { postIds, loading, loadingMore, hasMore, reload, loadMore } = usePaginatedPosts(fetchPage);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return (
+    <div className="max-w-2xl mx-auto p-4 pb-20">
+      <div className="bg-white rounded-lg shadow-sm p-6 mb-6 flex items-center gap-4">
+        <div className="w-12 h-12 rounded-full bg-blue-50 flex items-center justify-center flex-shrink-0">
+          <Hash className="w-6 h-6 text-blue-600" />
+        </div>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 break-all">#{tag}</h1>
+          <p className="text-sm text-gray-600">Posts tagged #{tag}, newest first</p>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        {loading ? (
+          <div className="bg-white rounded-lg shadow-sm p-6 animate-pulse">
+            <div className="h-4 bg-gray-200 rounded w-1/3 mb-4"></div>
+            <div className="h-4 bg-gray-200 rounded"></div>
+          </div>
+        ) : postIds.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-sm p-12 text-center">
+            <Hash className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600">No posts with #{tag} yet</p>
+          </div>
+        ) : (
+          postIds.map((id) => <PostCard key={id} postId={id} />)
+        )}
+      </div>
+
+      <InfiniteScrollSentinel onVisible={loadMore} hasMore={hasMore} loading={loadingMore} />
+    </div>
+  );
+}
@@ -0,0 +1,506 @@
+// Unfurls a URL into a link preview: fetches the page, reads its OpenGraph
+// (or Twitter card, or plain HTML) metadata and caches the result in
+// `link_previews`, keyed by normalized URL.
+//
+//   POST /functions/v1/unfurl  { "url": "https://example.com/post" }
+//   -> { "preview": { id, url, title, description, image_url, site_name, domain, fetched_at } | null }
+//
+// Requests must carry a signed-in user's JWT (verified by the platform); the
+// cache is written with the service role. Every hop's host is resolved
+// first and refused if any of its addresses is private, loopback,
+// link-local, multicast or otherwise not public; the request then goes to an
+// address that was checked. UNFURL_ALLOW_PRIVATE_HOSTS=true lifts this, and
+// is only meant for trying the function locally against `stub.ts`.
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const FETCH_TIMEOUT_MS = 5000;
+const MAX_REDIRECTS = 3;
+// Metadata lives in <head>; there's no need to read whole pages.
+const MAX_HTML_BYTES = 512 * 1024;
+const MAX_HEADER_BYTES = 32 * 1024;
+
+const ALLOW_PRIVATE_HOSTS = Deno.env.get('UNFURL_ALLOW_PRIVATE_HOSTS') === 'true';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+  auth: { persistSession: false },
+});
+
+interface PageMetadata {
+  title: string | null;
+  description: string | null;
+  image_url: string | null;
+  site_name: string | null;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+// Mirrors `normalizeLinkUrl` in src/lib/links.ts.
+function normalizeLinkUrl(raw: string) {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+
+  url.hash = '';
+  const tracking = [...url.searchParams.keys()].filter((key) => key.toLowerCase().startsWith('utm_'));
+  tracking.forEach((key) => url.searchParams.delete(key));
+  return url.toString();
+}
+
+// Names that never lead anywhere public, refused before any lookup.
+function isPrivateName(hostname: string) {
+  const host = hostname.toLowerCase();
+  return host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal');
+}
+
+const allowedUrl = (url: URL) =>
+  (url.protocol === 'http:' || url.protocol === 'https:') && (ALLOW_PRIVATE_HOSTS || !isPrivateName(url.hostname));
+
+function parseIpv4(address: string) {
+  const parts = address.split('.');
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part) && Number(part) <= 255)) return null;
+  return parts.map(Number);
+}
+
+// The eight 16-bit groups of an IPv6 address, including `::` and a dotted
+// IPv4 tail.
+function parseIpv6(address: string) {
+  let text = address;
+  const tail = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (tail) {
+    const ipv4 = parseIpv4(tail[1]);
+    if (!ipv4) return null;
+    text = `${text.slice(0, -tail[1].length)}${((ipv4[0] << 8) | ipv4[1]).toString(16)}:${((ipv4[2] << 8) | ipv4[3]).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+  const groups = halves.map((half) => (half ? half.split(':') : []));
+  if (!groups.flat().every((group) => /^[0-9a-f]{1,4}$/i.test(group))) return null;
+
+  const missing = 8 - groups.flat().length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+  const all = halves.length === 1 ? groups[0] : [...groups[0], ...Array(missing).fill('0'), ...groups[1]];
+  return all.map((group) => parseInt(group, 16));
+}
+
+// [a, b, c, prefix length] of every IPv4 range a.b.c.0/prefix that isn't
+// public unicast.
+const BLOCKED_IPV4: [number, number, number, number][] = [
+  [0, 0, 0, 8], // "this" network
+  [10, 0, 0, 8], // private
+  [100, 64, 0, 10], // carrier-grade NAT
+  [127, 0, 0, 8], // loopback
+  [169, 254, 0, 16], // link-local, including cloud metadata
+  [172, 16, 0, 12], // private
+  [192, 0, 0, 24], // IETF protocol assignments
+  [192, 0, 2, 24], // documentation
+  [192, 88, 99, 24], // 6to4 relay
+  [192, 168, 0, 16], // private
+  [198, 18, 0, 15], // benchmarking
+  [198, 51, 100, 24], // documentation
+  [203, 0, 113, 24], // documentation
+  [224, 0, 0, 4], // multicast
+  [240, 0, 0, 4], // reserved, including broadcast
+];
+
+function isBlockedIpv4([a, b, c, d]: number[]) {
+  const value = ((a << 24) | (b << 16) | (c << 8) | d) >>> 0;
+  return BLOCKED_IPV4.some(([x, y, z, prefix]) => {
+    const mask = prefix === 0 ? 0 : (~0 << (32 - prefix)) >>> 0;
+    return ((value & mask) >>> 0) === ((((x << 24) | (y << 16) | (z << 8)) >>> 0) & mask) >>> 0;
+  });
+}
+
+// Only global unicast (2000::/3) is reachable, less the ranges inside it
+// that tunnel to or stand for other addresses. That also rules out
+// IPv4-mapped and NAT64 addresses, loopback, unique-local, link-local and
+// multicast.
+function isBlockedIpv6(groups: number[]) {
+  const [first, second] = groups;
+  if ((first & 0xe000) !== 0x2000) return true;
+  return (
+    (first === 0x2001 && second === 0x0db8) || // documentation
+    (first === 0x2001 && second === 0x0000) || // Teredo
+    first === 0x2002 // 6to4
+  );
+}
+
+// Anything that isn't a public unicast address, including what we can't parse.
+function isBlockedAddress(address: string) {
+  const ipv4 = parseIpv4(address);
+  if (ipv4) return isBlockedIpv4(ipv4);
+  const ipv6 = parseIpv6(address.replace(/%.*$/, ''));
+  return !ipv6 || isBlockedIpv6(ipv6);
+}
+
+// The addresses to connect to for `url`, or null when any of them is off
+// limits: one bad record is enough to refuse, as we can't know which one a
+// rebinding resolver meant us to use.
+async function resolveAllowed(url: URL) {
+  if (!allowedUrl(url)) return null;
+
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  // Local testing goes through the system resolver, which knows names like
+  // host.docker.internal.
+  if (ALLOW_PRIVATE_HOSTS) return [host];
+
+  let addresses: string[];
+  if (parseIpv4(host) || host.includes(':')) {
+    addresses = [host];
+  } else {
+    const lookups = await Promise.allSettled([Deno.resolveDns(host, 'A'), Deno.resolveDns(host, 'AAAA')]);
+    addresses = lookups.flatMap((lookup) => (lookup.status === 'fulfilled' ? lookup.value : []));
+  }
+
+  if (addresses.length === 0 || addresses.some(isBlockedAddress)) return null;
+  return addresses;
+}
+
+const encoder = new TextEncoder();
+
+async function writeAll(conn: Deno.Conn, bytes: Uint8Array) {
+  for (let written = 0; written < bytes.length; ) {
+    written += await conn.write(bytes.subarray(written));
+  }
+}
+
+const concat = (chunks: Uint8Array[]) => {
+  const bytes = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+};
+
+const HEADER_END = encoder.encode('\r\n\r\n');
+
+function indexOf(bytes: Uint8Array, needle: Uint8Array, from = 0) {
+  outer: for (let i = from; i <= bytes.length - needle.length; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (bytes[i + j] !== needle[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
+
+// Undoes chunked transfer encoding, keeping what arrived of a cut-off body.
+function dechunk(bytes: Uint8Array) {
+  const chunks: Uint8Array[] = [];
+  let offset = 0;
+
+  while (offset < bytes.length) {
+    const lineEnd = indexOf(bytes, HEADER_END.subarray(0, 2), offset);
+    if (lineEnd === -1) break;
+    const size = parseInt(new TextDecoder().decode(bytes.subarray(offset, lineEnd)), 16);
+    if (!(size > 0)) break;
+    chunks.push(bytes.subarray(lineEnd + 2, Math.min(lineEnd + 2 + size, bytes.length)));
+    offset = lineEnd + 2 + size + 2;
+  }
+
+  return concat(chunks);
+}
+
+// Whether everything the response will send has arrived, for servers that
+// keep the connection open.
+function isComplete(head: Headers, body: Uint8Array) {
+  if (head.get('transfer-encoding')?.toLowerCase().includes('chunked')) {
+    return indexOf(body, encoder.encode('\r\n0\r\n\r\n'), Math.max(0, body.length - 7)) !== -1;
+  }
+  const length = head.get('content-length');
+  return length !== null && body.length >= Number(length);
+}
+
+function parseHead(bytes: Uint8Array) {
+  const [statusLine, ...lines] = new TextDecoder('latin1').decode(bytes).split('\r\n');
+  const status = Number(statusLine.match(/^HTTP\/1\.[01] (\d{3})/)?.[1]);
+  if (!(status >= 200 && status <= 599)) throw new TypeError(`Unexpected response: ${statusLine}`);
+
+  const headers = new Headers();
+  for (const line of lines) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    try {
+      headers.append(line.slice(0, colon).trim(), line.slice(colon + 1).trim());
+    } catch {
+      // Not a valid header; skip it.
+    }
+  }
+  return { status, headers };
+}
+
+// A GET over a connection to `address`, one of the addresses `url`'s host
+// was checked to resolve to, so nothing can swap in another address between
+// the check and the request. Only reads as much body as `readHtml` uses.
+// Network failures surface as TypeError and timeouts as TimeoutError, as
+// they would from fetch.
+async function request(url: URL, address: string) {
+  const port = Number(url.port) || (url.protocol === 'https:' ? 443 : 80);
+  let timedOut = false;
+  let conn: Deno.Conn | null = null;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    conn?.close();
+  }, FETCH_TIMEOUT_MS);
+
+  try {
+    conn = await Deno.connect({ hostname: address, port });
+    if (timedOut) conn.close();
+    if (url.protocol === 'https:') conn = await Deno.startTls(conn, { hostname: url.hostname });
+
+    await writeAll(
+      conn,
+      encoder.encode(
+        `GET ${url.pathname}${url.search} HTTP/1.1\r\n` +
+          `Host: ${url.host}\r\n` +
+          'Accept: text/html,application/xhtml+xml\r\n' +
+          'Accept-Encoding: identity\r\n' +
+          'User-Agent: Mozilla/5.0 (compatible; LinkPreviewBot/1.0)\r\n' +
+          'Connection: close\r\n\r\n'
+      )
+    );
+
+    const chunks: Uint8Array[] = [];
+    const buffer = new Uint8Array(16 * 1024);
+    let head: { status: number; headers: Headers } | null = null;
+    let body = new Uint8Array();
+
+    while (body.length < MAX_HTML_BYTES) {
+      const read = await conn.read(buffer);
+      if (read === null) break;
+      chunks.push(buffer.slice(0, read));
+
+      const received = concat(chunks);
+      const headerEnd = indexOf(received, HEADER_END);
+      if (headerEnd === -1) {
+        if (received.length > MAX_HEADER_BYTES) throw new TypeError('Response headers too large');
+        continue;
+      }
+      head ??= parseHead(received.subarray(0, headerEnd));
+      body = received.subarray(headerEnd + HEADER_END.length);
+      if (isComplete(head.headers, body)) break;
+    }
+    if (!head) throw new TypeError('Empty response');
+
+    const { status, headers } = head;
+    if (headers.get('transfer-encoding')?.toLowerCase().includes('chunked')) body = dechunk(body);
+    // Asked for identity; a compressed body is of no use to the parser.
+    const encoding = headers.get('content-encoding')?.toLowerCase();
+    const usable = (!encoding || encoding === 'identity') && ![204, 205, 304].includes(status);
+
+    return new Response(usable ? body : null, { status, headers });
+  } catch (error) {
+    if (timedOut) throw new DOMException('The request timed out', 'TimeoutError');
+    if (error instanceof TypeError) throw error;
+    throw new TypeError(`Could not reach ${url.host}`, { cause: error });
+  } finally {
+    clearTimeout(timer);
+    try {
+      conn?.close();
+    } catch {
+      // Already closed.
+    }
+  }
+}
+
+// Follows redirects by hand so every hop is resolved and checked before it's
+// requested.
+async function fetchPage(start: URL) {
+  let url = start;
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const addresses = await resolveAllowed(url);
+    if (!addresses) return null;
+
+    let response: Response | null = null;
+    for (const [index, address] of addresses.entries()) {
+      try {
+        response = await request(url, address);
+        break;
+      } catch (error) {
+        // Try the host's next address, unless this was the last one.
+        if (index === addresses.length - 1 || !(error instanceof TypeError)) throw error;
+      }
+    }
+    if (!response) return null;
+
+    const location = response.headers.get('location');
+    if (response.status >= 300 && response.status < 400 && location) {
+      await response.body?.cancel();
+      url = new URL(location, url);
+      continue;
+    }
+
+    return { response, url };
+  }
+
+  return null;
+}
+
+async function readHtml(response: Response) {
+  const contentType = response.headers.get('content-type') ?? '';
+  if (!response.ok || !/text\/html|application\/xhtml\+xml/i.test(contentType) || !response.body) {
+    await response.body?.cancel();
+    return null;
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  while (size < MAX_HTML_BYTES) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    size += value.length;
+  }
+  await reader.cancel();
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+
+  const charset = contentType.match(/charset=([^;]+)/i)?.[1]?.trim() ?? 'utf-8';
+  try {
+    return new TextDecoder(charset).decode(bytes.subarray(0, MAX_HTML_BYTES));
+  } catch {
+    return new TextDecoder().decode(bytes.subarray(0, MAX_HTML_BYTES));
+  }
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function decodeEntities(text: string) {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+const clean = (text: string | undefined, maxLength: number) => {
+  const value = text ? decodeEntities(text).replace(/\s+/g, ' ').trim() : '';
+  return value ? value.slice(0, maxLength) : null;
+};
+
+function parseAttributes(tag: string) {
+  const attributes: Record<string, string> = {};
+  for (const [, name, doubleQuoted, singleQuoted, bare] of tag.matchAll(
+    /([a-z:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/gi
+  )) {
+    attributes[name.toLowerCase()] = doubleQuoted ?? singleQuoted ?? bare ?? '';
+  }
+  return attributes;
+}
+
+function parseMetadata(html: string, pageUrl: URL): PageMetadata {
+  const meta: Record<string, string> = {};
+  for (const [tag] of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const attributes = parseAttributes(tag);
+    const key = (attributes.property ?? attributes.name)?.toLowerCase();
+    // The first occurrence wins, as with most consumers of these tags.
+    if (key && attributes.content !== undefined && !(key in meta)) meta[key] = attributes.content;
+  }
+
+  const titleTag = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  const image = clean(meta['og:image:secure_url'] ?? meta['og:image'] ?? meta['twitter:image'] ?? meta['twitter:image:src'], 2000);
+
+  let imageUrl: string | null = null;
+  if (image) {
+    try {
+      const resolved = new URL(image, pageUrl);
+      if (allowedUrl(resolved)) imageUrl = resolved.toString();
+    } catch {
+      // Unusable image URL; the card goes without.
+    }
+  }
+
+  return {
+    title: clean(meta['og:title'] ?? meta['twitter:title'] ?? titleTag, 300),
+    description: clean(meta['og:description'] ?? meta['twitter:description'] ?? meta.description, 1000),
+    image_url: imageUrl,
+    site_name: clean(meta['og:site_name'], 100),
+  };
+}
+
+async function unfurl(url: string) {
+  const { data: cached, error: cacheError } = await supabase
+    .from('link_previews')
+    .select('*')
+    .eq('url', url)
+    .maybeSingle();
+  if (cacheError) throw cacheError;
+  if (cached && Date.now() - Date.parse(cached.fetched_at) < CACHE_TTL_MS) return cached;
+
+  const page = await fetchPage(new URL(url));
+  const html = page && (await readHtml(page.response));
+  if (!page || !html) return null;
+
+  const metadata = parseMetadata(html, page.url);
+  if (!metadata.title && !metadata.description && !metadata.image_url) return null;
+
+  const { data, error } = await supabase
+    .from('link_previews')
+    .upsert(
+      {
+        url,
+        ...metadata,
+        domain: new URL(url).hostname.replace(/^www\./, ''),
+        fetched_at: new Date().toISOString(),
+      },
+      { onConflict: 'url' }
+    )
+    .select()
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405);
+
+  let body: { url?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: 'Expected a JSON body' }, 400);
+  }
+
+  const url = typeof body.url === 'string' ? normalizeLinkUrl(body.url) : null;
+  if (!url) return json({ error: 'A valid http(s) URL is required' }, 400);
+  if (!(await resolveAllowed(new URL(url)))) return json({ error: 'This host cannot be previewed' }, 400);
+
+  try {
+    return json({ preview: await unfurl(url) });
+  } catch (error) {
+    // Unreachable or slow pages just don't get a card.
+    if (error instanceof DOMException && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+      return json({ preview: null });
+    }
+    if (error instanceof TypeError) return json({ preview: null });
+
+    console.error('Error unfurling link:', error);
+    return json({ error: 'Could not load a preview' }, 500);
+  }
+});
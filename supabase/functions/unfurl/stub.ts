@@ -0,0 +1,67 @@
+// A tiny website for trying `unfurl` locally without reaching the internet.
+//
+//   deno run --allow-net supabase/functions/unfurl/stub.ts
+//   echo UNFURL_ALLOW_PRIVATE_HOSTS=true > supabase/functions/.env
+//   supabase functions serve unfurl --env-file supabase/functions/.env
+//
+// The functions runtime is a container, so it reaches this server as
+// http://host.docker.internal:8787 rather than localhost. Pages:
+//
+//   /article    full OpenGraph tags, relative og:image
+//   /plain      only <title> and <meta name="description">
+//   /redirect   302 to /article
+//   /slow       answers after 10s, past the function's timeout
+//   /image.png  not HTML, so no preview
+
+const PORT = Number(Deno.env.get('PORT') ?? 8787);
+
+const ARTICLE = `<!doctype html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <title>Ignored in favour of og:title</title>
+    <meta property="og:title" content="Designing for slow networks &amp; small screens">
+    <meta property="og:description" content="Notes from a year of shipping to people on 3G.">
+    <meta property="og:image" content="/cover.png">
+    <meta property="og:site_name" content="Stub Journal">
+  </head>
+  <body><h1>Designing for slow networks</h1></body>
+</html>`;
+
+const PLAIN = `<!doctype html>
+<html>
+  <head>
+    <title>A plain page</title>
+    <meta name="description" content="No OpenGraph here, just the basics.">
+  </head>
+  <body>Hello</body>
+</html>`;
+
+// 1x1 transparent PNG.
+const PIXEL = Uint8Array.from(
+  atob('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII='),
+  (c) => c.charCodeAt(0)
+);
+
+const html = (body: string) => new Response(body, { headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+
+Deno.serve({ port: PORT }, async (req) => {
+  const { pathname } = new URL(req.url);
+
+  switch (pathname) {
+    case '/article':
+      return html(ARTICLE);
+    case '/plain':
+      return html(PLAIN);
+    case '/redirect':
+      return new Response(null, { status: 302, headers: { Location: '/article' } });
+    case '/slow':
+      await new Promise((resolve) => setTimeout(resolve, 10_000));
+      return html(ARTICLE);
+    case '/cover.png':
+    case '/image.png':
+      return new Response(PIXEL, { headers: { 'Content-Type': 'image/png' } });
+    default:
+      return new Response('Not found', { status: 404 });
+  }
+});
@@ -0,0 +1,22 @@
+/*
+  # Post Pagination Indexes
+
+  ## Overview
+  Post lists are now paged with a keyset cursor on (created_at, id) instead of
+  loading every row. These indexes let each page be read straight off an index
+  scan rather than sorting the whole table.
+
+  ## Changes
+
+  ### 1. Add Keyset Indexes
+  - posts(created_at DESC, id DESC) - feed and trending pages
+  - posts(user_id, created_at DESC, id DESC) - profile pages and per-author feed lookups
+
+  ### 2. Remove Superseded Indexes
+  - posts_created_at_idx - covered by the new keyset index
+*/
+
+CREATE INDEX IF NOT EXISTS posts_created_at_id_idx ON posts(created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS posts_user_id_created_at_id_idx ON posts(user_id, created_at DESC, id DESC);
+
+DROP INDEX IF EXISTS posts_created_at_idx;
@@ -0,0 +1,148 @@
+/*
+  # Home Feed Function
+
+  ## Overview
+  The home feed used to be assembled in the browser: select the viewer's
+  `follows.following_id` rows, then query posts with `user_id IN (...)`. The
+  IN list travels in the request URL and breaks once someone follows a few
+  hundred accounts. This migration moves the timeline into Postgres.
+
+  ## Changes
+
+  ### 1. Computed Fields on posts
+  PostgREST exposes functions that take a `posts` row as selectable fields, so
+  every post query can ask for the same shape:
+  - likes_count(posts) - number of likes on the post
+  - comments_count(posts) - number of comments on the post
+  - liked_by_me(posts) - whether auth.uid() has liked the post
+
+  ### 2. get_home_feed RPC
+  Returns a page of the viewer's timeline (their own posts plus everyone they
+  follow), newest first, joined with the author profile and the fields above.
+  - Keyset cursor on (created_at, id): pass `before_*` for older pages and
+    `after_*` for newer ones. Newer pages are returned oldest first so the
+    rows closest to the cursor come back; the client reverses them.
+  - `page_size` is capped at 100.
+  - Runs as SECURITY INVOKER so posts RLS still applies.
+
+  ## Index Strategy
+  - follows(follower_id, following_id) unique constraint - resolves the
+    viewer's followed accounts without a table scan
+  - posts(user_id, created_at DESC, id DESC) - each followed author's posts are
+    read in cursor order, so a page only touches the rows it returns
+  - likes(user_id, post_id) unique constraint - liked_by_me lookups
+  - likes(post_id), comments(post_id) - per-post counts
+*/
+
+-- ============================================================================
+-- 1. COMPUTED FIELDS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION likes_count(post posts)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+  SELECT count(*)::integer FROM likes WHERE likes.post_id = post.id;
+$$;
+
+CREATE OR REPLACE FUNCTION comments_count(post posts)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+  SELECT count(*)::integer FROM comments WHERE comments.post_id = post.id;
+$$;
+
+CREATE OR REPLACE FUNCTION liked_by_me(post posts)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM likes
+    WHERE likes.post_id = post.id
+    AND likes.user_id = (SELECT auth.uid())
+  );
+$$;
+
+-- ============================================================================
+-- 2. HOME FEED
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_home_feed(
+  before_created_at timestamptz DEFAULT NULL,
+  before_id uuid DEFAULT NULL,
+  after_created_at timestamptz DEFAULT NULL,
+  after_id uuid DEFAULT NULL,
+  page_size integer DEFAULT 20
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  content text,
+  media_urls text[],
+  created_at timestamptz,
+  updated_at timestamptz,
+  is_edited boolean,
+  author jsonb,
+  likes_count integer,
+  comments_count integer,
+  liked_by_me boolean
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  viewer_id uuid := auth.uid();
+  row_limit integer := LEAST(GREATEST(page_size, 1), 100);
+BEGIN
+  IF viewer_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF after_created_at IS NOT NULL AND before_created_at IS NULL THEN
+    RETURN QUERY
+      SELECT
+        p.id, p.user_id, p.content, p.media_urls, p.created_at, p.updated_at, p.is_edited,
+        to_jsonb(pr.*),
+        likes_count(p),
+        comments_count(p),
+        liked_by_me(p)
+      FROM posts p
+      JOIN profiles pr ON pr.id = p.user_id
+      WHERE (
+        p.user_id = viewer_id
+        OR p.user_id IN (SELECT f.following_id FROM follows f WHERE f.follower_id = viewer_id)
+      )
+      AND (p.created_at, p.id) > (after_created_at, after_id)
+      ORDER BY p.created_at ASC, p.id ASC
+      LIMIT row_limit;
+  ELSE
+    RETURN QUERY
+      SELECT
+        p.id, p.user_id, p.content, p.media_urls, p.created_at, p.updated_at, p.is_edited,
+        to_jsonb(pr.*),
+        likes_count(p),
+        comments_count(p),
+        liked_by_me(p)
+      FROM posts p
+      JOIN profiles pr ON pr.id = p.user_id
+      WHERE (
+        p.user_id = viewer_id
+        OR p.user_id IN (SELECT f.following_id FROM follows f WHERE f.follower_id = viewer_id)
+      )
+      AND (before_created_at IS NULL OR (p.created_at, p.id) < (before_created_at, before_id))
+      AND (after_created_at IS NULL OR (p.created_at, p.id) > (after_created_at, after_id))
+      ORDER BY p.created_at DESC, p.id DESC
+      LIMIT row_limit;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_home_feed(timestamptz, uuid, timestamptz, uuid, integer) TO authenticated;
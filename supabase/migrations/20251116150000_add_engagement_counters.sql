@@ -0,0 +1,260 @@
+/*
+  # Denormalized Engagement Counters
+
+  ## Overview
+  Like, comment and follower counts were computed by shipping every `likes`
+  and `comments` row to the browser, or by one `count: 'exact'` query per
+  profile. This migration stores the counts on the rows they describe and
+  keeps them correct with triggers.
+
+  ## Changes
+
+  ### 1. New Columns
+  - posts.likes_count, posts.comments_count
+  - profiles.followers_count, profiles.following_count, profiles.posts_count
+  All are integer NOT NULL DEFAULT 0. Existing rows are filled in by the
+  following backfill migration.
+
+  ### 2. Counter Triggers
+  AFTER INSERT/DELETE triggers adjust the counts:
+  - likes -> posts.likes_count
+  - comments -> posts.comments_count
+  - follows -> profiles.followers_count / profiles.following_count
+  - posts -> profiles.posts_count
+  The trigger functions are SECURITY DEFINER because they update rows the
+  acting user does not own.
+
+  ### 3. Counter Protection
+  Users can insert and update their own posts and profile, so BEFORE
+  INSERT/UPDATE triggers pin the counters for top-level writes. Updates made
+  from inside the counter triggers run nested (pg_trigger_depth() > 1) and
+  pass through.
+
+  ### 4. updated_at Triggers
+  The updated_at triggers on posts and profiles now fire only for user-editable
+  columns, so a new like doesn't mark a post as updated.
+
+  ### 5. Computed Fields
+  likes_count(posts) and comments_count(posts) are dropped in favour of the
+  columns; get_home_feed reads the columns directly. liked_by_me(posts) stays.
+*/
+
+-- ============================================================================
+-- 1. NEW COLUMNS
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS likes_count(posts);
+DROP FUNCTION IF EXISTS comments_count(posts);
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS likes_count integer NOT NULL DEFAULT 0;
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS comments_count integer NOT NULL DEFAULT 0;
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS followers_count integer NOT NULL DEFAULT 0;
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS following_count integer NOT NULL DEFAULT 0;
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS posts_count integer NOT NULL DEFAULT 0;
+
+-- ============================================================================
+-- 2. COUNTER TRIGGERS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION update_post_likes_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE posts SET likes_count = likes_count + 1 WHERE id = NEW.post_id;
+  ELSE
+    UPDATE posts SET likes_count = GREATEST(likes_count - 1, 0) WHERE id = OLD.post_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public, pg_temp;
+
+DROP TRIGGER IF EXISTS update_post_likes_count ON likes;
+CREATE TRIGGER update_post_likes_count AFTER INSERT OR DELETE ON likes
+  FOR EACH ROW EXECUTE FUNCTION update_post_likes_count();
+
+CREATE OR REPLACE FUNCTION update_post_comments_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE posts SET comments_count = comments_count + 1 WHERE id = NEW.post_id;
+  ELSE
+    UPDATE posts SET comments_count = GREATEST(comments_count - 1, 0) WHERE id = OLD.post_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public, pg_temp;
+
+DROP TRIGGER IF EXISTS update_post_comments_count ON comments;
+CREATE TRIGGER update_post_comments_count AFTER INSERT OR DELETE ON comments
+  FOR EACH ROW EXECUTE FUNCTION update_post_comments_count();
+
+CREATE OR REPLACE FUNCTION update_follow_counts()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE profiles SET followers_count = followers_count + 1 WHERE id = NEW.following_id;
+    UPDATE profiles SET following_count = following_count + 1 WHERE id = NEW.follower_id;
+  ELSE
+    UPDATE profiles SET followers_count = GREATEST(followers_count - 1, 0) WHERE id = OLD.following_id;
+    UPDATE profiles SET following_count = GREATEST(following_count - 1, 0) WHERE id = OLD.follower_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public, pg_temp;
+
+DROP TRIGGER IF EXISTS update_follow_counts ON follows;
+CREATE TRIGGER update_follow_counts AFTER INSERT OR DELETE ON follows
+  FOR EACH ROW EXECUTE FUNCTION update_follow_counts();
+
+CREATE OR REPLACE FUNCTION update_profile_posts_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE profiles SET posts_count = posts_count + 1 WHERE id = NEW.user_id;
+  ELSE
+    UPDATE profiles SET posts_count = GREATEST(posts_count - 1, 0) WHERE id = OLD.user_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public, pg_temp;
+
+DROP TRIGGER IF EXISTS update_profile_posts_count ON posts;
+CREATE TRIGGER update_profile_posts_count AFTER INSERT OR DELETE ON posts
+  FOR EACH ROW EXECUTE FUNCTION update_profile_posts_count();
+
+-- ============================================================================
+-- 3. COUNTER PROTECTION
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION protect_post_counters()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF pg_trigger_depth() = 1 THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.likes_count := 0;
+      NEW.comments_count := 0;
+    ELSE
+      NEW.likes_count := OLD.likes_count;
+      NEW.comments_count := OLD.comments_count;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql' SET search_path = public, pg_temp;
+
+DROP TRIGGER IF EXISTS protect_post_counters ON posts;
+CREATE TRIGGER protect_post_counters BEFORE INSERT OR UPDATE ON posts
+  FOR EACH ROW EXECUTE FUNCTION protect_post_counters();
+
+CREATE OR REPLACE FUNCTION protect_profile_counters()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF pg_trigger_depth() = 1 THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.followers_count := 0;
+      NEW.following_count := 0;
+      NEW.posts_count := 0;
+    ELSE
+      NEW.followers_count := OLD.followers_count;
+      NEW.following_count := OLD.following_count;
+      NEW.posts_count := OLD.posts_count;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql' SET search_path = public, pg_temp;
+
+DROP TRIGGER IF EXISTS protect_profile_counters ON profiles;
+CREATE TRIGGER protect_profile_counters BEFORE INSERT OR UPDATE ON profiles
+  FOR EACH ROW EXECUTE FUNCTION protect_profile_counters();
+
+-- ============================================================================
+-- 4. UPDATED_AT TRIGGERS
+-- ============================================================================
+
+DROP TRIGGER IF EXISTS update_posts_updated_at ON posts;
+CREATE TRIGGER update_posts_updated_at
+  BEFORE UPDATE OF content, media_urls, is_edited ON posts
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_profiles_updated_at ON profiles;
+CREATE TRIGGER update_profiles_updated_at
+  BEFORE UPDATE OF username, full_name, bio, avatar_url, cover_photo_url, location, website ON profiles
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 5. HOME FEED
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_home_feed(
+  before_created_at timestamptz DEFAULT NULL,
+  before_id uuid DEFAULT NULL,
+  after_created_at timestamptz DEFAULT NULL,
+  after_id uuid DEFAULT NULL,
+  page_size integer DEFAULT 20
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  content text,
+  media_urls text[],
+  created_at timestamptz,
+  updated_at timestamptz,
+  is_edited boolean,
+  author jsonb,
+  likes_count integer,
+  comments_count integer,
+  liked_by_me boolean
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  viewer_id uuid := auth.uid();
+  row_limit integer := LEAST(GREATEST(page_size, 1), 100);
+BEGIN
+  IF viewer_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF after_created_at IS NOT NULL AND before_created_at IS NULL THEN
+    RETURN QUERY
+      SELECT
+        p.id, p.user_id, p.content, p.media_urls, p.created_at, p.updated_at, p.is_edited,
+        to_jsonb(pr.*),
+        p.likes_count,
+        p.comments_count,
+        liked_by_me(p)
+      FROM posts p
+      JOIN profiles pr ON pr.id = p.user_id
+      WHERE (
+        p.user_id = viewer_id
+        OR p.user_id IN (SELECT f.following_id FROM follows f WHERE f.follower_id = viewer_id)
+      )
+      AND (p.created_at, p.id) > (after_created_at, after_id)
+      ORDER BY p.created_at ASC, p.id ASC
+      LIMIT row_limit;
+  ELSE
+    RETURN QUERY
+      SELECT
+        p.id, p.user_id, p.content, p.media_urls, p.created_at, p.updated_at, p.is_edited,
+        to_jsonb(pr.*),
+        p.likes_count,
+        p.comments_count,
+        liked_by_me(p)
+      FROM posts p
+      JOIN profiles pr ON pr.id = p.user_id
+      WHERE (
+        p.user_id = viewer_id
+        OR p.user_id IN (SELECT f.following_id FROM follows f WHERE f.follower_id = viewer_id)
+      )
+      AND (before_created_at IS NULL OR (p.created_at, p.id) < (before_created_at, before_id))
+      AND (after_created_at IS NULL OR (p.created_at, p.id) > (after_created_at, after_id))
+      ORDER BY p.created_at DESC, p.id DESC
+      LIMIT row_limit;
+  END IF;
+END;
+$$;
@@ -0,0 +1,29 @@
+/*
+  # Backfill Engagement Counters
+
+  ## Overview
+  Fills the counters added in the previous migration from the existing likes,
+  comments, follows and posts rows. Safe to re-run: every count is recomputed
+  from scratch.
+
+  ## Notes
+  - The counter protection triggers pin the columns for top-level updates, so
+    they are disabled for the duration of the backfill.
+*/
+
+ALTER TABLE posts DISABLE TRIGGER protect_post_counters;
+ALTER TABLE profiles DISABLE TRIGGER protect_profile_counters;
+
+UPDATE posts p
+SET
+  likes_count = (SELECT count(*) FROM likes l WHERE l.post_id = p.id),
+  comments_count = (SELECT count(*) FROM comments c WHERE c.post_id = p.id);
+
+UPDATE profiles pr
+SET
+  followers_count = (SELECT count(*) FROM follows f WHERE f.following_id = pr.id),
+  following_count = (SELECT count(*) FROM follows f WHERE f.follower_id = pr.id),
+  posts_count = (SELECT count(*) FROM posts p WHERE p.user_id = pr.id);
+
+ALTER TABLE posts ENABLE TRIGGER protect_post_counters;
+ALTER TABLE profiles ENABLE TRIGGER protect_profile_counters;
@@ -0,0 +1,86 @@
+/*
+  # Post Media Storage
+
+  ## Overview
+  Posts used to reference images by pasted URL. Images are now uploaded to a
+  Storage bucket, one folder per user, and `posts.media_urls` holds their
+  public URLs.
+
+  ## Changes
+
+  ### 1. Bucket
+  - `post-media`: public reads, 10 MB per object, JPEG/PNG/WebP only.
+  The client downsizes and re-encodes images before upload, so real uploads
+  are far below the size limit.
+
+  ### 2. Storage Policies
+  Objects are stored as `<user id>/<file>`. Authenticated users can upload
+  to, list and delete from their own folder only. Files are read through
+  the bucket's public URLs, which need no SELECT policy, so nobody can list
+  anyone else's folder.
+
+  ### 3. Media Limit
+  `posts.media_urls` holds at most four items, matching the composer.
+
+  ## Notes
+  Storage objects can't be deleted from SQL, so the client removes a post's
+  files through the Storage API after the post row is deleted.
+*/
+
+-- ============================================================================
+-- 1. BUCKET
+-- ============================================================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'post-media',
+  'post-media',
+  true,
+  10485760,
+  ARRAY['image/jpeg', 'image/png', 'image/webp']
+)
+ON CONFLICT (id) DO UPDATE SET
+  public = EXCLUDED.public,
+  file_size_limit = EXCLUDED.file_size_limit,
+  allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+-- ============================================================================
+-- 2. STORAGE POLICIES
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Anyone can view post media" ON storage.objects;
+
+-- Removing files goes through SELECT as well as DELETE.
+DROP POLICY IF EXISTS "Users can list their own post media" ON storage.objects;
+CREATE POLICY "Users can list their own post media"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'post-media'
+    AND (storage.foldername(name))[1] = (SELECT auth.uid())::text
+  );
+
+DROP POLICY IF EXISTS "Users can upload post media to their own folder" ON storage.objects;
+CREATE POLICY "Users can upload post media to their own folder"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'post-media'
+    AND (storage.foldername(name))[1] = (SELECT auth.uid())::text
+  );
+
+DROP POLICY IF EXISTS "Users can delete their own post media" ON storage.objects;
+CREATE POLICY "Users can delete their own post media"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'post-media'
+    AND (storage.foldername(name))[1] = (SELECT auth.uid())::text
+  );
+
+-- ============================================================================
+-- 3. MEDIA LIMIT
+-- ============================================================================
+
+ALTER TABLE posts DROP CONSTRAINT IF EXISTS media_urls_limit;
+ALTER TABLE posts ADD CONSTRAINT media_urls_limit CHECK (cardinality(media_urls) <= 4);
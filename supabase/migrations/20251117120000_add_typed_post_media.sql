@@ -0,0 +1,236 @@
+/*
+  # Typed Post Media
+
+  ## Overview
+  `posts.media_urls` was a bare list of URLs, so every item was rendered as an
+  image. Posts now carry `media`, a jsonb array of typed items with the
+  metadata needed to lay them out and play them.
+
+  ## Changes
+
+  ### 1. posts.media
+  Each item is an object:
+  - type: 'image' | 'video' | 'gif'
+  - url: public URL of the file
+  - mime_type: e.g. 'image/webp', 'video/mp4' ('' for migrated items)
+  - width, height: pixel dimensions (null for migrated items)
+  - duration: seconds, videos only (otherwise null)
+  - poster_url: still frame for videos and GIFs (otherwise null)
+  Existing `media_urls` are migrated as images, and `media_urls` is dropped.
+
+  ### 2. Validation
+  `valid_post_media(jsonb)` backs a check constraint: an array of at most
+  four objects, each with a known type and a non-empty URL. It replaces the
+  `media_urls_limit` constraint.
+
+  `check_post_media` (BEFORE INSERT OR UPDATE OF media) also requires every
+  `url` and `poster_url` to be a file in the author's own `post-media`
+  folder, so posts can't hotlink outside files or tracking pixels. It reads
+  the project URL from the `app.supabase_url` setting, which has to be set
+  once per database:
+    ALTER DATABASE postgres SET app.supabase_url = 'https://<ref>.supabase.co';
+  Until it is, posts with media are refused.
+
+  ### 3. Bucket
+  `post-media` now also accepts GIF, MP4, WebM and QuickTime files, up to
+  50 MB. The client applies tighter per-type limits before uploading.
+
+  ### 4. Dependent Objects
+  The updated_at trigger on posts and `get_home_feed` referenced
+  `media_urls`; both are recreated against `media`.
+*/
+
+-- ============================================================================
+-- 1. POSTS.MEDIA
+-- ============================================================================
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS media jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+UPDATE posts
+SET media = (
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'type', 'image',
+      'url', url,
+      'mime_type', '',
+      'width', NULL,
+      'height', NULL,
+      'duration', NULL,
+      'poster_url', NULL
+    )
+    ORDER BY position
+  )
+  FROM unnest(media_urls) WITH ORDINALITY AS item(url, position)
+)
+WHERE cardinality(media_urls) > 0;
+
+DROP TRIGGER IF EXISTS update_posts_updated_at ON posts;
+DROP FUNCTION IF EXISTS get_home_feed(timestamptz, uuid, timestamptz, uuid, integer);
+
+ALTER TABLE posts DROP CONSTRAINT IF EXISTS media_urls_limit;
+ALTER TABLE posts DROP COLUMN IF EXISTS media_urls;
+
+-- ============================================================================
+-- 2. VALIDATION
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION valid_post_media(media jsonb)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, pg_temp
+AS $$
+  SELECT jsonb_typeof(media) = 'array'
+    AND jsonb_array_length(media) <= 4
+    AND NOT EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(media) AS item
+      WHERE jsonb_typeof(item) <> 'object'
+        OR NOT (item->>'type' = ANY (ARRAY['image', 'video', 'gif']))
+        OR coalesce(item->>'url', '') = ''
+    );
+$$;
+
+ALTER TABLE posts DROP CONSTRAINT IF EXISTS media_items_valid;
+ALTER TABLE posts ADD CONSTRAINT media_items_valid CHECK (valid_post_media(media));
+
+-- Whether `url` is the public URL of a file in `owner`'s folder of post-media.
+CREATE OR REPLACE FUNCTION is_own_post_media_url(url text, owner uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+  SELECT coalesce(
+    url = rtrim(current_setting('app.supabase_url', true), '/')
+      || '/storage/v1/object/public/post-media/'
+      || owner::text || '/'
+      || substring(url from '/([A-Za-z0-9_-]+\.[A-Za-z0-9]+)$'),
+    false
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION check_post_media()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.media IS NOT DISTINCT FROM OLD.media THEN
+    RETURN NEW;
+  END IF;
+
+  IF jsonb_array_length(NEW.media) > 0 AND coalesce(current_setting('app.supabase_url', true), '') = '' THEN
+    RAISE EXCEPTION 'app.supabase_url is not set, so post media cannot be checked'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(NEW.media) AS item
+    WHERE NOT is_own_post_media_url(item->>'url', NEW.user_id)
+      OR (item->>'poster_url' IS NOT NULL AND NOT is_own_post_media_url(item->>'poster_url', NEW.user_id))
+  ) THEN
+    RAISE EXCEPTION 'Post media must be uploaded to your own folder'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ language 'plpgsql' SET search_path = public, pg_temp;
+
+DROP TRIGGER IF EXISTS check_post_media ON posts;
+CREATE TRIGGER check_post_media BEFORE INSERT OR UPDATE OF media ON posts
+  FOR EACH ROW EXECUTE FUNCTION check_post_media();
+
+-- ============================================================================
+-- 3. BUCKET
+-- ============================================================================
+
+UPDATE storage.buckets
+SET
+  file_size_limit = 52428800,
+  allowed_mime_types = ARRAY[
+    'image/jpeg', 'image/png', 'image/webp', 'image/gif',
+    'video/mp4', 'video/webm', 'video/quicktime'
+  ]
+WHERE id = 'post-media';
+
+-- ============================================================================
+-- 4. DEPENDENT OBJECTS
+-- ============================================================================
+
+CREATE TRIGGER update_posts_updated_at
+  BEFORE UPDATE OF content, media, is_edited ON posts
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE FUNCTION get_home_feed(
+  before_created_at timestamptz DEFAULT NULL,
+  before_id uuid DEFAULT NULL,
+  after_created_at timestamptz DEFAULT NULL,
+  after_id uuid DEFAULT NULL,
+  page_size integer DEFAULT 20
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  content text,
+  media jsonb,
+  created_at timestamptz,
+  updated_at timestamptz,
+  is_edited boolean,
+  author jsonb,
+  likes_count integer,
+  comments_count integer,
+  liked_by_me boolean
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  viewer_id uuid := auth.uid();
+  row_limit integer := LEAST(GREATEST(page_size, 1), 100);
+BEGIN
+  IF viewer_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF after_created_at IS NOT NULL AND before_created_at IS NULL THEN
+    RETURN QUERY
+      SELECT
+        p.id, p.user_id, p.content, p.media, p.created_at, p.updated_at, p.is_edited,
+        to_jsonb(pr.*),
+        p.likes_count,
+        p.comments_count,
+        liked_by_me(p)
+      FROM posts p
+      JOIN profiles pr ON pr.id = p.user_id
+      WHERE (
+        p.user_id = viewer_id
+        OR p.user_id IN (SELECT f.following_id FROM follows f WHERE f.follower_id = viewer_id)
+      )
+      AND (p.created_at, p.id) > (after_created_at, after_id)
+      ORDER BY p.created_at ASC, p.id ASC
+      LIMIT row_limit;
+  ELSE
+    RETURN QUERY
+      SELECT
+        p.id, p.user_id, p.content, p.media, p.created_at, p.updated_at, p.is_edited,
+        to_jsonb(pr.*),
+        p.likes_count,
+        p.comments_count,
+        liked_by_me(p)
+      FROM posts p
+      JOIN profiles pr ON pr.id = p.user_id
+      WHERE (
+        p.user_id = viewer_id
+        OR p.user_id IN (SELECT f.following_id FROM follows f WHERE f.follower_id = viewer_id)
+      )
+      AND (before_created_at IS NULL OR (p.created_at, p.id) < (before_created_at, before_id))
+      AND (after_created_at IS NULL OR (p.created_at, p.id) > (after_created_at, after_id))
+      ORDER BY p.created_at DESC, p.id DESC
+      LIMIT row_limit;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_home_feed(timestamptz, uuid, timestamptz, uuid, integer) TO authenticated;
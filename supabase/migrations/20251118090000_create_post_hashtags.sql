@@ -0,0 +1,147 @@
+/*
+  # Hashtags
+
+  ## Overview
+  Hashtags written in post content are indexed into `post_hashtags`, so posts
+  can be listed by tag and the most used tags of the moment surfaced on
+  Explore.
+
+  ## Changes
+
+  ### 1. Extraction
+  `extract_hashtags(text)` returns the distinct, lowercased tags in a text.
+  A tag is `#` followed by up to 50 letters, digits or underscores, with at
+  least one letter or underscore, and not glued to a preceding word, `#`, `&`
+  or `/` (so URL fragments and entities aren't tags). The client mirrors this
+  in `src/lib/hashtags.ts` to decide what to link.
+
+  ### 2. post_hashtags
+  - id (uuid, primary key)
+  - post_id (uuid, references posts, cascades on delete)
+  - tag (text, lowercased)
+  - created_at (timestamptz): the post's creation time, so tag pages can use
+    the same (created_at, id) keyset as every other post list
+  UNIQUE (post_id, tag). Readable by authenticated users; only the sync
+  trigger writes to it.
+
+  ### 3. Sync Trigger
+  AFTER INSERT and AFTER UPDATE OF content on posts, `sync_post_hashtags`
+  replaces the post's tags with those in its new content. SECURITY DEFINER,
+  as users have no write policies on the table. Existing posts are
+  backfilled.
+
+  ### 4. Functions
+  - posts_with_hashtag(tag_name): SETOF posts, so callers select, embed,
+    filter and paginate it like the posts table.
+  - get_trending_hashtags(window_hours, max_tags): tags by number of posts
+    created within the last `window_hours`.
+*/
+
+-- ============================================================================
+-- 1. EXTRACTION
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION extract_hashtags(content text)
+RETURNS text[]
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, pg_temp
+AS $$
+  SELECT coalesce(array_agg(DISTINCT lower(m[2])), '{}')
+  FROM regexp_matches(content, '(^|[^[:alnum:]_#&/])#([[:alnum:]_]{1,50})(?![[:alnum:]_])', 'g') AS m
+  WHERE m[2] ~ '[[:alpha:]_]';
+$$;
+
+-- ============================================================================
+-- 2. POST_HASHTAGS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS post_hashtags (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id uuid NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+  tag text NOT NULL,
+  created_at timestamptz NOT NULL,
+  UNIQUE(post_id, tag),
+  CONSTRAINT tag_format CHECK (tag = lower(tag) AND char_length(tag) BETWEEN 1 AND 50)
+);
+
+CREATE INDEX IF NOT EXISTS post_hashtags_tag_created_at_idx
+  ON post_hashtags(tag, created_at DESC, post_id DESC);
+CREATE INDEX IF NOT EXISTS post_hashtags_created_at_idx ON post_hashtags(created_at);
+
+ALTER TABLE post_hashtags ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Hashtags are viewable by authenticated users" ON post_hashtags;
+CREATE POLICY "Hashtags are viewable by authenticated users"
+  ON post_hashtags FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- ============================================================================
+-- 3. SYNC TRIGGER
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION sync_post_hashtags()
+RETURNS TRIGGER AS $$
+DECLARE
+  tags text[] := extract_hashtags(NEW.content);
+BEGIN
+  DELETE FROM post_hashtags WHERE post_id = NEW.id AND NOT (tag = ANY (tags));
+
+  INSERT INTO post_hashtags (post_id, tag, created_at)
+  SELECT NEW.id, t, NEW.created_at FROM unnest(tags) AS t
+  ON CONFLICT (post_id, tag) DO NOTHING;
+
+  RETURN NULL;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public, pg_temp;
+
+DROP TRIGGER IF EXISTS sync_post_hashtags_on_insert ON posts;
+CREATE TRIGGER sync_post_hashtags_on_insert AFTER INSERT ON posts
+  FOR EACH ROW EXECUTE FUNCTION sync_post_hashtags();
+
+DROP TRIGGER IF EXISTS sync_post_hashtags_on_update ON posts;
+CREATE TRIGGER sync_post_hashtags_on_update AFTER UPDATE OF content ON posts
+  FOR EACH ROW
+  WHEN (OLD.content IS DISTINCT FROM NEW.content)
+  EXECUTE FUNCTION sync_post_hashtags();
+
+INSERT INTO post_hashtags (post_id, tag, created_at)
+SELECT p.id, t, p.created_at
+FROM posts p, unnest(extract_hashtags(p.content)) AS t
+ON CONFLICT (post_id, tag) DO NOTHING;
+
+-- ============================================================================
+-- 4. FUNCTIONS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION posts_with_hashtag(tag_name text)
+RETURNS SETOF posts
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public, pg_temp
+AS $$
+  SELECT p.*
+  FROM posts p
+  JOIN post_hashtags h ON h.post_id = p.id
+  WHERE h.tag = lower(tag_name);
+$$;
+
+CREATE OR REPLACE FUNCTION get_trending_hashtags(window_hours integer DEFAULT 24, max_tags integer DEFAULT 10)
+RETURNS TABLE (tag text, posts_count bigint)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public, pg_temp
+AS $$
+  SELECT h.tag, count(*) AS posts_count
+  FROM post_hashtags h
+  WHERE h.created_at >= now() - make_interval(hours => LEAST(GREATEST(window_hours, 1), 24 * 30))
+  GROUP BY h.tag
+  ORDER BY posts_count DESC, h.tag ASC
+  LIMIT LEAST(GREATEST(max_tags, 1), 50);
+$$;
+
+GRANT EXECUTE ON FUNCTION posts_with_hashtag(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_trending_hashtags(integer, integer) TO authenticated;
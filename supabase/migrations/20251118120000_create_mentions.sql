@@ -0,0 +1,147 @@
+/*
+  # Mentions
+
+  ## Overview
+  `@username` in a post or comment now resolves to the mentioned profile,
+  is stored in `mentions`, and notifies the mentioned user. The
+  `notifications.type` check already allowed 'mention'; nothing created them
+  until now.
+
+  ## Changes
+
+  ### 1. Extraction
+  `extract_mentions(text)` returns the distinct, lowercased usernames
+  mentioned in a text: `@` followed by 3-30 letters, digits or underscores
+  (the username format), not glued to a preceding word or `@`, so email
+  addresses aren't mentions. The client mirrors this in
+  `src/lib/mentions.ts`.
+
+  ### 2. mentions
+  - id (uuid, primary key)
+  - post_id (uuid, references posts): the post, or the post commented on
+  - comment_id (uuid, nullable, references comments): set for comments
+  - user_id (uuid, references profiles): who was mentioned
+  - created_at (timestamptz)
+  UNIQUE NULLS NOT DISTINCT (post_id, comment_id, user_id). Readable by
+  authenticated users; only the sync trigger writes to it.
+
+  ### 3. Sync Trigger
+  AFTER INSERT and AFTER UPDATE OF content on posts and comments,
+  `sync_mentions` resolves usernames case-insensitively against profiles and
+  updates the source's mentions. Newly mentioned users get a 'mention'
+  notification with post_id (and comment_id for comments); users whose
+  mention was edited out have it withdrawn. Authors are never notified of
+  their own mentions. SECURITY DEFINER, as it writes other users'
+  notifications.
+*/
+
+-- ============================================================================
+-- 1. EXTRACTION
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION extract_mentions(content text)
+RETURNS text[]
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, pg_temp
+AS $$
+  SELECT coalesce(array_agg(DISTINCT lower(m[2])), '{}')
+  FROM regexp_matches(content, '(^|[^[:alnum:]_@])@([A-Za-z0-9_]{3,30})(?![[:alnum:]_])', 'g') AS m;
+$$;
+
+-- ============================================================================
+-- 2. MENTIONS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS mentions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id uuid NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+  comment_id uuid REFERENCES comments(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  CONSTRAINT mentions_source_user_key UNIQUE NULLS NOT DISTINCT (post_id, comment_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS mentions_user_id_idx ON mentions(user_id);
+CREATE INDEX IF NOT EXISTS mentions_comment_id_idx ON mentions(comment_id) WHERE comment_id IS NOT NULL;
+
+ALTER TABLE mentions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Mentions are viewable by authenticated users" ON mentions;
+CREATE POLICY "Mentions are viewable by authenticated users"
+  ON mentions FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- ============================================================================
+-- 3. SYNC TRIGGER
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION sync_mentions()
+RETURNS TRIGGER AS $$
+DECLARE
+  source_post_id uuid;
+  source_comment_id uuid;
+  mentioned uuid[];
+BEGIN
+  IF TG_TABLE_NAME = 'comments' THEN
+    source_post_id := NEW.post_id;
+    source_comment_id := NEW.id;
+  ELSE
+    source_post_id := NEW.id;
+    source_comment_id := NULL;
+  END IF;
+
+  SELECT coalesce(array_agg(p.id), '{}') INTO mentioned
+  FROM profiles p
+  WHERE lower(p.username) = ANY (extract_mentions(NEW.content));
+
+  WITH removed AS (
+    DELETE FROM mentions
+    WHERE post_id = source_post_id
+      AND comment_id IS NOT DISTINCT FROM source_comment_id
+      AND NOT (user_id = ANY (mentioned))
+    RETURNING user_id
+  )
+  DELETE FROM notifications n
+  USING removed
+  WHERE n.user_id = removed.user_id
+    AND n.actor_id = NEW.user_id
+    AND n.type = 'mention'
+    AND n.post_id = source_post_id
+    AND n.comment_id IS NOT DISTINCT FROM source_comment_id;
+
+  WITH added AS (
+    INSERT INTO mentions (post_id, comment_id, user_id)
+    SELECT source_post_id, source_comment_id, u FROM unnest(mentioned) AS u
+    ON CONFLICT DO NOTHING
+    RETURNING user_id
+  )
+  INSERT INTO notifications (user_id, actor_id, type, post_id, comment_id)
+  SELECT added.user_id, NEW.user_id, 'mention', source_post_id, source_comment_id
+  FROM added
+  WHERE added.user_id <> NEW.user_id;
+
+  RETURN NULL;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public, pg_temp;
+
+DROP TRIGGER IF EXISTS sync_post_mentions_on_insert ON posts;
+CREATE TRIGGER sync_post_mentions_on_insert AFTER INSERT ON posts
+  FOR EACH ROW EXECUTE FUNCTION sync_mentions();
+
+DROP TRIGGER IF EXISTS sync_post_mentions_on_update ON posts;
+CREATE TRIGGER sync_post_mentions_on_update AFTER UPDATE OF content ON posts
+  FOR EACH ROW
+  WHEN (OLD.content IS DISTINCT FROM NEW.content)
+  EXECUTE FUNCTION sync_mentions();
+
+DROP TRIGGER IF EXISTS sync_comment_mentions_on_insert ON comments;
+CREATE TRIGGER sync_comment_mentions_on_insert AFTER INSERT ON comments
+  FOR EACH ROW EXECUTE FUNCTION sync_mentions();
+
+DROP TRIGGER IF EXISTS sync_comment_mentions_on_update ON comments;
+CREATE TRIGGER sync_comment_mentions_on_update AFTER UPDATE OF content ON comments
+  FOR EACH ROW
+  WHEN (OLD.content IS DISTINCT FROM NEW.content)
+  EXECUTE FUNCTION sync_mentions();
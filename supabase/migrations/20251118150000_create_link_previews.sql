@@ -0,0 +1,147 @@
+/*
+  # Link Previews
+
+  ## Overview
+  Posts containing a link can show an OpenGraph preview card. Pages are
+  fetched by the `unfurl` edge function, which caches what it finds in
+  `link_previews`; a post points at the preview its author kept.
+
+  ## Changes
+
+  ### 1. link_previews
+  - id (uuid, primary key)
+  - url (text, unique): normalized URL (lowercased scheme and host, no
+    fragment, default port or utm_* parameters)
+  - title, description, image_url, site_name (text, nullable)
+  - domain (text): hostname shown on the card
+  - fetched_at (timestamptz): when the page was last fetched; the function
+    refetches stale entries
+  Readable by authenticated users. Only the edge function writes to it, with
+  the service role.
+
+  ### 2. posts.link_preview_id
+  Nullable reference to link_previews, set by the author when posting and
+  left empty if they removed the preview. ON DELETE SET NULL, so pruning the
+  cache only drops cards.
+
+  ### 3. get_home_feed
+  Recreated to return link_preview_id and the preview itself as jsonb.
+*/
+
+-- ============================================================================
+-- 1. LINK_PREVIEWS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS link_previews (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  url text UNIQUE NOT NULL,
+  title text,
+  description text,
+  image_url text,
+  site_name text,
+  domain text NOT NULL,
+  fetched_at timestamptz DEFAULT now() NOT NULL
+);
+
+ALTER TABLE link_previews ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Link previews are viewable by authenticated users" ON link_previews;
+CREATE POLICY "Link previews are viewable by authenticated users"
+  ON link_previews FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- ============================================================================
+-- 2. POSTS.LINK_PREVIEW_ID
+-- ============================================================================
+
+ALTER TABLE posts
+  ADD COLUMN IF NOT EXISTS link_preview_id uuid REFERENCES link_previews(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS posts_link_preview_id_idx ON posts(link_preview_id);
+
+-- ============================================================================
+-- 3. GET_HOME_FEED
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS get_home_feed(timestamptz, uuid, timestamptz, uuid, integer);
+
+CREATE FUNCTION get_home_feed(
+  before_created_at timestamptz DEFAULT NULL,
+  before_id uuid DEFAULT NULL,
+  after_created_at timestamptz DEFAULT NULL,
+  after_id uuid DEFAULT NULL,
+  page_size integer DEFAULT 20
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  content text,
+  media jsonb,
+  link_preview_id uuid,
+  created_at timestamptz,
+  updated_at timestamptz,
+  is_edited boolean,
+  author jsonb,
+  link_preview jsonb,
+  likes_count integer,
+  comments_count integer,
+  liked_by_me boolean
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  viewer_id uuid := auth.uid();
+  row_limit integer := LEAST(GREATEST(page_size, 1), 100);
+BEGIN
+  IF viewer_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF after_created_at IS NOT NULL AND before_created_at IS NULL THEN
+    RETURN QUERY
+      SELECT
+        p.id, p.user_id, p.content, p.media, p.link_preview_id, p.created_at, p.updated_at, p.is_edited,
+        to_jsonb(pr.*),
+        to_jsonb(lp.*),
+        p.likes_count,
+        p.comments_count,
+        liked_by_me(p)
+      FROM posts p
+      JOIN profiles pr ON pr.id = p.user_id
+      LEFT JOIN link_previews lp ON lp.id = p.link_preview_id
+      WHERE (
+        p.user_id = viewer_id
+        OR p.user_id IN (SELECT f.following_id FROM follows f WHERE f.follower_id = viewer_id)
+      )
+      AND (p.created_at, p.id) > (after_created_at, after_id)
+      ORDER BY p.created_at ASC, p.id ASC
+      LIMIT row_limit;
+  ELSE
+    RETURN QUERY
+      SELECT
+        p.id, p.user_id, p.content, p.media, p.link_preview_id, p.created_at, p.updated_at, p.is_edited,
+        to_jsonb(pr.*),
+        to_jsonb(lp.*),
+        p.likes_count,
+        p.comments_count,
+        liked_by_me(p)
+      FROM posts p
+      JOIN profiles pr ON pr.id = p.user_id
+      LEFT JOIN link_previews lp ON lp.id = p.link_preview_id
+      WHERE (
+        p.user_id = viewer_id
+        OR p.user_id IN (SELECT f.following_id FROM follows f WHERE f.follower_id = viewer_id)
+      )
+      AND (before_created_at IS NULL OR (p.created_at, p.id) < (before_created_at, before_id))
+      AND (after_created_at IS NULL OR (p.created_at, p.id) > (after_created_at, after_id))
+      ORDER BY p.created_at DESC, p.id DESC
+      LIMIT row_limit;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_home_feed(timestamptz, uuid, timestamptz, uuid, integer) TO authenticated;
@@ -0,0 +1,105 @@
+/*
+  # Post Revisions
+
+  ## Overview
+  Editing a post used to overwrite `content`, leaving readers with nothing
+  but an "Edited" label. Every content change now keeps the text it replaced
+  in `post_revisions`, so the full history can be shown, and edits are only
+  accepted for a limited time after posting.
+
+  ## Changes
+
+  ### 1. post_revisions
+  - id (uuid, primary key)
+  - post_id (uuid, references posts)
+  - content (text): the post's text before the edit
+  - created_at (timestamptz): when the edit replaced it
+  The original text is the oldest revision; the post row holds the latest.
+  Readable by authenticated users; only the trigger writes to it.
+
+  ### 2. Edit Window
+  `post_edit_window()` returns how long after posting content may still be
+  edited: 30 minutes. Redefine it to change the window, or to return NULL to
+  allow edits at any time. The client mirrors the value in
+  `src/lib/api/posts.ts` to hide the Edit action.
+
+  ### 3. Trigger
+  BEFORE UPDATE OF content on posts, `record_post_revision` rejects edits
+  outside the window and stores the previous content. SECURITY DEFINER, as
+  post_revisions has no insert policy.
+
+  The window runs from created_at, so `lock_post_created_at` keeps updates
+  from changing it (which would also move the post in the feeds). It fires
+  before the other BEFORE UPDATE triggers, which may still set it.
+*/
+
+-- ============================================================================
+-- 1. POST_REVISIONS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS post_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id uuid NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+  content text NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS post_revisions_post_id_created_at_idx ON post_revisions(post_id, created_at);
+
+ALTER TABLE post_revisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Post revisions are viewable by authenticated users" ON post_revisions;
+CREATE POLICY "Post revisions are viewable by authenticated users"
+  ON post_revisions FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- ============================================================================
+-- 2. EDIT WINDOW
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION post_edit_window()
+RETURNS interval
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, pg_temp
+AS $$
+  SELECT interval '30 minutes';
+$$;
+
+-- ============================================================================
+-- 3. TRIGGER
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION lock_post_created_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.created_at := OLD.created_at;
+  RETURN NEW;
+END;
+$$ language 'plpgsql' SET search_path = public, pg_temp;
+
+DROP TRIGGER IF EXISTS lock_post_created_at ON posts;
+CREATE TRIGGER lock_post_created_at BEFORE UPDATE ON posts
+  FOR EACH ROW EXECUTE FUNCTION lock_post_created_at();
+
+CREATE OR REPLACE FUNCTION record_post_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF post_edit_window() IS NOT NULL AND now() > OLD.created_at + post_edit_window() THEN
+    RAISE EXCEPTION 'This post can no longer be edited'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO post_revisions (post_id, content)
+  VALUES (OLD.id, OLD.content);
+
+  RETURN NEW;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public, pg_temp;
+
+DROP TRIGGER IF EXISTS record_post_revision ON posts;
+CREATE TRIGGER record_post_revision BEFORE UPDATE OF content ON posts
+  FOR EACH ROW
+  WHEN (OLD.content IS DISTINCT FROM NEW.content)
+  EXECUTE FUNCTION record_post_revision();
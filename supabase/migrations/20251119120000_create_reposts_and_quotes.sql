@@ -0,0 +1,337 @@
+/*
+  # Reposts and Quote Posts
+
+  ## Overview
+  Users can share someone else's post with their followers, either as a plain
+  repost (the post shows up in their followers' feeds as it is) or as a quote
+  post (a post of their own with the original embedded under it).
+
+  ## Changes
+
+  ### 1. reposts
+  - id (uuid, primary key)
+  - user_id (uuid, references profiles): who reposted
+  - post_id (uuid, references posts): what was reposted
+  - created_at (timestamptz): when; this is where the repost sits in feeds
+  UNIQUE (user_id, post_id). Readable by authenticated users; users create
+  and delete their own.
+
+  ### 2. Quote Posts
+  - posts.quoted_post_id (uuid, nullable, references posts ON DELETE SET
+    NULL): the quoted post
+  - posts.is_quote (boolean): set from quoted_post_id on insert and fixed
+    afterwards, so a quote whose original was deleted still reads as a quote
+    and can say so
+  `set_post_quote` pins both on update; the foreign key may still clear
+  quoted_post_id.
+
+  ### 3. Counters
+  posts.reposts_count and posts.quotes_count, maintained by triggers on
+  reposts and posts like the other counters, and pinned for top-level writes
+  by `protect_post_counters`.
+
+  ### 4. Notifications
+  `notifications.type` now also allows 'repost' and 'quote'. Repost
+  notifications are created by the client, like likes. Quote notifications
+  come from `notify_quoted_author` on insert, pointing at the new quote
+  post, since the client doesn't know its id until it's delivered.
+
+  ### 5. Computed Fields
+  reposted_by_me(posts): whether auth.uid() has reposted the post.
+
+  ### 6. get_home_feed
+  Now also includes posts reposted by the viewer or anyone they follow. Each
+  post appears once: if anyone followed reposted it, it sits at the latest
+  such repost and `reposted_by` holds that reposter's profile; otherwise it
+  sits at its own created_at. The keyset cursor is (feed_at, id); the
+  `*_created_at` arguments take feed_at values. Also returns the new columns,
+  reposted_by_me and the quoted post with its author as `quoted_post`.
+*/
+
+-- ============================================================================
+-- 1. REPOSTS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS reposts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  post_id uuid NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE(user_id, post_id)
+);
+
+CREATE INDEX IF NOT EXISTS reposts_post_id_idx ON reposts(post_id);
+CREATE INDEX IF NOT EXISTS reposts_user_id_created_at_idx ON reposts(user_id, created_at DESC);
+
+ALTER TABLE reposts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Reposts are viewable by authenticated users" ON reposts;
+CREATE POLICY "Reposts are viewable by authenticated users"
+  ON reposts FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Users can create their own reposts" ON reposts;
+CREATE POLICY "Users can create their own reposts"
+  ON reposts FOR INSERT
+  TO authenticated
+  WITH CHECK ((SELECT auth.uid()) = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own reposts" ON reposts;
+CREATE POLICY "Users can delete their own reposts"
+  ON reposts FOR DELETE
+  TO authenticated
+  USING ((SELECT auth.uid()) = user_id);
+
+-- ============================================================================
+-- 2. QUOTE POSTS
+-- ============================================================================
+
+ALTER TABLE posts
+  ADD COLUMN IF NOT EXISTS quoted_post_id uuid REFERENCES posts(id) ON DELETE SET NULL;
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS is_quote boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS posts_quoted_post_id_idx ON posts(quoted_post_id) WHERE quoted_post_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION set_post_quote()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.is_quote := NEW.quoted_post_id IS NOT NULL;
+  ELSE
+    NEW.is_quote := OLD.is_quote;
+    -- A quote can't be pointed at another post, only lose its original.
+    IF NEW.quoted_post_id IS NOT NULL THEN
+      NEW.quoted_post_id := OLD.quoted_post_id;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql' SET search_path = public, pg_temp;
+
+DROP TRIGGER IF EXISTS set_post_quote ON posts;
+CREATE TRIGGER set_post_quote BEFORE INSERT OR UPDATE ON posts
+  FOR EACH ROW EXECUTE FUNCTION set_post_quote();
+
+-- ============================================================================
+-- 3. COUNTERS
+-- ============================================================================
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS reposts_count integer NOT NULL DEFAULT 0;
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS quotes_count integer NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION update_post_reposts_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE posts SET reposts_count = reposts_count + 1 WHERE id = NEW.post_id;
+  ELSE
+    UPDATE posts SET reposts_count = GREATEST(reposts_count - 1, 0) WHERE id = OLD.post_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public, pg_temp;
+
+DROP TRIGGER IF EXISTS update_post_reposts_count ON reposts;
+CREATE TRIGGER update_post_reposts_count AFTER INSERT OR DELETE ON reposts
+  FOR EACH ROW EXECUTE FUNCTION update_post_reposts_count();
+
+CREATE OR REPLACE FUNCTION update_post_quotes_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE posts SET quotes_count = quotes_count + 1 WHERE id = NEW.quoted_post_id;
+  ELSE
+    UPDATE posts SET quotes_count = GREATEST(quotes_count - 1, 0) WHERE id = OLD.quoted_post_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public, pg_temp;
+
+DROP TRIGGER IF EXISTS update_post_quotes_count_on_insert ON posts;
+CREATE TRIGGER update_post_quotes_count_on_insert AFTER INSERT ON posts
+  FOR EACH ROW
+  WHEN (NEW.quoted_post_id IS NOT NULL)
+  EXECUTE FUNCTION update_post_quotes_count();
+
+DROP TRIGGER IF EXISTS update_post_quotes_count_on_delete ON posts;
+CREATE TRIGGER update_post_quotes_count_on_delete AFTER DELETE ON posts
+  FOR EACH ROW
+  WHEN (OLD.quoted_post_id IS NOT NULL)
+  EXECUTE FUNCTION update_post_quotes_count();
+
+CREATE OR REPLACE FUNCTION protect_post_counters()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF pg_trigger_depth() = 1 THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.likes_count := 0;
+      NEW.comments_count := 0;
+      NEW.reposts_count := 0;
+      NEW.quotes_count := 0;
+    ELSE
+      NEW.likes_count := OLD.likes_count;
+      NEW.comments_count := OLD.comments_count;
+      NEW.reposts_count := OLD.reposts_count;
+      NEW.quotes_count := OLD.quotes_count;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql' SET search_path = public, pg_temp;
+
+UPDATE posts p
+SET quotes_count = (SELECT count(*) FROM posts q WHERE q.quoted_post_id = p.id);
+
+-- ============================================================================
+-- 4. NOTIFICATIONS
+-- ============================================================================
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS valid_notification_type;
+ALTER TABLE notifications ADD CONSTRAINT valid_notification_type
+  CHECK (type IN ('follow', 'like', 'comment', 'mention', 'message', 'repost', 'quote'));
+
+CREATE OR REPLACE FUNCTION notify_quoted_author()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO notifications (user_id, actor_id, type, post_id)
+  SELECT q.user_id, NEW.user_id, 'quote', NEW.id
+  FROM posts q
+  WHERE q.id = NEW.quoted_post_id
+    AND q.user_id <> NEW.user_id;
+
+  RETURN NULL;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public, pg_temp;
+
+DROP TRIGGER IF EXISTS notify_quoted_author ON posts;
+CREATE TRIGGER notify_quoted_author AFTER INSERT ON posts
+  FOR EACH ROW
+  WHEN (NEW.quoted_post_id IS NOT NULL)
+  EXECUTE FUNCTION notify_quoted_author();
+
+-- ============================================================================
+-- 5. COMPUTED FIELDS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION reposted_by_me(post posts)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM reposts
+    WHERE reposts.post_id = post.id
+    AND reposts.user_id = (SELECT auth.uid())
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION reposted_by_me(posts) TO authenticated;
+
+-- ============================================================================
+-- 6. GET_HOME_FEED
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS get_home_feed(timestamptz, uuid, timestamptz, uuid, integer);
+
+CREATE FUNCTION get_home_feed(
+  before_created_at timestamptz DEFAULT NULL,
+  before_id uuid DEFAULT NULL,
+  after_created_at timestamptz DEFAULT NULL,
+  after_id uuid DEFAULT NULL,
+  page_size integer DEFAULT 20
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  content text,
+  media jsonb,
+  link_preview_id uuid,
+  quoted_post_id uuid,
+  is_quote boolean,
+  created_at timestamptz,
+  updated_at timestamptz,
+  is_edited boolean,
+  author jsonb,
+  link_preview jsonb,
+  quoted_post jsonb,
+  likes_count integer,
+  comments_count integer,
+  reposts_count integer,
+  quotes_count integer,
+  liked_by_me boolean,
+  reposted_by_me boolean,
+  feed_at timestamptz,
+  reposted_by jsonb
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  viewer_id uuid := auth.uid();
+  row_limit integer := LEAST(GREATEST(page_size, 1), 100);
+  -- Newer pages are read oldest first so the rows closest to the cursor come back.
+  oldest_first boolean := after_created_at IS NOT NULL AND before_created_at IS NULL;
+BEGIN
+  IF viewer_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+    WITH followed AS (
+      SELECT viewer_id AS account_id
+      UNION
+      SELECT f.following_id FROM follows f WHERE f.follower_id = viewer_id
+    ),
+    -- The latest repost of each post by anyone followed.
+    boosts AS (
+      SELECT DISTINCT ON (r.post_id) r.post_id, r.user_id AS reposter_id, r.created_at AS boosted_at
+      FROM reposts r
+      JOIN followed fo ON fo.account_id = r.user_id
+      ORDER BY r.post_id, r.created_at DESC
+    ),
+    items AS (
+      SELECT b.post_id, b.reposter_id, b.boosted_at AS item_at
+      FROM boosts b
+      UNION ALL
+      SELECT p.id, NULL::uuid, p.created_at
+      FROM posts p
+      JOIN followed fo ON fo.account_id = p.user_id
+      WHERE NOT EXISTS (SELECT 1 FROM boosts b WHERE b.post_id = p.id)
+    )
+    SELECT
+      p.id, p.user_id, p.content, p.media, p.link_preview_id, p.quoted_post_id, p.is_quote,
+      p.created_at, p.updated_at, p.is_edited,
+      to_jsonb(pr.*),
+      to_jsonb(lp.*),
+      CASE WHEN q.id IS NULL THEN NULL ELSE to_jsonb(q.*) || jsonb_build_object('profiles', to_jsonb(qa.*)) END,
+      p.likes_count,
+      p.comments_count,
+      p.reposts_count,
+      p.quotes_count,
+      liked_by_me(p),
+      reposted_by_me(p),
+      i.item_at,
+      to_jsonb(rb.*)
+    FROM items i
+    JOIN posts p ON p.id = i.post_id
+    JOIN profiles pr ON pr.id = p.user_id
+    LEFT JOIN link_previews lp ON lp.id = p.link_preview_id
+    LEFT JOIN posts q ON q.id = p.quoted_post_id
+    LEFT JOIN profiles qa ON qa.id = q.user_id
+    LEFT JOIN profiles rb ON rb.id = i.reposter_id
+    WHERE (before_created_at IS NULL OR (i.item_at, p.id) < (before_created_at, before_id))
+      AND (after_created_at IS NULL OR (i.item_at, p.id) > (after_created_at, after_id))
+    ORDER BY
+      CASE WHEN oldest_first THEN i.item_at END ASC,
+      CASE WHEN oldest_first THEN p.id END ASC,
+      i.item_at DESC,
+      p.id DESC
+    LIMIT row_limit;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_home_feed(timestamptz, uuid, timestamptz, uuid, integer) TO authenticated;
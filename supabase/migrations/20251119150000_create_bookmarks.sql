@@ -0,0 +1,267 @@
+/*
+  # Bookmarks
+
+  ## Overview
+  Users can save posts to come back to later, optionally sorting them into
+  named folders. Bookmarks are private: nobody else can see what a user has
+  saved, or that a post was saved at all.
+
+  ## Changes
+
+  ### 1. bookmark_folders
+  - id (uuid, primary key)
+  - user_id (uuid, references profiles): the owner
+  - name (text, 1-50 characters)
+  - created_at (timestamptz)
+  UNIQUE (user_id, name). Only the owner can read or change their folders.
+
+  ### 2. bookmarks
+  - id (uuid, primary key)
+  - user_id (uuid, references profiles): who saved the post
+  - post_id (uuid, references posts)
+  - folder_id (uuid, nullable, references bookmark_folders ON DELETE SET
+    NULL): deleting a folder keeps its bookmarks, unfiled
+  - created_at (timestamptz): when the post was saved; the bookmarks list is
+    ordered and paginated by (created_at, id)
+  UNIQUE (user_id, post_id). Only the owner can read or change their
+  bookmarks, and only file them into their own folders.
+
+  ### 3. Computed Fields
+  bookmarked_by_me(posts): whether auth.uid() has saved the post, so
+  bookmark state comes with the post like liked_by_me.
+
+  ### 4. get_home_feed
+  Also returns bookmarked_by_me.
+*/
+
+-- ============================================================================
+-- 1. BOOKMARK_FOLDERS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS bookmark_folders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE(user_id, name),
+  CONSTRAINT bookmark_folder_name_length CHECK (char_length(name) BETWEEN 1 AND 50)
+);
+
+ALTER TABLE bookmark_folders ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own bookmark folders" ON bookmark_folders;
+CREATE POLICY "Users can view their own bookmark folders"
+  ON bookmark_folders FOR SELECT
+  TO authenticated
+  USING ((SELECT auth.uid()) = user_id);
+
+DROP POLICY IF EXISTS "Users can create their own bookmark folders" ON bookmark_folders;
+CREATE POLICY "Users can create their own bookmark folders"
+  ON bookmark_folders FOR INSERT
+  TO authenticated
+  WITH CHECK ((SELECT auth.uid()) = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own bookmark folders" ON bookmark_folders;
+CREATE POLICY "Users can update their own bookmark folders"
+  ON bookmark_folders FOR UPDATE
+  TO authenticated
+  USING ((SELECT auth.uid()) = user_id)
+  WITH CHECK ((SELECT auth.uid()) = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own bookmark folders" ON bookmark_folders;
+CREATE POLICY "Users can delete their own bookmark folders"
+  ON bookmark_folders FOR DELETE
+  TO authenticated
+  USING ((SELECT auth.uid()) = user_id);
+
+-- ============================================================================
+-- 2. BOOKMARKS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS bookmarks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  post_id uuid NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+  folder_id uuid REFERENCES bookmark_folders(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE(user_id, post_id)
+);
+
+CREATE INDEX IF NOT EXISTS bookmarks_user_id_created_at_idx ON bookmarks(user_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS bookmarks_folder_id_idx ON bookmarks(folder_id) WHERE folder_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS bookmarks_post_id_idx ON bookmarks(post_id);
+
+ALTER TABLE bookmarks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own bookmarks" ON bookmarks;
+CREATE POLICY "Users can view their own bookmarks"
+  ON bookmarks FOR SELECT
+  TO authenticated
+  USING ((SELECT auth.uid()) = user_id);
+
+DROP POLICY IF EXISTS "Users can create their own bookmarks" ON bookmarks;
+CREATE POLICY "Users can create their own bookmarks"
+  ON bookmarks FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    (SELECT auth.uid()) = user_id
+    AND (
+      folder_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM bookmark_folders
+        WHERE bookmark_folders.id = folder_id
+        AND bookmark_folders.user_id = (SELECT auth.uid())
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can update their own bookmarks" ON bookmarks;
+CREATE POLICY "Users can update their own bookmarks"
+  ON bookmarks FOR UPDATE
+  TO authenticated
+  USING ((SELECT auth.uid()) = user_id)
+  WITH CHECK (
+    (SELECT auth.uid()) = user_id
+    AND (
+      folder_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM bookmark_folders
+        WHERE bookmark_folders.id = folder_id
+        AND bookmark_folders.user_id = (SELECT auth.uid())
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can delete their own bookmarks" ON bookmarks;
+CREATE POLICY "Users can delete their own bookmarks"
+  ON bookmarks FOR DELETE
+  TO authenticated
+  USING ((SELECT auth.uid()) = user_id);
+
+-- ============================================================================
+-- 3. COMPUTED FIELDS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION bookmarked_by_me(post posts)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM bookmarks
+    WHERE bookmarks.post_id = post.id
+    AND bookmarks.user_id = (SELECT auth.uid())
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION bookmarked_by_me(posts) TO authenticated;
+
+-- ============================================================================
+-- 4. GET_HOME_FEED
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS get_home_feed(timestamptz, uuid, timestamptz, uuid, integer);
+
+CREATE FUNCTION get_home_feed(
+  before_created_at timestamptz DEFAULT NULL,
+  before_id uuid DEFAULT NULL,
+  after_created_at timestamptz DEFAULT NULL,
+  after_id uuid DEFAULT NULL,
+  page_size integer DEFAULT 20
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  content text,
+  media jsonb,
+  link_preview_id uuid,
+  quoted_post_id uuid,
+  is_quote boolean,
+  created_at timestamptz,
+  updated_at timestamptz,
+  is_edited boolean,
+  author jsonb,
+  link_preview jsonb,
+  quoted_post jsonb,
+  likes_count integer,
+  comments_count integer,
+  reposts_count integer,
+  quotes_count integer,
+  liked_by_me boolean,
+  reposted_by_me boolean,
+  bookmarked_by_me boolean,
+  feed_at timestamptz,
+  reposted_by jsonb
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  viewer_id uuid := auth.uid();
+  row_limit integer := LEAST(GREATEST(page_size, 1), 100);
+  -- Newer pages are read oldest first so the rows closest to the cursor come back.
+  oldest_first boolean := after_created_at IS NOT NULL AND before_created_at IS NULL;
+BEGIN
+  IF viewer_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+    WITH followed AS (
+      SELECT viewer_id AS account_id
+      UNION
+      SELECT f.following_id FROM follows f WHERE f.follower_id = viewer_id
+    ),
+    -- The latest repost of each post by anyone followed.
+    boosts AS (
+      SELECT DISTINCT ON (r.post_id) r.post_id, r.user_id AS reposter_id, r.created_at AS boosted_at
+      FROM reposts r
+      JOIN followed fo ON fo.account_id = r.user_id
+      ORDER BY r.post_id, r.created_at DESC
+    ),
+    items AS (
+      SELECT b.post_id, b.reposter_id, b.boosted_at AS item_at
+      FROM boosts b
+      UNION ALL
+      SELECT p.id, NULL::uuid, p.created_at
+      FROM posts p
+      JOIN followed fo ON fo.account_id = p.user_id
+      WHERE NOT EXISTS (SELECT 1 FROM boosts b WHERE b.post_id = p.id)
+    )
+    SELECT
+      p.id, p.user_id, p.content, p.media, p.link_preview_id, p.quoted_post_id, p.is_quote,
+      p.created_at, p.updated_at, p.is_edited,
+      to_jsonb(pr.*),
+      to_jsonb(lp.*),
+      CASE WHEN q.id IS NULL THEN NULL ELSE to_jsonb(q.*) || jsonb_build_object('profiles', to_jsonb(qa.*)) END,
+      p.likes_count,
+      p.comments_count,
+      p.reposts_count,
+      p.quotes_count,
+      liked_by_me(p),
+      reposted_by_me(p),
+      bookmarked_by_me(p),
+      i.item_at,
+      to_jsonb(rb.*)
+    FROM items i
+    JOIN posts p ON p.id = i.post_id
+    JOIN profiles pr ON pr.id = p.user_id
+    LEFT JOIN link_previews lp ON lp.id = p.link_preview_id
+    LEFT JOIN posts q ON q.id = p.quoted_post_id
+    LEFT JOIN profiles qa ON qa.id = q.user_id
+    LEFT JOIN profiles rb ON rb.id = i.reposter_id
+    WHERE (before_created_at IS NULL OR (i.item_at, p.id) < (before_created_at, before_id))
+      AND (after_created_at IS NULL OR (i.item_at, p.id) > (after_created_at, after_id))
+    ORDER BY
+      CASE WHEN oldest_first THEN i.item_at END ASC,
+      CASE WHEN oldest_first THEN p.id END ASC,
+      i.item_at DESC,
+      p.id DESC
+    LIMIT row_limit;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_home_feed(timestamptz, uuid, timestamptz, uuid, integer) TO authenticated;
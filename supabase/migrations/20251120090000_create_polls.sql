@@ -0,0 +1,444 @@
+/*
+  # Polls
+
+  ## Overview
+  A post can carry a poll of 2-4 options that stays open for a chosen time.
+  Each user votes once, results update live, and the author is notified
+  when the poll closes.
+
+  ## Changes
+
+  ### 1. polls
+  - id (uuid, primary key)
+  - post_id (uuid, unique, references posts): the post asking the question
+  - ends_at (timestamptz): when voting closes
+  - votes_count (integer): total votes, maintained by trigger
+  - closed_at (timestamptz, nullable): set once the author has been told
+    the poll closed
+  - created_at (timestamptz)
+
+  ### 2. poll_options
+  - id (uuid, primary key)
+  - poll_id (uuid, references polls)
+  - position (smallint, 0-3): display order
+  - label (text, 1-80 characters)
+  - votes_count (integer): maintained by trigger
+  UNIQUE (poll_id, position).
+
+  ### 3. poll_votes
+  - id (uuid, primary key)
+  - poll_id (uuid, references polls)
+  - option_id (uuid, references poll_options)
+  - user_id (uuid, references profiles)
+  - created_at (timestamptz)
+  UNIQUE (poll_id, user_id) is the one-vote-per-user rule. `check_poll_vote`
+  sets poll_id from the option, so a vote can't name another poll's option,
+  and rejects votes once the poll has ended. Votes can't be changed or
+  withdrawn. Users only see their own votes; tallies are on the options.
+  Votes are only accepted on polls whose post the voter can see.
+
+  ### 4. create_poll
+  `create_poll(target_post_id, option_labels, duration_minutes)` attaches a
+  poll to one of the caller's own posts, with its options, in one
+  statement. Durations run from 5 minutes to 7 days. Polls and options have
+  no insert policies, so this is the only way to create them.
+
+  ### 5. Computed Fields
+  - voted_option_id(polls): the option auth.uid() voted for, if any
+  - poll_payload(polls): the poll with its options and voted_option_id as
+    jsonb, for get_home_feed
+
+  ### 6. Closing Polls
+  `notifications.type` now also allows 'poll'. `close_ended_polls()` sets
+  closed_at on polls past ends_at and notifies their authors (as their own
+  actor). It's run every minute by pg_cron.
+
+  ### 7. Realtime
+  poll_options is added to the supabase_realtime publication, so clients can
+  follow tallies.
+
+  ### 8. get_home_feed
+  Also returns the post's poll as `poll`.
+*/
+
+-- ============================================================================
+-- 1. POLLS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS polls (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id uuid NOT NULL UNIQUE REFERENCES posts(id) ON DELETE CASCADE,
+  ends_at timestamptz NOT NULL,
+  votes_count integer NOT NULL DEFAULT 0,
+  closed_at timestamptz,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS polls_open_ends_at_idx ON polls(ends_at) WHERE closed_at IS NULL;
+
+ALTER TABLE polls ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Polls are viewable by authenticated users" ON polls;
+CREATE POLICY "Polls are viewable by authenticated users"
+  ON polls FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- ============================================================================
+-- 2. POLL_OPTIONS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS poll_options (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  poll_id uuid NOT NULL REFERENCES polls(id) ON DELETE CASCADE,
+  position smallint NOT NULL,
+  label text NOT NULL,
+  votes_count integer NOT NULL DEFAULT 0,
+  UNIQUE(poll_id, position),
+  CONSTRAINT poll_option_position CHECK (position BETWEEN 0 AND 3),
+  CONSTRAINT poll_option_label_length CHECK (char_length(label) BETWEEN 1 AND 80)
+);
+
+ALTER TABLE poll_options ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Poll options are viewable by authenticated users" ON poll_options;
+CREATE POLICY "Poll options are viewable by authenticated users"
+  ON poll_options FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- ============================================================================
+-- 3. POLL_VOTES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS poll_votes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  poll_id uuid NOT NULL REFERENCES polls(id) ON DELETE CASCADE,
+  option_id uuid NOT NULL REFERENCES poll_options(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE(poll_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS poll_votes_option_id_idx ON poll_votes(option_id);
+CREATE INDEX IF NOT EXISTS poll_votes_user_id_idx ON poll_votes(user_id);
+
+ALTER TABLE poll_votes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own poll votes" ON poll_votes;
+CREATE POLICY "Users can view their own poll votes"
+  ON poll_votes FOR SELECT
+  TO authenticated
+  USING ((SELECT auth.uid()) = user_id);
+
+DROP POLICY IF EXISTS "Users can cast their own poll votes" ON poll_votes;
+CREATE POLICY "Users can cast their own poll votes"
+  ON poll_votes FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    (SELECT auth.uid()) = user_id
+    -- Only on polls whose post the voter can see; posts RLS applies inside.
+    AND EXISTS (
+      SELECT 1 FROM posts p
+      JOIN polls pl ON pl.post_id = p.id
+      WHERE pl.id = poll_votes.poll_id
+    )
+  );
+
+CREATE OR REPLACE FUNCTION check_poll_vote()
+RETURNS TRIGGER AS $$
+DECLARE
+  option_poll_id uuid;
+  poll_ends_at timestamptz;
+BEGIN
+  SELECT o.poll_id, pl.ends_at INTO option_poll_id, poll_ends_at
+  FROM poll_options o
+  JOIN polls pl ON pl.id = o.poll_id
+  WHERE o.id = NEW.option_id;
+
+  IF option_poll_id IS NULL THEN
+    RETURN NEW; -- the foreign key reports the missing option
+  END IF;
+
+  IF now() >= poll_ends_at THEN
+    RAISE EXCEPTION 'This poll has ended'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.poll_id := option_poll_id;
+  RETURN NEW;
+END;
+$$ language 'plpgsql' SET search_path = public, pg_temp;
+
+DROP TRIGGER IF EXISTS check_poll_vote ON poll_votes;
+CREATE TRIGGER check_poll_vote BEFORE INSERT ON poll_votes
+  FOR EACH ROW EXECUTE FUNCTION check_poll_vote();
+
+CREATE OR REPLACE FUNCTION update_poll_votes_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE poll_options SET votes_count = votes_count + 1 WHERE id = NEW.option_id;
+    UPDATE polls SET votes_count = votes_count + 1 WHERE id = NEW.poll_id;
+  ELSE
+    UPDATE poll_options SET votes_count = GREATEST(votes_count - 1, 0) WHERE id = OLD.option_id;
+    UPDATE polls SET votes_count = GREATEST(votes_count - 1, 0) WHERE id = OLD.poll_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public, pg_temp;
+
+DROP TRIGGER IF EXISTS update_poll_votes_count ON poll_votes;
+CREATE TRIGGER update_poll_votes_count AFTER INSERT OR DELETE ON poll_votes
+  FOR EACH ROW EXECUTE FUNCTION update_poll_votes_count();
+
+-- ============================================================================
+-- 4. CREATE_POLL
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION create_poll(
+  target_post_id uuid,
+  option_labels text[],
+  duration_minutes integer
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  new_poll_id uuid;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM posts WHERE id = target_post_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Polls can only be added to your own posts'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF coalesce(array_length(option_labels, 1), 0) NOT BETWEEN 2 AND 4 THEN
+    RAISE EXCEPTION 'A poll needs 2 to 4 options'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF duration_minutes NOT BETWEEN 5 AND 7 * 24 * 60 THEN
+    RAISE EXCEPTION 'A poll runs for 5 minutes to 7 days'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO polls (post_id, ends_at)
+  VALUES (target_post_id, now() + make_interval(mins => duration_minutes))
+  RETURNING id INTO new_poll_id;
+
+  INSERT INTO poll_options (poll_id, position, label)
+  SELECT new_poll_id, label.ordinality - 1, btrim(label.value)
+  FROM unnest(option_labels) WITH ORDINALITY AS label(value, ordinality);
+
+  RETURN new_poll_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_poll(uuid, text[], integer) FROM anon, public;
+GRANT EXECUTE ON FUNCTION create_poll(uuid, text[], integer) TO authenticated;
+
+-- ============================================================================
+-- 5. COMPUTED FIELDS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION voted_option_id(poll polls)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+  SELECT option_id FROM poll_votes
+  WHERE poll_votes.poll_id = poll.id
+  AND poll_votes.user_id = (SELECT auth.uid());
+$$;
+
+GRANT EXECUTE ON FUNCTION voted_option_id(polls) TO authenticated;
+
+CREATE OR REPLACE FUNCTION poll_payload(poll polls)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+  SELECT CASE WHEN poll.id IS NULL THEN NULL ELSE
+    to_jsonb(poll)
+      || jsonb_build_object(
+        'voted_option_id', voted_option_id(poll),
+        'options', (
+          SELECT coalesce(jsonb_agg(to_jsonb(o.*) ORDER BY o.position), '[]'::jsonb)
+          FROM poll_options o
+          WHERE o.poll_id = poll.id
+        )
+      )
+  END;
+$$;
+
+GRANT EXECUTE ON FUNCTION poll_payload(polls) TO authenticated;
+
+-- ============================================================================
+-- 6. CLOSING POLLS
+-- ============================================================================
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS valid_notification_type;
+ALTER TABLE notifications ADD CONSTRAINT valid_notification_type
+  CHECK (type IN ('follow', 'like', 'comment', 'mention', 'message', 'repost', 'quote', 'poll'));
+
+CREATE OR REPLACE FUNCTION close_ended_polls()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  closed_count integer;
+BEGIN
+  WITH closed AS (
+    UPDATE polls
+    SET closed_at = now()
+    WHERE closed_at IS NULL AND ends_at <= now()
+    RETURNING post_id
+  )
+  INSERT INTO notifications (user_id, actor_id, type, post_id)
+  SELECT p.user_id, p.user_id, 'poll', p.id
+  FROM closed c
+  JOIN posts p ON p.id = c.post_id;
+
+  GET DIAGNOSTICS closed_count = ROW_COUNT;
+  RETURN closed_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION close_ended_polls() FROM anon, authenticated, public;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('close-ended-polls', '* * * * *', 'SELECT public.close_ended_polls()');
+
+-- ============================================================================
+-- 7. REALTIME
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'poll_options'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE poll_options;
+  END IF;
+END;
+$$;
+
+-- ============================================================================
+-- 8. GET_HOME_FEED
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS get_home_feed(timestamptz, uuid, timestamptz, uuid, integer);
+
+CREATE FUNCTION get_home_feed(
+  before_created_at timestamptz DEFAULT NULL,
+  before_id uuid DEFAULT NULL,
+  after_created_at timestamptz DEFAULT NULL,
+  after_id uuid DEFAULT NULL,
+  page_size integer DEFAULT 20
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  content text,
+  media jsonb,
+  link_preview_id uuid,
+  quoted_post_id uuid,
+  is_quote boolean,
+  created_at timestamptz,
+  updated_at timestamptz,
+  is_edited boolean,
+  author jsonb,
+  link_preview jsonb,
+  quoted_post jsonb,
+  likes_count integer,
+  comments_count integer,
+  reposts_count integer,
+  quotes_count integer,
+  liked_by_me boolean,
+  reposted_by_me boolean,
+  bookmarked_by_me boolean,
+  feed_at timestamptz,
+  reposted_by jsonb,
+  poll jsonb
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  viewer_id uuid := auth.uid();
+  row_limit integer := LEAST(GREATEST(page_size, 1), 100);
+  -- Newer pages are read oldest first so the rows closest to the cursor come back.
+  oldest_first boolean := after_created_at IS NOT NULL AND before_created_at IS NULL;
+BEGIN
+  IF viewer_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+    WITH followed AS (
+      SELECT viewer_id AS account_id
+      UNION
+      SELECT f.following_id FROM follows f WHERE f.follower_id = viewer_id
+    ),
+    -- The latest repost of each post by anyone followed.
+    boosts AS (
+      SELECT DISTINCT ON (r.post_id) r.post_id, r.user_id AS reposter_id, r.created_at AS boosted_at
+      FROM reposts r
+      JOIN followed fo ON fo.account_id = r.user_id
+      ORDER BY r.post_id, r.created_at DESC
+    ),
+    items AS (
+      SELECT b.post_id, b.reposter_id, b.boosted_at AS item_at
+      FROM boosts b
+      UNION ALL
+      SELECT p.id, NULL::uuid, p.created_at
+      FROM posts p
+      JOIN followed fo ON fo.account_id = p.user_id
+      WHERE NOT EXISTS (SELECT 1 FROM boosts b WHERE b.post_id = p.id)
+    )
+    SELECT
+      p.id, p.user_id, p.content, p.media, p.link_preview_id, p.quoted_post_id, p.is_quote,
+      p.created_at, p.updated_at, p.is_edited,
+      to_jsonb(pr.*),
+      to_jsonb(lp.*),
+      CASE WHEN q.id IS NULL THEN NULL ELSE to_jsonb(q.*) || jsonb_build_object('profiles', to_jsonb(qa.*)) END,
+      p.likes_count,
+      p.comments_count,
+      p.reposts_count,
+      p.quotes_count,
+      liked_by_me(p),
+      reposted_by_me(p),
+      bookmarked_by_me(p),
+      i.item_at,
+      to_jsonb(rb.*),
+      poll_payload(pl)
+    FROM items i
+    JOIN posts p ON p.id = i.post_id
+    JOIN profiles pr ON pr.id = p.user_id
+    LEFT JOIN link_previews lp ON lp.id = p.link_preview_id
+    LEFT JOIN posts q ON q.id = p.quoted_post_id
+    LEFT JOIN profiles qa ON qa.id = q.user_id
+    LEFT JOIN profiles rb ON rb.id = i.reposter_id
+    LEFT JOIN polls pl ON pl.post_id = p.id
+    WHERE (before_created_at IS NULL OR (i.item_at, p.id) < (before_created_at, before_id))
+      AND (after_created_at IS NULL OR (i.item_at, p.id) > (after_created_at, after_id))
+    ORDER BY
+      CASE WHEN oldest_first THEN i.item_at END ASC,
+      CASE WHEN oldest_first THEN p.id END ASC,
+      i.item_at DESC,
+      p.id DESC
+    LIMIT row_limit;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_home_feed(timestamptz, uuid, timestamptz, uuid, integer) TO authenticated;
@@ -0,0 +1,389 @@
+/*
+  # Drafts and Scheduled Posts
+
+  ## Overview
+  The composer's text used to live only in component state, so navigating
+  away lost it. Unsent text is now autosaved as a draft the author can come
+  back to from any device. Posts can also be scheduled: they are written
+  right away but stay hidden from everyone but their author until their
+  publish time, and then show up in feeds as if posted at that moment.
+
+  ## Changes
+
+  ### 1. post_drafts
+  - id (uuid, primary key): generated by the client, so autosaves upsert
+  - user_id (uuid, references profiles): the author
+  - content (text, up to 5000 characters, may be empty)
+  - created_at, updated_at (timestamptz)
+  Only the author can read or change their drafts.
+
+  ### 2. posts.publish_at
+  - publish_at (timestamptz, nullable): when a scheduled post goes public;
+    NULL for posts published when written
+  BEFORE INSERT OR UPDATE OF publish_at, `schedule_post` sets created_at to
+  publish_at, so a scheduled post takes its place in every (created_at, id)
+  keyset list once it publishes. A publish time already past (e.g. a post
+  delivered late from the outbox) publishes right away. Only posts that are
+  still scheduled can be rescheduled; setting publish_at to NULL publishes
+  one now. AFTER a reschedule, `reschedule_post` moves the post's hashtag
+  index entries, pending notifications and poll end along with it.
+
+  ### 3. Visibility
+  The posts SELECT policy now hides scheduled posts from everyone but their
+  author until publish_at. Lists that include the author's own posts filter
+  scheduled ones out themselves.
+
+  ### 4. Notifications
+  BEFORE INSERT, `date_post_notification` dates notifications about a
+  scheduled post (mentions, quotes) at its publish time, and the SELECT
+  policy hides notifications dated in the future, so they arrive as the post
+  publishes.
+
+  ### 5. Revisions
+  `record_post_revision` keeps no revisions and applies no edit window while
+  a post is still scheduled: nobody has seen it yet.
+
+  ### 6. Functions
+  - create_poll: a scheduled post's poll runs from its publish time
+  - get_trending_hashtags: ignores posts that haven't published yet
+  - get_home_feed: leaves out the viewer's own scheduled posts, and also
+    returns publish_at
+*/
+
+-- ============================================================================
+-- 1. POST_DRAFTS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS post_drafts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  content text NOT NULL DEFAULT '',
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  CONSTRAINT post_draft_content_length CHECK (char_length(content) <= 5000)
+);
+
+CREATE INDEX IF NOT EXISTS post_drafts_user_id_updated_at_idx ON post_drafts(user_id, updated_at DESC);
+
+ALTER TABLE post_drafts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own drafts" ON post_drafts;
+CREATE POLICY "Users can view their own drafts"
+  ON post_drafts FOR SELECT
+  TO authenticated
+  USING ((SELECT auth.uid()) = user_id);
+
+DROP POLICY IF EXISTS "Users can create their own drafts" ON post_drafts;
+CREATE POLICY "Users can create their own drafts"
+  ON post_drafts FOR INSERT
+  TO authenticated
+  WITH CHECK ((SELECT auth.uid()) = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own drafts" ON post_drafts;
+CREATE POLICY "Users can update their own drafts"
+  ON post_drafts FOR UPDATE
+  TO authenticated
+  USING ((SELECT auth.uid()) = user_id)
+  WITH CHECK ((SELECT auth.uid()) = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own drafts" ON post_drafts;
+CREATE POLICY "Users can delete their own drafts"
+  ON post_drafts FOR DELETE
+  TO authenticated
+  USING ((SELECT auth.uid()) = user_id);
+
+DROP TRIGGER IF EXISTS update_post_drafts_updated_at ON post_drafts;
+CREATE TRIGGER update_post_drafts_updated_at
+  BEFORE UPDATE OF content ON post_drafts
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 2. POSTS.PUBLISH_AT
+-- ============================================================================
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS publish_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS posts_user_id_publish_at_idx ON posts(user_id, publish_at) WHERE publish_at IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION schedule_post()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF OLD.publish_at IS NOT DISTINCT FROM NEW.publish_at THEN
+      RETURN NEW;
+    END IF;
+
+    IF OLD.publish_at IS NULL OR OLD.publish_at <= now() THEN
+      RAISE EXCEPTION 'Only scheduled posts can be rescheduled'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    NEW.publish_at := coalesce(NEW.publish_at, now());
+  END IF;
+
+  IF NEW.publish_at IS NOT NULL THEN
+    NEW.publish_at := GREATEST(NEW.publish_at, now());
+    NEW.created_at := NEW.publish_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ language 'plpgsql' SET search_path = public, pg_temp;
+
+DROP TRIGGER IF EXISTS schedule_post ON posts;
+CREATE TRIGGER schedule_post BEFORE INSERT OR UPDATE OF publish_at ON posts
+  FOR EACH ROW EXECUTE FUNCTION schedule_post();
+
+CREATE OR REPLACE FUNCTION reschedule_post()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE post_hashtags SET created_at = NEW.created_at WHERE post_id = NEW.id;
+
+  UPDATE notifications SET created_at = NEW.created_at
+  WHERE post_id = NEW.id AND created_at = OLD.created_at;
+
+  UPDATE polls SET ends_at = ends_at + (NEW.created_at - OLD.created_at)
+  WHERE post_id = NEW.id;
+
+  RETURN NULL;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public, pg_temp;
+
+DROP TRIGGER IF EXISTS reschedule_post ON posts;
+CREATE TRIGGER reschedule_post AFTER UPDATE OF publish_at ON posts
+  FOR EACH ROW
+  WHEN (OLD.created_at IS DISTINCT FROM NEW.created_at)
+  EXECUTE FUNCTION reschedule_post();
+
+-- ============================================================================
+-- 3. VISIBILITY
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Posts are viewable by authenticated users" ON posts;
+CREATE POLICY "Posts are viewable by authenticated users"
+  ON posts FOR SELECT
+  TO authenticated
+  USING (publish_at IS NULL OR publish_at <= now() OR (SELECT auth.uid()) = user_id);
+
+-- ============================================================================
+-- 4. NOTIFICATIONS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION date_post_notification()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.created_at := GREATEST(NEW.created_at, (SELECT publish_at FROM posts WHERE id = NEW.post_id));
+  RETURN NEW;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public, pg_temp;
+
+DROP TRIGGER IF EXISTS date_post_notification ON notifications;
+CREATE TRIGGER date_post_notification BEFORE INSERT ON notifications
+  FOR EACH ROW
+  WHEN (NEW.post_id IS NOT NULL)
+  EXECUTE FUNCTION date_post_notification();
+
+DROP POLICY IF EXISTS "Users can view their own notifications" ON notifications;
+CREATE POLICY "Users can view their own notifications"
+  ON notifications FOR SELECT
+  TO authenticated
+  USING ((SELECT auth.uid()) = user_id AND created_at <= now());
+
+-- ============================================================================
+-- 5. REVISIONS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION record_post_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.publish_at > now() THEN
+    RETURN NEW;
+  END IF;
+
+  IF post_edit_window() IS NOT NULL AND now() > OLD.created_at + post_edit_window() THEN
+    RAISE EXCEPTION 'This post can no longer be edited'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO post_revisions (post_id, content)
+  VALUES (OLD.id, OLD.content);
+
+  RETURN NEW;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- ============================================================================
+-- 6. FUNCTIONS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION create_poll(
+  target_post_id uuid,
+  option_labels text[],
+  duration_minutes integer
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  new_poll_id uuid;
+  opens_at timestamptz;
+BEGIN
+  SELECT GREATEST(now(), publish_at) INTO opens_at
+  FROM posts
+  WHERE id = target_post_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Polls can only be added to your own posts'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF coalesce(array_length(option_labels, 1), 0) NOT BETWEEN 2 AND 4 THEN
+    RAISE EXCEPTION 'A poll needs 2 to 4 options'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF duration_minutes NOT BETWEEN 5 AND 7 * 24 * 60 THEN
+    RAISE EXCEPTION 'A poll runs for 5 minutes to 7 days'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO polls (post_id, ends_at)
+  VALUES (target_post_id, opens_at + make_interval(mins => duration_minutes))
+  RETURNING id INTO new_poll_id;
+
+  INSERT INTO poll_options (poll_id, position, label)
+  SELECT new_poll_id, label.ordinality - 1, btrim(label.value)
+  FROM unnest(option_labels) WITH ORDINALITY AS label(value, ordinality);
+
+  RETURN new_poll_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_trending_hashtags(window_hours integer DEFAULT 24, max_tags integer DEFAULT 10)
+RETURNS TABLE (tag text, posts_count bigint)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public, pg_temp
+AS $$
+  SELECT h.tag, count(*) AS posts_count
+  FROM post_hashtags h
+  WHERE h.created_at >= now() - make_interval(hours => LEAST(GREATEST(window_hours, 1), 24 * 30))
+    AND h.created_at <= now()
+  GROUP BY h.tag
+  ORDER BY posts_count DESC, h.tag ASC
+  LIMIT LEAST(GREATEST(max_tags, 1), 50);
+$$;
+
+DROP FUNCTION IF EXISTS get_home_feed(timestamptz, uuid, timestamptz, uuid, integer);
+
+CREATE FUNCTION get_home_feed(
+  before_created_at timestamptz DEFAULT NULL,
+  before_id uuid DEFAULT NULL,
+  after_created_at timestamptz DEFAULT NULL,
+  after_id uuid DEFAULT NULL,
+  page_size integer DEFAULT 20
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  content text,
+  media jsonb,
+  link_preview_id uuid,
+  quoted_post_id uuid,
+  is_quote boolean,
+  publish_at timestamptz,
+  created_at timestamptz,
+  updated_at timestamptz,
+  is_edited boolean,
+  author jsonb,
+  link_preview jsonb,
+  quoted_post jsonb,
+  likes_count integer,
+  comments_count integer,
+  reposts_count integer,
+  quotes_count integer,
+  liked_by_me boolean,
+  reposted_by_me boolean,
+  bookmarked_by_me boolean,
+  feed_at timestamptz,
+  reposted_by jsonb,
+  poll jsonb
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  viewer_id uuid := auth.uid();
+  row_limit integer := LEAST(GREATEST(page_size, 1), 100);
+  -- Newer pages are read oldest first so the rows closest to the cursor come back.
+  oldest_first boolean := after_created_at IS NOT NULL AND before_created_at IS NULL;
+BEGIN
+  IF viewer_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+    WITH followed AS (
+      SELECT viewer_id AS account_id
+      UNION
+      SELECT f.following_id FROM follows f WHERE f.follower_id = viewer_id
+    ),
+    -- The latest repost of each post by anyone followed.
+    boosts AS (
+      SELECT DISTINCT ON (r.post_id) r.post_id, r.user_id AS reposter_id, r.created_at AS boosted_at
+      FROM reposts r
+      JOIN followed fo ON fo.account_id = r.user_id
+      ORDER BY r.post_id, r.created_at DESC
+    ),
+    items AS (
+      SELECT b.post_id, b.reposter_id, b.boosted_at AS item_at
+      FROM boosts b
+      UNION ALL
+      SELECT p.id, NULL::uuid, p.created_at
+      FROM posts p
+      JOIN followed fo ON fo.account_id = p.user_id
+      WHERE NOT EXISTS (SELECT 1 FROM boosts b WHERE b.post_id = p.id)
+        -- The viewer's own scheduled posts; RLS hides everyone else's.
+        AND (p.publish_at IS NULL OR p.publish_at <= now())
+    )
+    SELECT
+      p.id, p.user_id, p.content, p.media, p.link_preview_id, p.quoted_post_id, p.is_quote,
+      p.publish_at, p.created_at, p.updated_at, p.is_edited,
+      to_jsonb(pr.*),
+      to_jsonb(lp.*),
+      CASE WHEN q.id IS NULL THEN NULL ELSE to_jsonb(q.*) || jsonb_build_object('profiles', to_jsonb(qa.*)) END,
+      p.likes_count,
+      p.comments_count,
+      p.reposts_count,
+      p.quotes_count,
+      liked_by_me(p),
+      reposted_by_me(p),
+      bookmarked_by_me(p),
+      i.item_at,
+      to_jsonb(rb.*),
+      poll_payload(pl)
+    FROM items i
+    JOIN posts p ON p.id = i.post_id
+    JOIN profiles pr ON pr.id = p.user_id
+    LEFT JOIN link_previews lp ON lp.id = p.link_preview_id
+    LEFT JOIN posts q ON q.id = p.quoted_post_id
+    LEFT JOIN profiles qa ON qa.id = q.user_id
+    LEFT JOIN profiles rb ON rb.id = i.reposter_id
+    LEFT JOIN polls pl ON pl.post_id = p.id
+    WHERE (before_created_at IS NULL OR (i.item_at, p.id) < (before_created_at, before_id))
+      AND (after_created_at IS NULL OR (i.item_at, p.id) > (after_created_at, after_id))
+    ORDER BY
+      CASE WHEN oldest_first THEN i.item_at END ASC,
+      CASE WHEN oldest_first THEN p.id END ASC,
+      i.item_at DESC,
+      p.id DESC
+    LIMIT row_limit;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_home_feed(timestamptz, uuid, timestamptz, uuid, integer) TO authenticated;
@@ -0,0 +1,55 @@
+/*
+  # Pinned Posts
+
+  ## Overview
+  Users can pin one of their posts to the top of their profile.
+
+  ## Changes
+
+  ### 1. profiles.pinned_post_id
+  - pinned_post_id (uuid, nullable, references posts ON DELETE SET NULL):
+    the pinned post, cleared when it's deleted
+  Profiles now reference posts as well as the other way round, so embeds
+  between the two name the foreign key they go through
+  (`profiles!posts_user_id_fkey`).
+
+  ### 2. check_pinned_post
+  BEFORE UPDATE OF pinned_post_id: only the profile's own, published posts
+  can be pinned.
+*/
+
+-- ============================================================================
+-- 1. PROFILES.PINNED_POST_ID
+-- ============================================================================
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS pinned_post_id uuid REFERENCES posts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS profiles_pinned_post_id_idx ON profiles(pinned_post_id) WHERE pinned_post_id IS NOT NULL;
+
+-- ============================================================================
+-- 2. CHECK_PINNED_POST
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION check_pinned_post()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.pinned_post_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM posts p
+    WHERE p.id = NEW.pinned_post_id
+      AND p.user_id = NEW.id
+      AND (p.publish_at IS NULL OR p.publish_at <= now())
+  ) THEN
+    RAISE EXCEPTION 'Only your own published posts can be pinned'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ language 'plpgsql' SET search_path = public, pg_temp;
+
+DROP TRIGGER IF EXISTS check_pinned_post ON profiles;
+CREATE TRIGGER check_pinned_post BEFORE UPDATE OF pinned_post_id ON profiles
+  FOR EACH ROW
+  WHEN (NEW.pinned_post_id IS DISTINCT FROM OLD.pinned_post_id)
+  EXECUTE FUNCTION check_pinned_post();
@@ -0,0 +1,270 @@
+/*
+  # Post Reactions
+
+  ## Overview
+  A like was a bare user/post edge shown as a heart. Users can now react to
+  a post with one of a fixed set of emoji instead, still one reaction per
+  user per post, and see how each reaction adds up. Reactions live in
+  `likes`, so every existing like becomes a ❤️ reaction and the like
+  counters, policies and 'like' notifications keep working as they are.
+
+  ## Changes
+
+  ### 1. likes.reaction
+  - reaction (text, default 'heart'): 'heart' (❤️), 'laugh' (😂), 'wow'
+    (😮), 'sad' (😢) or 'thumbs_up' (👍)
+  Users can now update their own likes to change their reaction, and only
+  that: `check_like_update` rejects moving a like to another post or user.
+  Indexed by (post_id, reaction) for the who-reacted lists.
+
+  ### 2. posts.reaction_counts
+  - reaction_counts (jsonb, default '{}'): reaction -> number of users who
+    reacted with it, leaving out reactions nobody picked
+  Backfilled from likes_count, as every like so far is a heart. Maintained
+  by `update_post_likes_count` alongside likes_count, which stays the total,
+  and pinned for top-level writes by `protect_post_counters`.
+
+  ### 3. Computed Fields
+  my_reaction(posts): auth.uid()'s reaction to the post, or NULL.
+  liked_by_me(posts) stays, meaning "reacted at all".
+
+  ### 4. get_home_feed
+  Also returns reaction_counts and my_reaction.
+*/
+
+-- ============================================================================
+-- 1. LIKES.REACTION
+-- ============================================================================
+
+ALTER TABLE likes ADD COLUMN IF NOT EXISTS reaction text DEFAULT 'heart' NOT NULL;
+
+ALTER TABLE likes DROP CONSTRAINT IF EXISTS valid_like_reaction;
+ALTER TABLE likes ADD CONSTRAINT valid_like_reaction
+  CHECK (reaction IN ('heart', 'laugh', 'wow', 'sad', 'thumbs_up'));
+
+CREATE INDEX IF NOT EXISTS likes_post_id_reaction_idx ON likes(post_id, reaction, created_at DESC);
+
+DROP POLICY IF EXISTS "Users can update their own likes" ON likes;
+CREATE POLICY "Users can update their own likes"
+  ON likes FOR UPDATE
+  TO authenticated
+  USING ((SELECT auth.uid()) = user_id)
+  WITH CHECK ((SELECT auth.uid()) = user_id);
+
+CREATE OR REPLACE FUNCTION check_like_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.post_id IS DISTINCT FROM OLD.post_id OR NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'Only the reaction of a like can be changed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql' SET search_path = public, pg_temp;
+
+DROP TRIGGER IF EXISTS check_like_update ON likes;
+CREATE TRIGGER check_like_update BEFORE UPDATE ON likes
+  FOR EACH ROW EXECUTE FUNCTION check_like_update();
+
+-- ============================================================================
+-- 2. POSTS.REACTION_COUNTS
+-- ============================================================================
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS reaction_counts jsonb DEFAULT '{}'::jsonb NOT NULL;
+
+UPDATE posts SET reaction_counts = jsonb_build_object('heart', likes_count) WHERE likes_count > 0;
+
+CREATE OR REPLACE FUNCTION bump_reaction_count(counts jsonb, reaction text, delta integer)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, pg_temp
+AS $$
+  SELECT CASE WHEN c.n > 0 THEN counts || jsonb_build_object(reaction, c.n) ELSE counts - reaction END
+  FROM (SELECT coalesce((counts ->> reaction)::integer, 0) + delta AS n) AS c;
+$$;
+
+CREATE OR REPLACE FUNCTION update_post_likes_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE posts
+    SET likes_count = likes_count + 1,
+        reaction_counts = bump_reaction_count(reaction_counts, NEW.reaction, 1)
+    WHERE id = NEW.post_id;
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE posts
+    SET likes_count = GREATEST(likes_count - 1, 0),
+        reaction_counts = bump_reaction_count(reaction_counts, OLD.reaction, -1)
+    WHERE id = OLD.post_id;
+  ELSE
+    UPDATE posts
+    SET reaction_counts = bump_reaction_count(bump_reaction_count(reaction_counts, OLD.reaction, -1), NEW.reaction, 1)
+    WHERE id = NEW.post_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public, pg_temp;
+
+DROP TRIGGER IF EXISTS update_post_likes_count ON likes;
+CREATE TRIGGER update_post_likes_count AFTER INSERT OR DELETE OR UPDATE OF reaction ON likes
+  FOR EACH ROW EXECUTE FUNCTION update_post_likes_count();
+
+CREATE OR REPLACE FUNCTION protect_post_counters()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF pg_trigger_depth() = 1 THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.likes_count := 0;
+      NEW.comments_count := 0;
+      NEW.reposts_count := 0;
+      NEW.quotes_count := 0;
+      NEW.reaction_counts := '{}'::jsonb;
+    ELSE
+      NEW.likes_count := OLD.likes_count;
+      NEW.comments_count := OLD.comments_count;
+      NEW.reposts_count := OLD.reposts_count;
+      NEW.quotes_count := OLD.quotes_count;
+      NEW.reaction_counts := OLD.reaction_counts;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql' SET search_path = public, pg_temp;
+
+-- ============================================================================
+-- 3. COMPUTED FIELDS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION my_reaction(post posts)
+RETURNS text
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+  SELECT likes.reaction FROM likes
+  WHERE likes.post_id = post.id
+  AND likes.user_id = (SELECT auth.uid());
+$$;
+
+GRANT EXECUTE ON FUNCTION my_reaction(posts) TO authenticated;
+
+-- ============================================================================
+-- 4. GET_HOME_FEED
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS get_home_feed(timestamptz, uuid, timestamptz, uuid, integer);
+
+CREATE FUNCTION get_home_feed(
+  before_created_at timestamptz DEFAULT NULL,
+  before_id uuid DEFAULT NULL,
+  after_created_at timestamptz DEFAULT NULL,
+  after_id uuid DEFAULT NULL,
+  page_size integer DEFAULT 20
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  content text,
+  media jsonb,
+  link_preview_id uuid,
+  quoted_post_id uuid,
+  is_quote boolean,
+  publish_at timestamptz,
+  visibility text,
+  created_at timestamptz,
+  updated_at timestamptz,
+  is_edited boolean,
+  author jsonb,
+  link_preview jsonb,
+  quoted_post jsonb,
+  likes_count integer,
+  comments_count integer,
+  reposts_count integer,
+  quotes_count integer,
+  reaction_counts jsonb,
+  liked_by_me boolean,
+  my_reaction text,
+  reposted_by_me boolean,
+  bookmarked_by_me boolean,
+  feed_at timestamptz,
+  reposted_by jsonb,
+  poll jsonb
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  viewer_id uuid := auth.uid();
+  row_limit integer := LEAST(GREATEST(page_size, 1), 100);
+  -- Newer pages are read oldest first so the rows closest to the cursor come back.
+  oldest_first boolean := after_created_at IS NOT NULL AND before_created_at IS NULL;
+BEGIN
+  IF viewer_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+    WITH followed AS (
+      SELECT viewer_id AS account_id
+      UNION
+      SELECT f.following_id FROM follows f WHERE f.follower_id = viewer_id
+    ),
+    -- The latest repost of each post by anyone followed.
+    boosts AS (
+      SELECT DISTINCT ON (r.post_id) r.post_id, r.user_id AS reposter_id, r.created_at AS boosted_at
+      FROM reposts r
+      JOIN followed fo ON fo.account_id = r.user_id
+      ORDER BY r.post_id, r.created_at DESC
+    ),
+    items AS (
+      SELECT b.post_id, b.reposter_id, b.boosted_at AS item_at
+      FROM boosts b
+      UNION ALL
+      SELECT p.id, NULL::uuid, p.created_at
+      FROM posts p
+      JOIN followed fo ON fo.account_id = p.user_id
+      WHERE NOT EXISTS (SELECT 1 FROM boosts b WHERE b.post_id = p.id)
+        -- The viewer's own scheduled posts; RLS hides everyone else's.
+        AND (p.publish_at IS NULL OR p.publish_at <= now())
+    )
+    SELECT
+      p.id, p.user_id, p.content, p.media, p.link_preview_id, p.quoted_post_id, p.is_quote,
+      p.publish_at, p.visibility, p.created_at, p.updated_at, p.is_edited,
+      to_jsonb(pr.*),
+      to_jsonb(lp.*),
+      CASE WHEN q.id IS NULL THEN NULL ELSE to_jsonb(q.*) || jsonb_build_object('profiles', to_jsonb(qa.*)) END,
+      p.likes_count,
+      p.comments_count,
+      p.reposts_count,
+      p.quotes_count,
+      p.reaction_counts,
+      liked_by_me(p),
+      my_reaction(p),
+      reposted_by_me(p),
+      bookmarked_by_me(p),
+      i.item_at,
+      to_jsonb(rb.*),
+      poll_payload(pl)
+    FROM items i
+    JOIN posts p ON p.id = i.post_id
+    JOIN profiles pr ON pr.id = p.user_id
+    LEFT JOIN link_previews lp ON lp.id = p.link_preview_id
+    LEFT JOIN posts q ON q.id = p.quoted_post_id
+    LEFT JOIN profiles qa ON qa.id = q.user_id
+    LEFT JOIN profiles rb ON rb.id = i.reposter_id
+    LEFT JOIN polls pl ON pl.post_id = p.id
+    WHERE (before_created_at IS NULL OR (i.item_at, p.id) < (before_created_at, before_id))
+      AND (after_created_at IS NULL OR (i.item_at, p.id) > (after_created_at, after_id))
+    ORDER BY
+      CASE WHEN oldest_first THEN i.item_at END ASC,
+      CASE WHEN oldest_first THEN p.id END ASC,
+      i.item_at DESC,
+      p.id DESC
+    LIMIT row_limit;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_home_feed(timestamptz, uuid, timestamptz, uuid, integer) TO authenticated;
@@ -0,0 +1,166 @@
+/*
+  # Featured Liker
+
+  ## Overview
+  Posts say who liked them ("Liked by @maya and 12 others"), naming someone
+  the viewer knows where possible.
+
+  ## Changes
+
+  ### 1. Computed Fields
+  featured_liker(posts): the profile of the person to name, as jsonb, or
+  NULL when nobody but the viewer has reacted. Accounts the viewer follows
+  come first, then the most recent reaction.
+
+  ### 2. get_home_feed
+  Also returns featured_liker.
+*/
+
+-- ============================================================================
+-- 1. COMPUTED FIELDS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION featured_liker(post posts)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+  SELECT to_jsonb(pr.*)
+  FROM likes l
+  JOIN profiles pr ON pr.id = l.user_id
+  WHERE l.post_id = post.id
+    AND l.user_id IS DISTINCT FROM (SELECT auth.uid())
+  ORDER BY
+    EXISTS (
+      SELECT 1 FROM follows f
+      WHERE f.follower_id = (SELECT auth.uid())
+        AND f.following_id = l.user_id
+    ) DESC,
+    l.created_at DESC
+  LIMIT 1;
+$$;
+
+GRANT EXECUTE ON FUNCTION featured_liker(posts) TO authenticated;
+
+-- ============================================================================
+-- 2. GET_HOME_FEED
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS get_home_feed(timestamptz, uuid, timestamptz, uuid, integer);
+
+CREATE FUNCTION get_home_feed(
+  before_created_at timestamptz DEFAULT NULL,
+  before_id uuid DEFAULT NULL,
+  after_created_at timestamptz DEFAULT NULL,
+  after_id uuid DEFAULT NULL,
+  page_size integer DEFAULT 20
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  content text,
+  media jsonb,
+  link_preview_id uuid,
+  quoted_post_id uuid,
+  is_quote boolean,
+  publish_at timestamptz,
+  visibility text,
+  created_at timestamptz,
+  updated_at timestamptz,
+  is_edited boolean,
+  author jsonb,
+  link_preview jsonb,
+  quoted_post jsonb,
+  likes_count integer,
+  comments_count integer,
+  reposts_count integer,
+  quotes_count integer,
+  reaction_counts jsonb,
+  liked_by_me boolean,
+  my_reaction text,
+  featured_liker jsonb,
+  reposted_by_me boolean,
+  bookmarked_by_me boolean,
+  feed_at timestamptz,
+  reposted_by jsonb,
+  poll jsonb
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  viewer_id uuid := auth.uid();
+  row_limit integer := LEAST(GREATEST(page_size, 1), 100);
+  -- Newer pages are read oldest first so the rows closest to the cursor come back.
+  oldest_first boolean := after_created_at IS NOT NULL AND before_created_at IS NULL;
+BEGIN
+  IF viewer_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+    WITH followed AS (
+      SELECT viewer_id AS account_id
+      UNION
+      SELECT f.following_id FROM follows f WHERE f.follower_id = viewer_id
+    ),
+    -- The latest repost of each post by anyone followed.
+    boosts AS (
+      SELECT DISTINCT ON (r.post_id) r.post_id, r.user_id AS reposter_id, r.created_at AS boosted_at
+      FROM reposts r
+      JOIN followed fo ON fo.account_id = r.user_id
+      ORDER BY r.post_id, r.created_at DESC
+    ),
+    items AS (
+      SELECT b.post_id, b.reposter_id, b.boosted_at AS item_at
+      FROM boosts b
+      UNION ALL
+      SELECT p.id, NULL::uuid, p.created_at
+      FROM posts p
+      JOIN followed fo ON fo.account_id = p.user_id
+      WHERE NOT EXISTS (SELECT 1 FROM boosts b WHERE b.post_id = p.id)
+        -- The viewer's own scheduled posts; RLS hides everyone else's.
+        AND (p.publish_at IS NULL OR p.publish_at <= now())
+    )
+    SELECT
+      p.id, p.user_id, p.content, p.media, p.link_preview_id, p.quoted_post_id, p.is_quote,
+      p.publish_at, p.visibility, p.created_at, p.updated_at, p.is_edited,
+      to_jsonb(pr.*),
+      to_jsonb(lp.*),
+      CASE WHEN q.id IS NULL THEN NULL ELSE to_jsonb(q.*) || jsonb_build_object('profiles', to_jsonb(qa.*)) END,
+      p.likes_count,
+      p.comments_count,
+      p.reposts_count,
+      p.quotes_count,
+      p.reaction_counts,
+      liked_by_me(p),
+      my_reaction(p),
+      featured_liker(p),
+      reposted_by_me(p),
+      bookmarked_by_me(p),
+      i.item_at,
+      to_jsonb(rb.*),
+      poll_payload(pl)
+    FROM items i
+    JOIN posts p ON p.id = i.post_id
+    JOIN profiles pr ON pr.id = p.user_id
+    LEFT JOIN link_previews lp ON lp.id = p.link_preview_id
+    LEFT JOIN posts q ON q.id = p.quoted_post_id
+    LEFT JOIN profiles qa ON qa.id = q.user_id
+    LEFT JOIN profiles rb ON rb.id = i.reposter_id
+    LEFT JOIN polls pl ON pl.post_id = p.id
+    WHERE (before_created_at IS NULL OR (i.item_at, p.id) < (before_created_at, before_id))
+      AND (after_created_at IS NULL OR (i.item_at, p.id) > (after_created_at, after_id))
+    ORDER BY
+      CASE WHEN oldest_first THEN i.item_at END ASC,
+      CASE WHEN oldest_first THEN p.id END ASC,
+      i.item_at DESC,
+      p.id DESC
+    LIMIT row_limit;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_home_feed(timestamptz, uuid, timestamptz, uuid, integer) TO authenticated;